@@ -0,0 +1,182 @@
+import { BenchmarkAnalysis, DXY_WEIGHTS } from '@/services/backtesting/BenchmarkAnalysis';
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestingService,
+  AdvancedStrategy
+} from '@/services/backtesting/AdvancedBacktestingService';
+import { CandleData } from '@/types/session';
+
+describe('BenchmarkAnalysis', () => {
+  const start = new Date('2024-03-04T00:00:00Z').getTime();
+  const hour = 3600000;
+
+  const candle = (i: number, close: number, stepMs = hour): CandleData => ({
+    session_id: 'benchmark',
+    candle_index: i,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+    candle_datetime: new Date(start + i * stepMs).toISOString()
+  });
+
+  it('should align benchmark closes to equity dates as of each point', () => {
+    const analysis = new BenchmarkAnalysis();
+    const benchmark = [candle(1, 100), candle(2, 110), candle(3, 99), candle(5, 108.9)];
+    const equityCurve = [0, 1, 3, 4, 5].map((i, k) => ({
+      date: new Date(start + i * hour),
+      equity: 1000 + k * 10
+    }));
+
+    const aligned = analysis.alignReturns(equityCurve, benchmark);
+
+    // Point at hour 0 precedes the benchmark; hour 4 reuses the hour 3 close
+    expect(aligned.dates.map(d => d.getTime())).toEqual([3, 4, 5].map(i => start + i * hour));
+    expect(aligned.benchmark[0]).toBeCloseTo(-0.01, 10);
+    expect(aligned.benchmark[1]).toBe(0);
+    expect(aligned.benchmark[2]).toBeCloseTo(0.1, 10);
+    expect(aligned.strategy[0]).toBeCloseTo(10 / 1010, 10);
+  });
+
+  it('should resample irregular equity onto the benchmark candle grid', () => {
+    const analysis = new BenchmarkAnalysis();
+    const benchmark = [0, 1, 2, 3, 4].map(i => candle(i, 100 + i));
+    const equityCurve = [
+      { date: new Date(start + 0.5 * hour), equity: 1000 },
+      { date: new Date(start + 0.7 * hour), equity: 1010 },
+      { date: new Date(start + 3 * hour), equity: 1020 }
+    ];
+
+    const resampled = analysis.resampleEquity(equityCurve, benchmark);
+
+    // Hour 0 precedes the first equity point; hours 1 and 2 carry the last value before them
+    expect(resampled.map(p => p.date.getTime())).toEqual([1, 2, 3, 4].map(i => start + i * hour));
+    expect(resampled.map(p => p.equity)).toEqual([1010, 1010, 1020, 1020]);
+    expect(analysis.alignReturns(resampled, benchmark).strategy).toHaveLength(3);
+  });
+
+  it('should derive periods per year from the benchmark spacing', () => {
+    const hourly = Array.from({ length: 25 }, (_, i) => candle(i, 100));
+    const weekdays = Array.from({ length: 14 }, (_, i) => i).filter(d => d % 7 < 5).map(d => candle(d, 100, 24 * hour));
+
+    expect(BenchmarkAnalysis.inferPeriodsPerYear(hourly)).toBeCloseTo(365.25 * 24, 6);
+    expect(BenchmarkAnalysis.inferPeriodsPerYear(weekdays)).toBeCloseTo(9 * 365.25 / 11, 6);
+    expect(BenchmarkAnalysis.inferPeriodsPerYear([candle(0, 100)])).toBe(252);
+  });
+
+  it('should recover beta and Jensen alpha of a levered benchmark', () => {
+    const analysis = new BenchmarkAnalysis({ riskFreeRate: 0, periodsPerYear: 252 });
+    const benchmark = Array.from({ length: 60 }, (_, i) => 0.01 * Math.sin(i / 3));
+    const strategy = benchmark.map(r => 2 * r + 0.0001);
+
+    const metrics = analysis.calculateMetrics(strategy, benchmark);
+
+    expect(metrics.beta).toBeCloseTo(2, 8);
+    expect(metrics.correlation).toBeCloseTo(1, 8);
+    expect(metrics.jensenAlpha).toBeCloseTo(0.0001 * 252, 8);
+    expect(metrics.trackingError).toBeGreaterThan(0);
+  });
+
+  it('should produce rolling beta and alpha once the window is filled', () => {
+    const analysis = new BenchmarkAnalysis({ riskFreeRate: 0, rollingWindow: 10 });
+    const benchmark = Array.from({ length: 30 }, (_, i) => 0.01 * Math.cos(i));
+    const aligned = {
+      dates: benchmark.map((_, i) => new Date(start + i * hour)),
+      benchmark,
+      strategy: benchmark.map(r => -0.5 * r)
+    };
+
+    const rolling = analysis.calculateRolling(aligned);
+
+    expect(rolling).toHaveLength(21);
+    expect(rolling[0].date).toEqual(aligned.dates[9]);
+    rolling.forEach(point => expect(point.beta).toBeCloseTo(-0.5, 8));
+  });
+
+  it('should build a dollar index proxy on common timestamps', () => {
+    const eurusd = [candle(0, 1.08), candle(1, 1.09), candle(2, 1.1)];
+    const usdjpy = [candle(1, 150), candle(2, 151)];
+
+    const proxy = BenchmarkAnalysis.createDollarIndexProxy({ 'EUR/USD': eurusd, 'USD/JPY': usdjpy });
+
+    expect(proxy).toHaveLength(2);
+    expect(proxy[0].close).toBeCloseTo(
+      50.14348112 * Math.pow(1.09, DXY_WEIGHTS['EUR/USD']) * Math.pow(150, DXY_WEIGHTS['USD/JPY']),
+      8
+    );
+    expect(() => BenchmarkAnalysis.createDollarIndexProxy({ 'BTC/USD': eurusd })).toThrow('No DXY components');
+  });
+
+  const buyAndHold: AdvancedStrategy = {
+    name: 'Buy and hold',
+    description: 'Single long entry',
+    parameters: {},
+    initialize: () => {},
+    generateSignal: (_data, index) => index === 1 ? {
+      type: 'buy',
+      strength: 1,
+      confidence: 1,
+      reason: 'test',
+      indicators: {},
+      riskLevel: 'low'
+    } : null,
+    calculatePositionSize: () => 50000,
+    shouldExit: () => false,
+    onTrade: () => {},
+    onMarketClose: () => {}
+  };
+  const backtestConfig: AdvancedBacktestConfig = {
+    startDate: new Date(start),
+    endDate: new Date(start + 100 * hour),
+    initialCapital: 100000,
+    commission: 0,
+    slippage: 0,
+    maxPositions: 1,
+    riskPerTrade: 0.01,
+    leverage: 1,
+    marginRequirement: 1,
+    reinvestProfits: false,
+    compoundReturns: false,
+    dynamicPositionSizing: false,
+    stopLossPercent: 0,
+    takeProfitPercent: 0,
+    trailingStop: false,
+    riskFreeRate: 0,
+    benchmarkWindow: 15
+  };
+
+  it('should report relative metrics and rolling series from a backtest', async () => {
+    const candles = Array.from({ length: 80 }, (_, i) => candle(i, 100 + 5 * Math.sin(i / 4) + i * 0.05));
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(buyAndHold, candles, backtestConfig, candles);
+    const withRolling = result.equityCurve.filter(p => p.rollingBeta !== undefined);
+
+    expect(result.beta).toBeGreaterThan(0);
+    expect(result.beta).toBeLessThan(1);
+    expect(result.benchmarkCorrelation).toBeGreaterThan(0.9);
+    expect(result.benchmarkReturn).toBeCloseTo(candles[79].close / candles[1].close - 1, 8); // equity curve starts at the second candle
+    expect(result.equityCurve[0].rollingBeta).toBeUndefined();
+    expect(withRolling.length).toBeGreaterThan(0);
+    expect(withRolling.every(p => Number.isFinite(p.rollingAlpha))).toBe(true);
+  });
+
+  it('should annualize relative metrics of an intraday backtest by the benchmark interval', async () => {
+    const minute = 60000;
+    const candles = Array.from({ length: 80 }, (_, i) => candle(i, 100 + 5 * Math.sin(i / 4) + i * 0.05, minute));
+    const config = { ...backtestConfig, endDate: new Date(start + 100 * minute) };
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(buyAndHold, candles, config, candles);
+
+    const periodsPerYear = BenchmarkAnalysis.inferPeriodsPerYear(candles);
+    expect(periodsPerYear).toBeCloseTo(365.25 * 24 * 60, 0);
+    const analysis = new BenchmarkAnalysis({ riskFreeRate: 0, periodsPerYear });
+    const aligned = analysis.alignReturns(result.equityCurve, candles);
+    const expected = analysis.calculateMetrics(aligned.strategy, aligned.benchmark);
+
+    expect(result.trackingError).toBeGreaterThan(0);
+    expect(result.trackingError).toBeCloseTo(expected.trackingError, 10);
+    expect(result.informationRatio).toBeCloseTo(expected.informationRatio, 8);
+    expect(result.jensenAlpha).toBeCloseTo(expected.jensenAlpha, 8);
+  });
+});
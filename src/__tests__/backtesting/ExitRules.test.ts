@@ -0,0 +1,210 @@
+import { ExitRuleEngine } from '@/services/backtesting/ExitRules';
+import { IntrabarFillModel } from '@/services/backtesting/FillModel';
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestingService,
+  AdvancedStrategy,
+  Position
+} from '@/services/backtesting/AdvancedBacktestingService';
+import { CandleData } from '@/types/session';
+
+describe('ExitRuleEngine', () => {
+  const fillModel = new IntrabarFillModel();
+  const start = new Date('2024-03-04T14:00:00Z').getTime();
+
+  const candle = (i: number, open: number, high: number, low: number, close: number, minutes = 60): CandleData => ({
+    session_id: 'test_session',
+    candle_index: i,
+    open,
+    high,
+    low,
+    close,
+    volume: 1000,
+    candle_datetime: new Date(start + i * minutes * 60000).toISOString()
+  });
+
+  const longPosition = (overrides: Partial<Position> = {}): Position => ({
+    id: 'pos-1',
+    symbol: 'EURUSD',
+    quantity: 100,
+    entryPrice: 100,
+    entryDate: new Date(start),
+    side: 'long',
+    stopLoss: 98,
+    initialStopLoss: 98,
+    entryIndex: 0,
+    initialQuantity: 100,
+    partialExitsTaken: 0,
+    unrealizedPnL: 0,
+    maxFavorableExcursion: 0,
+    maxAdverseExcursion: 0,
+    ...overrides
+  });
+
+  it('should ratchet a percent trailing stop and report trailing exits', () => {
+    const engine = new ExitRuleEngine({ trailingStop: { type: 'percent', distance: 0.01 } });
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 100, 103, 100, 102.5), candle(2, 102, 102.2, 101.5, 101.8)];
+    const position = longPosition();
+
+    engine.updateStops(position, candles, 1);
+    expect(position.trailingStop).toBeCloseTo(101.97, 6);
+
+    engine.updateStops(position, candles, 2);
+    expect(position.trailingStop).toBeCloseTo(101.97, 6);
+
+    const decisions = engine.evaluate(position, candles, 2, fillModel);
+    expect(decisions).toEqual([{ reason: 'trailing_stop', price: 101.97, quantity: 100 }]);
+  });
+
+  it('should move the stop to break-even after the trigger R', () => {
+    const engine = new ExitRuleEngine({ breakEven: { triggerR: 1 } });
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 100, 102.5, 100, 102), candle(2, 101, 101, 99.5, 100)];
+    const position = longPosition();
+
+    engine.updateStops(position, candles, 1);
+    expect(position.stopLoss).toBe(100);
+
+    expect(engine.evaluate(position, candles, 2, fillModel)[0].reason).toBe('break_even');
+  });
+
+  it('should scale out at partial take-profit levels', () => {
+    const engine = new ExitRuleEngine({
+      partialTakeProfits: [{ atR: 1, fraction: 0.5 }, { atR: 2, fraction: 0.25 }]
+    });
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 100, 104.5, 99.5, 104)];
+    const position = longPosition();
+
+    const decisions = engine.evaluate(position, candles, 1, fillModel);
+
+    expect(decisions).toEqual([
+      { reason: 'partial_take_profit', price: 102, quantity: 50 },
+      { reason: 'partial_take_profit', price: 104, quantity: 25 }
+    ]);
+    expect(position.partialExitsTaken).toBe(2);
+  });
+
+  it('should close after the maximum holding period', () => {
+    const engine = new ExitRuleEngine({ maxHoldingCandles: 2 });
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 100, 101, 99, 100), candle(2, 100, 101, 99, 100.5)];
+
+    expect(engine.evaluate(longPosition(), candles, 1, fillModel)).toEqual([]);
+    expect(engine.evaluate(longPosition(), candles, 2, fillModel)).toEqual([
+      { reason: 'timeout', price: 100.5, quantity: 100 }
+    ]);
+  });
+
+  it('should close when the session close time is crossed', () => {
+    const engine = new ExitRuleEngine({ sessionCloseUtc: '16:00' });
+    // 14:00, 15:00, 16:00 UTC
+    const candles = [candle(0, 100, 100, 100, 100), candle(1, 100, 101, 99, 100), candle(2, 100, 101, 99, 100.2)];
+
+    expect(engine.evaluate(longPosition(), candles, 1, fillModel)).toEqual([]);
+    expect(engine.evaluate(longPosition(), candles, 2, fillModel)[0].reason).toBe('session_close');
+  });
+
+  it('should reject partial fractions above 100%', () => {
+    expect(() => new ExitRuleEngine({
+      partialTakeProfits: [{ atR: 1, fraction: 0.7 }, { atR: 2, fraction: 0.5 }]
+    })).toThrow();
+  });
+
+  it('should attribute advanced backtest results by exit reason', async () => {
+    const candles = Array.from({ length: 40 }, (_, i) => {
+      const close = 100 + i * 0.5;
+      return candle(i, close - 0.25, close + 0.3, close - 0.4, close);
+    });
+    const strategy: AdvancedStrategy = {
+      name: 'Every fifth candle',
+      description: 'Opens a long every fifth candle',
+      parameters: {},
+      initialize: () => {},
+      generateSignal: (data, index) => index % 5 === 0 ? {
+        type: 'buy',
+        strength: 1,
+        confidence: 1,
+        reason: 'test',
+        indicators: {},
+        riskLevel: 'low',
+        stopLoss: data[index].close - 1
+      } : null,
+      calculatePositionSize: () => 1000,
+      shouldExit: () => false,
+      onTrade: () => {},
+      onMarketClose: () => {}
+    };
+    const config: AdvancedBacktestConfig = {
+      startDate: new Date(start),
+      endDate: new Date(start + 40 * 3600000),
+      initialCapital: 100000,
+      commission: 0,
+      slippage: 0,
+      maxPositions: 10,
+      riskPerTrade: 0.01,
+      leverage: 1,
+      marginRequirement: 1,
+      reinvestProfits: false,
+      compoundReturns: false,
+      dynamicPositionSizing: false,
+      stopLossPercent: 0,
+      takeProfitPercent: 0,
+      trailingStop: false,
+      riskFreeRate: 0,
+      exitRules: { maxHoldingCandles: 3 }
+    };
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(strategy, candles, config);
+    const timeouts = result.exitAttribution.find(a => a.reason === 'timeout');
+
+    expect(timeouts).toBeDefined();
+    expect(timeouts!.trades).toBe(result.trades.filter(t => t.exitReason === 'timeout').length);
+    expect(result.trades.every(t => t.exitDate.getTime() >= t.entryDate.getTime())).toBe(true);
+  });
+
+  it('should read config.stopLossPercent as percent for the default trailing stop', async () => {
+    const candles = [
+      candle(0, 100, 100, 100, 100),
+      candle(1, 100, 100, 100, 100),
+      candle(2, 100, 110, 100, 110),
+      candle(3, 110, 110, 109, 109.5),
+      candle(4, 109, 109, 105, 106)
+    ];
+    const strategy: AdvancedStrategy = {
+      name: 'Single entry',
+      description: 'Opens one long on the second candle',
+      parameters: {},
+      initialize: () => {},
+      generateSignal: (_data, index) => index === 1 ? {
+        type: 'buy', strength: 1, confidence: 1, reason: 'test', indicators: {}, riskLevel: 'low'
+      } : null,
+      calculatePositionSize: () => 1000,
+      shouldExit: () => false,
+      onTrade: () => {},
+      onMarketClose: () => {}
+    };
+    const config: AdvancedBacktestConfig = {
+      startDate: new Date(start),
+      endDate: new Date(start + 10 * 3600000),
+      initialCapital: 100000,
+      commission: 0,
+      slippage: 0,
+      maxPositions: 1,
+      riskPerTrade: 0.01,
+      leverage: 1,
+      marginRequirement: 1,
+      reinvestProfits: false,
+      compoundReturns: false,
+      dynamicPositionSizing: false,
+      stopLossPercent: 2,
+      takeProfitPercent: 0,
+      trailingStop: true,
+      riskFreeRate: 0
+    };
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(strategy, candles, config);
+
+    // 2% below the 110 high
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('trailing_stop');
+    expect(result.trades[0].exitPrice).toBeCloseTo(107.8, 6);
+  });
+});
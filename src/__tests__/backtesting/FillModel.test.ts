@@ -0,0 +1,56 @@
+import { IntrabarFillModel } from '@/services/backtesting/FillModel';
+
+describe('IntrabarFillModel', () => {
+  const longLevels = { side: 'long' as const, stopLoss: 98, takeProfit: 104 };
+  const shortLevels = { side: 'short' as const, stopLoss: 102, takeProfit: 96 };
+
+  // Both levels inside the range
+  const bullishBar = { open: 100, high: 105, low: 97, close: 103 };
+  const bearishBar = { open: 100, high: 105, low: 95, close: 97 };
+
+  it('should return null when no level is touched', () => {
+    const model = new IntrabarFillModel();
+
+    expect(model.resolveExit({ open: 100, high: 101, low: 99, close: 100.5 }, longLevels)).toBeNull();
+  });
+
+  it('should fill at the level when only one side is hit', () => {
+    const model = new IntrabarFillModel();
+
+    expect(model.resolveExit({ open: 100, high: 104.5, low: 99, close: 104 }, longLevels))
+      .toEqual({ reason: 'take_profit', price: 104, gapped: false });
+  });
+
+  it('should resolve ambiguous bars per model type', () => {
+    expect(new IntrabarFillModel({ type: 'pessimistic' }).resolveExit(bullishBar, longLevels)?.reason).toBe('stop_loss');
+    expect(new IntrabarFillModel({ type: 'optimistic' }).resolveExit(bullishBar, longLevels)?.reason).toBe('take_profit');
+  });
+
+  it('should follow the OHLC path heuristic based on candle direction', () => {
+    const model = new IntrabarFillModel({ type: 'ohlc_path' });
+
+    // Bullish: open -> low -> high -> close
+    expect(model.resolveExit(bullishBar, longLevels)?.reason).toBe('stop_loss');
+    expect(model.resolveExit({ ...bullishBar, low: 95 }, shortLevels)?.reason).toBe('take_profit');
+
+    // Bearish: open -> high -> low -> close
+    expect(model.resolveExit(bearishBar, longLevels)?.reason).toBe('take_profit');
+    expect(model.resolveExit(bearishBar, shortLevels)?.reason).toBe('stop_loss');
+  });
+
+  it('should fill at the open when price gaps through a level', () => {
+    const model = new IntrabarFillModel();
+
+    expect(model.resolveExit({ open: 96, high: 97, low: 94, close: 95 }, longLevels))
+      .toEqual({ reason: 'stop_loss', price: 96, gapped: true });
+    expect(model.resolveExit({ open: 94, high: 95, low: 93, close: 94 }, shortLevels))
+      .toEqual({ reason: 'take_profit', price: 94, gapped: true });
+  });
+
+  it('should fill at the level when gap fills are disabled', () => {
+    const model = new IntrabarFillModel({ gapFills: false });
+
+    expect(model.resolveExit({ open: 96, high: 97, low: 94, close: 95 }, longLevels))
+      .toEqual({ reason: 'stop_loss', price: 98, gapped: false });
+  });
+});
@@ -0,0 +1,81 @@
+import { FxCostConfig, FxCostModel, summarizeCosts } from '@/services/backtesting/FxCostModel';
+import { getNewYorkUtcOffset, getRolloversBetween } from '@/utils/dateTimeUtils';
+
+describe('FxCostModel', () => {
+  const baseConfig: FxCostConfig = {
+    useCandleSpread: true,
+    candleSpreadUnit: 'pips',
+    commissionPerLot: 3.5,
+    swapLongPerLot: -6,
+    swapShortPerLot: 2
+  };
+
+  // 2024-01-08 is a Monday
+  const monday = Date.UTC(2024, 0, 8, 12);
+  const day = 24 * 3600000;
+
+  it('should use JPY pip size for yen pairs', () => {
+    expect(FxCostModel.pipSize('USD/JPY')).toBe(0.01);
+    expect(FxCostModel.pipSize('EUR/USD')).toBe(0.0001);
+  });
+
+  it('should prefer the candle spread over the pair table', () => {
+    const model = new FxCostModel(baseConfig);
+
+    expect(model.spreadInPrice('EUR/USD', 2)).toBeCloseTo(0.0002, 10);
+    expect(model.spreadInPrice('EUR/USD')).toBeCloseTo(0.00008, 10);
+    expect(new FxCostModel({ ...baseConfig, candleSpreadUnit: 'price' }).spreadInPrice('EUR/USD', 0.0003)).toBe(0.0003);
+    expect(new FxCostModel({ ...baseConfig, useCandleSpread: false }).spreadInPrice('GBP/JPY', 5)).toBeCloseTo(0.025, 10);
+  });
+
+  it('should charge spread and per-lot commission for an intraday trade', () => {
+    const model = new FxCostModel(baseConfig);
+    const costs = model.calculateTradeCosts({
+      symbol: 'EUR/USD',
+      direction: 'long',
+      units: 100000,
+      entryTime: monday,
+      exitTime: monday + 3600000,
+      entrySpread: 1,
+      exitSpread: 3
+    });
+
+    expect(costs.spread).toBeCloseTo(20, 6); // (0.5 + 1.5) pips * 10 per pip
+    expect(costs.commission).toBeCloseTo(7, 6);
+    expect(costs.rolloverNights).toBe(0);
+    expect(costs.total).toBeCloseTo(27, 6);
+  });
+
+  it('should count a triple swap on Wednesday and skip weekends', () => {
+    const model = new FxCostModel(baseConfig);
+
+    // Mon -> Fri noon: Mon, Tue, Wed (x3), Thu
+    expect(model.countRolloverNights(monday, monday + 4 * day)).toBe(6);
+    // Fri -> Mon noon: only the Friday rollover
+    expect(model.countRolloverNights(monday + 4 * day, monday + 7 * day)).toBe(1);
+  });
+
+  it('should charge negative swap as cost and credit positive swap', () => {
+    const model = new FxCostModel({ ...baseConfig, commissionPerLot: 0, spreadPips: 0, useCandleSpread: false });
+    const input = { symbol: 'EUR/USD', units: 200000, entryTime: monday, exitTime: monday + 2 * day };
+
+    const long = model.calculateTradeCosts({ ...input, direction: 'long' });
+    const short = model.calculateTradeCosts({ ...input, direction: 'short' });
+
+    expect(long.swap).toBeCloseTo(24, 6); // 2 lots * 6 * 2 nights
+    expect(short.swap).toBeCloseTo(-8, 6);
+    expect(summarizeCosts([long, short]).total).toBeCloseTo(16, 6);
+  });
+
+  it('should place rollovers at 17:00 New York across DST', () => {
+    expect(getNewYorkUtcOffset(new Date(Date.UTC(2024, 0, 15)))).toBe(-5);
+    expect(getNewYorkUtcOffset(new Date(Date.UTC(2024, 6, 15)))).toBe(-4);
+
+    const winter = getRolloversBetween(new Date(Date.UTC(2024, 0, 15, 12)), new Date(Date.UTC(2024, 0, 16, 12)));
+    const summer = getRolloversBetween(new Date(Date.UTC(2024, 6, 15, 12)), new Date(Date.UTC(2024, 6, 16, 12)));
+
+    expect(winter.map(r => r.time.toISOString())).toEqual(['2024-01-15T22:00:00.000Z']);
+    expect(summer.map(r => r.time.toISOString())).toEqual(['2024-07-15T21:00:00.000Z']);
+    expect(summer[0].newYorkWeekday).toBe(1);
+  });
+});
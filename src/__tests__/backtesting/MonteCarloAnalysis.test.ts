@@ -0,0 +1,68 @@
+import { MonteCarloAnalysis, MonteCarloTrade } from '@/services/backtesting/MonteCarloAnalysis';
+import { Trade } from '@/services/ml/BacktestingEngine';
+
+describe('MonteCarloAnalysis', () => {
+  const trades: MonteCarloTrade[] = [
+    ...Array.from({ length: 30 }, () => ({ pnl: 150, notional: 1000 })),
+    ...Array.from({ length: 20 }, () => ({ pnl: -200, notional: 1000 }))
+  ];
+
+  it('should keep final equity constant when only the order is shuffled', () => {
+    const analysis = new MonteCarloAnalysis({ iterations: 200, method: 'shuffle', seed: 1 });
+    const result = analysis.run(trades, 10000);
+
+    expect(result.finalEquity.min).toBeCloseTo(10500, 6);
+    expect(result.finalEquity.max).toBeCloseTo(10500, 6);
+    // Original order (all wins, then all losses) is the worst possible path
+    expect(result.maxDrawdownPercent.max).toBeLessThanOrEqual(result.original.maxDrawdownPercent + 1e-9);
+    expect(result.maxDrawdownPercent.min).toBeLessThan(result.original.maxDrawdownPercent);
+  });
+
+  it('should produce ordered percentiles for bootstrapped runs', () => {
+    const analysis = new MonteCarloAnalysis({ iterations: 500, seed: 42 });
+    const result = analysis.run(trades, 10000);
+    const p = result.maxDrawdownPercent.percentiles;
+
+    expect(p[5]).toBeLessThanOrEqual(p[50]);
+    expect(p[50]).toBeLessThanOrEqual(p[95]);
+    expect(result.finalEquity.min).toBeLessThan(result.finalEquity.max);
+  });
+
+  it('should be reproducible for a fixed seed', () => {
+    const first = new MonteCarloAnalysis({ iterations: 100, seed: 9 }).run(trades, 10000);
+    const second = new MonteCarloAnalysis({ iterations: 100, seed: 9 }).run(trades, 10000);
+
+    expect(first.finalEquity).toEqual(second.finalEquity);
+  });
+
+  it('should report higher ruin probability for smaller capital', () => {
+    const analysis = new MonteCarloAnalysis({ iterations: 300, seed: 3, ruinLevelPercent: 20 });
+
+    const small = analysis.run(trades, 2000);
+    const large = analysis.run(trades, 50000);
+
+    expect(small.probabilityOfRuin).toBeGreaterThan(large.probabilityOfRuin);
+    expect(large.probabilityOfRuin).toBe(0);
+  });
+
+  it('should reduce equity when random slippage is applied', () => {
+    const clean = new MonteCarloAnalysis({ iterations: 200, method: 'shuffle', seed: 5 }).run(trades, 10000);
+    const slipped = new MonteCarloAnalysis({
+      iterations: 200,
+      method: 'shuffle',
+      seed: 5,
+      maxSlippagePercent: 1
+    }).run(trades, 10000);
+
+    expect(slipped.finalEquity.mean).toBeLessThan(clean.finalEquity.mean);
+  });
+
+  it('should only convert closed engine trades', () => {
+    const engineTrades: Trade[] = [
+      { id: 'a', entryTime: 0, entryPrice: 100, direction: 'long', size: 2, status: 'closed', pnl: 10 },
+      { id: 'b', entryTime: 0, entryPrice: 100, direction: 'long', size: 2, status: 'open' }
+    ];
+
+    expect(MonteCarloAnalysis.fromEngineTrades(engineTrades)).toEqual([{ pnl: 10, notional: 200 }]);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestingService,
+  AdvancedStrategy
+} from '@/services/backtesting/AdvancedBacktestingService';
+import { compileStrategy } from '@/services/backtesting/StrategyDSL';
+import { CandleData } from '@/types/session';
+
+describe('AdvancedBacktestingService portfolio mode', () => {
+  const service = AdvancedBacktestingService.getInstance();
+  const start = new Date('2024-02-01T00:00:00Z').getTime();
+  const hour = 3600000;
+
+  const series = (symbol: string, base: number, drift: number, offsetHours = 0, length = 48): CandleData[] =>
+    Array.from({ length }, (_, i) => {
+      const close = base + drift * i;
+      return {
+        id: `${symbol}_${i}`,
+        session_id: symbol,
+        candle_index: i,
+        open: close - drift / 2,
+        high: close + Math.abs(drift),
+        low: close - Math.abs(drift),
+        close,
+        volume: 1000,
+        candle_datetime: new Date(start + (i + offsetHours) * hour).toISOString()
+      };
+    });
+
+  const config: AdvancedBacktestConfig = {
+    startDate: new Date(start),
+    endDate: new Date(start + 100 * hour),
+    initialCapital: 10000,
+    commission: 0,
+    slippage: 0,
+    maxPositions: 2,
+    riskPerTrade: 0.01,
+    leverage: 10,
+    marginRequirement: 0.1,
+    reinvestProfits: false,
+    compoundReturns: false,
+    dynamicPositionSizing: false,
+    stopLossPercent: 0,
+    takeProfitPercent: 0,
+    trailingStop: false,
+    riskFreeRate: 0,
+    exitRules: { maxHoldingCandles: 4 }
+  };
+
+  const alwaysLong: AdvancedStrategy = {
+    name: 'Always long',
+    description: 'Buys on every candle',
+    parameters: {},
+    initialize: () => {},
+    generateSignal: () => ({
+      type: 'buy',
+      strength: 1,
+      confidence: 1,
+      reason: 'test',
+      indicators: {},
+      riskLevel: 'low'
+    }),
+    calculatePositionSize: () => 20000,
+    shouldExit: () => false,
+    onTrade: () => {},
+    onMarketClose: () => {}
+  };
+
+  it('should enforce maxPositions across all symbols', async () => {
+    const result = await service.runPortfolioBacktest(alwaysLong, {
+      'EUR/USD': series('EUR/USD', 1.1, 0.001),
+      'GBP/USD': series('GBP/USD', 1.3, -0.001),
+      'USD/JPY': series('USD/JPY', 150, 0.1)
+    }, config);
+
+    expect(result.equityCurve.every(p => p.longPositions <= config.maxPositions)).toBe(true);
+    expect(result.trades.length).toBeGreaterThan(0);
+  });
+
+  it('should block entries when shared margin is exhausted', async () => {
+    const result = await service.runPortfolioBacktest(alwaysLong, {
+      'EUR/USD': series('EUR/USD', 1.1, 0),
+      'GBP/USD': series('GBP/USD', 1.3, 0)
+    }, { ...config, maxPositions: 10, leverage: 3 });
+
+    // Leverage 3 caps total exposure at ~30000, so only one 20000 position fits at a time
+    expect(result.equityCurve.every(p => p.longPositions <= 1)).toBe(true);
+  });
+
+  it('should align timestamps across symbols with different start times', async () => {
+    const result = await service.runPortfolioBacktest(alwaysLong, {
+      'EUR/USD': series('EUR/USD', 1.1, 0.001, 0, 24),
+      'AUD/USD': series('AUD/USD', 0.65, 0.001, 12, 24)
+    }, config);
+
+    expect(result.equityCurve).toHaveLength(36);
+    const times = result.equityCurve.map(p => p.date.getTime());
+    expect([...times].sort((a, b) => a - b)).toEqual(times);
+  });
+
+  it('should report per-symbol contribution that sums to total P&L', async () => {
+    const result = await service.runPortfolioBacktest(alwaysLong, {
+      'EUR/USD': series('EUR/USD', 1.1, 0.001),
+      'GBP/USD': series('GBP/USD', 1.3, -0.001)
+    }, config);
+
+    const contribution = result.performanceAttribution.symbolContribution;
+    const totalPnL = result.trades.reduce((sum, t) => sum + t.netPnL, 0);
+
+    expect(contribution.map(c => c.symbol).sort()).toEqual(['EUR/USD', 'GBP/USD']);
+    expect(contribution.reduce((sum, c) => sum + c.netPnL, 0)).toBeCloseTo(totalPnL, 6);
+    expect(contribution.find(c => c.symbol === 'EUR/USD')!.netPnL).toBeGreaterThan(0);
+    expect(contribution.find(c => c.symbol === 'GBP/USD')!.netPnL).toBeLessThan(0);
+  });
+
+  it('should let a DSL strategy hold positions in several symbols at once', async () => {
+    const strategy = compileStrategy(`
+      name: Always in
+      enter long when close > 0
+      size 20%
+    `);
+
+    const result = await service.runPortfolioBacktest(strategy, {
+      'EUR/USD': series('EUR/USD', 1.1, 0.001),
+      'GBP/USD': series('GBP/USD', 1.3, 0.001)
+    }, config);
+
+    // No pyramiding within a symbol, but both symbols are held at the same time
+    expect(result.equityCurve.every(p => p.longPositions <= 2)).toBe(true);
+    expect(result.equityCurve.some(p => p.longPositions === 2)).toBe(true);
+    expect(new Set(result.trades.map(t => t.symbol))).toEqual(new Set(['EUR/USD', 'GBP/USD']));
+  });
+});
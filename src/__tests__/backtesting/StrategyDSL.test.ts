@@ -0,0 +1,141 @@
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestingService,
+  Portfolio
+} from '@/services/backtesting/AdvancedBacktestingService';
+import {
+  compileStrategy,
+  parseStrategyText,
+  StrategyDSLError,
+  validateStrategyDefinition
+} from '@/services/backtesting/StrategyDSL';
+import { indicatorFactory } from '@/services/indicators/indicator-factory';
+import { CandleData } from '@/types/session';
+
+describe('StrategyDSL', () => {
+  const start = new Date('2024-04-01T00:00:00Z').getTime();
+  const hour = 3600000;
+
+  // Синусоида: цена регулярно пересекает свою скользящую среднюю
+  const candles: CandleData[] = Array.from({ length: 120 }, (_, i) => {
+    const close = 100 + 5 * Math.sin(i / 6);
+    return {
+      id: `dsl_${i}`,
+      session_id: 'dsl',
+      candle_index: i,
+      open: close - 0.1,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000,
+      candle_datetime: new Date(start + i * hour).toISOString()
+    };
+  });
+
+  const config: AdvancedBacktestConfig = {
+    startDate: new Date(start),
+    endDate: new Date(start + 200 * hour),
+    initialCapital: 10000,
+    commission: 0,
+    slippage: 0,
+    maxPositions: 1,
+    riskPerTrade: 0.01,
+    leverage: 1,
+    marginRequirement: 1,
+    reinvestProfits: false,
+    compoundReturns: false,
+    dynamicPositionSizing: false,
+    stopLossPercent: 0,
+    takeProfitPercent: 0,
+    trailingStop: false,
+    riskFreeRate: 0
+  };
+
+  it('should parse the text format into a definition', () => {
+    const definition = parseStrategyText(`
+      name: RSI pullback
+      enter long when rsi(14) < 30 and close > ema(200)
+      exit when rsi(14) > 55
+      stop loss 2%
+      take profit 4%
+    `);
+
+    expect(definition).toEqual({
+      name: 'RSI pullback',
+      entryLong: 'rsi(14) < 30 and close > ema(200)',
+      exitLong: 'rsi(14) > 55',
+      exitShort: 'rsi(14) > 55',
+      stopLossPercent: 2,
+      takeProfitPercent: 4
+    });
+  });
+
+  it('should report the indicators a valid strategy needs', () => {
+    const result = validateStrategyDefinition({
+      name: 'MACD',
+      entryLong: 'macd(12, 26, 9).macd crosses above macd(12, 26, 9).signal',
+      exitLong: 'bollinger(20, 2.5).percentB > 1'
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.indicators.map(i => i.key).sort()).toEqual([
+      'bollinger(20,2.5).percentB',
+      'macd(12,26,9).macd',
+      'macd(12,26,9).signal'
+    ]);
+  });
+
+  it('should reject unknown indicators, outputs and non-boolean rules with positions', () => {
+    const unknown = validateStrategyDefinition({ name: 'x', entryLong: 'close > vwma(20)' });
+    expect(unknown.valid).toBe(false);
+    expect(unknown.errors[0]).toBeInstanceOf(StrategyDSLError);
+    expect(unknown.errors[0].position).toBe(8);
+
+    expect(validateStrategyDefinition({ name: 'x', entryLong: 'macd().upper > 0' }).errors[0].message)
+      .toContain("no output 'upper'");
+    expect(validateStrategyDefinition({ name: 'x', entryLong: 'rsi(14) + 1' }).errors[0].message)
+      .toContain('Expected a condition');
+    expect(validateStrategyDefinition({ name: 'x', entryLong: 'rsi(14.5) < 30' }).valid).toBe(false);
+    expect(() => parseStrategyText('buy when cheap')).toThrow(StrategyDSLError);
+  });
+
+  it('should compute SMA and EMA through the indicator factory', async () => {
+    const points = [1, 2, 3, 4, 5].map((close, i) => ({
+      timestamp: start + i * hour, open: close, high: close, low: close, close, volume: 1
+    }));
+
+    // Без кэша: иначе CacheManager запускает таймер очистки
+    const options = { period: 3, validationLevel: 'relaxed' as const, enableCaching: false };
+    const sma = await indicatorFactory.createSMA(options).calculate(points);
+    const ema = await indicatorFactory.createEMA(options).calculate(points);
+
+    expect(sma.values.slice(2)).toEqual([2, 3, 4]);
+    expect(ema.values.slice(2)).toEqual([2, 3, 4]);
+    expect(indicatorFactory.getAvailableIndicators()).toEqual(expect.arrayContaining(['sma', 'ema', 'rsi']));
+  });
+
+  it('should backtest a compiled strategy with rule-based exits', async () => {
+    const strategy = compileStrategy(`
+      name: SMA cross
+      enter long when close crosses above sma(10)
+      exit long when close crosses below sma(10)
+      size 50%
+    `);
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(strategy, candles, config);
+
+    expect(result.totalTrades).toBeGreaterThan(2);
+    expect(result.trades.every(t => t.side === 'long')).toBe(true);
+    expect(result.trades.filter(t => t.exitReason === 'strategy_exit').length).toBeGreaterThan(0);
+  });
+
+  it('should require prepare() before generating signals', () => {
+    const strategy = compileStrategy({ name: 'x', entryLong: 'close > 0' });
+    const portfolio: Portfolio = {
+      cash: 0, equity: 0, positions: [], totalValue: 0, leverage: 1,
+      marginUsed: 0, freeMargin: 0, returns: [], drawdowns: [], trades: []
+    };
+
+    expect(() => strategy.generateSignal(candles, 5, portfolio)).toThrow('not prepared');
+  });
+});
@@ -0,0 +1,155 @@
+import { WalkForwardService, WalkForwardConfig, StrategyParameters } from '@/services/backtesting/WalkForwardService';
+import {
+  AdvancedBacktestConfig,
+  AdvancedStrategy,
+  AdvancedSignal
+} from '@/services/backtesting/AdvancedBacktestingService';
+import { CandleData } from '@/types/session';
+
+describe('WalkForwardService', () => {
+  const service = WalkForwardService.getInstance();
+  const start = new Date('2024-01-01T00:00:00Z').getTime();
+
+  const candles: CandleData[] = Array.from({ length: 300 }, (_, i) => {
+    const close = 1.1 + Math.sin(i / 6) * 0.01;
+    return {
+      id: `candle_${i}`,
+      session_id: 'test_session',
+      candle_index: i,
+      open: close,
+      high: close + 0.002,
+      low: close - 0.002,
+      close,
+      volume: 1000,
+      candle_datetime: new Date(start + i * 3600000).toISOString()
+    };
+  });
+
+  const config: AdvancedBacktestConfig = {
+    startDate: new Date(start),
+    endDate: new Date(start + 300 * 3600000),
+    initialCapital: 10000,
+    commission: 0.0001,
+    slippage: 0,
+    maxPositions: 1,
+    riskPerTrade: 0.02,
+    leverage: 1,
+    marginRequirement: 1,
+    reinvestProfits: true,
+    compoundReturns: true,
+    dynamicPositionSizing: false,
+    stopLossPercent: 2,
+    takeProfitPercent: 2,
+    trailingStop: false,
+    riskFreeRate: 0
+  };
+
+  const createStrategy = (params: StrategyParameters): AdvancedStrategy => ({
+    name: 'Test Threshold',
+    description: 'Buys dips below the lookback average',
+    parameters: params,
+    initialize: () => {},
+    generateSignal: (data, index, portfolio): AdvancedSignal | null => {
+      const lookback = Number(params.lookback);
+      if (index < lookback || portfolio.positions.length > 0) return null;
+      const window = data.slice(index - lookback, index);
+      const avg = window.reduce((sum, c) => sum + c.close, 0) / window.length;
+      const current = data[index].close;
+      if (current >= avg * (1 - Number(params.threshold))) return null;
+      return {
+        type: 'buy',
+        strength: 1,
+        confidence: 1,
+        reason: 'dip',
+        indicators: {},
+        riskLevel: 'low',
+        stopLoss: current * 0.99,
+        takeProfit: current * 1.005
+      };
+    },
+    calculatePositionSize: (_signal, portfolio) => portfolio.cash * 0.1,
+    shouldExit: () => false,
+    onTrade: () => {},
+    onMarketClose: () => {}
+  });
+
+  const wfConfig: WalkForwardConfig = {
+    inSampleSize: 100,
+    outOfSampleSize: 50,
+    warmupCandles: 20,
+    searchMethod: 'grid',
+    objective: 'totalReturn',
+    minTrades: 0
+  };
+
+  describe('Window Construction', () => {
+    it('should build rolling windows stepped by the OOS size', () => {
+      const windows = service.buildWindows(300, wfConfig);
+
+      expect(windows).toHaveLength(4);
+      expect(windows[1]).toEqual({ inSampleStart: 50, inSampleEnd: 150, outOfSampleEnd: 200 });
+    });
+
+    it('should anchor in-sample windows to the start of history', () => {
+      const windows = service.buildWindows(300, { ...wfConfig, anchored: true });
+
+      expect(windows.every(w => w.inSampleStart === 0)).toBe(true);
+      expect(windows[3].inSampleEnd).toBe(250);
+    });
+  });
+
+  describe('Parameter Search', () => {
+    it('should enumerate the cartesian product for grid search', () => {
+      const candidates = service.generateCandidates(
+        { lookback: [10, 20], threshold: { min: 0.001, max: 0.003, step: 0.001 } },
+        wfConfig
+      );
+
+      expect(candidates).toHaveLength(6);
+      expect(candidates).toContainEqual({ lookback: 20, threshold: 0.003 });
+    });
+
+    it('should produce reproducible random samples for a given seed', () => {
+      const space = { lookback: { min: 5, max: 40, integer: true }, threshold: [0.001, 0.002] };
+      const randomConfig: WalkForwardConfig = { ...wfConfig, searchMethod: 'random', randomSamples: 8, seed: 7 };
+
+      const first = service.generateCandidates(space, randomConfig);
+      const second = service.generateCandidates(space, randomConfig);
+
+      expect(first).toHaveLength(8);
+      expect(first).toEqual(second);
+      first.forEach(p => {
+        expect(Number.isInteger(p.lookback)).toBe(true);
+        expect(p.lookback).toBeGreaterThanOrEqual(5);
+        expect(p.lookback).toBeLessThanOrEqual(40);
+      });
+    });
+  });
+
+  describe('Walk-Forward Run', () => {
+    it('should stitch only out-of-sample equity into the combined result', async () => {
+      const result = await service.runWalkForward(
+        createStrategy,
+        { lookback: [10, 20], threshold: [0.002, 0.005] },
+        candles,
+        config,
+        wfConfig
+      );
+
+      expect(result.windows).toHaveLength(4);
+      expect(result.windows[0].trials).toHaveLength(4);
+
+      const firstOosStart = result.windows[0].outOfSampleStart;
+      expect(result.result.equityCurve.every(p => p.date >= firstOosStart)).toBe(true);
+
+      const windowTrades = result.windows.reduce((sum, w) => sum + w.outOfSampleResult.trades.length, 0);
+      expect(result.result.totalTrades).toBe(windowTrades);
+    });
+
+    it('should reject histories shorter than one window', async () => {
+      await expect(
+        service.runWalkForward(createStrategy, {}, candles.slice(0, 120), config, wfConfig)
+      ).rejects.toThrow('Not enough data for walk-forward');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { CandleData } from '@/types/session';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import {
+  TickCandleAggregator,
+  aggregateTicks,
+  getBrokerDayStart,
+  resampleCandles
+} from '@/services/data/CandleResampler';
+
+describe('CandleResampler', () => {
+  const MINUTE = 60 * 1000;
+
+  // Minute candles with close = 100 + i, starting at the given UTC time
+  const makeMinuteCandles = (start: string, count: number, stepMinutes = 1): CandleData[] =>
+    Array.from({ length: count }, (_, i) => ({
+      session_id: 'session_1',
+      candle_index: i,
+      candle_datetime: new Date(new Date(start).getTime() + i * stepMinutes * MINUTE).toISOString(),
+      open: 100 + i - 0.5,
+      high: 100 + i + 1,
+      low: 100 + i - 1,
+      close: 100 + i,
+      volume: 10,
+      spread: i % 2 ? 2 : 1
+    }));
+
+  it('should parse standard and custom timeframes', () => {
+    expect(['1m', '3m', '15m', '2h', '4h', '1d'].map(parseTimeframe)).toEqual([1, 3, 15, 120, 240, 1440]);
+    expect(() => parseTimeframe('0m')).toThrow('Неподдерживаемый таймфрейм');
+    expect(() => parseTimeframe('5x')).toThrow('Неподдерживаемый таймфрейм');
+  });
+
+  it('should aggregate minute candles into 5m and custom 3m candles', () => {
+    const candles = makeMinuteCandles('2026-07-14T10:00:00Z', 12).reverse();
+
+    const fiveMinute = resampleCandles(candles, '5m', { sourceTimeframe: '1m' });
+    expect(fiveMinute.map(c => c.candle_datetime)).toEqual([
+      '2026-07-14T10:00:00.000Z', '2026-07-14T10:05:00.000Z', '2026-07-14T10:10:00.000Z'
+    ]);
+    expect(fiveMinute[0]).toMatchObject({ candle_index: 0, open: 99.5, high: 105, low: 99, close: 104, volume: 50, spread: 1.4 });
+
+    const complete = resampleCandles(candles, '5m', { sourceTimeframe: '1m', includePartial: false });
+    expect(complete).toHaveLength(2);
+
+    expect(resampleCandles(candles, '3m').map(c => c.close)).toEqual([102, 105, 108, 111]);
+    expect(() => resampleCandles(candles, '5m', { sourceTimeframe: '2m' })).toThrow('не кратен');
+  });
+
+  it('should close daily and 4h candles at 17:00 New York', () => {
+    // Summer (EDT): 17:00 NY = 21:00 UTC
+    expect(new Date(getBrokerDayStart(Date.parse('2026-07-14T20:59:00Z'))).toISOString()).toBe('2026-07-13T21:00:00.000Z');
+    expect(new Date(getBrokerDayStart(Date.parse('2026-07-14T21:00:00Z'))).toISOString()).toBe('2026-07-14T21:00:00.000Z');
+    // Winter (EST): 17:00 NY = 22:00 UTC
+    expect(new Date(getBrokerDayStart(Date.parse('2026-01-14T21:30:00Z'))).toISOString()).toBe('2026-01-13T22:00:00.000Z');
+
+    const hourly = makeMinuteCandles('2026-07-14T18:00:00Z', 8, 60);
+    const daily = resampleCandles(hourly, '1d');
+    expect(daily.map(c => [c.candle_datetime, c.open, c.close])).toEqual([
+      ['2026-07-13T21:00:00.000Z', 99.5, 102],
+      ['2026-07-14T21:00:00.000Z', 102.5, 107]
+    ]);
+    expect(resampleCandles(hourly, '1d', { alignment: 'utc' }).map(c => [c.candle_datetime, c.close])).toEqual([
+      ['2026-07-14T00:00:00.000Z', 105],
+      ['2026-07-15T00:00:00.000Z', 107]
+    ]);
+
+    const fourHour = resampleCandles(hourly, '4h');
+    expect(fourHour.map(c => c.candle_datetime)).toEqual([
+      '2026-07-14T17:00:00.000Z', '2026-07-14T21:00:00.000Z', '2026-07-15T01:00:00.000Z'
+    ]);
+    expect(() => resampleCandles(hourly, '7h')).toThrow('нельзя выровнять');
+  });
+
+  it('should build candles from bid/ask ticks by time, not arrival order', () => {
+    const t0 = Date.parse('2026-07-14T10:00:00Z');
+    const tick = (offsetSeconds: number, bid: number) => ({
+      symbol: 'EUR/USD', price: bid + 0.0001, volume: 0, timestamp: t0 + offsetSeconds * 1000, bid, ask: bid + 0.0002
+    });
+
+    const candles = aggregateTicks([
+      tick(30, 1.1010),
+      tick(0, 1.1000),
+      tick(59, 1.1005),
+      tick(60, 1.1020), // exactly on the boundary: opens the next candle
+      tick(10, 1.0990)
+    ], '1m');
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ open: 1.1, high: 1.101, low: 1.099, close: 1.1005, volume: 4 });
+    expect(candles[0].spread).toBeCloseTo(0.0002, 10);
+    expect(candles[1]).toMatchObject({ candle_index: 1, candle_datetime: '2026-07-14T10:01:00.000Z', open: 1.102, close: 1.102 });
+
+    const mid = aggregateTicks([tick(0, 1.1)], '1m', { priceSide: 'mid' });
+    expect(mid[0].close).toBeCloseTo(1.1001, 10);
+
+    const live = new TickCandleAggregator('1m');
+    expect(live.push(tick(0, 1.1))).toEqual([]);
+    expect(live.push(tick(65, 1.2))).toHaveLength(1);
+    expect(live.push(tick(5, 1.3))).toEqual([]);
+    expect(live.lateTicks).toBe(1);
+    expect(live.peek()).toMatchObject({ open: 1.2, close: 1.2 });
+    expect(() => live.push({ ...tick(70, 1.2), symbol: 'GBP/USD' })).toThrow('не относится');
+  });
+});
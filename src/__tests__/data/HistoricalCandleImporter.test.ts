@@ -0,0 +1,192 @@
+import { CandleData } from '@/types/session';
+import {
+  IMPORT_PRESETS,
+  detectTimezoneOffset,
+  parseCandleCsv,
+  parseHst,
+  parseImportTimestamp,
+  planImport,
+  saveInChunks
+} from '@/services/data/HistoricalCandleImporter';
+
+describe('HistoricalCandleImporter', () => {
+  const iso = (time: number) => new Date(time).toISOString();
+
+  it('should parse an MT4 History Center export in broker time', () => {
+    const text = [
+      '2024.01.02,00:00,1.10000,1.10200,1.09900,1.10100,120',
+      '2024.01.02,00:01,1.10100,1.10300,1.10000,1.10250,80'
+    ].join('\n');
+
+    const result = parseCandleCsv(text, { ...IMPORT_PRESETS.metatrader.options, timezoneOffsetMinutes: 120 });
+
+    expect(result.detected).toMatchObject({ delimiter: ',', hasHeader: false, dateFormat: 'YYYY.MM.DD' });
+    expect(result.candles.map(c => iso(c.time))).toEqual(['2024-01-01T22:00:00.000Z', '2024-01-01T22:01:00.000Z']);
+    expect(result.candles[1]).toMatchObject({ open: 1.101, high: 1.103, low: 1.1, close: 1.1025, volume: 80 });
+  });
+
+  it('should map MT5 tab-separated headers and prefer tick volume', () => {
+    const text = [
+      '<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>',
+      '2024.01.02\t00:00:00\t1.1\t1.2\t1.0\t1.15\t350\t0\t12'
+    ].join('\r\n');
+
+    const result = parseCandleCsv(text, IMPORT_PRESETS.metatrader.options);
+
+    expect(result.detected.columns).toEqual({ date: 0, time: 1, open: 2, high: 3, low: 4, close: 5, volume: 6 });
+    expect(result.candles).toEqual([{ time: Date.UTC(2024, 0, 2), open: 1.1, high: 1.2, low: 1.0, close: 1.15, volume: 350 }]);
+  });
+
+  it('should read the timezone of Dukascopy exports from the date suffix', () => {
+    const gmt = parseCandleCsv([
+      'Gmt time,Open,High,Low,Close,Volume',
+      '02.01.2024 00:00:00.000,1.1,1.2,1.0,1.15,1234.5'
+    ].join('\n'), IMPORT_PRESETS.dukascopy.options);
+    const local = parseCandleCsv([
+      'Local time,Open,High,Low,Close,Volume',
+      '02.01.2024 02:00:00.000 GMT+0200,1.1,1.2,1.0,1.15,1234.5'
+    ].join('\n'), { ...IMPORT_PRESETS.dukascopy.options, timezoneOffsetMinutes: -300 });
+
+    expect(gmt.candles[0].time).toBe(Date.UTC(2024, 0, 2));
+    expect(local.candles[0].time).toBe(Date.UTC(2024, 0, 2));
+    expect(local.detected.timezoneOffsetMinutes).toBe(120);
+  });
+
+  it('should detect delimiter, header and date format of a generic OHLCV file', () => {
+    const text = [
+      'timestamp;open;high;low;close;volume',
+      '1704153600;1,1;1,2;1,0;1,15;10',
+      '1704153660;1,15;1,25;1,1;1,2;12'
+    ].join('\n');
+
+    const result = parseCandleCsv(text);
+
+    expect(result.detected).toMatchObject({ delimiter: ';', hasHeader: true, dateFormat: 'unix' });
+    expect(result.candles.map(c => c.time)).toEqual([1704153600000, 1704153660000]);
+    expect(result.candles[0].open).toBe(1.1);
+  });
+
+  it('should tell DD/MM from MM/DD and parse timezone suffixes', () => {
+    expect(parseCandleCsv('Date,Open,High,Low,Close\n13/01/2024 10:00,1,2,0.5,1.5').detected.dateFormat).toBe('DD/MM/YYYY');
+    expect(parseCandleCsv('Date,Open,High,Low,Close\n01/13/2024 10:00,1,2,0.5,1.5').detected.dateFormat).toBe('MM/DD/YYYY');
+
+    expect(['GMT+0200', 'UTC-05:00', '2024-01-02T10:00:00Z', '2024-01-02T10:00:00+03:00', '2024-01-02 10:00']
+      .map(detectTimezoneOffset)).toEqual([120, -300, 0, 180, null]);
+    expect(parseImportTimestamp('2024-01-02T10:00:00+03:00', undefined, 'YYYY-MM-DD', 0)).toBe(Date.UTC(2024, 0, 2, 7));
+    expect(parseImportTimestamp('31.02.2024', '10:00', 'DD.MM.YYYY', 0)).toBeNull();
+  });
+
+  it('should report invalid rows with line numbers and keep the last duplicate', () => {
+    const text = [
+      'Date,Time,Open,High,Low,Close,Volume',
+      '2024.01.02,00:00,1.1,1.2,1.0,1.15,10',
+      '',
+      '2024.01.02,00:01,1.1,1.0,1.2,1.15,10',
+      '2024.13.02,00:02,1.1,1.2,1.0,1.15,10',
+      '2024.01.02,00:03,abc,1.2,1.0,1.15,10',
+      '2024.01.02,00:00,1.1,1.3,1.0,1.25,20'
+    ].join('\n');
+
+    const result = parseCandleCsv(text);
+
+    expect(result.invalid.map(row => row.line)).toEqual([4, 5, 6]);
+    expect(result.invalid[0].errors).toContain('Максимальная цена не может быть меньше минимальной');
+    expect(result.invalid[1].errors[0]).toBe('Неверная дата: 2024.13.02');
+    expect(result.duplicates).toBe(1);
+    expect(result.candles).toEqual([{ time: Date.UTC(2024, 0, 2), open: 1.1, high: 1.3, low: 1.0, close: 1.25, volume: 20 }]);
+  });
+
+  it('should fail on files whose columns cannot be mapped', () => {
+    expect(() => parseCandleCsv('')).toThrow('Файл пуст');
+    expect(() => parseCandleCsv('a,b,c,d,e\n1,2,3,4,5')).toThrow('Не удалось определить колонки');
+  });
+
+  it('should parse MT4 HST history of both versions', () => {
+    const time = Date.UTC(2024, 0, 2) / 1000;
+    const header = (version: number) => {
+      const buffer = new ArrayBuffer(148);
+      const view = new DataView(buffer);
+      view.setInt32(0, version, true);
+      'EURUSD'.split('').forEach((char, i) => view.setUint8(68 + i, char.charCodeAt(0)));
+      view.setInt32(80, 60, true);
+      return new Uint8Array(buffer);
+    };
+    const concat = (...parts: Uint8Array[]) => {
+      const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+      parts.reduce((offset, part) => { result.set(part, offset); return offset + part.length; }, 0);
+      return result.buffer;
+    };
+
+    const v401 = new DataView(new ArrayBuffer(60));
+    v401.setUint32(0, time, true);
+    [1.1, 1.2, 1.0, 1.15].forEach((price, i) => v401.setFloat64(8 + i * 8, price, true));
+    v401.setUint32(40, 500, true);
+
+    const v400 = new DataView(new ArrayBuffer(44));
+    v400.setInt32(0, time, true);
+    [1.1, 1.0, 1.2, 1.15, 500].forEach((value, i) => v400.setFloat64(4 + i * 8, value, true));
+
+    const expected = { time: Date.UTC(2024, 0, 1, 22), open: 1.1, high: 1.2, low: 1.0, close: 1.15, volume: 500 };
+    const modern = parseHst(concat(header(401), new Uint8Array(v401.buffer)), { timezoneOffsetMinutes: 120 });
+    const legacy = parseHst(concat(header(400), new Uint8Array(v400.buffer)), { timezoneOffsetMinutes: 120 });
+
+    expect(modern).toMatchObject({ symbol: 'EURUSD', periodMinutes: 60, candles: [expected] });
+    expect(legacy.candles).toEqual([expected]);
+    expect(() => parseHst(header(500).buffer)).toThrow('Неподдерживаемая версия HST: 500');
+  });
+
+  it('should diff against existing session candles and continue the index', () => {
+    const existing: CandleData[] = [
+      { session_id: 's1', candle_index: 0, candle_datetime: '2024-01-02T00:00:00.000Z', open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 },
+      { session_id: 's1', candle_index: 1, candle_datetime: '2024-01-02T00:01:00.000Z', open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }
+    ];
+    const imported = [
+      { time: Date.UTC(2024, 0, 2, 0, 0), open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 },
+      { time: Date.UTC(2024, 0, 2, 0, 1), open: 1, high: 2, low: 0.5, close: 1.6, volume: 10 },
+      { time: Date.UTC(2024, 0, 2, 0, 2), open: 1.6, high: 2, low: 1, close: 1.8, volume: 5 }
+    ];
+
+    const plan = planImport(imported, existing, 's1');
+
+    expect(plan.unchanged).toBe(1);
+    expect(plan.updated).toHaveLength(1);
+    expect(plan.updated[0].previous.close).toBe(1.5);
+    expect(plan.updated[0].candle).toMatchObject({ candle_index: 1, close: 1.6 });
+    expect(plan.added).toEqual([expect.objectContaining({
+      session_id: 's1', candle_index: 2, candle_datetime: '2024-01-02T00:02:00.000Z', close: 1.8
+    })]);
+  });
+
+  it('should reject new candles older than the last session candle to keep indices in time order', () => {
+    const existing: CandleData[] = [
+      { session_id: 's1', candle_index: 0, candle_datetime: '2024-01-02T00:10:00.000Z', open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 },
+      { session_id: 's1', candle_index: 1, candle_datetime: '2024-01-02T00:20:00.000Z', open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }
+    ];
+    const at = (minute: number) => ({ time: Date.UTC(2024, 0, 2, 0, minute), open: 1, high: 2, low: 0.5, close: 1.7, volume: 10 });
+
+    const plan = planImport([at(0), at(10), at(15), at(30)], existing, 's1');
+
+    expect(plan.rejected.map(candle => candle.time)).toEqual([at(0).time, at(15).time]);
+    expect(plan.updated.map(change => change.candle.candle_index)).toEqual([0]);
+    expect(plan.added.map(candle => [candle.candle_index, candle.candle_datetime]))
+      .toEqual([[2, '2024-01-02T00:30:00.000Z']]);
+
+    const fresh = planImport([at(0), at(15)], [], 's1');
+    expect(fresh.rejected).toEqual([]);
+    expect(fresh.added.map(candle => candle.candle_index)).toEqual([0, 1]);
+  });
+
+  it('should save large imports in sequential chunks and report progress', async () => {
+    const candles: CandleData[] = Array.from({ length: 2500 }, (_, i) => ({
+      session_id: 's1', candle_index: i, candle_datetime: iso(i * 60000), open: 1, high: 1, low: 1, close: 1, volume: 0
+    }));
+    const saveBatch = jest.fn(async (batch: CandleData[]) => batch);
+    const progress: number[] = [];
+
+    const saved = await saveInChunks(candles, saveBatch, { onProgress: done => progress.push(done) });
+
+    expect(saveBatch.mock.calls.map(([batch]) => batch.length)).toEqual([1000, 1000, 500]);
+    expect(progress).toEqual([1000, 2000, 2500]);
+    expect(saved).toHaveLength(2500);
+  });
+});
@@ -0,0 +1,177 @@
+import { CandleData } from '@/types/session';
+import { MarketDataProvider, MarketTick } from '@/services/data/RealTimeMarketService';
+import { MarketDataProviderRegistry, reconcileCandles } from '@/services/data/MarketDataProviderRegistry';
+
+// Local stand-in provider: history is a fixed series, ticks are pushed by the test
+class StubProvider implements MarketDataProvider {
+  calls = 0;
+  fail = false;
+  stall = false;
+  private listeners: ((data: MarketTick) => void)[] = [];
+
+  constructor(public name: string, private candles: CandleData[] = makeCandles([1.1, 1.1001, 1.1002])) {}
+
+  async connect(): Promise<void> {}
+  async disconnect(): Promise<void> {}
+
+  subscribe(_symbols: string[], callback: (data: MarketTick) => void): void {
+    this.listeners.push(callback);
+  }
+
+  async getHistoricalData(): Promise<CandleData[]> {
+    this.calls++;
+    if (this.stall) return new Promise(() => {});
+    if (this.fail) throw new Error(`${this.name} is down`);
+    return this.candles;
+  }
+
+  emit(price: number): void {
+    this.listeners.forEach(listener => listener({ symbol: 'EURUSD', price, volume: 1, timestamp: 0 }));
+  }
+}
+
+function makeCandles(closes: number[]): CandleData[] {
+  return closes.map((close, i) => ({
+    session_id: 'feed',
+    candle_index: i,
+    candle_datetime: new Date(Date.UTC(2026, 6, 14, 10, i)).toISOString(),
+    open: close,
+    high: close + 0.0002,
+    low: close - 0.0002,
+    close,
+    volume: 100
+  }));
+}
+
+describe('MarketDataProviderRegistry', () => {
+  let now: number;
+  let registry: MarketDataProviderRegistry;
+  let primary: StubProvider;
+  let backup: StubProvider;
+
+  beforeEach(() => {
+    now = 0;
+    registry = new MarketDataProviderRegistry({
+      now: () => now, requestTimeoutMs: 20, staleAfterMs: 1000, failureThreshold: 2, cooldownMs: 5000
+    });
+    primary = new StubProvider('primary');
+    backup = new StubProvider('backup');
+    registry.register(primary, { symbols: ['EURUSD', 'GBPUSD'], intervals: ['1m', '5m'] });
+    registry.register(backup, { symbols: symbol => symbol.endsWith('USD'), priority: 1 });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should select providers by symbol, interval and priority', () => {
+    expect(registry.getCandidates('EURUSD', '1m').map(p => p.name)).toEqual(['primary', 'backup']);
+    expect(registry.getCandidates('EURUSD', '1h').map(p => p.name)).toEqual(['backup']);
+    expect(registry.getCandidates('AUDJPY')).toEqual([]);
+    expect(() => registry.register(new StubProvider('primary'), { symbols: [] })).toThrow('уже зарегистрирован');
+  });
+
+  it('should fail over on errors and stalls and take a failing provider out of rotation', async () => {
+    primary.stall = true;
+    await expect(registry.getHistoricalData('EURUSD', '1m', 3)).resolves.toHaveLength(3);
+    expect([primary.calls, backup.calls]).toEqual([1, 1]);
+
+    // The stalled provider now ranks below the healthy one
+    expect(registry.getCandidates('EURUSD', '1m').map(p => p.name)).toEqual(['backup', 'primary']);
+
+    primary.stall = false;
+    primary.fail = true;
+    backup.fail = true;
+    await expect(registry.getHistoricalData('EURUSD', '1m', 3)).rejects.toThrow('Все поставщики недоступны');
+    expect([primary.calls, backup.calls]).toEqual([2, 2]);
+
+    // Two consecutive failures take the provider out of rotation for the cooldown
+    expect(registry.getHealth('primary')[0]).toMatchObject({ status: 'down', score: 0, errorRate: 1 });
+    expect(registry.getHealth('backup')[0]).toMatchObject({ status: 'healthy', errorRate: 0.5, requests: 2 });
+
+    now = 6000;
+    expect(registry.getHealth('primary')[0].status).toBe('degraded');
+  });
+
+  it('should keep a working slower primary ahead of an unmeasured fallback', async () => {
+    // Every call takes measurable time on the shared clock
+    const slowPrimary = new StubProvider('slow-primary');
+    const fallback = new StubProvider('fallback');
+    const fetchPrimary = slowPrimary.getHistoricalData.bind(slowPrimary);
+    slowPrimary.getHistoricalData = async () => {
+      now += 500;
+      return fetchPrimary();
+    };
+    const timed = new MarketDataProviderRegistry({ now: () => now, maxLatencyMs: 2000 });
+    timed.register(slowPrimary, { symbols: ['EURUSD'] });
+    timed.register(fallback, { symbols: () => true, priority: 1 });
+
+    for (let i = 0; i < 5; i++) await timed.getHistoricalData('EURUSD', '1m', 3);
+
+    expect([slowPrimary.calls, fallback.calls]).toEqual([5, 0]);
+    expect(timed.getHealth('slow-primary')[0]).toMatchObject({ status: 'healthy', averageLatency: 500 });
+    expect(timed.getCandidates('EURUSD').map(p => p.name)).toEqual(['slow-primary', 'fallback']);
+
+    // A failure demotes the primary; once it is forgotten, priority order returns
+    slowPrimary.fail = true;
+    for (let i = 0; i < 5; i++) await timed.getHistoricalData('EURUSD', '1m', 3);
+    expect(timed.getCandidates('EURUSD').map(p => p.name)).toEqual(['fallback', 'slow-primary']);
+
+    slowPrimary.fail = false;
+    now += 6 * 60 * 1000;
+    expect(timed.getCandidates('EURUSD').map(p => p.name)).toEqual(['slow-primary', 'fallback']);
+  });
+
+  it('should respect rate limits', async () => {
+    const limited = new MarketDataProviderRegistry({ now: () => now });
+    const slow = new StubProvider('limited');
+    limited.register(slow, { symbols: ['EURUSD'], rateLimit: { maxRequests: 2, windowMs: 1000 } });
+    limited.register(backup, { symbols: ['EURUSD'], priority: 1 });
+
+    for (let i = 0; i < 3; i++) await limited.getHistoricalData('EURUSD', '1m', 3);
+    expect([slow.calls, backup.calls]).toEqual([2, 1]);
+    expect(limited.getHealth('limited')[0].rateLimited).toBe(true);
+
+    now = 1500;
+    await limited.getHistoricalData('EURUSD', '1m', 3);
+    expect(slow.calls).toBe(3);
+  });
+
+  it('should switch a stalled stream to the next provider', () => {
+    const received: number[] = [];
+    registry.subscribe('EURUSD', tick => received.push(tick.price));
+    expect(registry.getActiveProvider('EURUSD')).toBe('primary');
+
+    primary.emit(1.1);
+    now = 900;
+    expect(registry.checkStreams()).toEqual([]);
+
+    now = 2000;
+    expect(registry.checkStreams()).toEqual(['EURUSD']);
+    expect(registry.getActiveProvider('EURUSD')).toBe('backup');
+    expect(registry.getHealth('primary')[0].stale).toBe(true);
+
+    // Late ticks from the old provider are not forwarded
+    primary.emit(1.2);
+    backup.emit(1.3);
+    expect(received).toEqual([1.1, 1.3]);
+  });
+
+  it('should flag candles on which providers disagree beyond the tolerance', async () => {
+    const reference = makeCandles([1.1, 1.1001, 1.1002]);
+    const diverging = makeCandles([1.1, 1.1001, 1.1052]);
+
+    const direct = reconcileCandles({ provider: 'a', candles: reference }, { provider: 'b', candles: diverging.slice(1) }, 0.001);
+    expect(direct.compared).toBe(2);
+    expect(direct.discrepancies.map(d => d.field)).toEqual(['open', 'high', 'low', 'close']);
+    expect(direct.discrepancies[3]).toMatchObject({ candleTime: reference[2].candle_datetime, values: [1.1002, 1.1052] });
+
+    const reconciled = new MarketDataProviderRegistry({ now: () => now });
+    reconciled.register(new StubProvider('a', reference), { symbols: ['EURUSD'] });
+    reconciled.register(new StubProvider('b', diverging), { symbols: ['EURUSD'] });
+    const report = await reconciled.reconcile('EURUSD', '1m', 3, 0.001);
+    expect(report).toMatchObject({ providers: ['a', 'b'], compared: 3 });
+    expect(report.discrepancies).toHaveLength(4);
+  });
+});
@@ -0,0 +1,122 @@
+import { CandleData } from '@/types/session';
+import { MarketTick } from '@/services/data/RealTimeMarketService';
+import { ReplayMarketProvider, parseSessionExport } from '@/services/data/ReplayMarketProvider';
+
+describe('ReplayMarketProvider', () => {
+  const MINUTE = 60 * 1000;
+  const START = new Date('2026-07-14T10:00:00Z').getTime();
+
+  const makeCandles = (count: number): CandleData[] =>
+    Array.from({ length: count }, (_, i) => ({
+      session_id: 'session_1',
+      candle_index: i,
+      candle_datetime: new Date(START + i * MINUTE).toISOString(),
+      open: 100 + i,
+      high: 101 + i,
+      low: 99.5 + i,
+      close: 100.5 + i,
+      volume: 40
+    }));
+
+  const source = { type: 'candles' as const, candles: makeCandles(10), timeframe: '1m' };
+
+  let received: MarketTick[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    received = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should play candles at the configured speed, pause and resume', () => {
+    const replay = new ReplayMarketProvider(source, { symbol: 'EURUSD', speed: 10 });
+    replay.subscribe(['EURUSD'], tick => received.push(tick));
+
+    replay.play();
+    jest.advanceTimersByTime(0);
+    expect(received.map(t => t.price)).toEqual([100.5]);
+    expect(received[0].timestamp).toBe(START + MINUTE);
+
+    // One minute between candles at 10x is six seconds, capped at five by default
+    jest.advanceTimersByTime(4999);
+    expect(received).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(received).toHaveLength(2);
+
+    replay.pause();
+    jest.advanceTimersByTime(60000);
+    expect(received).toHaveLength(2);
+    expect(replay.getState()).toMatchObject({ status: 'paused', position: 2, total: 10 });
+
+    replay.setSpeed(60);
+    replay.play();
+    jest.advanceTimersByTime(1000 * 8);
+    expect(received).toHaveLength(10);
+    expect(replay.getState().status).toBe('finished');
+  });
+
+  it('should step through synthetic intra-candle ticks and seek without emitting skipped events', () => {
+    const replay = new ReplayMarketProvider(source, { symbol: 'EURUSD', mode: 'tick' });
+    replay.subscribe(['EURUSD'], tick => received.push(tick));
+
+    for (let i = 0; i < 4; i++) replay.step();
+    expect(received.map(t => t.price)).toEqual([100, 99.5, 101, 100.5]);
+    expect(received.map(t => t.timestamp - START)).toEqual([0, 15000, 30000, 45000]);
+    expect(replay.getState()).toMatchObject({ status: 'paused', position: 4, total: 40 });
+
+    replay.seek('2026-07-14T10:09:00Z');
+    expect(replay.getState().position).toBe(36);
+    expect(received).toHaveLength(4);
+
+    while (replay.step());
+    expect(received).toHaveLength(8);
+    expect(replay.getState().status).toBe('finished');
+    expect(() => replay.setSpeed(0)).toThrow('Скорость воспроизведения');
+  });
+
+  it('should serve only already played history', async () => {
+    const replay = new ReplayMarketProvider(
+      { type: 'candles', candles: makeCandles(12), timeframe: '1m' },
+      { symbol: 'EURUSD', mode: 'tick' }
+    );
+
+    expect(await replay.getHistoricalData('EURUSD', '1m', 100)).toEqual([]);
+
+    replay.seek(START + 7 * MINUTE);
+    replay.step();
+    replay.step();
+    const minutes = await replay.getHistoricalData('EURUSD', '1m', 100);
+    expect(minutes.map(c => c.candle_index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(await replay.getHistoricalData('EURUSD', '1m', 2)).toEqual(minutes.slice(-2));
+
+    const fiveMinute = await replay.getHistoricalData('EURUSD', '5m', 100);
+    expect(fiveMinute.map(c => c.candle_datetime)).toEqual(['2026-07-14T10:00:00.000Z']);
+  });
+
+  it('should replay imported ticks and session export files', async () => {
+    const ticks: MarketTick[] = [0, 20, 40, 70, 130].map((seconds, i) => ({
+      symbol: 'GBPUSD', price: 1.3 + i / 1000, volume: 1, timestamp: START + seconds * 1000
+    }));
+    const replay = new ReplayMarketProvider({ type: 'ticks', ticks: [...ticks].reverse() }, { symbol: 'GBPUSD' });
+    replay.subscribe(['GBPUSD'], tick => received.push(tick));
+
+    replay.seek(START + 60 * 1000);
+    replay.step();
+    replay.step();
+    expect(received).toEqual(ticks.slice(3));
+    const candles = await replay.getHistoricalData('GBPUSD', '1m', 10);
+    expect(candles.map(c => [c.open, c.close])).toEqual([[1.3, 1.302], [1.303, 1.303]]);
+
+    const exported = JSON.stringify({
+      session: { pair: 'EURUSD', timeframe: '1m' },
+      candles: makeCandles(3).map(candle => ({ ...candle, session_id: undefined }))
+    });
+    const { symbol, source: imported } = parseSessionExport(exported);
+    expect(symbol).toBe('EURUSD');
+    expect(imported.type === 'candles' && imported.candles.every(c => c.session_id === 'replay_EURUSD')).toBe(true);
+    expect(() => parseSessionExport('{"candles": []}')).toThrow('экспорт сессии');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { WebSocket } from 'ws';
+import { MarketTick } from '@/services/data/RealTimeMarketService';
+import {
+  DEFAULT_BACKOFF,
+  FeedSchema,
+  FeedSocket,
+  FeedTick,
+  WebSocketFeedAdapter,
+  WebSocketFeedConfig,
+  computeBackoffDelay,
+  parseFeedMessage
+} from '@/services/data/WebSocketFeedAdapter';
+import { MockFeedServer } from '@/test-utils/MockFeedServer';
+import { binanceKlineSchema } from '@/services/marketDataService';
+
+const mockSchema: FeedSchema = {
+  subscribeMessage: symbols => ({ op: 'subscribe', symbols }),
+  pingMessage: () => ({ op: 'ping' }),
+  match: { field: 'type', value: 'tick' },
+  fields: { symbol: 's', price: 'p', volume: 'v', timestamp: 't', sequence: 'seq' }
+};
+
+describe('WebSocket feed message mapping', () => {
+  it('should map vendor fields, string prices and batches through the schema', () => {
+    const binanceLike: FeedSchema = {
+      subscribeMessage: symbols => ({ method: 'SUBSCRIBE', params: symbols }),
+      match: { field: 'e', value: 'aggTrade' },
+      fields: { symbol: 's', price: 'p', volume: 'q', timestamp: 'T', sequence: 'a' }
+    };
+
+    expect(parseFeedMessage({ e: 'aggTrade', s: 'BTCUSDT', p: '50000.10', q: '0.5', T: 1700000000000, a: 42 }, binanceLike))
+      .toEqual([{ symbol: 'BTCUSDT', price: 50000.1, volume: 0.5, timestamp: 1700000000000, sequence: 42 }]);
+    expect(parseFeedMessage({ e: 'kline', s: 'BTCUSDT' }, binanceLike)).toEqual([]);
+
+    const batched: FeedSchema = {
+      ...mockSchema,
+      match: undefined,
+      batchField: 'data',
+      timestampUnit: 's',
+      fields: { symbol: 'sym', price: 'quote.mid', bid: 'quote.bid', ask: 'quote.ask', timestamp: 'ts' }
+    };
+    const ticks = parseFeedMessage({
+      data: [
+        { sym: 'EURUSD', quote: { mid: 1.1, bid: 1.0999, ask: 1.1001 }, ts: 1700000000 },
+        { sym: 'EURUSD', quote: {}, ts: 1700000001 }
+      ]
+    }, batched);
+    expect(ticks).toEqual([{ symbol: 'EURUSD', price: 1.1, bid: 1.0999, ask: 1.1001, volume: 0, timestamp: 1700000000000 }]);
+  });
+
+  it('should map Binance kline messages to candle ticks', () => {
+    const schema = binanceKlineSchema('1m');
+    const kline = { t: 1700000000000, o: '100.5', h: '102', l: '99.5', c: '101.25', v: '12.5' };
+
+    expect(schema.subscribeMessage(['BTCUSDT'])).toMatchObject({ method: 'SUBSCRIBE', params: ['btcusdt@kline_1m'] });
+    expect(parseFeedMessage({ e: 'kline', E: 1700000030000, s: 'BTCUSDT', k: kline }, schema)).toEqual([{
+      symbol: 'BTCUSDT', price: 101.25, open: 100.5, high: 102, low: 99.5, volume: 12.5, timestamp: 1700000000000
+    }]);
+    expect(parseFeedMessage({ e: 'aggTrade', s: 'BTCUSDT', p: '101' }, schema)).toEqual([]);
+  });
+
+  it('should grow reconnect delays exponentially up to the cap with bounded jitter', () => {
+    const options = { ...DEFAULT_BACKOFF, initialDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+    expect([0, 1, 2, 3, 4, 10].map(attempt => computeBackoffDelay(attempt, options, () => 0.5)))
+      .toEqual([100, 200, 400, 800, 1000, 1000]);
+    expect(computeBackoffDelay(2, options, () => 0)).toBe(200);
+    expect(computeBackoffDelay(2, options, () => 1)).toBe(600);
+  });
+});
+
+describe('WebSocketFeedAdapter against a mock feed server', () => {
+  let server: MockFeedServer;
+  let adapter: WebSocketFeedAdapter;
+  let received: MarketTick[];
+
+  const createAdapter = (config: Partial<WebSocketFeedConfig> = {}) => new WebSocketFeedAdapter({
+    name: 'mock',
+    url: server.url,
+    schema: mockSchema,
+    backoff: { initialDelayMs: 20, maxDelayMs: 100, jitter: 0 },
+    createSocket: url => new WebSocket(url) as unknown as FeedSocket,
+    ...config
+  });
+
+  const sequences = () => received.map(tick => (tick as FeedTick).sequence);
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new MockFeedServer();
+    await server.start();
+    received = [];
+  });
+
+  afterEach(async () => {
+    await adapter?.disconnect();
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should reconnect with backoff and resubscribe after the server drops the connection', async () => {
+    adapter = createAdapter();
+    adapter.subscribe(['EURUSD'], tick => received.push(tick));
+    await adapter.connect();
+    await server.waitFor(() => server.subscriptions.length === 1);
+
+    server.sendTicks([{ symbol: 'EURUSD', sequence: 1, price: 1.1 }, { symbol: 'GBPUSD', sequence: 1, price: 1.3 }]);
+    await server.waitFor(() => received.length === 1);
+
+    server.dropConnections();
+    await server.waitFor(() => server.subscriptions.length === 2);
+    expect(server.subscriptions).toEqual([['EURUSD'], ['EURUSD']]);
+    expect(adapter.getStats()).toMatchObject({ status: 'open', reconnects: 1 });
+
+    server.sendTicks([{ symbol: 'EURUSD', sequence: 2, price: 1.2 }]);
+    await server.waitFor(() => received.length === 2);
+    expect(received.map(tick => tick.price)).toEqual([1.1, 1.2]);
+  });
+
+  it('should drop duplicates and late messages and backfill sequence gaps in order', async () => {
+    const backfill = jest.fn(async (symbol: string, from: number, to: number): Promise<FeedTick[]> =>
+      Array.from({ length: to - from + 1 }, (_, i) => ({
+        symbol, sequence: from + i, price: 1 + (from + i) / 100, volume: 1, timestamp: 0
+      }))
+    );
+    adapter = createAdapter({ backfill });
+    adapter.subscribe(['EURUSD'], tick => received.push(tick));
+    await adapter.connect();
+    await server.waitFor(() => server.subscriptions.length === 1);
+
+    server.sendTicks([1, 2, 2, 4, 3, 5].map(sequence => ({ symbol: 'EURUSD', sequence, price: 1 + sequence / 100 })));
+    await server.waitFor(() => received.length === 5);
+
+    expect(sequences()).toEqual([1, 2, 3, 4, 5]);
+    expect(backfill).toHaveBeenCalledWith('EURUSD', 3, 3);
+    expect(adapter.getStats()).toMatchObject({ duplicates: 2, gaps: 1, backfilled: 1, unrecoveredGaps: 0 });
+
+    // A gap across a reconnect is backfilled as well
+    server.dropConnections();
+    await server.waitFor(() => server.subscriptions.length === 2);
+    server.sendTicks([{ symbol: 'EURUSD', sequence: 8, price: 1.08 }]);
+    await server.waitFor(() => received.length === 8);
+
+    expect(sequences()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(backfill).toHaveBeenLastCalledWith('EURUSD', 6, 7);
+  });
+
+  it('should accept a gap it cannot backfill instead of stalling the stream', async () => {
+    adapter = createAdapter({ backfill: async () => { throw new Error('REST unavailable'); } });
+    adapter.subscribe(['EURUSD'], tick => received.push(tick));
+    await adapter.connect();
+    await server.waitFor(() => server.subscriptions.length === 1);
+
+    server.sendTicks([1, 4, 5].map(sequence => ({ symbol: 'EURUSD', sequence, price: 1 })));
+    await server.waitFor(() => received.length === 3);
+
+    expect(sequences()).toEqual([1, 4, 5]);
+    expect(adapter.getStats()).toMatchObject({ gaps: 1, unrecoveredGaps: 1 });
+  });
+
+  it('should reconnect when the server stops answering heartbeats', async () => {
+    adapter = createAdapter({ heartbeat: { intervalMs: 20, timeoutMs: 80 } });
+    adapter.subscribe(['EURUSD'], tick => received.push(tick));
+    await adapter.connect();
+
+    await server.waitFor(() => server.received.filter(m => m.op === 'ping').length >= 6);
+    expect(adapter.getStats().reconnects).toBe(0);
+
+    server.respondToPings = false;
+    await server.waitFor(() => server.subscriptions.length === 2);
+    expect(adapter.getStats().reconnects).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -132,6 +132,41 @@ describe('BacktestingEngine', () => {
       
       expect(results.metrics.transactionCosts).toBeGreaterThan(0);
     });
+
+    it('should break down costs when an FX cost model is set', async () => {
+      const fxEngine = new BacktestingEngine({
+        ...defaultConfig,
+        symbol: 'EUR/USD',
+        costModel: {
+          useCandleSpread: false,
+          candleSpreadUnit: 'pips',
+          commissionPerLot: 3.5,
+          swapLongPerLot: -6,
+          swapShortPerLot: 2
+        }
+      });
+      const results = await fxEngine.runBacktest(mockCandles, mockSignals);
+      const closed = results.trades.filter(t => t.status === 'closed');
+
+      expect(closed.every(t => t.costs !== undefined)).toBe(true);
+      expect(results.metrics.costBreakdown).toBeDefined();
+      expect(results.metrics.transactionCosts).toBeCloseTo(results.metrics.costBreakdown!.total, 8);
+    });
+
+    it('should size trades in broker lots from the stop distance', async () => {
+      const lotEngine = new BacktestingEngine({
+        ...defaultConfig,
+        symbol: 'BTC/USD',
+        lotSizing: { accountCurrency: 'USD' }
+      });
+      const results = await lotEngine.runBacktest(mockCandles, mockSignals);
+      const first = results.trades[0];
+
+      // 1% of 10000 at risk over a 2% stop
+      expect(first.lots).toBeCloseTo(100 / (first.entryPrice * 0.02), 2);
+      expect(first.size).toBe(first.lots);
+      expect(() => new BacktestingEngine({ ...defaultConfig, lotSizing: {} })).toThrow('lotSizing requires a symbol');
+    });
   });
 
   describe('Edge Cases', () => {
@@ -149,4 +184,77 @@ describe('BacktestingEngine', () => {
       expect(results.equityCurve.length).toBeGreaterThan(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('Binary Options Mode', () => {
+    const closes = [100, 101, 102, 101, 101, 103, 100, 99, 98, 100];
+    const binaryCandles: CandleData[] = closes.map((close, i) => ({
+      id: `binary_${i}`,
+      timestamp: String(1700000000000 + i * 60000),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+      session_id: 'test_session',
+      candle_index: i,
+      candle_datetime: new Date(1700000000000 + i * 60000).toISOString()
+    }));
+
+    const signalAt = (index: number, direction: 'long' | 'short', confidence = 0.8): PredictionSignal => ({
+      timestamp: 1700000000000 + index * 60000,
+      direction,
+      confidence,
+      price: closes[index]
+    });
+
+    const binaryEngine = (tieRule: 'refund' | 'loss' = 'refund') => new BacktestingEngine({
+      ...defaultConfig,
+      binaryOptions: { stake: 100, expiryCandles: 2, payoutRatio: 0.8, tieRule }
+    });
+
+    it('should settle contracts at expiry with payout ratio', async () => {
+      // CALL 100 -> 102 (win), PUT 103 -> 99 (win), PUT 99 -> 100 (loss)
+      const results = await binaryEngine().runBinaryBacktest(binaryCandles, [
+        signalAt(0, 'long'),
+        signalAt(5, 'short'),
+        signalAt(7, 'short')
+      ]);
+
+      expect(results.metrics.wins).toBe(2);
+      expect(results.metrics.losses).toBe(1);
+      expect(results.metrics.totalReturn).toBeCloseTo(2 * 80 - 100, 6);
+    });
+
+    it('should refund or lose tied contracts depending on tie rule', async () => {
+      const tieSignal = [signalAt(1, 'long')]; // CALL 101 -> 101
+
+      const refunded = await binaryEngine('refund').runBinaryBacktest(binaryCandles, tieSignal);
+      const lost = await binaryEngine('loss').runBinaryBacktest(binaryCandles, tieSignal);
+
+      expect(refunded.metrics.ties).toBe(1);
+      expect(refunded.metrics.totalReturn).toBe(0);
+      expect(lost.metrics.losses).toBe(1);
+      expect(lost.metrics.totalReturn).toBe(-100);
+    });
+
+    it('should report break-even accuracy and payout-adjusted expectancy', async () => {
+      const results = await binaryEngine().runBinaryBacktest(binaryCandles, [signalAt(0, 'long'), signalAt(5, 'long')]);
+
+      expect(results.metrics.breakEvenAccuracy).toBeCloseTo(1 / 1.8, 6);
+      expect(results.metrics.winRate).toBe(0.5);
+      expect(results.metrics.expectancyPerStake).toBeCloseTo(0.5 * 0.8 - 0.5, 6);
+    });
+
+    it('should leave contracts expiring beyond the data unsettled', async () => {
+      const results = await binaryEngine().runBinaryBacktest(binaryCandles, [signalAt(9, 'long')]);
+
+      expect(results.metrics.totalContracts).toBe(0);
+      expect(results.metrics.unsettled).toBe(1);
+    });
+
+    it('should convert prediction interval to expiry candles', () => {
+      expect(BacktestingEngine.expiryCandlesForInterval(15, '5m')).toBe(3);
+      expect(BacktestingEngine.expiryCandlesForInterval(1, '5m')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { OnnxInferenceService } from '@/services/ml/OnnxInferenceService';
+
+const sessionRun = jest.fn(async (feeds: Record<string, { data: Float32Array; dims: number[] }>) => {
+  // Row i gets [p, 1 - p] with p taken from its first feature
+  const { data, dims } = feeds.input;
+  const [rows, features] = dims;
+  const output = new Float32Array(rows * 2);
+  for (let i = 0; i < rows; i++) {
+    output[i * 2] = data[i * features];
+    output[i * 2 + 1] = 1 - data[i * features];
+  }
+  return { output: { data: output } };
+});
+
+jest.mock('onnxruntime-web', () => ({
+  env: { wasm: {}, webgl: {} },
+  InferenceSession: {
+    create: jest.fn(async () => ({ run: sessionRun, release: jest.fn() }))
+  },
+  Tensor: jest.fn().mockImplementation((type: string, data: Float32Array, dims: number[]) => ({ type, data, dims }))
+}));
+
+describe('OnnxInferenceService batching', () => {
+  const modelConfig = { name: 'default', version: '1.0.0', modelPath: '/models/default.onnx', inputShape: [1, 3], outputShape: [1, 2] };
+
+  let service: OnnxInferenceService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    service = new OnnxInferenceService({ maxBatchSize: 4, maxWaitMs: 20 });
+    await service.loadModel(modelConfig);
+    sessionRun.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stack a batch into [N, F] tensors of at most maxBatchSize rows', async () => {
+    const requests = Array.from({ length: 10 }, (_, i) => ({ symbol: `PAIR${i}`, features: [i % 2 ? 0.8 : 0.3, 0, 0] }));
+
+    const responses = await service.batchPredict(requests);
+
+    expect(sessionRun.mock.calls.map(([feeds]) => feeds.input.dims)).toEqual([[4, 3], [4, 3], [2, 3]]);
+    expect(responses.map(r => r.symbol)).toEqual(requests.map(r => r.symbol));
+    expect(responses.map(r => r.prediction.direction)).toEqual(
+      requests.map(r => (r.features[0] > 0.5 ? 'UP' : 'DOWN'))
+    );
+    expect(responses[1].prediction.probability).toBeCloseTo(0.8, 6);
+
+    const metrics = service.getMetrics();
+    expect(metrics.successfulPredictions).toBe(10);
+    expect(metrics.batchSize).toBeCloseTo(10 / 3, 6);
+    expect(metrics.throughput).toBeGreaterThan(0);
+    expect(metrics.queueLength).toBe(0);
+  });
+
+  it('should coalesce concurrent predict calls within the wait window', async () => {
+    const pending = [0.9, 0.1, 0.6].map((p, i) => service.predict(`PAIR${i}`, [p, 0, 0]));
+    expect(sessionRun).not.toHaveBeenCalled();
+
+    const responses = await Promise.all(pending);
+
+    expect(sessionRun).toHaveBeenCalledTimes(1);
+    expect(sessionRun.mock.calls[0][0].input.dims).toEqual([3, 3]);
+    expect(responses.map(r => r.prediction.direction)).toEqual(['UP', 'DOWN', 'UP']);
+  });
+
+  it('should reject only the malformed request in a batch', async () => {
+    const results = await Promise.allSettled([
+      service.predict('GOOD', [0.7, 0, 0]),
+      service.predict('BAD', [0.7, 0])
+    ]);
+
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: { symbol: 'GOOD' } });
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('Expected 3 features, got 2') });
+    expect(sessionRun.mock.calls[0][0].input.dims).toEqual([1, 3]);
+  });
+});
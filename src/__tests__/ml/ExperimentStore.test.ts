@@ -0,0 +1,236 @@
+import { ModelMetrics, TrainingExperiment } from '@/services/ml/AdvancedMLTrainingService';
+import { ExperimentTracker } from '@/services/ml/ExperimentTracker';
+import {
+  ExperimentArtifact,
+  ExperimentStore,
+  MemoryExperimentStore,
+  OfflineFirstExperimentStore
+} from '@/services/ml/persistence/ExperimentStore';
+import { fromExperimentRow, toExperimentRow } from '@/services/ml/persistence/SupabaseExperimentStore';
+import { SupabaseTeamStore } from '@/services/ml/persistence/SupabaseTeamStore';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+describe('Experiment persistence', () => {
+  const metrics = (accuracy: number): ModelMetrics => ({
+    accuracy,
+    precision: accuracy,
+    recall: accuracy,
+    f1Score: accuracy,
+    sharpeRatio: 1,
+    maxDrawdown: 0.1,
+    winRate: 0.5,
+    totalTrades: 10,
+    profitableTrades: 5,
+    avgReturn: 0.01,
+    volatility: 0.02
+  });
+
+  const makeExperiment = (id: string, startTime: Date): TrainingExperiment => ({
+    id,
+    name: `Experiment ${id}`,
+    model: 'regression',
+    parameters: { lookbackPeriod: 50, features: ['ohlcv'] },
+    metrics: metrics(0.6),
+    status: 'completed',
+    startTime,
+    endTime: new Date(startTime.getTime() + 60000),
+    features: ['ohlcv']
+  });
+
+  // Remote that can be switched off to simulate a lost connection
+  class FlakyRemote extends MemoryExperimentStore {
+    online = true;
+    calls: string[] = [];
+
+    async putExperiment(experiment: TrainingExperiment): Promise<void> {
+      this.check(`put:${experiment.id}`);
+      await super.putExperiment(experiment);
+    }
+
+    async deleteExperiments(ids: string[]): Promise<void> {
+      this.check(`delete:${ids.join(',')}`);
+      await super.deleteExperiments(ids);
+    }
+
+    async putArtifact(artifact: ExperimentArtifact): Promise<void> {
+      this.check(`artifact:${artifact.name}`);
+      await super.putArtifact(artifact);
+    }
+
+    async listExperiments(): Promise<TrainingExperiment[]> {
+      if (!this.online) throw new Error('offline');
+      return super.listExperiments();
+    }
+
+    private check(call: string): void {
+      if (!this.online) throw new Error('offline');
+      this.calls.push(call);
+    }
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should restore tracked experiments, dates and folds in a new tracker', async () => {
+    const store = new MemoryExperimentStore();
+    const tracker = new ExperimentTracker();
+    tracker.setStore(store);
+
+    tracker.addExperiment(makeExperiment('a', new Date('2026-10-01T10:00:00Z')));
+    tracker.addExperiment(makeExperiment('b', new Date('2026-10-02T10:00:00Z')));
+    tracker.recordCrossValidation('b', {
+      method: 'purged_kfold',
+      folds: [0, 1].map(fold => ({
+        fold, testRanges: [[fold * 10, fold * 10 + 10]], trainSize: 10, testSize: 10, purgedCount: 2, metrics: metrics(0.5 + fold / 10)
+      })),
+      mean: metrics(0.55),
+      std: metrics(0.05),
+      pbo: 0.25
+    });
+    await tracker.saveArtifact('b', 'weights', { w: [1, 2, 3] });
+    await tracker.flush();
+
+    const restored = new ExperimentTracker();
+    restored.setStore(store);
+    expect(await restored.restore()).toBe(2);
+
+    const b = restored.getExperiment('b')!;
+    expect(b.startTime).toBeInstanceOf(Date);
+    expect(b.metrics.accuracy).toBe(0.55);
+    expect(b.crossValidation!.folds).toHaveLength(2);
+    expect(restored.getPerformanceTrends().map(t => t.date)).toEqual(['2026-10-01', '2026-10-02']);
+    expect((await restored.loadArtifact('b', 'weights'))!.content).toEqual({ w: [1, 2, 3] });
+
+    expect(restored.cleanup(0)).toBe(2);
+    await restored.flush();
+    expect(await store.listExperiments()).toHaveLength(0);
+    expect(await store.getArtifact('b', 'weights')).toBeNull();
+  });
+
+  it('should queue writes while offline and sync them in order on reconnect', async () => {
+    const remote = new FlakyRemote();
+    const local = new MemoryExperimentStore();
+    const store = new OfflineFirstExperimentStore(remote, local);
+
+    await store.putExperiment(makeExperiment('a', new Date('2026-10-01T10:00:00Z')));
+    remote.online = false;
+    await store.putExperiment(makeExperiment('b', new Date('2026-10-02T10:00:00Z')));
+    await store.putArtifact({ experimentId: 'b', name: 'weights', kind: 'weights', content: [1], createdAt: '2026-10-02T10:01:00Z' });
+    await store.deleteExperiments(['a']);
+
+    expect(await local.pendingOperations()).toHaveLength(3);
+    // Offline listing comes from the local copy
+    expect((await store.listExperiments()).map(e => e.id)).toEqual(['b']);
+
+    remote.online = true;
+    expect(await store.sync()).toBe(0);
+    expect(remote.calls).toEqual(['put:a', 'put:b', 'artifact:weights', 'delete:a']);
+    expect((await remote.listExperiments()).map(e => e.id)).toEqual(['b']);
+    expect(await local.pendingOperations()).toHaveLength(0);
+  });
+
+  it('should list teammates\' remote experiments alongside unsynced local ones', async () => {
+    const remote = new FlakyRemote();
+    const local = new MemoryExperimentStore();
+    await remote.putExperiment(makeExperiment('teammate', new Date('2026-10-03T10:00:00Z')));
+    const store = new OfflineFirstExperimentStore(remote, local);
+
+    remote.online = false;
+    await store.putExperiment(makeExperiment('mine', new Date('2026-10-04T10:00:00Z')));
+    const original = remote.putExperiment.bind(remote);
+    remote.online = true;
+    // The next push still fails, so 'mine' stays pending during listing
+    remote.putExperiment = async () => { throw new Error('timeout'); };
+
+    const listed = await store.listExperiments();
+    expect(listed.map(e => e.id).sort()).toEqual(['mine', 'teammate']);
+
+    remote.putExperiment = original;
+    expect(await store.sync()).toBe(0);
+    expect((await remote.listExperiments()).map(e => e.id).sort()).toEqual(['mine', 'teammate']);
+  });
+
+  it('should round-trip experiments through Supabase rows', () => {
+    const experiment: TrainingExperiment = {
+      ...makeExperiment('row', new Date('2026-10-05T10:00:00Z')),
+      studyId: 'study_1',
+      trialNumber: 3,
+      crossValidation: {
+        method: 'combinatorial_purged',
+        folds: [{ fold: 0, testRanges: [[0, 5]], trainSize: 20, testSize: 5, purgedCount: 1, metrics: metrics(0.7) }],
+        mean: metrics(0.7),
+        std: metrics(0),
+        pbo: 0.1
+      }
+    };
+
+    const row = toExperimentRow(experiment, 'team');
+    expect(row).toMatchObject({ id: 'row', team_id: 'team', model_type: 'regression', study_id: 'study_1', trial_number: 3 });
+    expect((row.cross_validation as { folds: unknown[] }).folds).toEqual([]);
+
+    const folds = [{
+      experiment_id: 'row', fold: 0, test_ranges: [[0, 5]], train_size: 20, test_size: 5, purged_count: 1,
+      metrics: JSON.parse(JSON.stringify(metrics(0.7)))
+    }];
+    const restored = fromExperimentRow({
+      ...row,
+      user_id: 'user',
+      team_id: 'team',
+      config: row.config!,
+      metrics: row.metrics!,
+      features: row.features!,
+      cross_validation: row.cross_validation!,
+      study_id: 'study_1',
+      trial_number: 3,
+      end_time: row.end_time!,
+      created_at: row.start_time,
+      updated_at: row.start_time
+    }, folds);
+
+    expect(restored).toEqual(experiment);
+  });
+
+  it('should create teams and manage members through ml_team_members', async () => {
+    type MemberRow = { team_id: string; user_id: string; created_at: string };
+    const rows: MemberRow[] = [];
+
+    // Minimal query builder over an in-memory table
+    const from = () => {
+      let action: 'select' | 'insert' | 'delete' = 'select';
+      let inserted: Omit<MemberRow, 'created_at'> | null = null;
+      const filters: Array<[keyof MemberRow, string]> = [];
+      const matches = (row: MemberRow) => filters.every(([column, value]) => row[column] === value);
+      const query = {
+        select: () => query,
+        order: () => query,
+        eq: (column: keyof MemberRow, value: string) => { filters.push([column, value]); return query; },
+        insert: (row: Omit<MemberRow, 'created_at'>) => { action = 'insert'; inserted = row; return query; },
+        delete: () => { action = 'delete'; return query; },
+        then: (resolve: (result: { data: MemberRow[] | null; error: null }) => void) => {
+          if (action === 'insert') rows.push({ ...inserted!, created_at: new Date(rows.length * 1000).toISOString() });
+          if (action === 'delete') rows.splice(0, rows.length, ...rows.filter(row => !matches(row)));
+          resolve({ data: action === 'select' ? rows.filter(matches) : null, error: null });
+        }
+      };
+      return query;
+    };
+    const client = { from, auth: { getUser: async () => ({ data: { user: { id: 'me' } } }) } };
+    const teams = new SupabaseTeamStore(client as unknown as SupabaseClient<Database>);
+
+    const teamId = await teams.createTeam();
+    await teams.addMember(teamId, 'teammate');
+
+    expect(await teams.listTeams()).toEqual([teamId]);
+    expect((await teams.listMembers(teamId)).map(m => m.userId)).toEqual(['me', 'teammate']);
+
+    await teams.removeMember(teamId, 'me');
+    expect(await teams.listTeams()).toEqual([]);
+    expect((await teams.listMembers(teamId)).map(m => m.userId)).toEqual(['teammate']);
+  });
+});
@@ -0,0 +1,129 @@
+import { ModelConfig, ModelMetrics, TrainingExperiment } from '@/services/ml/AdvancedMLTrainingService';
+import { ExperimentTracker } from '@/services/ml/ExperimentTracker';
+import { HyperparameterSearchService, SearchSpace } from '@/services/ml/search/HyperparameterSearch';
+
+describe('HyperparameterSearchService', () => {
+  const baseConfig: ModelConfig = {
+    modelType: 'regression',
+    lookbackPeriod: 50,
+    features: ['ohlcv'],
+    trainingRatio: 0.7,
+    validationRatio: 0.15,
+    epochs: 50,
+    learningRate: 0.01
+  };
+
+  const space: SearchSpace = {
+    lookbackPeriod: { type: 'int', min: 20, max: 100, step: 10 },
+    features: { type: 'subset', values: ['ohlcv', 'technical', 'volume'], minSize: 1 },
+    learningRate: { type: 'float', min: 1e-4, max: 1, log: true },
+    modelType: { type: 'categorical', values: ['transformer', 'regression', 'ensemble'] }
+  };
+
+  // Objective peaks at learningRate = 0.01 and lookback 60; modelType is irrelevant
+  const objective = (config: ModelConfig) =>
+    -Math.pow(Math.log10(config.learningRate!) + 2, 2)
+    - Math.pow((config.lookbackPeriod - 60) / 40, 2)
+    + (config.features.includes('technical') ? 0.5 : 0)
+    + (config.epochs ?? 0) / 1000;
+
+  let tracker: ExperimentTracker;
+  let search: HyperparameterSearchService;
+  let evaluated: ModelConfig[];
+
+  beforeEach(() => {
+    tracker = new ExperimentTracker();
+    evaluated = [];
+    const trainer = {
+      trainAndEvaluate: async (name: string, config: ModelConfig): Promise<TrainingExperiment> => {
+        evaluated.push(config);
+        return {
+          id: `exp_${evaluated.length}`,
+          name,
+          model: config.modelType,
+          parameters: config,
+          metrics: { sharpeRatio: objective(config) } as ModelMetrics,
+          status: 'completed',
+          startTime: new Date(),
+          features: config.features
+        };
+      }
+    };
+    search = new HyperparameterSearchService(trainer, tracker);
+  });
+
+  it('should register every random-search trial under the study and pick the best', async () => {
+    const study = await search.runStudy({ name: 'random', strategy: 'random', space, baseConfig, budget: 15, seed: 1 }, []);
+
+    expect(study.status).toBe('completed');
+    expect(study.trials).toHaveLength(15);
+    expect(tracker.getStudyTrials(study.id).map(e => e.trialNumber)).toEqual(study.trials.map(t => t.number));
+
+    const best = search.getBestTrial(study.id)!;
+    expect(best.value).toBe(Math.max(...study.trials.map(t => t.value)));
+    evaluated.forEach(config => {
+      expect(config.learningRate).toBeGreaterThanOrEqual(1e-4);
+      expect(config.learningRate).toBeLessThanOrEqual(1);
+      expect(config.lookbackPeriod % 10).toBe(0);
+      expect(config.features.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should concentrate TPE suggestions around good regions after startup', async () => {
+    const study = await search.runStudy({
+      name: 'tpe', strategy: 'tpe', space, baseConfig, budget: 40, seed: 3, tpe: { startupTrials: 10 }
+    }, []);
+
+    const distance = (configs: ModelConfig[]) =>
+      configs.reduce((sum, c) => sum + Math.abs(Math.log10(c.learningRate!) + 2), 0) / configs.length;
+
+    expect(study.trials).toHaveLength(40);
+    expect(distance(evaluated.slice(-15))).toBeLessThan(distance(evaluated.slice(0, 10)));
+  });
+
+  it('should run successive halving within the budget and promote the best configurations', async () => {
+    const study = await search.runStudy({
+      name: 'halving', strategy: 'successive_halving', space, baseConfig, budget: 13, seed: 5,
+      halving: { eta: 3, minEpochs: 10, maxEpochs: 90 }
+    }, []);
+
+    expect(study.trials.map(t => t.resource)).toEqual([...Array(9).fill(10), 10 * 3, 30, 30, 90]);
+
+    const firstRung = study.trials.slice(0, 9).sort((a, b) => b.value - a.value);
+    const promoted = study.trials.slice(9, 12).map(t => t.configId).sort();
+    expect(promoted).toEqual(firstRung.slice(0, 3).map(t => t.configId).sort());
+    expect(search.getBestTrial(study.id)!.resource).toBe(90);
+  });
+
+  it('should shorten the halving ladder when the budget is smaller than the number of rungs', async () => {
+    const halving = { eta: 3, minEpochs: 10, maxEpochs: 90 };
+    const small = await search.runStudy({
+      name: 'small', strategy: 'successive_halving', space, baseConfig, budget: 2, seed: 5, halving
+    }, []);
+    const single = await search.runStudy({
+      name: 'single', strategy: 'successive_halving', space, baseConfig, budget: 1, seed: 5, halving
+    }, []);
+
+    expect(small.trials.map(t => t.resource)).toEqual([10, 90]);
+    expect(single.trials.map(t => t.resource)).toEqual([90]);
+  });
+
+  it('should rank parameter importance and build parallel-coordinates rows', async () => {
+    const study = await search.runStudy({ name: 'importance', strategy: 'random', space, baseConfig, budget: 30, seed: 7 }, []);
+
+    const importance = search.getParameterImportance(study.id);
+    const byName = Object.fromEntries(importance.map(i => [i.parameter, i.importance]));
+    expect(importance.reduce((sum, i) => sum + i.importance, 0)).toBeCloseTo(1, 10);
+    expect(byName.learningRate).toBeGreaterThan(byName.modelType);
+
+    const coordinates = search.getParallelCoordinates(study.id);
+    expect(coordinates.dimensions.map(d => d.name)).toEqual(['lookbackPeriod', 'features', 'learningRate', 'modelType', 'objective']);
+    expect(coordinates.rows).toHaveLength(30);
+    coordinates.rows.forEach(row => {
+      Object.values(row.normalized).forEach(v => {
+        expect(v).toBeGreaterThanOrEqual(0);
+        expect(v).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { ModelManager } from '@/services/ml/ModelManager';
+import { ModelManifest, computeSha256, parseManifest, validateManifestSchema } from '@/services/ml/ModelManifest';
+
+const mockInference = {
+  loadModel: jest.fn().mockResolvedValue(undefined),
+  isModelLoaded: jest.fn().mockReturnValue(false)
+};
+
+jest.mock('@/services/ml/OnnxInferenceService', () => ({
+  ONNX_FEATURE_NAMES: [],
+  get onnxInferenceService() {
+    return mockInference;
+  }
+}));
+
+describe('ONNX model manifests', () => {
+  const liveFeatures = ['close', 'sma_5', 'volatility'];
+  const modelBytes = new TextEncoder().encode('fake onnx model');
+  let sha256: string;
+
+  const makeManifest = (overrides: Partial<ModelManifest> = {}): ModelManifest => ({
+    format: 'forex-neural-trader/onnx-manifest',
+    schemaVersion: 1,
+    name: 'eurusd-m5',
+    version: '1.2.0',
+    modelFile: 'eurusd-m5.onnx',
+    sha256,
+    features: [...liveFeatures],
+    scaler: { mean: [1.1, 1.1, 0.0005], std: [0.02, 0.02, 0.0002] },
+    inputShape: [1, 3],
+    outputShape: [1, 2],
+    target: { pair: 'EUR/USD', timeframe: '5m' },
+    ...overrides
+  });
+
+  const makeManager = (files: Record<string, string | Uint8Array>) => {
+    const fetchFn = jest.fn(async (input: RequestInfo | URL) => {
+      const body = files[String(input)];
+      return body === undefined
+        ? new Response(null, { status: 404 })
+        : new Response(body);
+    });
+    return { manager: new ModelManager({ fetchFn: fetchFn as typeof fetch, liveFeatures }), fetchFn };
+  };
+
+  beforeAll(async () => {
+    sha256 = await computeSha256(modelBytes);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compute SHA-256 as lowercase hex', async () => {
+    expect(await computeSha256(new TextEncoder().encode('abc')))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should report every schema problem in a manifest', () => {
+    expect(validateManifestSchema(makeManifest())).toEqual([]);
+
+    const errors = validateManifestSchema({
+      ...makeManifest(),
+      sha256: 'abc',
+      features: ['close', 'close'],
+      inputShape: [1, 4],
+      scaler: { mean: [0, 0], std: [1, 0, 1] },
+      target: { pair: 'EUR/USD' }
+    });
+
+    expect(errors).toEqual([
+      'sha256 must be a 64-character hex digest',
+      'features contain duplicate names',
+      'inputShape [1,4] does not match 2 features',
+      'target must declare pair and timeframe',
+      'scaler.std has 3 values for 2 features',
+      'scaler.std must be positive'
+    ]);
+    expect(() => parseManifest('{')).toThrow('Invalid manifest JSON');
+  });
+
+  it('should load a manifest, verify its checksum and deploy the model', async () => {
+    const { manager, fetchFn } = makeManager({
+      '/models/eurusd-m5.json': JSON.stringify(makeManifest()),
+      '/models/eurusd-m5.onnx': modelBytes
+    });
+
+    const { loaded, failed } = await manager.loadManifests(['/models/eurusd-m5.json', '/models/missing.json']);
+    expect(loaded).toEqual(['eurusd-m5']);
+    expect(failed).toEqual([{ manifestPath: '/models/missing.json', error: expect.stringContaining('HTTP 404') }]);
+    expect(manager.getModelConfiguration('eurusd-m5')).toMatchObject({
+      modelPath: '/models/eurusd-m5.onnx',
+      target: { pair: 'EUR/USD', timeframe: '5m' }
+    });
+
+    expect(await manager.deployModel('eurusd-m5')).toEqual({ success: true });
+    expect(mockInference.loadModel).toHaveBeenCalledWith(expect.objectContaining({ name: 'eurusd-m5' }));
+
+    // The verified checksum is cached: no second download of the model file
+    await manager.validateModelHealth('eurusd-m5');
+    expect(fetchFn.mock.calls.filter(([url]) => url === '/models/eurusd-m5.onnx')).toHaveLength(1);
+  });
+
+  it('should load the manifests listed in the model index and treat a missing index as no models', async () => {
+    const { manager } = makeManager({
+      '/models/index.json': JSON.stringify({ manifests: ['eurusd-m5.json'] }),
+      '/models/eurusd-m5.json': JSON.stringify(makeManifest()),
+      '/models/eurusd-m5.onnx': modelBytes
+    });
+
+    expect(await manager.loadManifests()).toEqual({ loaded: ['eurusd-m5'], failed: [] });
+
+    const empty = makeManager({}).manager;
+    expect(await empty.loadManifests()).toEqual({ loaded: [], failed: [] });
+    expect(empty.getAllModelConfigurations()).toEqual([]);
+
+    const malformed = makeManager({ '/models/index.json': '<!doctype html>' }).manager;
+    expect(await malformed.discoverManifests()).toEqual([]);
+  });
+
+  it('should refuse to deploy on checksum or feature mismatch', async () => {
+    const { manager } = makeManager({ '/models/eurusd-m5.onnx': new TextEncoder().encode('tampered') });
+
+    manager.registerManifest(makeManifest(), '/models/eurusd-m5.json');
+    const tampered = await manager.deployModel('eurusd-m5');
+    expect(tampered.success).toBe(false);
+    expect(tampered.error).toContain('Checksum mismatch');
+
+    manager.registerManifest(makeManifest({ features: ['sma_5', 'close', 'volatility'] }), '/models/eurusd-m5.json');
+    const health = await manager.validateModelHealth('eurusd-m5');
+    expect(health.healthy).toBe(false);
+    expect(health.errors).toEqual(['Feature order differs at position 0: model sma_5, extractor close']);
+
+    manager.addModelConfiguration({ name: 'legacy', version: '1', modelPath: '/models/legacy.onnx', inputShape: [1, 3], outputShape: [1, 2] });
+    expect((await manager.deployModel('legacy')).error).toContain('has no manifest');
+
+    expect(mockInference.loadModel).not.toHaveBeenCalled();
+    expect(manager.getDeploymentHistory().every(d => !d.success)).toBe(true);
+  });
+});
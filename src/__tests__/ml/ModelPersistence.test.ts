@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileModelStore } from '@/services/ml/persistence/FileModelStore';
+import {
+  ModelSnapshot,
+  computeNormalizationStats,
+  modelKey,
+  modelPersistenceService
+} from '@/services/ml/persistence/ModelPersistenceService';
+import { RealMLService } from '@/services/ml/RealMLService';
+import { NeuralPredictionService } from '@/services/neuralPredictionService';
+
+describe('Model persistence', () => {
+  let rootDir: string;
+
+  const snapshot = (weights: number[]): ModelSnapshot<number[]> => ({
+    modelId: 'test-model',
+    pair: 'eur/usd',
+    timeframe: '1h',
+    architecture: { inputSize: 2 },
+    weights,
+    normalization: null,
+    trainingExamples: [{ features: [1, 2], target: 1, timestamp: 1 }]
+  });
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'models-'));
+    modelPersistenceService.setStore(new FileModelStore(rootDir));
+    modelPersistenceService.setMaxVersions(5);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should version saves per pair and timeframe and prune old versions', async () => {
+    modelPersistenceService.setMaxVersions(2);
+    await modelPersistenceService.save(snapshot([1]));
+    await modelPersistenceService.save(snapshot([2]));
+    const third = await modelPersistenceService.save(snapshot([3]));
+
+    expect(third.version).toBe(3);
+    expect(third.pair).toBe('EUR/USD');
+    expect(await modelPersistenceService.listVersions('test-model', 'EUR/USD', '1h')).toEqual([2, 3]);
+    expect((await modelPersistenceService.load<number[]>('test-model', 'EUR/USD', '1h'))!.weights).toEqual([3]);
+    expect((await modelPersistenceService.load<number[]>('test-model', 'EUR/USD', '1h', 2))!.weights).toEqual([2]);
+    expect(await modelPersistenceService.load('test-model', 'GBP/USD', '1h')).toBeNull();
+    expect(fs.existsSync(path.join(rootDir, modelKey('test-model', 'EUR/USD', '1h').replace(/[^A-Za-z0-9._-]/g, '_'), 'v3.json'))).toBe(true);
+  });
+
+  it('should compute per-feature normalization stats', () => {
+    const stats = computeNormalizationStats([{ features: [1, 10] }, { features: [3, 10] }]);
+
+    expect(stats!.mean).toEqual([2, 10]);
+    expect(stats!.std).toEqual([1, 0]);
+    expect(computeNormalizationStats([])).toBeNull();
+  });
+
+  it('should reject model files for another model', async () => {
+    const record = await modelPersistenceService.save(snapshot([1]));
+    const file = modelPersistenceService.exportModel(record);
+
+    expect(modelPersistenceService.parseModelFile(file, 'test-model').weights).toEqual([1]);
+    expect(() => modelPersistenceService.parseModelFile(file, 'real-ml')).toThrow('expected real-ml');
+    expect(() => modelPersistenceService.parseModelFile('{}', 'real-ml')).toThrow('Not a model file');
+  });
+
+  it('should restore RealMLService weights and export/import a trained model', async () => {
+    const service = RealMLService.getInstance();
+    await service.whenRestored();
+
+    expect(await service.useModel('EUR/USD', '1h')).toBe(false);
+    await service.saveModel();
+    const exported = service.exportModel();
+    const savedWeights = JSON.parse(exported).model.weights;
+
+    await service.useModel('GBP/USD', '1h');
+    expect(JSON.parse(service.exportModel()).model.weights).not.toEqual(savedWeights);
+
+    expect(await service.useModel('EUR/USD', '1h')).toBe(true);
+    expect(JSON.parse(service.exportModel()).model.weights).toEqual(savedWeights);
+
+    await service.useModel('GBP/USD', '1h');
+    await service.importModel(exported);
+    expect(service.getModelStats()).toMatchObject({ pair: 'EUR/USD', timeframe: '1h', version: 2 });
+  });
+
+  it('should restore NeuralPredictionService weights instead of re-randomizing', async () => {
+    const service = NeuralPredictionService.getInstance();
+    await service.whenRestored();
+
+    await service.useModel('USD/JPY', '5m');
+    await service.saveModel();
+    const weights = JSON.parse(service.exportModel()).model.weights;
+
+    await service.useModel('AUD/USD', '5m');
+    expect(await service.useModel('USD/JPY', '5m')).toBe(true);
+    expect(JSON.parse(service.exportModel()).model.weights).toEqual(weights);
+  });
+});
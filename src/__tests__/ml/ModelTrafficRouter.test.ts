@@ -0,0 +1,185 @@
+import { ModelManager } from '@/services/ml/ModelManager';
+import { computeSha256 } from '@/services/ml/ModelManifest';
+import { ModelTrafficRouter, RolloutConfig } from '@/services/ml/ModelTrafficRouter';
+import type { PredictionResponse } from '@/services/ml/OnnxInferenceService';
+
+const mockInference = {
+  loadModel: jest.fn().mockResolvedValue(undefined),
+  isModelLoaded: jest.fn().mockReturnValue(false),
+  healthCheck: jest.fn().mockResolvedValue({ status: 'healthy', details: {} }),
+  predict: jest.fn()
+};
+
+jest.mock('@/services/ml/OnnxInferenceService', () => ({
+  ONNX_FEATURE_NAMES: [],
+  get onnxInferenceService() {
+    return mockInference;
+  }
+}));
+
+let requestCounter = 0;
+
+const response = (model: string, direction: 'UP' | 'DOWN', latency = 5): PredictionResponse => ({
+  symbol: 'EUR/USD',
+  prediction: {
+    direction,
+    probability: 0.6,
+    confidence: 60,
+    interval: 5,
+    factors: { technical: 0, volume: 0, momentum: 0, volatility: 0, pattern: 0, trend: 0 },
+    recommendation: model
+  },
+  confidence: 60,
+  uncertainty: 0.1,
+  latency,
+  requestId: `req_${++requestCounter}`,
+  modelVersion: model
+});
+
+describe('ModelTrafficRouter', () => {
+  const baseRollout: RolloutConfig = {
+    primaryModel: 'prod',
+    candidateModel: 'next',
+    mode: 'canary',
+    rolloutPercentage: 25,
+    autoRollback: true,
+    healthCheckInterval: 0,
+    thresholds: { minSamples: 4, minAccuracy: 0.5, maxLatencyMs: 20, maxErrorRate: 0.25 }
+  };
+
+  let predictFn: jest.Mock;
+  let onRollback: jest.Mock;
+
+  beforeEach(() => {
+    predictFn = jest.fn(async (_symbol: string, _features: number[], model: string) =>
+      response(model, model === 'prod' ? 'UP' : 'DOWN'));
+    onRollback = jest.fn().mockResolvedValue(undefined);
+  });
+
+  it('should send the configured share of traffic to the canary', async () => {
+    const draws = [0.1, 0.3, 0.2, 0.9, 0.24, 0.25, 0.5, 0.0];
+    const router = new ModelTrafficRouter(predictFn, onRollback, () => draws.shift()!);
+    router.startRollout(baseRollout);
+
+    const served: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      served.push((await router.predict('EUR/USD', [1])).modelVersion);
+    }
+
+    expect(served).toEqual(['next', 'prod', 'next', 'prod', 'next', 'prod', 'prod', 'next']);
+    expect(router.getPredictionLog().map(e => e.servedBy)).toEqual(
+      served.map(model => (model === 'next' ? 'candidate' : 'primary'))
+    );
+    expect(() => router.startRollout({ ...baseRollout, rolloutPercentage: 120 })).toThrow('Invalid rollout percentage');
+  });
+
+  it('should route each request of a batch and label it by request id', async () => {
+    const draws = [0.1, 0.9, 0.2];
+    const router = new ModelTrafficRouter(predictFn, onRollback, () => draws.shift()!);
+    router.startRollout(baseRollout);
+
+    const responses = await router.batchPredict([1, 2, 3].map(i => ({ symbol: 'EUR/USD', features: [i] })));
+
+    expect(responses.map(r => r.modelVersion)).toEqual(['next', 'prod', 'next']);
+    expect(router.recordOutcome(responses[0].requestId, 'DOWN')).toBe(true);
+    expect(router.recordOutcome('unknown', 'UP')).toBe(false);
+    expect(router.getCandidateStats().accuracy).toBe(1);
+  });
+
+  it('should run the shadow on every request without exposing its output', async () => {
+    const router = new ModelTrafficRouter(predictFn, onRollback);
+    router.startRollout({ ...baseRollout, mode: 'shadow' });
+
+    const result = await router.predict('EUR/USD', [1]);
+    expect(result.modelVersion).toBe('prod');
+    expect(predictFn).toHaveBeenCalledTimes(2);
+
+    const [entry] = router.getPredictionLog();
+    expect(entry).toMatchObject({
+      requestId: result.requestId,
+      mode: 'shadow',
+      servedBy: 'primary',
+      primary: { model: 'prod', direction: 'UP' },
+      candidate: { model: 'next', direction: 'DOWN' }
+    });
+    expect(router.getCandidateStats().agreement).toBe(0);
+
+    // A failing shadow is logged but never fails the request
+    predictFn.mockImplementation(async (_s: string, _f: number[], model: string) => {
+      if (model === 'next') throw new Error('shadow crashed');
+      return response(model, 'UP');
+    });
+    await expect(router.predict('EUR/USD', [1])).resolves.toMatchObject({ modelVersion: 'prod' });
+    expect(router.getPredictionLog()[1].candidateError).toBe('shadow crashed');
+  });
+
+  it('should roll back a candidate whose live accuracy falls below the threshold', async () => {
+    const router = new ModelTrafficRouter(predictFn, onRollback, () => 0);
+    router.startRollout(baseRollout);
+
+    for (let i = 0; i < 4; i++) {
+      const { requestId } = await router.predict('EUR/USD', [1]);
+      // The candidate always says DOWN; the market went UP three times out of four
+      router.recordOutcome(requestId, i === 0 ? 'DOWN' : 'UP');
+    }
+
+    const evaluation = await router.evaluateCandidate();
+    expect(evaluation.healthy).toBe(false);
+    expect(evaluation.stats.accuracy).toBe(0.25);
+    expect(evaluation.reasons).toEqual(['Accuracy 25.0% below 50.0%']);
+    expect(onRollback).toHaveBeenCalledWith(expect.objectContaining({ candidateModel: 'next' }), evaluation.reasons);
+
+    // Traffic is back on the primary model
+    expect(router.getRollout()).toBeNull();
+    expect((await router.predict('EUR/USD', [1], 'prod')).modelVersion).toBe('prod');
+  });
+
+  it('should fall back to the primary when the canary fails and flag slow candidates', async () => {
+    const router = new ModelTrafficRouter(predictFn, onRollback, () => 0);
+    router.startRollout({ ...baseRollout, autoRollback: false });
+
+    predictFn.mockImplementation(async (_s: string, _f: number[], model: string) => response(model, 'UP', model === 'next' ? 40 : 5));
+    for (let i = 0; i < 4; i++) await router.predict('EUR/USD', [1]);
+
+    predictFn.mockImplementationOnce(async () => { throw new Error('canary crashed'); });
+    await expect(router.predict('EUR/USD', [1])).resolves.toMatchObject({ modelVersion: 'prod' });
+
+    const evaluation = await router.evaluateCandidate();
+    expect(evaluation.stats).toMatchObject({ requests: 5, errors: 1, averageLatency: 40 });
+    expect(evaluation.reasons).toEqual(['Latency 40.0ms above 20ms']);
+    expect(onRollback).not.toHaveBeenCalled();
+    expect(router.getRollout()).not.toBeNull();
+  });
+
+  it('should wire canary deployments and auto-rollback through ModelManager', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const modelBytes = new TextEncoder().encode('model');
+    const sha256 = await computeSha256(modelBytes);
+    const manager = new ModelManager({
+      fetchFn: (async () => new Response(modelBytes)) as typeof fetch,
+      liveFeatures: ['close'],
+      random: () => 0
+    });
+    ['prod', 'next'].forEach(name => manager.addModelConfiguration({
+      name, version: '1.0.0', modelPath: `/models/${name}.onnx`, inputShape: [1, 1], outputShape: [1, 2], features: ['close'], sha256
+    }));
+    mockInference.predict.mockImplementation(async (_s: string, _f: number[], model: string) =>
+      response(model, 'UP', model === 'next' ? 100 : 5));
+
+    expect((await manager.deployModel('prod')).success).toBe(true);
+    const canary = await manager.performCanaryDeployment('next', 10);
+    expect(canary.success).toBe(true);
+    expect(manager.getTrafficRouter().getRollout()).toMatchObject({ primaryModel: 'prod', candidateModel: 'next', rolloutPercentage: 10 });
+
+    for (let i = 0; i < 30; i++) await manager.predict('EUR/USD', [1]);
+    const evaluation = await manager.getTrafficRouter().evaluateCandidate();
+
+    expect(evaluation.healthy).toBe(false);
+    expect(manager.getTrafficRouter().getRollout()).toBeNull();
+    expect(manager.getDeploymentHistory().find(d => d.action === 'rollback')).toMatchObject({ modelName: 'prod', success: true });
+    jest.restoreAllMocks();
+  });
+});
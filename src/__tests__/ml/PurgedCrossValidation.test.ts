@@ -0,0 +1,113 @@
+import { AdvancedMLTrainingService, FeatureVector, ModelMetrics } from '@/services/ml/AdvancedMLTrainingService';
+import { ExperimentTracker } from '@/services/ml/ExperimentTracker';
+import { createSeededRandom } from '@/lib/utils';
+
+describe('Purged cross-validation', () => {
+  let service: AdvancedMLTrainingService;
+
+  const makeFeatures = (count: number): FeatureVector[] => {
+    const random = createSeededRandom(11);
+    let close = 1.1;
+    return Array.from({ length: count }, (_, i) => {
+      const signal = random() * 2 - 1;
+      close *= 1 + signal * 0.001 + (random() - 0.5) * 0.0005;
+      return {
+        timestamp: i,
+        features: [signal, random() - 0.5],
+        label: signal > 0 ? 1 : 0,
+        metadata: { close }
+      };
+    });
+  };
+
+  beforeEach(() => {
+    service = new AdvancedMLTrainingService();
+  });
+
+  it('should purge overlapping labels and embargo after each test block', () => {
+    const splits = service.getPurgedSplits(100, { groups: 5, labelHorizon: 3, embargo: 2 });
+
+    expect(splits).toHaveLength(5);
+    const second = splits[1];
+    expect(second.testRanges).toEqual([[20, 40]]);
+    // Samples 17..19 reach into the block, 40..42 overlap its labels, 43..44 are embargoed
+    expect(second.trainIndices.filter(i => i >= 15 && i < 47)).toEqual([15, 16, 45, 46]);
+    expect(second.purgedCount).toBe(8);
+    expect(second.trainIndices.length + second.testIndices.length + second.purgedCount).toBe(100);
+  });
+
+  it('should enumerate every combination of test groups', () => {
+    const splits = service.getPurgedSplits(60, { groups: 6, testGroups: 2, labelHorizon: 1 });
+    const combos = splits.map(split => split.testRanges.map(([start]) => start / 10).join(','));
+
+    expect(splits).toHaveLength(15);
+    expect(new Set(combos).size).toBe(15);
+    splits.forEach(split => {
+      split.trainIndices.forEach(i => {
+        split.testRanges.forEach(([start, end]) => expect(i < start - 1 || i > end).toBe(true));
+      });
+    });
+    expect(() => service.getPurgedSplits(60, { groups: 3, testGroups: 3 })).toThrow('Invalid cross-validation groups');
+  });
+
+  it('should estimate PBO from the out-of-sample rank of the in-sample winner', () => {
+    const inSample = [[3, 2, 1], [1, 2, 3]];
+
+    expect(service.estimateProbabilityOfOverfitting(inSample, [[3, 2, 1], [1, 2, 3]])).toBe(0);
+    expect(service.estimateProbabilityOfOverfitting(inSample, [[1, 2, 3], [3, 2, 1]])).toBe(1);
+    expect(service.estimateProbabilityOfOverfitting(inSample, [[3, 2, 1], [3, 2, 1]])).toBe(0.5);
+  });
+
+  it('should return per-fold metrics with mean, std and PBO', async () => {
+    const features = makeFeatures(300);
+
+    const kfold = await service.purgedKFoldValidation(features, { groups: 5, labelHorizon: 2, embargo: 3 });
+    const cpcv = await service.combinatorialPurgedValidation(features, { groups: 5, testGroups: 2 });
+
+    expect(kfold.folds).toHaveLength(5);
+    expect(cpcv.folds).toHaveLength(10);
+    expect(kfold.mean.accuracy).toBeCloseTo(
+      kfold.folds.reduce((sum, f) => sum + f.metrics.accuracy, 0) / 5,
+      10
+    );
+    expect(kfold.mean.accuracy).toBeGreaterThan(0.9);
+    expect(kfold.std.accuracy).toBeGreaterThanOrEqual(0);
+    expect(cpcv.folds[0].testSize).toBe(120);
+    expect(cpcv.pbo).toBeGreaterThanOrEqual(0);
+    expect(cpcv.pbo).toBeLessThanOrEqual(1);
+  });
+
+  it('should rank experiments with unstable folds below consistent ones', () => {
+    const tracker = new ExperimentTracker();
+    const metrics = (accuracy: number): ModelMetrics => ({
+      accuracy, precision: accuracy, recall: accuracy, f1Score: accuracy,
+      sharpeRatio: 1, maxDrawdown: 0.1, winRate: accuracy, totalTrades: 10,
+      profitableTrades: 5, avgReturn: 0.001, volatility: 0.01
+    });
+    const experiment = (id: string, foldAccuracies: number[]) => {
+      tracker.addExperiment({
+        id, name: id, model: 'regression', parameters: {}, metrics: metrics(0),
+        status: 'completed', startTime: new Date(), features: []
+      });
+      tracker.recordCrossValidation(id, {
+        method: 'purged_kfold',
+        folds: foldAccuracies.map((accuracy, i) => ({
+          fold: i + 1, testRanges: [], trainSize: 0, testSize: 0, purgedCount: 0, metrics: metrics(accuracy)
+        })),
+        mean: metrics(foldAccuracies.reduce((a, b) => a + b, 0) / foldAccuracies.length),
+        std: metrics(0),
+        pbo: 0
+      });
+    };
+
+    experiment('stable', [0.6, 0.6, 0.6, 0.6]);
+    experiment('volatile', [0.9, 0.3, 0.9, 0.3]);
+
+    const { rankings } = tracker.compareExperiments(['volatile', 'stable']);
+
+    expect(tracker.getExperiment('stable')!.metrics.accuracy).toBe(0.6);
+    expect(rankings.map(r => r.experiment.id)).toEqual(['stable', 'volatile']);
+    expect(rankings[0].scoreStd).toBe(0);
+    expect(rankings[1].foldScores).toHaveLength(4);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  RecurrentCellType,
+  SequenceModel,
+  SequenceSample,
+  clipGradients,
+  trainSequenceModel
+} from '@/services/ml/sequence/SequenceModel';
+import { runSequenceTrainingJob } from '@/services/ml/sequence/SequenceTrainingJob';
+import { trainSequenceModelInWorker } from '@/services/ml/sequence/SequenceTrainingClient';
+import { FeatureVector } from '@/services/ml/AdvancedMLTrainingService';
+import { createSeededRandom } from '@/lib/utils';
+
+describe('SequenceModel', () => {
+  const random = createSeededRandom(7);
+
+  // Target: whether the first feature sums to a positive value over the window
+  const makeSamples = (count: number, length: number): SequenceSample[] =>
+    Array.from({ length: count }, () => {
+      const sequence = Array.from({ length }, () => [random() * 2 - 1, random() * 2 - 1]);
+      return { sequence, target: sequence.reduce((sum, step) => sum + step[0], 0) > 0 ? 1 : 0 };
+    });
+
+  it.each<RecurrentCellType>(['lstm', 'gru'])('should match numerical gradients through time (%s)', cellType => {
+    const model = new SequenceModel({ cellType, inputSize: 3, hiddenSize: 4, sequenceLength: 5, seed: 3 });
+    const batch: SequenceSample[] = [0, 1].map(target => ({
+      sequence: Array.from({ length: 5 }, () => [random() - 0.5, random() - 0.5, random() - 0.5]),
+      target
+    }));
+    const { gradients } = model.lossAndGradients(batch);
+    const params = model.getParameters();
+    const eps = 1e-5;
+
+    Object.keys(params).forEach(name => {
+      [0, Math.floor(params[name].length / 2), params[name].length - 1].forEach(index => {
+        const original = params[name][index];
+        params[name][index] = original + eps;
+        const lossPlus = model.lossAndGradients(batch).loss;
+        params[name][index] = original - eps;
+        const lossMinus = model.lossAndGradients(batch).loss;
+        params[name][index] = original;
+
+        const numeric = (lossPlus - lossMinus) / (2 * eps);
+        expect(gradients[name][index]).toBeCloseTo(numeric, 6);
+      });
+    });
+  });
+
+  it('should clip gradients to the global norm', () => {
+    const gradients = { a: Float64Array.from([3, 0]), b: Float64Array.from([4]) };
+
+    expect(clipGradients(gradients, 1)).toBeCloseTo(5, 10);
+    expect(gradients.a[0]).toBeCloseTo(0.6, 10);
+    expect(gradients.b[0]).toBeCloseTo(0.8, 10);
+  });
+
+  it('should learn a sequence rule with Adam and keep the best epoch', () => {
+    const train = makeSamples(300, 6);
+    const validation = makeSamples(100, 6);
+    const epochs: number[] = [];
+
+    const result = trainSequenceModel(
+      train,
+      validation,
+      { cellType: 'gru', inputSize: 2, hiddenSize: 6, sequenceLength: 6 },
+      { epochs: 25, learningRate: 0.02, patience: 4 },
+      stats => epochs.push(stats.epoch)
+    );
+    const model = SequenceModel.fromJSON(result.model);
+
+    expect(model.evaluate(validation).accuracy).toBeGreaterThan(0.85);
+    expect(result.history[result.bestEpoch - 1].validationLoss)
+      .toBe(Math.min(...result.history.map(h => h.validationLoss)));
+    expect(epochs).toEqual(result.history.map(h => h.epoch));
+  });
+
+  it('should split feature vectors chronologically and standardize on the training part', async () => {
+    const features: FeatureVector[] = Array.from({ length: 200 }, (_, i) => ({
+      timestamp: i,
+      features: [100 + Math.sin(i / 3), 5 * Math.cos(i / 3)],
+      label: Math.cos((i + 1) / 3) > Math.cos(i / 3) ? 1 : 0
+    }));
+    const request = {
+      features,
+      split: { trainingRatio: 0.6, validationRatio: 0.2 },
+      model: { cellType: 'lstm' as const, hiddenSize: 4, sequenceLength: 8 },
+      training: { epochs: 3 }
+    };
+
+    const result = runSequenceTrainingJob(request);
+
+    expect(result.trainSequences).toBe(120 - 7);
+    expect(result.validationSequences).toBe(40);
+    expect(result.model.normalization!.mean[0]).toBeCloseTo(100, 0);
+    expect(result.testAccuracy).toBeDefined();
+
+    // Without Worker support the client trains in-process
+    const viaClient = await trainSequenceModelInWorker(request);
+    expect(viaClient.model.parameters).toEqual(result.model.parameters);
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  TrainingSample,
+  predictGradientBoosting,
+  predictRandomForest,
+  trainGradientBoosting,
+  trainRandomForest
+} from '@/services/ml/TreeEnsemble';
+import { ProfessionalMLService } from '@/services/ml/ProfessionalMLService';
+import { SequenceModel } from '@/services/ml/sequence/SequenceModel';
+import { createSeededRandom } from '@/lib/utils';
+import { CandleData } from '@/types/session';
+
+describe('TreeEnsemble', () => {
+  // Target depends only on feature 1; features 0 and 2 are noise
+  const makeSamples = (count: number, seed: number): TrainingSample[] => {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, () => {
+      const features = [random(), random(), random()];
+      return { features, target: features[1] > 0.6 ? 1 : 0 };
+    });
+  };
+
+  const accuracy = (samples: TrainingSample[], predict: (features: number[]) => number) =>
+    samples.filter(s => (predict(s.features) > 0.5 ? 1 : 0) === s.target).length / samples.length;
+
+  const train = makeSamples(400, 1);
+  const test = makeSamples(200, 2);
+
+  it('should fit gradient boosting and attribute importance to the informative feature', () => {
+    const model = trainGradientBoosting(train, { nEstimators: 30, maxDepth: 2, subsample: 0.8 });
+
+    expect(accuracy(test, f => predictGradientBoosting(model, f))).toBeGreaterThan(0.95);
+    expect(model.featureImportance[1]).toBeGreaterThan(0.8);
+    expect(model.featureImportance.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 8);
+  });
+
+  it('should fit a random forest with bootstrap and feature subsampling', () => {
+    const model = trainRandomForest(train, { nTrees: 15, maxDepth: 4 });
+
+    expect(model.trees).toHaveLength(15);
+    expect(accuracy(test, f => predictRandomForest(model, f))).toBeGreaterThan(0.9);
+    expect(model.featureImportance.indexOf(Math.max(...model.featureImportance))).toBe(1);
+  });
+
+  it('should respect depth and minimum leaf size', () => {
+    const model = trainRandomForest(train, { nTrees: 3, maxDepth: 1, minSamplesLeaf: 150 });
+
+    model.trees.forEach(tree => {
+      expect(tree.root.left?.prediction).toBeDefined();
+      expect(tree.root.left!.samples).toBeGreaterThanOrEqual(150);
+      expect(tree.root.right!.samples).toBeGreaterThanOrEqual(150);
+    });
+  });
+
+  it('should reject empty or ragged samples', () => {
+    expect(() => trainGradientBoosting([])).toThrow('No training samples');
+    expect(() => trainRandomForest([{ features: [1], target: 1 }, { features: [1, 2], target: 0 }])).toThrow();
+  });
+});
+
+describe('ProfessionalMLService tree models', () => {
+  const candles: CandleData[] = Array.from({ length: 220 }, (_, i) => {
+    const close = 100 + 3 * Math.sin(i / 6) + 0.5 * Math.sin(i / 2);
+    return {
+      session_id: 'test_session',
+      candle_index: i,
+      open: close - 0.1,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000 + 100 * Math.cos(i / 5),
+      candle_datetime: new Date(Date.UTC(2024, 0, 1) + i * 60000).toISOString()
+    };
+  });
+
+  it('should train on labeled features and round-trip the fitted trees through JSON', async () => {
+    const service = ProfessionalMLService.getInstance();
+    const report = await service.trainTreeModels(candles, {
+      horizon: 3,
+      randomForest: { nTrees: 5, maxDepth: 3 },
+      gradientBoosting: { nEstimators: 10, maxDepth: 2 }
+    });
+
+    expect(report.trainSamples).toBeGreaterThan(report.validationSamples);
+    expect(report.featureImportance[0].importance).toBeGreaterThan(0);
+
+    const config = { predictionInterval: 5, analysisMode: 'session' as const };
+    const before = await service.generateEnsemblePrediction(candles, 200, config);
+    const exported = service.exportTreeModels();
+
+    service.importTreeModels(exported);
+    const after = await service.generateEnsemblePrediction(candles, 200, config);
+
+    expect(JSON.parse(exported).randomForest.trees).toHaveLength(5);
+    expect(after!.metadata!.modelBreakdown[0].prediction).toBe(before!.metadata!.modelBreakdown[0].prediction);
+    expect(() => service.importTreeModels('{"version":2}')).toThrow('Unsupported tree model format');
+  });
+
+  it('should train with higher-timeframe features and restore them with the trees', async () => {
+    const service = ProfessionalMLService.getInstance();
+    const options = { horizon: 3, randomForest: { nTrees: 3, maxDepth: 3 }, gradientBoosting: { nEstimators: 5, maxDepth: 2 } };
+
+    await service.trainTreeModels(candles, { ...options, timeframe: null });
+    const plainCount = JSON.parse(service.exportTreeModels()).featureCount;
+
+    await service.trainTreeModels(candles, { ...options, timeframe: '1m' });
+    const exported = service.exportTreeModels();
+    const payload = JSON.parse(exported);
+    expect(payload.featureCount).toBeGreaterThan(plainCount);
+    expect(payload.multiTimeframe.baseTimeframe).toBe('1m');
+
+    const config = { predictionInterval: 5, analysisMode: 'session' as const };
+    const before = await service.generateEnsemblePrediction(candles, 200, config);
+
+    service.configureMultiTimeframe(null);
+    service.importTreeModels(exported);
+    const after = await service.generateEnsemblePrediction(candles, 200, config);
+
+    expect(after!.metadata!.modelBreakdown[1].prediction).toBe(before!.metadata!.modelBreakdown[1].prediction);
+    expect(after!.metadata!.higherTimeframes).toBeDefined();
+
+    service.configureMultiTimeframe(null);
+  });
+
+  it('should keep each model on the higher-timeframe features it was trained with', async () => {
+    const service = ProfessionalMLService.getInstance();
+    const options = { horizon: 3, randomForest: { nTrees: 3, maxDepth: 3 }, gradientBoosting: { nEstimators: 5, maxDepth: 2 } };
+    const config = { predictionInterval: 5, analysisMode: 'session' as const };
+    const settings = { baseTimeframe: '1m', timeframes: ['5m', '15m'] };
+    const plainSize = service.extractAdvancedFeatures(candles, 200, null).length;
+    const inputSize = service.extractAdvancedFeatures(candles, 200, settings).length;
+    expect(inputSize).toBeGreaterThan(plainSize);
+
+    const model = new SequenceModel({ cellType: 'lstm', inputSize, hiddenSize: 4, sequenceLength: 5, seed: 1 });
+    service.setSequenceModel({
+      ...model.toJSON(),
+      normalization: { mean: new Array(inputSize).fill(0), std: new Array(inputSize).fill(1) },
+      multiTimeframe: settings
+    });
+    const lstmPrediction = async () =>
+      (await service.generateEnsemblePrediction(candles, 200, config))!.metadata!.modelBreakdown[2].prediction;
+    const before = await lstmPrediction();
+
+    // Retraining the trees with other settings must not touch the LSTM or the service default
+    await service.trainTreeModels(candles, { ...options, timeframe: '1m' });
+    expect(service.extractAdvancedFeatures(candles, 200)).toHaveLength(plainSize);
+    await service.trainTreeModels(candles, { ...options, timeframe: null });
+    expect(await lstmPrediction()).toBe(before);
+    expect(Number.isFinite(before)).toBe(true);
+
+    const exported = JSON.parse(service.exportSequenceModel()!);
+    expect(exported.multiTimeframe).toEqual(settings);
+    service.setSequenceModel(exported);
+    expect(await lstmPrediction()).toBe(before);
+  });
+});
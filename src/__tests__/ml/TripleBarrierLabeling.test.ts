@@ -0,0 +1,80 @@
+import { CandleData } from '@/types/session';
+import {
+  getExpiryLabels,
+  getMetaLabels,
+  getSampleUniquenessWeights,
+  getTripleBarrierLabels
+} from '@/services/ml/labeling/TripleBarrierLabeling';
+
+describe('Triple-barrier labeling', () => {
+  // Flat market with a true range of 1, so ATR = 1 until a spike enters the window
+  const makeCandles = (closes: number[]): CandleData[] =>
+    closes.map((close, i) => ({
+      session_id: 'test_session',
+      candle_index: i,
+      candle_datetime: new Date(i * 60000).toISOString(),
+      open: close,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000
+    }));
+
+  const config = { profitTakeMultiplier: 2, stopLossMultiplier: 1, maxHoldingPeriod: 5, atrPeriod: 14 };
+
+  let candles: CandleData[];
+
+  beforeEach(() => {
+    candles = makeCandles(new Array(40).fill(100));
+    candles[17].high = 102.5;
+    candles[27] = { ...candles[27], high: 104, low: 96 };
+  });
+
+  it('should label the first barrier touched, scaled by ATR', () => {
+    const labels = getTripleBarrierLabels(candles, config);
+    const byIndex = new Map(labels.map(l => [l.index, l]));
+
+    expect(labels[0].index).toBe(14);
+    expect(labels[labels.length - 1].index).toBe(34);
+    expect(byIndex.get(14)).toMatchObject({ touch: 'profit_take', endIndex: 17, label: 1, upperBarrier: 102, lowerBarrier: 99 });
+    expect(byIndex.get(14)!.return).toBeCloseTo(0.02, 10);
+    expect(byIndex.get(20)).toMatchObject({ touch: 'vertical', endIndex: 25, label: 0, return: 0 });
+    // Both barriers inside candle 27: the stop-loss is assumed first
+    expect(byIndex.get(24)).toMatchObject({ touch: 'stop_loss', endIndex: 27, label: -1 });
+  });
+
+  it('should mirror barriers for short sides and build meta-labels from a primary model', () => {
+    const sides: Array<1 | -1 | 0> = new Array(40).fill(0);
+    sides[14] = 1;
+    sides[15] = -1;
+
+    const shortLabel = getTripleBarrierLabels(candles, config, sides).find(l => l.index === 15)!;
+    expect(shortLabel).toMatchObject({ touch: 'stop_loss', upperBarrier: 101, lowerBarrier: 98, label: -1 });
+    expect(shortLabel.return).toBeCloseTo(-0.01, 10);
+
+    const meta = getMetaLabels(candles, sides, config);
+    expect(meta.map(m => [m.index, m.side, m.label])).toEqual([[14, 1, 1], [15, -1, 0]]);
+  });
+
+  it('should label binary-option expiry by the close only', () => {
+    const expiryCandles = makeCandles([100, 101, 102, 99]);
+    expiryCandles[1].low = 90;
+
+    const labels = getExpiryLabels(expiryCandles, 2);
+
+    expect(labels.map(l => [l.index, l.endIndex, l.label])).toEqual([[0, 2, 1], [1, 3, -1]]);
+    expect(labels[0].touch).toBe('expiry');
+    expect(() => getExpiryLabels(expiryCandles, 0)).toThrow('Invalid expiry');
+  });
+
+  it('should share uniqueness between overlapping labels', () => {
+    const weights = getSampleUniquenessWeights([
+      { index: 0, endIndex: 2 },
+      { index: 1, endIndex: 3 },
+      { index: 5, endIndex: 6 }
+    ]);
+
+    expect(weights).toEqual([0.75, 0.75, 1]);
+    expect(getSampleUniquenessWeights([])).toEqual([]);
+  });
+});
@@ -1,5 +1,6 @@
 import { CandleData } from '@/types/session';
 import { AdvancedMLTrainingService } from '@/services/ml/AdvancedMLTrainingService';
+import { getTripleBarrierLabels } from '@/services/ml/labeling/TripleBarrierLabeling';
 
 describe('Label Shift Validation', () => {
   let service: AdvancedMLTrainingService;
@@ -236,4 +237,44 @@ describe('Label Shift Validation', () => {
     const correctLabel = candles[51].close > candles[50].close ? 1 : 0;
     expect(targetFeature!.label).toBe(correctLabel);
   });
-});
\ No newline at end of file
+
+  it('should take triple-barrier labels from the future window only', async () => {
+    const candles: CandleData[] = Array.from({ length: 120 }, (_, i) => {
+      const close = 100 + Math.sin(i * 0.3) * 3;
+      return {
+        id: `candle_${i}`,
+        timestamp: String(i * 60000),
+        open: close,
+        high: close + 0.8,
+        low: close - 0.8,
+        close,
+        volume: 1000,
+        session_id: 'test_session',
+        candle_index: i,
+        candle_datetime: new Date(i * 60000).toISOString()
+      } as CandleData;
+    });
+    const barriers = { profitTakeMultiplier: 1, stopLossMultiplier: 1, maxHoldingPeriod: 6, atrPeriod: 14 };
+
+    const features = await service.engineerFeatures(candles, {
+      modelType: 'regression' as const,
+      lookbackPeriod: 20,
+      features: ['price', 'volume'],
+      trainingRatio: 0.7,
+      validationRatio: 0.15,
+      labeling: { method: 'triple_barrier', barriers }
+    });
+    const events = new Map(getTripleBarrierLabels(candles, barriers).map(e => [e.index, e]));
+
+    // Last candles have no complete vertical window and are dropped
+    expect(features.length).toBe(120 - 20 - 6);
+    features.forEach(feature => {
+      const candleIndex = feature.timestamp / 60000;
+      const event = events.get(candleIndex)!;
+      expect(feature.label).toBe(event.label === 1 ? 1 : 0);
+      expect(feature.metadata!.labelEndIndex).toBeGreaterThan(candleIndex);
+    });
+    const meanWeight = features.reduce((sum, f) => sum + f.metadata!.sampleWeight, 0) / features.length;
+    expect(meanWeight).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,79 @@
+import { CandleData } from '@/types/session';
+import {
+  FEATURES_PER_TIMEFRAME,
+  buildMultiTimeframeContext,
+  getDefaultHigherTimeframes,
+  getMultiTimeframeFeatures,
+  getTrendAlignmentScore,
+  inferTimeframe
+} from '@/services/prediction/MultiTimeframeContext';
+
+describe('MultiTimeframeContext', () => {
+  const MINUTE = 60 * 1000;
+  const START = new Date('2026-07-14T10:00:00Z').getTime();
+
+  // Minute candles moving by `step` per candle from 100
+  const makeTrend = (count: number, step: number): CandleData[] =>
+    Array.from({ length: count }, (_, i) => {
+      const close = 100 + i * step;
+      return {
+        session_id: 'session_1',
+        candle_index: i,
+        candle_datetime: new Date(START + i * MINUTE).toISOString(),
+        open: close - step,
+        high: Math.max(close, close - step) + 0.05,
+        low: Math.min(close, close - step) - 0.05,
+        close,
+        volume: 10
+      };
+    });
+
+  it('should infer the base timeframe and pick the nearest higher timeframes', () => {
+    expect(inferTimeframe(makeTrend(10, 0.01))).toBe('1m');
+    expect(inferTimeframe(makeTrend(1, 0.01))).toBeNull();
+    expect(getDefaultHigherTimeframes('1m')).toEqual(['5m', '15m', '1h']);
+    expect(getDefaultHigherTimeframes('15m')).toEqual(['1h', '4h', '1d']);
+  });
+
+  it('should use only higher-timeframe candles closed at the current index', () => {
+    const candles = makeTrend(900, 0.01);
+
+    // 16:47 candle closes at 16:48: the 16:45 five-minute candle is still forming
+    const context = buildMultiTimeframeContext(candles, 407, '1m')!;
+    expect(context.states.map(s => [s.timeframe, s.lastClosedCandle])).toEqual([
+      ['5m', '2026-07-14T16:40:00.000Z'],
+      ['15m', '2026-07-14T16:30:00.000Z'],
+      ['1h', '2026-07-14T15:00:00.000Z']
+    ]);
+
+    // 16:49 closes the 16:45 candle
+    expect(buildMultiTimeframeContext(candles, 409, '1m')!.states[0].lastClosedCandle).toBe('2026-07-14T16:45:00.000Z');
+
+    // Future candles must not change the context
+    const future = candles.map((c, i) => (i > 407 ? { ...c, close: 1, low: 0.5, high: 200 } : c));
+    expect(buildMultiTimeframeContext(future, 407, '1m')).toEqual(context);
+  });
+
+  it('should score trend alignment against the prediction direction', () => {
+    const up = buildMultiTimeframeContext(makeTrend(600, 0.01), 599, '1m')!;
+    const down = buildMultiTimeframeContext(makeTrend(600, -0.01), 599, '1m')!;
+
+    expect(up.states.every(s => s.available && s.trend === 1)).toBe(true);
+    expect(up).toMatchObject({ trendAlignment: 1, dominantTrend: 'UP' });
+    expect(down).toMatchObject({ trendAlignment: -1, dominantTrend: 'DOWN' });
+    expect(getTrendAlignmentScore('UP', up)).toBe(1);
+    expect(getTrendAlignmentScore('UP', down)).toBe(-1);
+    expect(getTrendAlignmentScore('DOWN', down)).toBe(1);
+  });
+
+  it('should keep the feature block length fixed while history is short', () => {
+    const early = buildMultiTimeframeContext(makeTrend(30, 0.01), 29, '1m')!;
+    const late = buildMultiTimeframeContext(makeTrend(600, 0.01), 599, '1m')!;
+
+    expect(early.states.filter(s => s.available).map(s => s.timeframe)).toEqual(['5m']);
+    expect(getMultiTimeframeFeatures(early)).toHaveLength(3 * FEATURES_PER_TIMEFRAME + 1);
+    expect(getMultiTimeframeFeatures(late)).toHaveLength(3 * FEATURES_PER_TIMEFRAME + 1);
+    expect(() => buildMultiTimeframeContext(makeTrend(30, 0.01), 29, '5m', { timeframes: ['7m'] }))
+      .toThrow('должен быть старше и кратен');
+  });
+});
@@ -0,0 +1,113 @@
+import { AdvancedBacktestingService, AdvancedStrategy } from '@/services/backtesting/AdvancedBacktestingService';
+import { InstrumentRegistry, instrumentRegistry } from '@/services/risk/InstrumentRegistry';
+import { RiskManagementService } from '@/services/risk/RiskManagementService';
+
+describe('InstrumentRegistry', () => {
+  it('should normalize broker symbol formats', () => {
+    expect(InstrumentRegistry.normalizeSymbol('EURUSD')).toBe('EUR/USD');
+    expect(InstrumentRegistry.normalizeSymbol('usd_jpy')).toBe('USD/JPY');
+    expect(InstrumentRegistry.normalizeSymbol('BTCUSDT')).toBe('BTC/USDT');
+  });
+
+  it('should infer forex and crypto specs', () => {
+    expect(instrumentRegistry.get('USD/JPY')).toMatchObject({ pipSize: 0.01, contractSize: 100000, quoteCurrency: 'JPY' });
+    expect(instrumentRegistry.get('EUR/USD')).toMatchObject({ pipSize: 0.0001, lotStep: 0.01 });
+    expect(instrumentRegistry.get('BTC/USDT')).toMatchObject({ type: 'crypto', contractSize: 1, lotStep: 0.001 });
+  });
+
+  it('should size USD-quoted pairs from risk and stop distance', () => {
+    const result = instrumentRegistry.calculateLotSize({
+      symbol: 'EUR/USD',
+      accountBalance: 10000,
+      riskPerTrade: 0.01,
+      stopDistance: 0.002 // 20 pips
+    });
+
+    expect(result.pipValuePerLot).toBeCloseTo(10, 8);
+    expect(result.stopPips).toBeCloseTo(20, 8);
+    expect(result.lots).toBe(0.5);
+    expect(result.units).toBe(50000);
+    expect(result.riskAmount).toBeCloseTo(100, 6);
+  });
+
+  it('should convert JPY pip value with the pair price', () => {
+    const result = instrumentRegistry.calculateLotSize({
+      symbol: 'USD/JPY',
+      accountBalance: 10000,
+      riskPerTrade: 0.01,
+      stopDistance: 0.3,
+      entryPrice: 150
+    });
+
+    expect(result.pipValuePerLot).toBeCloseTo(1000 / 150, 8);
+    expect(result.lots).toBe(0.5);
+  });
+
+  it('should convert through USD cross rates', () => {
+    const rate = instrumentRegistry.getQuoteToAccountRate('GBP/JPY', 'EUR', { 'EUR/USD': 1.1, 'USD/JPY': 150 });
+
+    expect(rate).toBeCloseTo(1 / 150 / 1.1, 10);
+    expect(() => instrumentRegistry.getQuoteToAccountRate('GBP/JPY', 'EUR')).toThrow('No conversion rate');
+  });
+
+  it('should round lots down to the step and drop sizes below the minimum', () => {
+    expect(instrumentRegistry.roundLots('EUR/USD', 0.237)).toBe(0.23);
+    expect(instrumentRegistry.roundLots('EUR/USD', 0.004)).toBe(0);
+    expect(instrumentRegistry.roundLots('EUR/USD', 500)).toBe(100);
+  });
+
+  it('should attach broker lots to position sizing', () => {
+    const sizing = RiskManagementService.getInstance().calculatePositionSizing(
+      10000, 0.6, 200, 100, 0.15, 0.01, { symbol: 'EUR/USD', stopDistance: 0.002 }
+    );
+
+    expect(sizing.lots).toBeDefined();
+    expect(sizing.lots!.riskAmount).toBeLessThanOrEqual(10000 * sizing.recommendedSize + 1e-6);
+  });
+
+  it('should size backtest lots from stopLossPercent given in percent', async () => {
+    const start = new Date('2024-05-06T00:00:00Z').getTime();
+    const candles = [0, 1, 2].map(i => ({
+      session_id: 'lots', candle_index: i, open: 1.1, high: 1.1, low: 1.1, close: 1.1, volume: 1000,
+      candle_datetime: new Date(start + i * 3600000).toISOString()
+    }));
+    const strategy: AdvancedStrategy = {
+      name: 'Single entry',
+      description: 'Opens one long without a signal stop',
+      parameters: {},
+      initialize: () => {},
+      generateSignal: (_data, index) => index === 1 ? {
+        type: 'buy', strength: 1, confidence: 1, reason: 'test', indicators: {}, riskLevel: 'low'
+      } : null,
+      calculatePositionSize: () => 1000,
+      shouldExit: () => false,
+      onTrade: () => {},
+      onMarketClose: () => {}
+    };
+
+    const result = await AdvancedBacktestingService.getInstance().runAdvancedBacktest(strategy, candles, {
+      startDate: new Date(start),
+      endDate: new Date(start + 3 * 3600000),
+      initialCapital: 10000,
+      commission: 0,
+      slippage: 0,
+      maxPositions: 1,
+      riskPerTrade: 0.01,
+      leverage: 100,
+      marginRequirement: 0.01,
+      reinvestProfits: false,
+      compoundReturns: false,
+      dynamicPositionSizing: false,
+      stopLossPercent: 1,
+      takeProfitPercent: 0,
+      trailingStop: false,
+      riskFreeRate: 0,
+      symbol: 'EUR/USD',
+      lotSizing: { accountCurrency: 'USD' }
+    });
+
+    // 1% of 1.1 = 110 pips; $100 at risk at $10 per pip -> 0.09 lots
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].lots).toBeCloseTo(0.09, 8);
+  });
+});
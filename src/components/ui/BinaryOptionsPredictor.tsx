@@ -22,7 +22,7 @@ interface BinaryOptionsPredictorProps {
 
 const BinaryOptionsPredictor = memo(({ pair, timeframe }: BinaryOptionsPredictorProps) => {
   const [showPerformanceMonitor, setShowPerformanceMonitor] = useState(false);
-  const { state } = useTradingStore();
+  const { state, dispatch } = useTradingStore();
 
   const { executeWithRetry } = useErrorHandler();
 
@@ -66,6 +66,7 @@ const BinaryOptionsPredictor = memo(({ pair, timeframe }: BinaryOptionsPredictor
                     'import-session'
                   );
                 }}
+                onCandlesImported={candles => dispatch({ type: 'SET_CANDLES', payload: candles })}
               >
                 <Button variant="outline" size="sm" className="bg-background/50">
                   <Download className="h-4 w-4 mr-2" />
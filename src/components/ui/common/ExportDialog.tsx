@@ -4,14 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Download, Upload, FileText, FileSpreadsheet } from 'lucide-react';
+import { Download, Upload, FileText, FileSpreadsheet, History } from 'lucide-react';
 import { TradingSession, CandleData } from '@/types/session';
 import { useDataExport } from '@/hooks/useDataExport';
+import { HistoricalImportPanel } from './HistoricalImportPanel';
 
 interface ExportDialogProps {
   session: TradingSession | null;
   candles: CandleData[];
   onSessionImported: (session: TradingSession, candles: CandleData[]) => Promise<void>;
+  /** Свечи сессии после импорта истории в текущую сессию */
+  onCandlesImported?: (candles: CandleData[]) => void;
   children: React.ReactNode;
 }
 
@@ -19,6 +22,7 @@ export const ExportDialog = ({
   session, 
   candles, 
   onSessionImported,
+  onCandlesImported,
   children 
 }: ExportDialogProps) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -53,7 +57,7 @@ export const ExportDialog = ({
       <DialogTrigger asChild>
         {children}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Download className="h-5 w-5" />
@@ -121,6 +125,28 @@ export const ExportDialog = ({
               <strong>Поддерживаемый формат:</strong> JSON файлы, экспортированные из этого приложения
             </div>
           </div>
+
+          <Separator />
+
+          {/* Импорт истории в текущую сессию */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Импорт истории (MT4/MT5, Dukascopy, CSV)
+            </h3>
+
+            {session ? (
+              <HistoricalImportPanel
+                session={session}
+                candles={candles}
+                onCandlesImported={onCandlesImported}
+              />
+            ) : (
+              <div className="text-sm text-muted-foreground p-4 bg-muted/50 rounded-md">
+                Выберите сессию для импорта истории
+              </div>
+            )}
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileUp } from 'lucide-react';
+import { TradingSession, CandleData } from '@/types/session';
+import { candleService } from '@/services/candleService';
+import {
+  IMPORT_PRESETS,
+  ImportDateFormat,
+  ImportFormat,
+  ParseResult,
+  parseCandleCsv,
+  parseHst,
+  planImport,
+  saveInChunks
+} from '@/services/data/HistoricalCandleImporter';
+import { useToast } from '@/hooks/use-toast';
+
+interface HistoricalImportPanelProps {
+  session: TradingSession;
+  candles: CandleData[];
+  onCandlesImported?: (candles: CandleData[]) => void;
+}
+
+type LoadedFile = { name: string; text: string } | { name: string; buffer: ArrayBuffer };
+
+const AUTO = 'auto';
+const DELIMITERS: Record<string, string> = { ',': 'Запятая', ';': 'Точка с запятой', '\t': 'Табуляция' };
+const DATE_FORMATS: ImportDateFormat[] = [
+  'YYYY.MM.DD', 'YYYY-MM-DD', 'YYYYMMDD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY', 'unix', 'unix_ms'
+];
+const PREVIEW_ROWS = 5;
+
+export const HistoricalImportPanel = ({ session, candles, onCandlesImported }: HistoricalImportPanelProps) => {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ImportFormat>('metatrader');
+  const [delimiter, setDelimiter] = useState(AUTO);
+  const [dateFormat, setDateFormat] = useState(AUTO);
+  const [timezoneHours, setTimezoneHours] = useState('0');
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Разбор повторяется при смене настроек, чтобы предпросмотр сразу показывал результат
+  const parsed = useMemo((): { result?: ParseResult; error?: string } => {
+    if (!file) return {};
+    const timezoneOffsetMinutes = Math.round((parseFloat(timezoneHours) || 0) * 60);
+    try {
+      if ('buffer' in file) {
+        return { result: parseHst(file.buffer, { timezoneOffsetMinutes }) };
+      }
+      const preset = IMPORT_PRESETS[format].options;
+      return {
+        result: parseCandleCsv(file.text, {
+          ...preset,
+          delimiter: delimiter === AUTO ? preset.delimiter : delimiter,
+          dateFormat: dateFormat === AUTO ? preset.dateFormat : dateFormat as ImportDateFormat,
+          timezoneOffsetMinutes
+        })
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Не удалось разобрать файл' };
+    }
+  }, [file, format, delimiter, dateFormat, timezoneHours]);
+
+  const plan = useMemo(
+    () => parsed.result ? planImport(parsed.result.candles, candles, session.id) : null,
+    [parsed.result, candles, session.id]
+  );
+
+  useEffect(() => {
+    setFile(null);
+  }, [session.id]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    if (selected.name.toLowerCase().endsWith('.hst')) {
+      setFormat('metatrader');
+      setFile({ name: selected.name, buffer: await selected.arrayBuffer() });
+    } else {
+      setFile({ name: selected.name, text: await selected.text() });
+    }
+    event.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    const changes = [...plan.added, ...plan.updated.map(change => change.candle)];
+
+    setProgress(0);
+    try {
+      const saved = await saveInChunks(
+        changes,
+        batch => candleService.saveCandleBatch(batch),
+        { onProgress: (done, total) => setProgress(Math.round((done / total) * 100)) }
+      );
+
+      const byIndex = new Map(candles.map(candle => [candle.candle_index, candle]));
+      saved.forEach(candle => byIndex.set(candle.candle_index, candle));
+      onCandlesImported?.(Array.from(byIndex.values()).sort((a, b) => a.candle_index - b.candle_index));
+
+      toast({
+        title: "Импорт истории выполнен",
+        description: `Добавлено ${plan.added.length}, обновлено ${plan.updated.length} свечей`
+      });
+      setFile(null);
+    } catch (error) {
+      console.error('Historical import error:', error);
+      toast({
+        title: "Ошибка импорта истории",
+        description: error instanceof Error ? error.message : "Не удалось сохранить свечи",
+        variant: "destructive"
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const result = parsed.result;
+  const changeCount = plan ? plan.added.length + plan.updated.length : 0;
+  const isHst = file !== null && 'buffer' in file;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Формат</Label>
+          <Select value={format} onValueChange={value => setFormat(value as ImportFormat)} disabled={isHst}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(IMPORT_PRESETS).map(preset => (
+                <SelectItem key={preset.format} value={preset.format}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-timezone" className="text-xs">Часовой пояс файла (UTC±ч)</Label>
+          <Input
+            id="import-timezone"
+            type="number"
+            step="0.5"
+            value={timezoneHours}
+            onChange={e => setTimezoneHours(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Разделитель</Label>
+          <Select value={delimiter} onValueChange={setDelimiter} disabled={isHst}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Автоопределение</SelectItem>
+              {Object.entries(DELIMITERS).map(([value, label]) => (
+                <SelectItem key={label} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Формат даты</Label>
+          <Select value={dateFormat} onValueChange={setDateFormat} disabled={isHst}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Автоопределение</SelectItem>
+              {DATE_FORMATS.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Input
+        id="history-import-file"
+        type="file"
+        accept=".csv,.txt,.hst"
+        onChange={handleFile}
+        className="cursor-pointer"
+      />
+
+      {parsed.error && (
+        <div className="text-xs text-destructive p-3 bg-destructive/10 rounded-md">{parsed.error}</div>
+      )}
+
+      {result && plan && (
+        <div className="space-y-2 text-xs">
+          <div className="p-3 bg-muted/30 rounded-md space-y-1">
+            <div>
+              <strong>{file?.name}</strong>
+              {result.symbol && ` — ${result.symbol}, M${result.periodMinutes}`}
+            </div>
+            <div>
+              Новых: {plan.added.length} · Изменённых: {plan.updated.length} · Без изменений: {plan.unchanged}
+              {' '}· Ошибок: {result.invalid.length} · Повторов: {result.duplicates}
+            </div>
+            {plan.rejected.length > 0 && (
+              <div className="text-destructive">
+                Пропущено {plan.rejected.length} свечей раньше последней свечи сессии:
+                {' '}историю нужно импортировать в пустую сессию
+              </div>
+            )}
+          </div>
+
+          {result.candles.length > 0 && (
+            <table className="w-full font-mono">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left">Время (UTC)</th>
+                  <th className="text-right">O</th>
+                  <th className="text-right">H</th>
+                  <th className="text-right">L</th>
+                  <th className="text-right">C</th>
+                  <th className="text-right">V</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.candles.slice(0, PREVIEW_ROWS).map(candle => (
+                  <tr key={candle.time}>
+                    <td>{new Date(candle.time).toISOString().replace('T', ' ').slice(0, 19)}</td>
+                    <td className="text-right">{candle.open}</td>
+                    <td className="text-right">{candle.high}</td>
+                    <td className="text-right">{candle.low}</td>
+                    <td className="text-right">{candle.close}</td>
+                    <td className="text-right">{candle.volume}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {plan.updated.slice(0, PREVIEW_ROWS).map(({ candle, previous }) => (
+            <div key={candle.candle_index} className="text-muted-foreground">
+              #{candle.candle_index}: {previous.open}/{previous.high}/{previous.low}/{previous.close}
+              {' → '}{candle.open}/{candle.high}/{candle.low}/{candle.close}
+            </div>
+          ))}
+
+          {result.invalid.slice(0, PREVIEW_ROWS).map(row => (
+            <div key={row.line} className="text-destructive">
+              Строка {row.line}: {row.errors.join('; ')}
+            </div>
+          ))}
+
+          {progress !== null && <Progress value={progress} />}
+
+          <Button
+            onClick={handleImport}
+            disabled={changeCount === 0 || progress !== null}
+            className="w-full flex items-center gap-2"
+          >
+            <FileUp className="h-4 w-4" />
+            Импортировать {changeCount} свечей
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
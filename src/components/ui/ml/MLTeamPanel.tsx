@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, UserMinus, Users } from 'lucide-react';
+import {
+  getExperimentTeam,
+  getTeamStore,
+  setExperimentTeam
+} from '@/services/ml/persistence/syncedExperimentStore';
+import { TeamMember } from '@/services/ml/persistence/SupabaseTeamStore';
+import { useToast } from '@/hooks/use-toast';
+
+const PERSONAL = 'personal';
+
+export const MLTeamPanel: React.FC = () => {
+  const { toast } = useToast();
+  const [teams, setTeams] = useState<string[]>([]);
+  const [activeTeam, setActiveTeam] = useState<string | null>(getExperimentTeam());
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [newMemberId, setNewMemberId] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadMembers = useCallback(async (teamId: string | null) => {
+    if (!teamId) {
+      setMembers([]);
+      return;
+    }
+    try {
+      setMembers(await getTeamStore().listMembers(teamId));
+    } catch (error) {
+      reportError('Failed to load team members', error);
+    }
+  }, [reportError]);
+
+  useEffect(() => {
+    getTeamStore().listTeams()
+      .then(setTeams)
+      .catch(error => console.error('Failed to load teams:', error));
+  }, []);
+
+  useEffect(() => {
+    loadMembers(activeTeam);
+  }, [activeTeam, loadMembers]);
+
+  const selectTeam = (teamId: string | null) => {
+    setExperimentTeam(teamId);
+    setActiveTeam(teamId);
+  };
+
+  const handleCreateTeam = async () => {
+    setIsBusy(true);
+    try {
+      const teamId = await getTeamStore().createTeam();
+      setTeams(prev => [...prev, teamId]);
+      selectTeam(teamId);
+    } catch (error) {
+      reportError('Failed to create team', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!activeTeam || !newMemberId.trim()) return;
+
+    setIsBusy(true);
+    try {
+      await getTeamStore().addMember(activeTeam, newMemberId.trim());
+      setNewMemberId('');
+      await loadMembers(activeTeam);
+    } catch (error) {
+      reportError('Failed to add member', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!activeTeam) return;
+
+    setIsBusy(true);
+    try {
+      await getTeamStore().removeMember(activeTeam, userId);
+      const remaining = await getTeamStore().listTeams();
+      setTeams(remaining);
+      // Removing yourself leaves the team
+      if (!remaining.includes(activeTeam)) {
+        selectTeam(null);
+      } else {
+        await loadMembers(activeTeam);
+      }
+    } catch (error) {
+      reportError('Failed to remove member', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Team Sharing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <div>
+            <Label>Share new experiments with</Label>
+            <Select
+              value={activeTeam ?? PERSONAL}
+              onValueChange={(value) => selectTeam(value === PERSONAL ? null : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PERSONAL}>Nobody (personal)</SelectItem>
+                {teams.map(teamId => (
+                  <SelectItem key={teamId} value={teamId}>Team {teamId.slice(0, 8)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button variant="outline" onClick={handleCreateTeam} disabled={isBusy}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Team
+          </Button>
+        </div>
+
+        {activeTeam && (
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center justify-between p-2 border rounded">
+                <span className="font-mono text-xs">{member.userId}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRemoveMember(member.userId)}
+                  disabled={isBusy}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="User ID"
+                value={newMemberId}
+                onChange={(e) => setNewMemberId(e.target.value)}
+              />
+              <Button onClick={handleAddMember} disabled={isBusy || !newMemberId.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
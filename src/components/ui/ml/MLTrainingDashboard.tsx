@@ -11,6 +11,14 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { Play, Square, Download, Upload, TrendingUp, Target, Award } from 'lucide-react';
 import { advancedMLTrainingService, TrainingExperiment, ModelConfig } from '@/services/ml/AdvancedMLTrainingService';
 import { experimentTracker, ExperimentComparison } from '@/services/ml/ExperimentTracker';
+import { getSyncedExperimentStore } from '@/services/ml/persistence/syncedExperimentStore';
+import { MLTeamPanel } from './MLTeamPanel';
+import {
+  hyperparameterSearchService,
+  DEFAULT_SEARCH_SPACE,
+  SearchStrategy,
+  Study
+} from '@/services/ml/search/HyperparameterSearch';
 import { useTradingStore } from '@/store/TradingStore';
 import { useToast } from '@/hooks/use-toast';
 
@@ -24,6 +32,10 @@ export const MLTrainingDashboard: React.FC = () => {
   const [selectedExperiments, setSelectedExperiments] = useState<string[]>([]);
   const [comparison, setComparison] = useState<ExperimentComparison | null>(null);
   const [isTraining, setIsTraining] = useState(false);
+  const [searchStrategy, setSearchStrategy] = useState<SearchStrategy>('tpe');
+  const [searchBudget, setSearchBudget] = useState(20);
+  const [study, setStudy] = useState<Study | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   
   // Training configuration
   const [config, setConfig] = useState<ModelConfig>({
@@ -40,11 +52,31 @@ export const MLTrainingDashboard: React.FC = () => {
   useEffect(() => {
     advancedMLTrainingService.initialize();
     loadExperiments();
+
+    experimentTracker.setStore(getSyncedExperimentStore());
+    experimentTracker.restore()
+      .then(() => loadExperiments())
+      .catch(error => console.error('Failed to restore experiments:', error));
   }, []);
 
   const loadExperiments = () => {
-    const allExperiments = advancedMLTrainingService.getAllExperiments();
-    setExperiments(allExperiments);
+    // Stored runs (including teammates') plus this session's in-memory experiments
+    const byId = new Map(experimentTracker.getExperiments().map(exp => [exp.id, exp]));
+    advancedMLTrainingService.getAllExperiments().forEach(exp => byId.set(exp.id, exp));
+    setExperiments(Array.from(byId.values()));
+  };
+
+  // Weights go in after the experiment row itself: artifacts reference it
+  const saveTrainedWeights = async (experimentId: string) => {
+    const model = advancedMLTrainingService.getTrainedWeights(experimentId);
+    if (!model) return;
+
+    try {
+      await experimentTracker.flush();
+      await experimentTracker.saveArtifact(experimentId, 'weights', model);
+    } catch (error) {
+      console.error('Failed to save model weights:', error);
+    }
   };
 
   const handleStartTraining = async () => {
@@ -77,9 +109,11 @@ export const MLTrainingDashboard: React.FC = () => {
         if (experiment && experiment.status !== 'running') {
           clearInterval(pollInterval);
           setIsTraining(false);
+          experimentTracker.addExperiment(experiment);
           loadExperiments();
           
           if (experiment.status === 'completed') {
+            saveTrainedWeights(experimentId);
             toast({
               title: "Training Completed",
               description: `Accuracy: ${(experiment.metrics.accuracy * 100).toFixed(2)}%, Sharpe: ${experiment.metrics.sharpeRatio.toFixed(3)}`,
@@ -118,6 +152,47 @@ export const MLTrainingDashboard: React.FC = () => {
     setComparison(comparisonResult);
   };
 
+  const handleRunSearch = async () => {
+    if (!currentSession || candles.length < 100) {
+      toast({
+        title: "Insufficient Data",
+        description: "Need active session with at least 100 candles",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const result = await hyperparameterSearchService.runStudy({
+        name: `Study_${new Date().toISOString().slice(0, 19)}`,
+        strategy: searchStrategy,
+        space: DEFAULT_SEARCH_SPACE,
+        baseConfig: config,
+        budget: searchBudget
+      }, candles);
+
+      setStudy(result);
+      loadExperiments();
+
+      const best = hyperparameterSearchService.getBestTrial(result.id);
+      toast({
+        title: "Search Completed",
+        description: best
+          ? `Best trial #${best.number}: ${result.objective} ${best.value.toFixed(3)}`
+          : 'No successful trials',
+      });
+    } catch (error) {
+      toast({
+        title: "Search Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
   const getStatusColor = (status: TrainingExperiment['status']) => {
     switch (status) {
       case 'running': return 'bg-blue-500';
@@ -145,6 +220,15 @@ export const MLTrainingDashboard: React.FC = () => {
       f1Score: exp.metrics.f1Score * 100
     }));
 
+  const bestTrial = study ? hyperparameterSearchService.getBestTrial(study.id) : undefined;
+  const parameterImportance = study ? hyperparameterSearchService.getParameterImportance(study.id) : [];
+  const parallelCoordinates = study ? hyperparameterSearchService.getParallelCoordinates(study.id) : null;
+  // One point per axis, one line per trial
+  const parallelData = parallelCoordinates?.dimensions.map(dimension => ({
+    dimension: dimension.name,
+    ...Object.fromEntries(parallelCoordinates.rows.map(row => [`trial_${row.trial}`, row.normalized[dimension.name]]))
+  })) ?? [];
+
   return (
     <div className="space-y-6">
       <Card>
@@ -156,11 +240,13 @@ export const MLTrainingDashboard: React.FC = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="training" className="w-full">
-            <TabsList className="grid grid-cols-4 w-full">
+            <TabsList className="grid grid-cols-6 w-full">
               <TabsTrigger value="training">Training</TabsTrigger>
               <TabsTrigger value="experiments">Experiments</TabsTrigger>
               <TabsTrigger value="comparison">Comparison</TabsTrigger>
               <TabsTrigger value="performance">Performance</TabsTrigger>
+              <TabsTrigger value="search">Search</TabsTrigger>
+              <TabsTrigger value="team">Team</TabsTrigger>
             </TabsList>
 
             <TabsContent value="training" className="space-y-4">
@@ -394,6 +480,11 @@ export const MLTrainingDashboard: React.FC = () => {
                             <div className="text-right">
                               <div className="font-medium">
                                 Score: {(ranking.score * 100).toFixed(1)}
+                                {ranking.foldScores.length > 0 && (
+                                  <span className="text-sm text-muted-foreground">
+                                    {' '}± {(ranking.scoreStd * 100).toFixed(1)} ({ranking.foldScores.length} folds)
+                                  </span>
+                                )}
                               </div>
                               <div className="text-sm text-muted-foreground">
                                 Acc: {(ranking.experiment.metrics.accuracy * 100).toFixed(1)}%
@@ -472,6 +563,122 @@ export const MLTrainingDashboard: React.FC = () => {
                 </Card>
               )}
             </TabsContent>
+
+            <TabsContent value="search" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Hyperparameter Search</CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <div>
+                    <Label>Strategy</Label>
+                    <Select
+                      value={searchStrategy}
+                      onValueChange={(value) => setSearchStrategy(value as SearchStrategy)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="random">Random</SelectItem>
+                        <SelectItem value="tpe">TPE</SelectItem>
+                        <SelectItem value="successive_halving">Successive Halving</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label>Budget (trials)</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={searchBudget}
+                      onChange={(e) => setSearchBudget(parseInt(e.target.value) || 20)}
+                    />
+                  </div>
+
+                  <Button
+                    onClick={handleRunSearch}
+                    disabled={!currentSession || candles.length < 100 || isSearching}
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    {isSearching ? 'Searching...' : 'Run Search'}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {study && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Best Trial</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-1 text-sm">
+                      {bestTrial ? (
+                        <>
+                          <div className="font-medium">
+                            #{bestTrial.number} • {study.objective}: {bestTrial.value.toFixed(3)}
+                          </div>
+                          {Object.entries(bestTrial.params).map(([name, value]) => (
+                            <div key={name} className="text-muted-foreground">
+                              {name}: {Array.isArray(value) ? value.join(', ') : String(value)}
+                            </div>
+                          ))}
+                        </>
+                      ) : (
+                        <p className="text-muted-foreground">No successful trials</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Parameter Importance</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={200}>
+                        <BarChart data={parameterImportance}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="parameter" />
+                          <YAxis />
+                          <Tooltip />
+                          <Bar dataKey="importance" fill="hsl(var(--primary))" name="Importance" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="md:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Parallel Coordinates</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <LineChart data={parallelData}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="dimension" />
+                          <YAxis domain={[0, 1]} />
+                          {parallelCoordinates?.rows.map(row => (
+                            <Line
+                              key={row.trial}
+                              dataKey={`trial_${row.trial}`}
+                              stroke={row.trial === bestTrial?.number ? 'hsl(var(--primary))' : 'hsl(var(--muted-foreground))'}
+                              strokeOpacity={row.trial === bestTrial?.number ? 1 : 0.3}
+                              dot={false}
+                              isAnimationActive={false}
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="team" className="space-y-4">
+              <MLTeamPanel />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
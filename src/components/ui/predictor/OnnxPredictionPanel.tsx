@@ -20,8 +20,9 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
 }) => {
   const { state } = useTradingStore();
   const { currentSession, candles } = state;
-  const [selectedModel, setSelectedModel] = useState('binary-classifier-v1');
+  const [selectedModel, setSelectedModel] = useState<string | undefined>(undefined);
   const [availableModels, setAvailableModels] = useState(modelManager.getAllModelConfigurations());
+  const [modelsLoaded, setModelsLoaded] = useState(false);
   const [deploymentStatus, setDeploymentStatus] = useState<{
     deploying: boolean;
     error: string | null;
@@ -41,7 +42,8 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
     metrics,
     getPrediction,
     getHealthStatus,
-    getModelInfo
+    getModelInfo,
+    recordOutcomes
   } = useOnnxPredictions({
     modelName: selectedModel,
     batchSize: 5,
@@ -50,6 +52,18 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
 
   const [modelHealth, setModelHealth] = useState<any>(null);
 
+  useEffect(() => {
+    modelManager.loadManifests().then(() => {
+      setAvailableModels(modelManager.getAllModelConfigurations());
+      setModelsLoaded(true);
+    });
+  }, []);
+
+  // Score earlier predictions as new candles close
+  useEffect(() => {
+    recordOutcomes(symbol, candles);
+  }, [symbol, candles, recordOutcomes]);
+
   useEffect(() => {
     // Update model health periodically
     const updateHealth = async () => {
@@ -97,7 +111,7 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
   };
 
   const handleMakePrediction = async () => {
-    if (!currentSession || candles.length < 20) {
+    if (!currentSession || !selectedModel || candles.length < 20) {
       return;
     }
 
@@ -164,8 +178,8 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
           <div className="space-y-2">
             <label className="text-sm font-medium">Active Model</label>
             <div className="flex items-center gap-2">
-              <Badge variant="outline">{selectedModel}</Badge>
-              {modelInfo.find(m => m.name === selectedModel)?.loaded && (
+              <Badge variant="outline">{selectedModel ?? 'None deployed'}</Badge>
+              {selectedModel && modelInfo.find(m => m.name === selectedModel)?.loaded && (
                 <Badge variant="default">Loaded</Badge>
               )}
             </div>
@@ -174,6 +188,15 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
           {/* Available Models */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Available Models</label>
+            {modelsLoaded && availableModels.length === 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  No ONNX models installed. Put a manifest and its .onnx file in public/models
+                  and list the manifest in public/models/index.json.
+                </AlertDescription>
+              </Alert>
+            )}
             <div className="grid grid-cols-1 gap-2">
               {availableModels.map((model) => (
                 <div key={model.name} className="flex items-center justify-between p-2 border rounded">
@@ -215,7 +238,7 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
           <div className="space-y-2">
             <Button
               onClick={handleMakePrediction}
-              disabled={isLoading || !currentSession || candles.length < 20}
+              disabled={isLoading || !currentSession || !selectedModel || candles.length < 20}
               className="w-full"
             >
               {isLoading ? 'Generating Prediction...' : 'Generate ONNX Prediction'}
@@ -227,6 +250,12 @@ export const OnnxPredictionPanel: React.FC<OnnxPredictionPanelProps> = ({
               </p>
             )}
             
+            {currentSession && !selectedModel && (
+              <p className="text-xs text-muted-foreground text-center">
+                Deploy a model to enable predictions
+              </p>
+            )}
+
             {currentSession && candles.length < 20 && (
               <p className="text-xs text-muted-foreground text-center">
                 Need at least 20 candles for prediction
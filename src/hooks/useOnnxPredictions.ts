@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { onnxInferenceService } from '@/services/ml/OnnxInferenceService';
+import { modelManager } from '@/services/ml/ModelManager';
 import { CandleData } from '@/types/session';
 import { PredictionResult } from '@/types/trading';
 
@@ -19,10 +20,20 @@ interface PredictionResponse {
   modelVersion: string;
 }
 
+/** Prediction awaiting the close of the next candle */
+interface PendingOutcome {
+  requestId: string;
+  candleTime: number;
+  close: number;
+}
+
+const candleTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
+
 interface UseOnnxPredictionsOptions {
   batchSize?: number;
   maxConcurrency?: number;
   enableStreaming?: boolean;
+  /** Deployed model to query; no model is assumed when omitted */
   modelName?: string;
 }
 
@@ -31,7 +42,7 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     batchSize = 5,
     maxConcurrency = 3,
     enableStreaming = false,
-    modelName = 'binary-classifier-v1'
+    modelName
   } = options;
 
   const [predictions, setPredictions] = useState<Map<string, PredictionResponse>>(new Map());
@@ -42,6 +53,7 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
   const requestQueue = useRef<PredictionRequest[]>([]);
   const activeRequests = useRef<Set<string>>(new Set());
   const websocketRef = useRef<WebSocket | null>(null);
+  const pendingOutcomes = useRef<Map<string, PendingOutcome[]>>(new Map());
 
   // Update metrics periodically
   useEffect(() => {
@@ -99,6 +111,32 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     }
   };
 
+  /**
+   * Report realized directions for predictions whose next candle has closed,
+   * so canary and shadow rollouts are judged on live accuracy
+   */
+  const recordOutcomes = useCallback((symbol: string, candles: CandleData[]) => {
+    const pending = pendingOutcomes.current.get(symbol);
+    if (!pending || pending.length === 0) return;
+
+    const remaining = pending.filter(entry => {
+      const next = candles.find(candle => candleTime(candle) > entry.candleTime);
+      if (!next) return true;
+      if (next.close !== entry.close) {
+        modelManager.recordOutcome(entry.requestId, next.close > entry.close ? 'UP' : 'DOWN');
+      }
+      return false;
+    });
+    pendingOutcomes.current.set(symbol, remaining);
+  }, []);
+
+  const trackOutcome = (symbol: string, candles: CandleData[], requestId: string) => {
+    const last = candles[candles.length - 1];
+    const pending = pendingOutcomes.current.get(symbol) ?? [];
+    pending.push({ requestId, candleTime: candleTime(last), close: last.close });
+    pendingOutcomes.current.set(symbol, pending);
+  };
+
   const makePrediction = useCallback(async (
     symbol: string,
     candles: CandleData[],
@@ -110,16 +148,23 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     }
 
     const useModel = modelNameOverride || modelName;
+    if (!useModel) {
+      setError('No ONNX model deployed');
+      return null;
+    }
 
     try {
       setError(null);
       setIsLoading(true);
 
+      recordOutcomes(symbol, candles);
+
       // Extract features from candles
       const features = await onnxInferenceService.extractFeaturesFromCandles(candles);
 
-      // Make prediction
-      const result = await onnxInferenceService.predict(symbol, features, useModel);
+      // Through the model manager so an active canary or shadow rollout sees the request
+      const result = await modelManager.predict(symbol, features, useModel);
+      trackOutcome(symbol, candles, result.requestId);
 
       // Update predictions state
       setPredictions(prev => new Map(prev).set(symbol, result));
@@ -134,18 +179,24 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     } finally {
       setIsLoading(false);
     }
-  }, [modelName]);
+  }, [modelName, recordOutcomes]);
 
   const makeBatchPredictions = useCallback(async (
     requests: Array<{ symbol: string; candles: CandleData[] }>,
     modelNameOverride?: string
   ): Promise<PredictionResponse[]> => {
     const useModel = modelNameOverride || modelName;
+    if (!useModel) {
+      setError('No ONNX model deployed');
+      return [];
+    }
 
     try {
       setError(null);
       setIsLoading(true);
 
+      requests.forEach(req => recordOutcomes(req.symbol, req.candles));
+
       // Extract features for all requests
       const featuresPromises = requests.map(async (req) => ({
         symbol: req.symbol,
@@ -155,7 +206,8 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
       const featuresRequests = await Promise.all(featuresPromises);
 
       // Make batch prediction
-      const results = await onnxInferenceService.batchPredict(featuresRequests, useModel);
+      const results = await modelManager.batchPredict(featuresRequests, useModel);
+      results.forEach((result, i) => trackOutcome(requests[i].symbol, requests[i].candles, result.requestId));
 
       // Update predictions state
       setPredictions(prev => {
@@ -176,7 +228,7 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     } finally {
       setIsLoading(false);
     }
-  }, [modelName]);
+  }, [modelName, recordOutcomes]);
 
   const queuePrediction = useCallback((request: PredictionRequest) => {
     requestQueue.current.push(request);
@@ -207,7 +259,7 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
   }, [makeBatchPredictions, batchSize, maxConcurrency]);
 
   const streamPrediction = useCallback((symbol: string, candles: CandleData[]) => {
-    if (!enableStreaming || !websocketRef.current) {
+    if (!enableStreaming || !websocketRef.current || !modelName) {
       return makePrediction(symbol, candles);
     }
 
@@ -268,6 +320,7 @@ export const useOnnxPredictions = (options: UseOnnxPredictionsOptions = {}) => {
     // Utilities
     getPrediction,
     clearPredictions,
+    recordOutcomes,
     getHealthStatus,
     getModelInfo,
 
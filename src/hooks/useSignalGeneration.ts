@@ -35,15 +35,20 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
         const currentCandle = recentCandles[recentCandles.length - 1];
         const newSignals: Signal[] = [];
 
-        // Анализируем множественные таймфреймы
-        const timeframes = [5, 15, 30, 60];
+        // Прогнозы на несколько экспираций; контекст старших таймфреймов строится
+        // по всей истории сессии, поэтому передаём все свечи, а не последние 20
+        const expirations = [5, 15, 30, 60];
         const predictions = [];
 
-        for (const interval of timeframes) {
+        for (const interval of expirations) {
           const prediction = await predictionService.generateAdvancedPrediction(
-            recentCandles,
-            recentCandles.length - 1,
-            { predictionInterval: interval, analysisMode: 'session' as const }
+            candles,
+            candles.length - 1,
+            {
+              predictionInterval: interval,
+              analysisMode: 'session' as const,
+              timeframe: currentSession.timeframe || timeframe
+            }
           );
           
           if (prediction && prediction.probability > 65) {
@@ -106,6 +111,7 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
     if (indicators.macd.histogram < 0 && prediction.direction === 'DOWN') reasons.push('MACD медвежий кроссовер');
     if (indicators.bollingerBands && prediction.direction === 'UP') reasons.push('Отскок от нижней полосы Боллинжера');
     if (indicators.bollingerBands && prediction.direction === 'DOWN') reasons.push('Отскок от верхней полосы Боллинжера');
+    if (prediction.metadata?.trendAlignment >= 0.66) return 'Тренд подтверждён старшими таймфреймами';
     
     return reasons.length > 0 ? reasons[Math.floor(Math.random() * reasons.length)] : 
            'Анализ ценового действия и объемов';
@@ -114,6 +120,13 @@ export const useSignalGeneration = (pair: string, timeframe: string) => {
   const describeTechnicalSetup = (prediction: any, indicators: any): string => {
     const setups = [];
     
+    const higherTimeframes = prediction.metadata?.higherTimeframes ?? [];
+    if (higherTimeframes.length > 0) {
+      const trends = higherTimeframes
+        .map((state: { timeframe: string; trend: number }) => `${state.timeframe}${state.trend > 0 ? '↑' : state.trend < 0 ? '↓' : '→'}`)
+        .join(' ');
+      setups.push(`HTF: ${trends} (${(prediction.metadata.trendAlignment * 100).toFixed(0)}%)`);
+    }
     if (indicators.rsi) setups.push(`RSI: ${indicators.rsi.toFixed(1)}`);
     if (indicators.macd) setups.push(`MACD: ${indicators.macd.histogram.toFixed(4)}`);
     if (indicators.stochastic) setups.push(`Stoch: ${indicators.stochastic.k.toFixed(1)}`);
@@ -77,6 +77,154 @@ export type Database = {
           },
         ]
       }
+      ml_experiment_artifacts: {
+        Row: {
+          content: Json
+          created_at: string
+          experiment_id: string
+          id: string
+          kind: string
+          name: string
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          experiment_id: string
+          id?: string
+          kind: string
+          name: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          experiment_id?: string
+          id?: string
+          kind?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ml_experiment_artifacts_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "ml_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ml_experiment_folds: {
+        Row: {
+          experiment_id: string
+          fold: number
+          metrics: Json
+          purged_count: number
+          test_ranges: Json
+          test_size: number
+          train_size: number
+        }
+        Insert: {
+          experiment_id: string
+          fold: number
+          metrics: Json
+          purged_count?: number
+          test_ranges?: Json
+          test_size: number
+          train_size: number
+        }
+        Update: {
+          experiment_id?: string
+          fold?: number
+          metrics?: Json
+          purged_count?: number
+          test_ranges?: Json
+          test_size?: number
+          train_size?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ml_experiment_folds_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "ml_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ml_experiments: {
+        Row: {
+          config: Json
+          created_at: string
+          cross_validation: Json | null
+          end_time: string | null
+          features: string[]
+          id: string
+          metrics: Json
+          model_type: string
+          name: string
+          start_time: string
+          status: string
+          study_id: string | null
+          team_id: string | null
+          trial_number: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          cross_validation?: Json | null
+          end_time?: string | null
+          features?: string[]
+          id: string
+          metrics?: Json
+          model_type: string
+          name: string
+          start_time: string
+          status: string
+          study_id?: string | null
+          team_id?: string | null
+          trial_number?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          cross_validation?: Json | null
+          end_time?: string | null
+          features?: string[]
+          id?: string
+          metrics?: Json
+          model_type?: string
+          name?: string
+          start_time?: string
+          status?: string
+          study_id?: string | null
+          team_id?: string | null
+          trial_number?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ml_team_members: {
+        Row: {
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       trading_sessions: {
         Row: {
           created_at: string
@@ -118,7 +266,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      is_ml_team_member: {
+        Args: { _team_id: string }
+        Returns: boolean
+      }
+      ml_team_exists: {
+        Args: { _team_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -76,3 +76,16 @@ export function formatNumber(num: number, decimals: number = 2): string {
 export function formatPercentage(num: number, decimals: number = 1): string {
   return `${formatNumber(num, decimals)}%`;
 }
+
+// Deterministic PRNG (mulberry32) for reproducible simulations
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  
+  return function random() {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
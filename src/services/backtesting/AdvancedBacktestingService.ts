@@ -1,4 +1,9 @@
 import { CandleData } from '@/types/session';
+import { FillModelConfig, IntrabarFillModel } from './FillModel';
+import { ExitRuleEngine, ExitRulesConfig } from './ExitRules';
+import { FxCostConfig, FxCostModel, TradeCostBreakdown, summarizeCosts } from './FxCostModel';
+import { LotSizingConfig, LotSizingResult, instrumentRegistry } from '@/services/risk/InstrumentRegistry';
+import { BenchmarkAnalysis } from './BenchmarkAnalysis';
 
 export interface AdvancedBacktestConfig {
   startDate: Date;
@@ -15,12 +20,18 @@ export interface AdvancedBacktestConfig {
   reinvestProfits: boolean;
   compoundReturns: boolean;
   dynamicPositionSizing: boolean;
-  stopLossPercent: number;
+  stopLossPercent: number; // В процентах от цены входа (2 = 2%), как в StrategyDSL
   takeProfitPercent: number;
-  trailingStop: boolean;
+  trailingStop: boolean; // Без exitRules.trailingStop — трейлинг на расстоянии stopLossPercent
+  fillModel?: Partial<FillModelConfig>; // Исполнение stop/target внутри свечи
+  exitRules?: ExitRulesConfig;
+  symbol?: string; // Инструмент одиночного бэктеста
+  costModel?: FxCostConfig; // Спред/своп/комиссия за лот вместо плоской commission
+  lotSizing?: LotSizingConfig; // Объем в лотах от riskPerTrade и расстояния до стопа
   
   // Бенчмарки
   benchmarkSymbol?: string;
+  benchmarkWindow?: number; // Окно rolling beta/alpha (по умолчанию 20 точек)
   riskFreeRate: number;
 }
 
@@ -49,6 +60,8 @@ export interface AdvancedBacktestResult {
   jensenAlpha: number;
   beta: number;
   trackingError: number;
+  benchmarkReturn?: number; // Заполняются при переданном бенчмарке
+  benchmarkCorrelation?: number;
   
   // Продвинутая аналитика
   valueAtRisk95: number;
@@ -71,15 +84,30 @@ export interface AdvancedBacktestResult {
   drawdownPeriods: DrawdownPeriod[];
   performanceAttribution: PerformanceAttribution;
   riskDecomposition: RiskDecomposition;
+  exitAttribution: ExitAttribution[];
+  costBreakdown?: TradeCostBreakdown; // Заполняется при использовании costModel
 }
 
+export type ExitReason =
+  | 'stop_loss'
+  | 'take_profit'
+  | 'trailing_stop'
+  | 'break_even'
+  | 'partial_take_profit'
+  | 'timeout'
+  | 'session_close'
+  | 'strategy_exit'
+  | 'end_of_backtest';
+
 export interface AdvancedTrade {
   id: string;
+  symbol: string;
   entryDate: Date;
   exitDate: Date;
   entryPrice: number;
   exitPrice: number;
   quantity: number;
+  lots?: number;
   side: 'long' | 'short';
   
   // P&L
@@ -88,13 +116,14 @@ export interface AdvancedTrade {
   pnlPercent: number;
   commission: number;
   slippage: number;
+  costs?: TradeCostBreakdown;
   
   // Анализ
   holdingPeriod: number;
   maxFavorableExcursion: number;
   maxAdverseExcursion: number;
   entryReason: string;
-  exitReason: string;
+  exitReason: ExitReason;
   
   // Risk metrics
   riskRewardRatio: number;
@@ -111,6 +140,8 @@ export interface AdvancedEquityPoint {
   rollingReturn: number;
   rollingVolatility: number;
   rollingSharp: number;
+  rollingBeta?: number; // Относительно бенчмарка, если он передан
+  rollingAlpha?: number;
   
   // Позиции
   longPositions: number;
@@ -145,6 +176,24 @@ export interface PerformanceAttribution {
   stockSelection: number;
   marketTiming: number;
   interactionEffect: number;
+  symbolContribution: SymbolContribution[];
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  trades: number;
+  netPnL: number;
+  contributionPercent: number; // Вклад в доходность относительно начального капитала
+  shareOfPnL: number; // Доля в суммарном P&L
+  winRate: number;
+}
+
+export interface ExitAttribution {
+  reason: ExitReason;
+  trades: number;
+  netPnL: number;
+  avgPnL: number;
+  winRate: number;
 }
 
 export interface RiskDecomposition {
@@ -161,13 +210,21 @@ export interface AdvancedStrategy {
   
   // Основные методы
   initialize: (config: AdvancedBacktestConfig) => void;
-  generateSignal: (candles: CandleData[], index: number, portfolio: Portfolio) => AdvancedSignal | null;
+  prepare?: (candles: CandleData[]) => Promise<void>; // Предрасчет по всей истории символа до начала цикла
+  // symbol — инструмент, по которому считается сигнал (в портфельном бэктесте портфель общий)
+  generateSignal: (candles: CandleData[], index: number, portfolio: Portfolio, symbol?: string) => AdvancedSignal | null;
   onTrade: (trade: AdvancedTrade) => void;
   onMarketClose: (date: Date, portfolio: Portfolio) => void;
   
   // Управление рисками
   calculatePositionSize: (signal: AdvancedSignal, portfolio: Portfolio) => number;
-  shouldExit: (position: Position, currentPrice: number, portfolio: Portfolio) => boolean;
+  shouldExit: (
+    position: Position,
+    currentPrice: number,
+    portfolio: Portfolio,
+    candles?: CandleData[],
+    index?: number
+  ) => boolean;
 }
 
 export interface AdvancedSignal {
@@ -210,11 +267,22 @@ export interface Position {
   entryPrice: number;
   entryDate: Date;
   side: 'long' | 'short';
+  margin?: number; // Заблокированная маржа под позицию
+  entrySpread?: number;
+  lots?: number;
+  quoteToAccountRate?: number; // Пересчет P&L из котируемой валюты в валюту счета
   
   // Risk management
   stopLoss?: number;
   takeProfit?: number;
   trailingStop?: number;
+  initialStopLoss?: number;
+  breakEvenActive?: boolean;
+  
+  // Частичные выходы и время удержания
+  entryIndex?: number;
+  initialQuantity?: number;
+  partialExitsTaken?: number;
   
   // P&L tracking
   unrealizedPnL: number;
@@ -251,16 +319,18 @@ export class AdvancedBacktestingService {
     // Инициализация
     strategy.initialize(config);
     const portfolio = this.initializePortfolio(config);
+    const fillModel = new IntrabarFillModel(config.fillModel);
+    const exitEngine = new ExitRuleEngine(this.resolveExitRules(config));
     const filteredData = this.filterDataByDateRange(historicalData, config.startDate, config.endDate);
     
     if (filteredData.length === 0) {
       throw new Error('No historical data available for the specified date range');
     }
+    await strategy.prepare?.(filteredData);
 
     const equityCurve: AdvancedEquityPoint[] = [];
     const trades: AdvancedTrade[] = [];
     let peak = config.initialCapital;
-    let maxDrawdown = 0;
 
     // Основной цикл бэктестинга
     for (let i = 1; i < filteredData.length; i++) {
@@ -271,44 +341,24 @@ export class AdvancedBacktestingService {
       // Обновляем P&L открытых позиций
       this.updatePositions(portfolio, currentPrice);
 
-      // Проверяем stop-loss и take-profit
-      this.checkExitConditions(portfolio, currentPrice, config, trades);
+      // Проверяем правила выхода (stop/target, трейлинг, время, частичные фиксации)
+      this.checkExitConditions(portfolio, filteredData, i, config, trades, fillModel, exitEngine, strategy);
 
       // Генерируем торговый сигнал
-      const signal = strategy.generateSignal(filteredData.slice(0, i + 1), i, portfolio);
+      const signal = strategy.generateSignal(filteredData.slice(0, i + 1), i, portfolio, config.symbol);
       
       if (signal && signal.type !== 'hold') {
-        const trade = this.executeSignal(signal, currentCandle, portfolio, config, strategy);
+        const trade = this.executeSignal(signal, currentCandle, i, portfolio, config, strategy);
         if (trade) {
           trades.push(trade);
           strategy.onTrade(trade);
         }
       }
 
-      // Обновляем метрики портфеля
-      portfolio.totalValue = portfolio.cash + this.calculatePositionsValue(portfolio, currentPrice);
-      portfolio.leverage = this.calculateLeverage(portfolio);
-
-      // Записываем точку equity curve
+      // Обновляем метрики портфеля и записываем точку equity curve
+      this.updatePortfolioMetrics(portfolio, () => currentPrice);
       peak = Math.max(peak, portfolio.totalValue);
-      const currentDrawdown = (peak - portfolio.totalValue) / peak;
-      maxDrawdown = Math.max(maxDrawdown, currentDrawdown);
-
-      const equityPoint: AdvancedEquityPoint = {
-        date: currentDate,
-        equity: portfolio.totalValue,
-        drawdown: peak - portfolio.totalValue,
-        drawdownPercent: currentDrawdown,
-        rollingReturn: this.calculateRollingReturn(equityCurve, 20),
-        rollingVolatility: this.calculateRollingVolatility(equityCurve, 20),
-        rollingSharp: this.calculateRollingSharpe(equityCurve, 20),
-        longPositions: portfolio.positions.filter(p => p.side === 'long').length,
-        shortPositions: portfolio.positions.filter(p => p.side === 'short').length,
-        cash: portfolio.cash,
-        leverage: portfolio.leverage
-      };
-
-      equityCurve.push(equityPoint);
+      equityCurve.push(this.createEquityPoint(equityCurve, portfolio, currentDate, peak));
 
       // Вызываем hook конца дня
       strategy.onMarketClose(currentDate, portfolio);
@@ -326,6 +376,95 @@ export class AdvancedBacktestingService {
     );
   }
 
+  /**
+   * Портфельный бэктест по нескольким символам с общим капиталом и маржой
+   */
+  async runPortfolioBacktest(
+    strategy: AdvancedStrategy,
+    dataBySymbol: { [symbol: string]: CandleData[] },
+    config: AdvancedBacktestConfig,
+    benchmarkData?: CandleData[]
+  ): Promise<AdvancedBacktestResult> {
+    
+    const series = Object.entries(dataBySymbol)
+      .map(([symbol, candles]) => ({
+        symbol,
+        candles: this.filterDataByDateRange(candles, config.startDate, config.endDate)
+          .sort((a, b) => new Date(a.candle_datetime).getTime() - new Date(b.candle_datetime).getTime()),
+        cursor: -1
+      }))
+      .filter(s => s.candles.length > 0);
+
+    if (series.length === 0) {
+      throw new Error('No historical data available for the specified date range');
+    }
+
+    console.log(`🚀 Starting portfolio backtest: ${strategy.name} on ${series.map(s => s.symbol).join(', ')}`);
+
+    strategy.initialize(config);
+    for (const s of series) {
+      await strategy.prepare?.(s.candles);
+    }
+    const portfolio = this.initializePortfolio(config);
+    const fillModel = new IntrabarFillModel(config.fillModel);
+    const exitEngine = new ExitRuleEngine(this.resolveExitRules(config));
+
+    // Общая временная шкала: объединение меток всех символов
+    const timeline = Array.from(new Set(
+      series.flatMap(s => s.candles.map(c => new Date(c.candle_datetime).getTime()))
+    )).sort((a, b) => a - b);
+
+    const lastPrices = new Map<string, number>();
+    const equityCurve: AdvancedEquityPoint[] = [];
+    const trades: AdvancedTrade[] = [];
+    let peak = config.initialCapital;
+
+    for (const time of timeline) {
+      const currentDate = new Date(time);
+
+      for (const s of series) {
+        const index = s.cursor + 1;
+        const candle = s.candles[index];
+        if (!candle || new Date(candle.candle_datetime).getTime() !== time) continue;
+
+        s.cursor = index;
+        lastPrices.set(s.symbol, candle.close);
+        this.updatePositions(portfolio, candle.close, s.symbol);
+        if (index === 0) continue;
+
+        this.checkExitConditions(portfolio, s.candles, index, config, trades, fillModel, exitEngine, strategy, s.symbol);
+
+        // Сигнал считается по истории своего символа, капитал и лимит позиций — общие
+        this.updatePortfolioMetrics(portfolio, symbol => lastPrices.get(symbol)!);
+        const signal = strategy.generateSignal(s.candles.slice(0, index + 1), index, portfolio, s.symbol);
+        if (signal && signal.type !== 'hold') {
+          const trade = this.executeSignal(signal, candle, index, portfolio, config, strategy, s.symbol);
+          if (trade) {
+            trades.push(trade);
+            strategy.onTrade(trade);
+          }
+        }
+      }
+
+      this.updatePortfolioMetrics(portfolio, symbol => lastPrices.get(symbol)!);
+      peak = Math.max(peak, portfolio.totalValue);
+      equityCurve.push(this.createEquityPoint(equityCurve, portfolio, currentDate, peak));
+
+      strategy.onMarketClose(currentDate, portfolio);
+    }
+
+    series.forEach(s => {
+      this.closeAllPositions(portfolio, s.candles[s.candles.length - 1], config, trades, s.symbol);
+    });
+
+    return this.calculateAdvancedResults(
+      trades,
+      equityCurve,
+      config,
+      benchmarkData ? this.filterDataByDateRange(benchmarkData, config.startDate, config.endDate) : undefined
+    );
+  }
+
   /**
    * Создает продвинутую стратегию Mean Reversion
    */
@@ -529,12 +668,12 @@ export class AdvancedBacktestingService {
     });
   }
 
-  private updatePositions(portfolio: Portfolio, currentPrice: number): void {
+  private updatePositions(portfolio: Portfolio, currentPrice: number, symbol?: string): void {
     portfolio.positions.forEach(position => {
+      if (symbol && position.symbol !== symbol) return;
+
       const priceDiff = currentPrice - position.entryPrice;
-      position.unrealizedPnL = position.side === 'long' ? 
-        priceDiff * position.quantity : 
-        -priceDiff * position.quantity;
+      position.unrealizedPnL = this.positionPnL(position, currentPrice);
       
       // Update MAE и MFE
       if (position.side === 'long') {
@@ -547,75 +686,120 @@ export class AdvancedBacktestingService {
     });
   }
 
+  private resolveExitRules(config: AdvancedBacktestConfig): ExitRulesConfig {
+    const rules = config.exitRules ?? {};
+    if (config.trailingStop && !rules.trailingStop && config.stopLossPercent > 0) {
+      // ExitRules ждет долю цены, конфиг хранит проценты
+      return { ...rules, trailingStop: { type: 'percent', distance: config.stopLossPercent / 100 } };
+    }
+    return rules;
+  }
+
   private checkExitConditions(
     portfolio: Portfolio, 
-    currentPrice: number, 
+    candles: CandleData[], 
+    index: number,
     config: AdvancedBacktestConfig, 
-    trades: AdvancedTrade[]
+    trades: AdvancedTrade[],
+    fillModel: IntrabarFillModel,
+    exitEngine: ExitRuleEngine,
+    strategy: AdvancedStrategy,
+    symbol?: string
   ): void {
-    const positionsToClose = portfolio.positions.filter(position => {
-      // Stop Loss
-      if (position.stopLoss) {
-        if ((position.side === 'long' && currentPrice <= position.stopLoss) ||
-            (position.side === 'short' && currentPrice >= position.stopLoss)) {
-          return true;
-        }
-      }
-      
-      // Take Profit
-      if (position.takeProfit) {
-        if ((position.side === 'long' && currentPrice >= position.takeProfit) ||
-            (position.side === 'short' && currentPrice <= position.takeProfit)) {
-          return true;
-        }
+    const candle = candles[index];
+    const exitDate = new Date(candle.candle_datetime);
+    const positions = portfolio.positions.filter(p => !symbol || p.symbol === symbol);
+
+    positions.forEach(position => {
+      const decisions = exitEngine.evaluate(position, candles, index, fillModel);
+      const exitQuantity = decisions.reduce((sum, d) => sum + d.quantity, 0);
+
+      if (exitQuantity < position.quantity && strategy.shouldExit(position, candle.close, portfolio, candles, index)) {
+        decisions.push({ reason: 'strategy_exit', price: candle.close, quantity: position.quantity - exitQuantity });
       }
-      
-      return false;
-    });
 
-    positionsToClose.forEach(position => {
-      const trade = this.closePosition(position, currentPrice, config, 'Stop/Target hit');
-      trades.push(trade);
-      portfolio.positions = portfolio.positions.filter(p => p.id !== position.id);
-      portfolio.cash += trade.netPnL;
+      decisions.forEach(decision => {
+        const trade = this.closePosition(
+          position, decision.price, config, decision.reason, exitDate, decision.quantity, candle.spread
+        );
+        trades.push(trade);
+        portfolio.cash += this.releaseMargin(position, decision.quantity) + trade.netPnL;
+        position.quantity -= decision.quantity;
+      });
+
+      if (position.quantity <= 1e-9) {
+        portfolio.positions = portfolio.positions.filter(p => p.id !== position.id);
+      } else {
+        exitEngine.updateStops(position, candles, index);
+      }
     });
   }
 
   private executeSignal(
     signal: AdvancedSignal,
     candle: CandleData,
+    candleIndex: number,
     portfolio: Portfolio,
     config: AdvancedBacktestConfig,
-    strategy: AdvancedStrategy
+    strategy: AdvancedStrategy,
+    symbol: string = config.symbol ?? 'SYMBOL'
   ): AdvancedTrade | null {
     
+    if (portfolio.positions.length >= config.maxPositions) {
+      return null;
+    }
+
     const positionSize = strategy.calculatePositionSize(signal, portfolio);
     const price = candle.close * (1 + (signal.type === 'buy' ? config.slippage : -config.slippage));
-    const quantity = positionSize / price;
-    const commission = positionSize * config.commission;
+    let quantity = positionSize / price;
+    let lots: number | undefined;
+    let quoteToAccountRate = 1;
+
+    if (config.lotSizing) {
+      const sizing = this.calculateLots(symbol, signal, price, positionSize, portfolio, config);
+      if (sizing.lots === 0) {
+        return null;
+      }
+      ({ lots, units: quantity, quoteToAccountRate } = sizing);
+    }
+
+    const notional = quantity * price * quoteToAccountRate;
+    // С costModel все затраты списываются при закрытии
+    const commission = config.costModel ? 0 : notional * config.commission;
+    const margin = notional * this.marginRate(config);
     
-    // Проверяем достаточность средств
-    if (portfolio.cash < positionSize + commission) {
+    // Проверяем свободную маржу и общий лимит плеча
+    const exposure = portfolio.positions.reduce((sum, p) => sum + this.positionNotional(p), 0);
+    if (portfolio.cash < margin + commission ||
+        exposure + notional > portfolio.totalValue * Math.max(config.leverage, 1)) {
       return null;
     }
 
     // Создаем позицию
     const position: Position = {
       id: `pos-${Date.now()}-${Math.random()}`,
-      symbol: 'SYMBOL',
+      symbol,
       quantity,
+      lots,
+      quoteToAccountRate,
+      margin,
+      entrySpread: candle.spread,
       entryPrice: price,
       entryDate: new Date(candle.candle_datetime),
       side: signal.type === 'buy' ? 'long' : 'short',
       stopLoss: signal.stopLoss,
       takeProfit: signal.takeProfit,
+      initialStopLoss: signal.stopLoss,
+      entryIndex: candleIndex,
+      initialQuantity: quantity,
+      partialExitsTaken: 0,
       unrealizedPnL: 0,
       maxFavorableExcursion: 0,
       maxAdverseExcursion: 0
     };
 
     portfolio.positions.push(position);
-    portfolio.cash -= positionSize + commission;
+    portfolio.cash -= margin + commission;
 
     // Если это краткосрочная стратегия, сразу планируем выход
     // (для демонстрации, в реальности определяется стратегией)
@@ -626,36 +810,53 @@ export class AdvancedBacktestingService {
     position: Position, 
     currentPrice: number, 
     config: AdvancedBacktestConfig, 
-    exitReason: string
+    exitReason: ExitReason,
+    exitDate: Date,
+    quantity: number = position.quantity,
+    exitSpread?: number
   ): AdvancedTrade {
     
     const exitPrice = currentPrice * (1 + (position.side === 'long' ? -config.slippage : config.slippage));
-    const commission = position.quantity * exitPrice * config.commission;
     
-    let grossPnL: number;
-    if (position.side === 'long') {
-      grossPnL = (exitPrice - position.entryPrice) * position.quantity;
-    } else {
-      grossPnL = (position.entryPrice - exitPrice) * position.quantity;
-    }
+    const quoteToAccountRate = position.quoteToAccountRate ?? 1;
+    const grossPnL = this.positionPnL(position, exitPrice, quantity);
+    
+    const costs = config.costModel
+      ? new FxCostModel(config.costModel).calculateTradeCosts({
+          symbol: position.symbol,
+          direction: position.side,
+          units: quantity,
+          entryTime: position.entryDate.getTime(),
+          exitTime: exitDate.getTime(),
+          entrySpread: position.entrySpread,
+          exitSpread,
+          quoteToAccountRate
+        })
+      : undefined;
+    const commission = costs ? costs.commission : quantity * exitPrice * quoteToAccountRate * config.commission;
     
-    const netPnL = grossPnL - commission;
-    const pnlPercent = netPnL / (position.entryPrice * position.quantity);
+    const netPnL = grossPnL - (costs ? costs.total : commission);
+    const pnlPercent = netPnL / (position.entryPrice * quantity * quoteToAccountRate);
     
     return {
       id: `trade-${Date.now()}`,
+      symbol: position.symbol,
       entryDate: position.entryDate,
-      exitDate: new Date(),
+      exitDate,
       entryPrice: position.entryPrice,
       exitPrice,
-      quantity: position.quantity,
+      quantity,
+      lots: position.lots !== undefined && position.quantity > 0
+        ? position.lots * (quantity / position.quantity)
+        : undefined,
       side: position.side,
       grossPnL,
       netPnL,
       pnlPercent,
       commission,
       slippage: Math.abs(exitPrice - currentPrice),
-      holdingPeriod: (new Date().getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24),
+      costs,
+      holdingPeriod: (exitDate.getTime() - position.entryDate.getTime()) / (1000 * 60 * 60 * 24),
       maxFavorableExcursion: position.maxFavorableExcursion,
       maxAdverseExcursion: position.maxAdverseExcursion,
       entryReason: 'Strategy signal',
@@ -669,31 +870,136 @@ export class AdvancedBacktestingService {
     portfolio: Portfolio, 
     lastCandle: CandleData, 
     config: AdvancedBacktestConfig, 
-    trades: AdvancedTrade[]
+    trades: AdvancedTrade[],
+    symbol?: string
   ): void {
-    portfolio.positions.forEach(position => {
-      const trade = this.closePosition(position, lastCandle.close, config, 'End of backtest');
+    const closing = portfolio.positions.filter(p => !symbol || p.symbol === symbol);
+    closing.forEach(position => {
+      const trade = this.closePosition(
+        position, lastCandle.close, config, 'end_of_backtest', new Date(lastCandle.candle_datetime), position.quantity, lastCandle.spread
+      );
       trades.push(trade);
-      portfolio.cash += trade.netPnL;
+      portfolio.cash += this.releaseMargin(position, position.quantity) + trade.netPnL;
     });
-    portfolio.positions = [];
+    portfolio.positions = portfolio.positions.filter(p => !closing.includes(p));
   }
 
-  private calculatePositionsValue(portfolio: Portfolio, currentPrice: number): number {
+  /**
+   * Доля от объема позиции, блокируемая как маржа: строже из marginRequirement и 1/leverage
+   */
+  private marginRate(config: AdvancedBacktestConfig): number {
+    return Math.max(config.marginRequirement, 1 / Math.max(config.leverage, 1));
+  }
+
+  /**
+   * Объем в лотах: от риска до стопа сигнала (или stopLossPercent),
+   * без стопа — пересчет номинала стратегии в лоты
+   */
+  private calculateLots(
+    symbol: string,
+    signal: AdvancedSignal,
+    price: number,
+    positionSize: number,
+    portfolio: Portfolio,
+    config: AdvancedBacktestConfig
+  ): Pick<LotSizingResult, 'lots' | 'units' | 'quoteToAccountRate'> {
+    const { accountCurrency, conversionRates } = config.lotSizing!;
+    const stopDistance = signal.stopLoss !== undefined
+      ? Math.abs(price - signal.stopLoss)
+      : price * config.stopLossPercent / 100;
+
+    if (stopDistance > 0) {
+      return instrumentRegistry.calculateLotSize({
+        symbol,
+        accountBalance: portfolio.totalValue,
+        riskPerTrade: config.riskPerTrade,
+        stopDistance,
+        accountCurrency,
+        conversionRates,
+        entryPrice: price
+      });
+    }
+
+    const spec = instrumentRegistry.get(symbol);
+    const quoteToAccountRate = instrumentRegistry.getQuoteToAccountRate(symbol, accountCurrency, conversionRates, price);
+    const lots = instrumentRegistry.roundLots(symbol, positionSize / (price * quoteToAccountRate * spec.contractSize));
+    return { lots, units: lots * spec.contractSize, quoteToAccountRate };
+  }
+
+  /**
+   * P&L позиции в валюте счета
+   */
+  private positionPnL(position: Position, price: number, quantity: number = position.quantity): number {
+    const priceDiff = position.side === 'long' ? price - position.entryPrice : position.entryPrice - price;
+    return priceDiff * quantity * (position.quoteToAccountRate ?? 1);
+  }
+
+  private positionNotional(position: Position): number {
+    return position.quantity * position.entryPrice * (position.quoteToAccountRate ?? 1);
+  }
+
+  /**
+   * Освобождает маржу пропорционально закрываемому объему
+   */
+  private releaseMargin(position: Position, quantity: number): number {
+    const margin = position.margin ?? this.positionNotional(position);
+    const released = position.quantity > 0 ? margin * (quantity / position.quantity) : margin;
+    position.margin = margin - released;
+    return released;
+  }
+
+  /**
+   * Стоимость позиций: маржа плюс нереализованный P&L по текущим ценам символов
+   */
+  private calculatePositionsValue(portfolio: Portfolio, priceOf: (symbol: string) => number): number {
     return portfolio.positions.reduce((total, position) => {
-      return total + (position.quantity * currentPrice);
+      const pnl = this.positionPnL(position, priceOf(position.symbol));
+      return total + (position.margin ?? this.positionNotional(position)) + pnl;
     }, 0);
   }
 
+  private updatePortfolioMetrics(portfolio: Portfolio, priceOf: (symbol: string) => number): void {
+    portfolio.totalValue = portfolio.cash + this.calculatePositionsValue(portfolio, priceOf);
+    portfolio.equity = portfolio.totalValue;
+    portfolio.marginUsed = portfolio.positions.reduce((sum, p) => sum + (p.margin ?? 0), 0);
+    portfolio.freeMargin = portfolio.cash;
+    portfolio.leverage = this.calculateLeverage(portfolio);
+  }
+
+  private createEquityPoint(
+    equityCurve: AdvancedEquityPoint[],
+    portfolio: Portfolio,
+    date: Date,
+    peak: number
+  ): AdvancedEquityPoint {
+    return {
+      date,
+      equity: portfolio.totalValue,
+      drawdown: peak - portfolio.totalValue,
+      drawdownPercent: (peak - portfolio.totalValue) / peak,
+      rollingReturn: this.calculateRollingReturn(equityCurve, 20),
+      rollingVolatility: this.calculateRollingVolatility(equityCurve, 20),
+      rollingSharp: this.calculateRollingSharpe(equityCurve, 20),
+      longPositions: portfolio.positions.filter(p => p.side === 'long').length,
+      shortPositions: portfolio.positions.filter(p => p.side === 'short').length,
+      cash: portfolio.cash,
+      leverage: portfolio.leverage
+    };
+  }
+
   private calculateLeverage(portfolio: Portfolio): number {
     const positionValue = portfolio.positions.reduce((total, position) => {
-      return total + Math.abs(position.quantity * position.entryPrice);
+      return total + Math.abs(this.positionNotional(position));
     }, 0);
     
     return portfolio.totalValue > 0 ? positionValue / portfolio.totalValue : 1;
   }
 
-  private calculateAdvancedResults(
+  /**
+   * Расчет итоговых метрик по сделкам и кривой equity
+   * (также используется для склейки out-of-sample окон walk-forward)
+   */
+  calculateAdvancedResults(
     trades: AdvancedTrade[], 
     equityCurve: AdvancedEquityPoint[], 
     config: AdvancedBacktestConfig,
@@ -737,18 +1043,37 @@ export class AdvancedBacktestingService {
     const monthlyReturns = this.calculateMonthlyPerformance(equityCurve);
     const drawdownPeriods = this.identifyDrawdownPeriods(equityCurve);
     
-    // Benchmark comparison
+    // Benchmark comparison: доходности выравниваются по датам equity
     let beta = 1;
     let informationRatio = 0;
     let jensenAlpha = 0;
     let trackingError = 0;
+    let benchmarkReturn: number | undefined;
+    let benchmarkCorrelation: number | undefined;
     
-    if (benchmarkData) {
-      const benchmarkReturns = this.calculateBenchmarkReturns(benchmarkData);
-      beta = this.calculateBeta(returns, benchmarkReturns);
-      jensenAlpha = this.calculateAlpha(returns, benchmarkReturns, config.riskFreeRate, beta);
-      informationRatio = this.calculateInformationRatio(returns, benchmarkReturns);
-      trackingError = this.calculateTrackingError(returns, benchmarkReturns);
+    if (benchmarkData && benchmarkData.length > 0) {
+      // Годовой масштаб — по шагу свечей бенчмарка: 1m–1h бэктесты не дневные
+      const analysis = new BenchmarkAnalysis({
+        riskFreeRate: config.riskFreeRate,
+        periodsPerYear: BenchmarkAnalysis.inferPeriodsPerYear(benchmarkData),
+        rollingWindow: config.benchmarkWindow ?? 20
+      });
+      const aligned = analysis.alignReturns(equityCurve, benchmarkData);
+
+      if (aligned.strategy.length > 1) {
+        const relative = analysis.calculateMetrics(aligned.strategy, aligned.benchmark);
+        ({ beta, informationRatio, jensenAlpha, trackingError } = relative);
+        benchmarkReturn = relative.benchmarkReturn;
+        benchmarkCorrelation = relative.correlation;
+
+        const rolling = new Map(analysis.calculateRolling(aligned).map(p => [p.date.getTime(), p]));
+        equityCurve = equityCurve.map(point => {
+          const rollingPoint = rolling.get(point.date.getTime());
+          return rollingPoint
+            ? { ...point, rollingBeta: rollingPoint.beta, rollingAlpha: rollingPoint.alpha }
+            : point;
+        });
+      }
     }
 
     return {
@@ -772,10 +1097,12 @@ export class AdvancedBacktestingService {
       
       // Risk-adjusted metrics
       informationRatio,
-      treynorRatio: beta !== 0 ? annualizedReturn / beta : 0,
+      treynorRatio: beta !== 0 ? (annualizedReturn - config.riskFreeRate) / beta : 0,
       jensenAlpha,
       beta,
       trackingError,
+      benchmarkReturn,
+      benchmarkCorrelation,
       
       // Advanced analytics
       valueAtRisk95,
@@ -801,17 +1128,73 @@ export class AdvancedBacktestingService {
         beta,
         stockSelection: 0, // Placeholder
         marketTiming: 0,   // Placeholder
-        interactionEffect: 0 // Placeholder
+        interactionEffect: 0, // Placeholder
+        symbolContribution: this.calculateSymbolContribution(trades, config.initialCapital)
       },
       riskDecomposition: {
         systematicRisk: 0.6, // Placeholder
         specificRisk: 0.3,   // Placeholder
         concentrationRisk: 0.1, // Placeholder
         liquidityRisk: 0.05     // Placeholder
-      }
+      },
+      exitAttribution: this.calculateExitAttribution(trades),
+      costBreakdown: trades.some(t => t.costs)
+        ? summarizeCosts(trades.filter(t => t.costs).map(t => t.costs!))
+        : undefined
     };
   }
 
+  /**
+   * Вклад каждого символа в результат портфеля
+   */
+  private calculateSymbolContribution(trades: AdvancedTrade[], initialCapital: number): SymbolContribution[] {
+    const bySymbol = new Map<string, AdvancedTrade[]>();
+    trades.forEach(trade => {
+      if (!bySymbol.has(trade.symbol)) {
+        bySymbol.set(trade.symbol, []);
+      }
+      bySymbol.get(trade.symbol)!.push(trade);
+    });
+
+    const totalPnL = trades.reduce((sum, t) => sum + t.netPnL, 0);
+
+    return Array.from(bySymbol.entries()).map(([symbol, group]) => {
+      const netPnL = group.reduce((sum, t) => sum + t.netPnL, 0);
+      return {
+        symbol,
+        trades: group.length,
+        netPnL,
+        contributionPercent: netPnL / initialCapital,
+        shareOfPnL: totalPnL !== 0 ? netPnL / totalPnL : 0,
+        winRate: group.filter(t => t.netPnL > 0).length / group.length
+      };
+    });
+  }
+
+  /**
+   * Результаты в разрезе причин выхода
+   */
+  private calculateExitAttribution(trades: AdvancedTrade[]): ExitAttribution[] {
+    const byReason = new Map<ExitReason, AdvancedTrade[]>();
+    trades.forEach(trade => {
+      if (!byReason.has(trade.exitReason)) {
+        byReason.set(trade.exitReason, []);
+      }
+      byReason.get(trade.exitReason)!.push(trade);
+    });
+
+    return Array.from(byReason.entries()).map(([reason, group]) => {
+      const netPnL = group.reduce((sum, t) => sum + t.netPnL, 0);
+      return {
+        reason,
+        trades: group.length,
+        netPnL,
+        avgPnL: netPnL / group.length,
+        winRate: group.filter(t => t.netPnL > 0).length / group.length
+      };
+    });
+  }
+
   // === РАСЧЕТНЫЕ МЕТОДЫ ===
 
   private calculateSharpeRatio(returns: number[], riskFreeRate: number): number {
@@ -859,59 +1242,6 @@ export class AdvancedBacktestingService {
     return Math.sqrt(avgSquaredDrawdown);
   }
 
-  private calculateBeta(returns: number[], marketReturns: number[]): number {
-    const n = Math.min(returns.length, marketReturns.length);
-    const returnsSlice = returns.slice(0, n);
-    const marketSlice = marketReturns.slice(0, n);
-    
-    const meanReturn = returnsSlice.reduce((sum, r) => sum + r, 0) / n;
-    const meanMarket = marketSlice.reduce((sum, r) => sum + r, 0) / n;
-    
-    let covariance = 0;
-    let marketVariance = 0;
-    
-    for (let i = 0; i < n; i++) {
-      covariance += (returnsSlice[i] - meanReturn) * (marketSlice[i] - meanMarket);
-      marketVariance += Math.pow(marketSlice[i] - meanMarket, 2);
-    }
-    
-    return marketVariance === 0 ? 1 : covariance / marketVariance;
-  }
-
-  private calculateAlpha(
-    returns: number[], 
-    marketReturns: number[], 
-    riskFreeRate: number, 
-    beta: number
-  ): number {
-    const portfolioReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length * 252;
-    const marketReturn = marketReturns.reduce((sum, r) => sum + r, 0) / marketReturns.length * 252;
-    
-    return portfolioReturn - (riskFreeRate + beta * (marketReturn - riskFreeRate));
-  }
-
-  private calculateInformationRatio(returns: number[], benchmarkReturns: number[]): number {
-    const n = Math.min(returns.length, benchmarkReturns.length);
-    const excessReturns = returns.slice(0, n).map((r, i) => r - benchmarkReturns[i]);
-    
-    const meanExcessReturn = excessReturns.reduce((sum, r) => sum + r, 0) / n;
-    const trackingError = Math.sqrt(
-      excessReturns.reduce((sum, r) => sum + Math.pow(r - meanExcessReturn, 2), 0) / (n - 1)
-    );
-    
-    return trackingError === 0 ? 0 : meanExcessReturn / trackingError;
-  }
-
-  private calculateTrackingError(returns: number[], benchmarkReturns: number[]): number {
-    const n = Math.min(returns.length, benchmarkReturns.length);
-    const excessReturns = returns.slice(0, n).map((r, i) => r - benchmarkReturns[i]);
-    
-    const meanExcessReturn = excessReturns.reduce((sum, r) => sum + r, 0) / n;
-    const variance = excessReturns.reduce((sum, r) => sum + Math.pow(r - meanExcessReturn, 2), 0) / (n - 1);
-    
-    return Math.sqrt(variance * 252);
-  }
-
   // Вспомогательные методы для расчета индикаторов
   private calculateRSI(candles: CandleData[], index: number, period: number): number {
     // Реализация аналогична предыдущему сервису
@@ -1083,15 +1413,6 @@ export class AdvancedBacktestingService {
     return maxConsecutive;
   }
 
-  private calculateBenchmarkReturns(benchmarkData: CandleData[]): number[] {
-    const returns: number[] = [];
-    for (let i = 1; i < benchmarkData.length; i++) {
-      const ret = (benchmarkData[i].close - benchmarkData[i-1].close) / benchmarkData[i-1].close;
-      returns.push(ret);
-    }
-    return returns;
-  }
-
   private getEmptyAdvancedResults(): AdvancedBacktestResult {
     return {
       totalReturn: 0,
@@ -1132,14 +1453,16 @@ export class AdvancedBacktestingService {
         beta: 1,
         stockSelection: 0,
         marketTiming: 0,
-        interactionEffect: 0
+        interactionEffect: 0,
+        symbolContribution: []
       },
       riskDecomposition: {
         systematicRisk: 0,
         specificRisk: 0,
         concentrationRisk: 0,
         liquidityRisk: 0
-      }
+      },
+      exitAttribution: []
     };
   }
 }
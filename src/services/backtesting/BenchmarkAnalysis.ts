@@ -0,0 +1,261 @@
+import { CandleData } from '@/types/session';
+
+export interface BenchmarkAnalysisConfig {
+  riskFreeRate: number; // Годовая безрисковая ставка (0.02 = 2%)
+  periodsPerYear: number; // Периодов доходности в году для аннуализации
+  rollingWindow: number; // Окно rolling beta/alpha в точках equity
+}
+
+/**
+ * Доходности стратегии и бенчмарка за одни и те же интервалы
+ */
+export interface AlignedReturns {
+  dates: Date[]; // Конец каждого интервала
+  strategy: number[];
+  benchmark: number[];
+}
+
+export interface RelativeMetrics {
+  beta: number;
+  jensenAlpha: number; // Годовая, по CAPM
+  trackingError: number; // Годовая
+  informationRatio: number; // Годовой
+  correlation: number;
+  benchmarkReturn: number; // Накопленная доходность бенчмарка за период
+  excessReturn: number; // Накопленная доходность стратегии минус бенчмарка
+}
+
+export interface RollingRelativePoint {
+  date: Date;
+  beta: number;
+  alpha: number;
+}
+
+/**
+ * Компоненты индекса доллара ICE (DXY) и их веса в геометрической формуле
+ */
+export const DXY_WEIGHTS: { [pair: string]: number } = {
+  'EUR/USD': -0.576,
+  'USD/JPY': 0.136,
+  'GBP/USD': -0.119,
+  'USD/CAD': 0.091,
+  'USD/SEK': 0.042,
+  'USD/CHF': 0.036
+};
+
+const DXY_CONSTANT = 50.14348112;
+
+const DEFAULT_CONFIG: BenchmarkAnalysisConfig = {
+  riskFreeRate: 0.02,
+  periodsPerYear: 252,
+  rollingWindow: 20
+};
+
+const YEAR_MS = 365.25 * 24 * 3600 * 1000;
+
+const candleTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+export class BenchmarkAnalysis {
+  private config: BenchmarkAnalysisConfig;
+
+  constructor(config: Partial<BenchmarkAnalysisConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (this.config.rollingWindow < 2) {
+      throw new Error('rollingWindow must be at least 2');
+    }
+  }
+
+  /**
+   * Синтетический DXY из свечей валютных пар: close по формуле индекса
+   * на общих для всех переданных пар отметках времени.
+   * Недостающие компоненты пропускаются — на доходности это влияет только через состав корзины
+   */
+  static createDollarIndexProxy(components: { [pair: string]: CandleData[] }): CandleData[] {
+    const pairs = Object.keys(components).filter(pair => DXY_WEIGHTS[pair] !== undefined);
+    if (pairs.length === 0) {
+      throw new Error('No DXY components supplied');
+    }
+
+    const closesByPair = pairs.map(pair => new Map(components[pair].map(c => [candleTime(c), c.close])));
+    const times = [...closesByPair[0].keys()]
+      .filter(time => closesByPair.every(closes => closes.has(time)))
+      .sort((a, b) => a - b);
+
+    return times.map((time, index) => {
+      const value = pairs.reduce(
+        (acc, pair, i) => acc * Math.pow(closesByPair[i].get(time)!, DXY_WEIGHTS[pair]),
+        DXY_CONSTANT
+      );
+      return {
+        session_id: 'dxy_proxy',
+        candle_index: index,
+        candle_datetime: new Date(time).toISOString(),
+        open: value,
+        high: value,
+        low: value,
+        close: value,
+        volume: 0
+      };
+    });
+  }
+
+  /**
+   * Периодов доходности в году по среднему шагу свечей бенчмарка.
+   * Выходные и разрывы входят в шаг, поэтому дневные бары по будням дают около 260, а не 365
+   */
+  static inferPeriodsPerYear(benchmark: CandleData[]): number {
+    if (benchmark.length < 2) return DEFAULT_CONFIG.periodsPerYear;
+
+    const times = benchmark.map(candleTime);
+    const span = Math.max(...times) - Math.min(...times);
+    return span > 0 ? (benchmark.length - 1) * YEAR_MS / span : DEFAULT_CONFIG.periodsPerYear;
+  }
+
+  /**
+   * Переносит equity на сетку свечей бенчмарка: на каждую свечу — последнее значение
+   * не позже ее времени. Свечи до первой точки equity отбрасываются
+   */
+  resampleEquity(equityCurve: { date: Date; equity: number }[], benchmark: CandleData[]): { date: Date; equity: number }[] {
+    const points = [...equityCurve].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const sorted = [...benchmark].sort((a, b) => candleTime(a) - candleTime(b));
+    const resampled: { date: Date; equity: number }[] = [];
+
+    let cursor = -1;
+    for (const candle of sorted) {
+      const time = candleTime(candle);
+      while (cursor + 1 < points.length && points[cursor + 1].date.getTime() <= time) {
+        cursor++;
+      }
+      if (cursor >= 0) {
+        resampled.push({ date: new Date(time), equity: points[cursor].equity });
+      }
+    }
+
+    return resampled;
+  }
+
+  /**
+   * Выравнивает бенчмарк по датам кривой equity: для каждой точки берется
+   * последний close бенчмарка не позже ее даты. Точки до начала бенчмарка отбрасываются
+   */
+  alignReturns(equityCurve: { date: Date; equity: number }[], benchmark: CandleData[]): AlignedReturns {
+    const sorted = [...benchmark].sort((a, b) => candleTime(a) - candleTime(b));
+    const aligned: AlignedReturns = { dates: [], strategy: [], benchmark: [] };
+
+    let cursor = -1;
+    let prevEquity: number | null = null;
+    let prevBenchmark: number | null = null;
+
+    for (const point of equityCurve) {
+      const time = point.date.getTime();
+      while (cursor + 1 < sorted.length && candleTime(sorted[cursor + 1]) <= time) {
+        cursor++;
+      }
+      if (cursor < 0) continue;
+
+      const benchmarkClose = sorted[cursor].close;
+      if (prevEquity !== null && prevBenchmark !== null && prevEquity > 0 && prevBenchmark > 0) {
+        aligned.dates.push(point.date);
+        aligned.strategy.push((point.equity - prevEquity) / prevEquity);
+        aligned.benchmark.push((benchmarkClose - prevBenchmark) / prevBenchmark);
+      }
+      prevEquity = point.equity;
+      prevBenchmark = benchmarkClose;
+    }
+
+    return aligned;
+  }
+
+  /**
+   * Относительные метрики по выровненным доходностям
+   */
+  calculateMetrics(strategyReturns: number[], benchmarkReturns: number[]): RelativeMetrics {
+    const n = Math.min(strategyReturns.length, benchmarkReturns.length);
+    const strategy = strategyReturns.slice(0, n);
+    const benchmark = benchmarkReturns.slice(0, n);
+    const { periodsPerYear } = this.config;
+
+    const beta = this.calculateBeta(strategy, benchmark);
+    const excess = strategy.map((r, i) => r - benchmark[i]);
+    const excessStd = this.sampleStd(excess);
+
+    const compound = (returns: number[]) => returns.reduce((acc, r) => acc * (1 + r), 1) - 1;
+    const benchmarkReturn = compound(benchmark);
+
+    return {
+      beta,
+      jensenAlpha: this.calculateAlpha(strategy, benchmark, beta),
+      trackingError: excessStd * Math.sqrt(periodsPerYear),
+      informationRatio: excessStd === 0 ? 0 : (mean(excess) * periodsPerYear) / (excessStd * Math.sqrt(periodsPerYear)),
+      correlation: this.calculateCorrelation(strategy, benchmark),
+      benchmarkReturn,
+      excessReturn: compound(strategy) - benchmarkReturn
+    };
+  }
+
+  /**
+   * Скользящие beta и alpha; первые rollingWindow - 1 точек не заполняются
+   */
+  calculateRolling(aligned: AlignedReturns): RollingRelativePoint[] {
+    const { rollingWindow } = this.config;
+    const points: RollingRelativePoint[] = [];
+
+    for (let i = rollingWindow - 1; i < aligned.strategy.length; i++) {
+      const strategy = aligned.strategy.slice(i - rollingWindow + 1, i + 1);
+      const benchmark = aligned.benchmark.slice(i - rollingWindow + 1, i + 1);
+      const beta = this.calculateBeta(strategy, benchmark);
+      points.push({ date: aligned.dates[i], beta, alpha: this.calculateAlpha(strategy, benchmark, beta) });
+    }
+
+    return points;
+  }
+
+  calculateBeta(strategy: number[], benchmark: number[]): number {
+    const n = Math.min(strategy.length, benchmark.length);
+    if (n < 2) return 1;
+
+    const meanStrategy = mean(strategy.slice(0, n));
+    const meanBenchmark = mean(benchmark.slice(0, n));
+    let covariance = 0;
+    let variance = 0;
+
+    for (let i = 0; i < n; i++) {
+      covariance += (strategy[i] - meanStrategy) * (benchmark[i] - meanBenchmark);
+      variance += Math.pow(benchmark[i] - meanBenchmark, 2);
+    }
+
+    return variance === 0 ? 1 : covariance / variance;
+  }
+
+  /**
+   * Альфа Дженсена: средняя доходность сверх CAPM, приведенная к году
+   */
+  calculateAlpha(strategy: number[], benchmark: number[], beta: number): number {
+    const n = Math.min(strategy.length, benchmark.length);
+    if (n === 0) return 0;
+
+    const { riskFreeRate, periodsPerYear } = this.config;
+    const periodRiskFree = riskFreeRate / periodsPerYear;
+    const strategyExcess = mean(strategy.slice(0, n)) - periodRiskFree;
+    const benchmarkExcess = mean(benchmark.slice(0, n)) - periodRiskFree;
+
+    return (strategyExcess - beta * benchmarkExcess) * periodsPerYear;
+  }
+
+  private calculateCorrelation(strategy: number[], benchmark: number[]): number {
+    const stdStrategy = this.sampleStd(strategy);
+    const stdBenchmark = this.sampleStd(benchmark);
+    if (stdStrategy === 0 || stdBenchmark === 0) return 0;
+
+    return this.calculateBeta(strategy, benchmark) * stdBenchmark / stdStrategy;
+  }
+
+  private sampleStd(values: number[]): number {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / (values.length - 1));
+  }
+}
@@ -0,0 +1,216 @@
+import { CandleData } from '@/types/session';
+import { ExitReason, Position } from './AdvancedBacktestingService';
+import { IntrabarFillModel } from './FillModel';
+
+export type TrailingStopRule =
+  | { type: 'percent'; distance: number } // Доля цены от экстремума (0.01 = 1%)
+  | { type: 'atr'; period: number; multiplier: number };
+
+export interface PartialTakeProfit {
+  atR: number; // Уровень в R (R = расстояние от входа до начального стопа)
+  fraction: number; // Доля начального объема, закрываемая на уровне
+}
+
+export interface ExitRulesConfig {
+  trailingStop?: TrailingStopRule;
+  breakEven?: {
+    triggerR: number; // Перенос стопа после X R прибыли
+    offsetR?: number; // Стоп ставится на вход + offsetR * R
+  };
+  maxHoldingCandles?: number;
+  sessionCloseUtc?: string; // 'HH:MM' — принудительное закрытие при пересечении времени
+  partialTakeProfits?: PartialTakeProfit[];
+}
+
+export interface ExitDecision {
+  reason: ExitReason;
+  price: number;
+  quantity: number;
+}
+
+const QUANTITY_EPSILON = 1e-9;
+
+export class ExitRuleEngine {
+  private rules: ExitRulesConfig;
+  private sessionCloseMinute: number | null;
+  private partialLevels: PartialTakeProfit[];
+
+  constructor(rules: ExitRulesConfig = {}) {
+    this.rules = rules;
+    this.sessionCloseMinute = rules.sessionCloseUtc ? this.parseSessionClose(rules.sessionCloseUtc) : null;
+    this.partialLevels = [...(rules.partialTakeProfits ?? [])].sort((a, b) => a.atR - b.atR);
+
+    const totalFraction = this.partialLevels.reduce((sum, level) => sum + level.fraction, 0);
+    if (this.partialLevels.some(level => level.fraction <= 0 || level.atR <= 0) || totalFraction > 1) {
+      throw new Error('Partial take-profits need positive levels and fractions summing to at most 1');
+    }
+    if (rules.maxHoldingCandles !== undefined && rules.maxHoldingCandles < 1) {
+      throw new Error('maxHoldingCandles must be at least 1');
+    }
+  }
+
+  /**
+   * Решения о выходе для позиции на текущей свече.
+   * Stop/target проверяются первыми, затем частичные фиксации и выходы по времени
+   */
+  evaluate(position: Position, candles: CandleData[], index: number, fillModel: IntrabarFillModel): ExitDecision[] {
+    const candle = candles[index];
+    const stop = this.effectiveStop(position);
+
+    const fill = fillModel.resolveExit(candle, {
+      side: position.side,
+      stopLoss: stop?.level,
+      takeProfit: position.takeProfit
+    });
+    if (fill) {
+      return [{
+        reason: fill.reason === 'take_profit' ? 'take_profit' : stop!.reason,
+        price: fill.price,
+        quantity: position.quantity
+      }];
+    }
+
+    const decisions = this.evaluatePartials(position, candle);
+    const remaining = position.quantity - decisions.reduce((sum, d) => sum + d.quantity, 0);
+    if (remaining <= QUANTITY_EPSILON) return decisions;
+
+    if (this.rules.maxHoldingCandles !== undefined &&
+        position.entryIndex !== undefined &&
+        index - position.entryIndex >= this.rules.maxHoldingCandles) {
+      decisions.push({ reason: 'timeout', price: candle.close, quantity: remaining });
+    } else if (index > 0 && this.crossesSessionClose(candles[index - 1], candle)) {
+      decisions.push({ reason: 'session_close', price: candle.close, quantity: remaining });
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Перенос стопов по итогам закрытой свечи: break-even и трейлинг
+   */
+  updateStops(position: Position, candles: CandleData[], index: number): void {
+    const candle = candles[index];
+    const isLong = position.side === 'long';
+    const risk = this.riskPerUnit(position);
+
+    if (this.rules.breakEven && risk > 0 && !position.breakEvenActive) {
+      const excursion = isLong ? candle.high - position.entryPrice : position.entryPrice - candle.low;
+      if (excursion >= this.rules.breakEven.triggerR * risk) {
+        const offset = (this.rules.breakEven.offsetR ?? 0) * risk;
+        position.stopLoss = isLong ? position.entryPrice + offset : position.entryPrice - offset;
+        position.breakEvenActive = true;
+      }
+    }
+
+    const trailing = this.rules.trailingStop;
+    if (!trailing) return;
+
+    let distance: number;
+    if (trailing.type === 'percent') {
+      distance = (isLong ? candle.high : candle.low) * trailing.distance;
+    } else {
+      const atr = this.calculateATR(candles, index, trailing.period);
+      if (atr === null) return;
+      distance = atr * trailing.multiplier;
+    }
+
+    const level = isLong ? candle.high - distance : candle.low + distance;
+    if (position.trailingStop === undefined) {
+      position.trailingStop = level;
+    } else {
+      position.trailingStop = isLong ? Math.max(position.trailingStop, level) : Math.min(position.trailingStop, level);
+    }
+  }
+
+  // === ВСПОМОГАТЕЛЬНЫЕ МЕТОДЫ ===
+
+  /**
+   * Ближайший к цене стоп из обычного и трейлинг-стопа
+   */
+  private effectiveStop(position: Position): { level: number; reason: ExitReason } | null {
+    const fixed = position.stopLoss !== undefined
+      ? { level: position.stopLoss, reason: (position.breakEvenActive ? 'break_even' : 'stop_loss') as ExitReason }
+      : null;
+    const trailing = position.trailingStop !== undefined
+      ? { level: position.trailingStop, reason: 'trailing_stop' as ExitReason }
+      : null;
+
+    if (!fixed || !trailing) return fixed ?? trailing;
+
+    const trailingTighter = position.side === 'long'
+      ? trailing.level > fixed.level
+      : trailing.level < fixed.level;
+    return trailingTighter ? trailing : fixed;
+  }
+
+  private evaluatePartials(position: Position, candle: CandleData): ExitDecision[] {
+    const risk = this.riskPerUnit(position);
+    if (risk <= 0 || this.partialLevels.length === 0) return [];
+
+    const isLong = position.side === 'long';
+    const initialQuantity = position.initialQuantity ?? position.quantity;
+    const decisions: ExitDecision[] = [];
+    let remaining = position.quantity;
+    let taken = position.partialExitsTaken ?? 0;
+
+    while (taken < this.partialLevels.length) {
+      const level = this.partialLevels[taken];
+      const target = isLong ? position.entryPrice + level.atR * risk : position.entryPrice - level.atR * risk;
+      const reached = isLong ? candle.high >= target : candle.low <= target;
+      if (!reached) break;
+
+      const gapped = isLong ? candle.open >= target : candle.open <= target;
+      const quantity = Math.min(remaining, initialQuantity * level.fraction);
+      decisions.push({ reason: 'partial_take_profit', price: gapped ? candle.open : target, quantity });
+      remaining -= quantity;
+      taken++;
+    }
+
+    position.partialExitsTaken = taken;
+    return decisions;
+  }
+
+  private riskPerUnit(position: Position): number {
+    return position.initialStopLoss !== undefined
+      ? Math.abs(position.entryPrice - position.initialStopLoss)
+      : 0;
+  }
+
+  private crossesSessionClose(previous: CandleData, current: CandleData): boolean {
+    if (this.sessionCloseMinute === null) return false;
+
+    const prevDate = new Date(previous.candle_datetime);
+    const currDate = new Date(current.candle_datetime);
+    const prevMinute = prevDate.getUTCHours() * 60 + prevDate.getUTCMinutes();
+    const currMinute = currDate.getUTCHours() * 60 + currDate.getUTCMinutes();
+    const sameDay = prevDate.toISOString().slice(0, 10) === currDate.toISOString().slice(0, 10);
+
+    return sameDay
+      ? prevMinute < this.sessionCloseMinute && currMinute >= this.sessionCloseMinute
+      : prevMinute < this.sessionCloseMinute || currMinute >= this.sessionCloseMinute;
+  }
+
+  private parseSessionClose(value: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      throw new Error(`Invalid sessionCloseUtc: ${value}, expected HH:MM`);
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+
+  private calculateATR(candles: CandleData[], index: number, period: number): number | null {
+    if (index < period) return null;
+
+    let sum = 0;
+    for (let i = index - period + 1; i <= index; i++) {
+      const candle = candles[i];
+      const prevClose = candles[i - 1].close;
+      sum += Math.max(
+        candle.high - candle.low,
+        Math.abs(candle.high - prevClose),
+        Math.abs(candle.low - prevClose)
+      );
+    }
+    return sum / period;
+  }
+}
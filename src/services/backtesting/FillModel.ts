@@ -0,0 +1,88 @@
+import { CandleData } from '@/types/session';
+
+/**
+ * Как разрешать свечу, в которой задеты и stop loss, и take profit:
+ * - pessimistic: всегда stop loss
+ * - optimistic: всегда take profit
+ * - ohlc_path: бычья свеча идет open→low→high→close, медвежья open→high→low→close
+ */
+export type FillModelType = 'pessimistic' | 'optimistic' | 'ohlc_path';
+
+export interface FillModelConfig {
+  type: FillModelType;
+  gapFills: boolean; // Исполнять по open, если цена открылась за уровнем
+}
+
+export type PriceBar = Pick<CandleData, 'open' | 'high' | 'low' | 'close'>;
+
+export interface ExitLevels {
+  side: 'long' | 'short';
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+export interface IntrabarFill {
+  reason: 'stop_loss' | 'take_profit';
+  price: number;
+  gapped: boolean;
+}
+
+export const DEFAULT_FILL_MODEL: FillModelConfig = {
+  type: 'pessimistic',
+  gapFills: true
+};
+
+export class IntrabarFillModel {
+  private config: FillModelConfig;
+
+  constructor(config: Partial<FillModelConfig> = {}) {
+    this.config = { ...DEFAULT_FILL_MODEL, ...config };
+  }
+
+  /**
+   * Определяет, сработал ли stop loss / take profit внутри свечи, и цену исполнения
+   */
+  resolveExit(bar: PriceBar, levels: ExitLevels): IntrabarFill | null {
+    const { stopLoss, takeProfit } = levels;
+    const isLong = levels.side === 'long';
+
+    // Гэп: свеча открылась уже за уровнем — исполнение по open
+    if (this.config.gapFills) {
+      if (stopLoss !== undefined && (isLong ? bar.open <= stopLoss : bar.open >= stopLoss)) {
+        return { reason: 'stop_loss', price: bar.open, gapped: true };
+      }
+      if (takeProfit !== undefined && (isLong ? bar.open >= takeProfit : bar.open <= takeProfit)) {
+        return { reason: 'take_profit', price: bar.open, gapped: true };
+      }
+    }
+
+    const stopHit = stopLoss !== undefined && (isLong ? bar.low <= stopLoss : bar.high >= stopLoss);
+    const targetHit = takeProfit !== undefined && (isLong ? bar.high >= takeProfit : bar.low <= takeProfit);
+
+    if (!stopHit && !targetHit) return null;
+    if (stopHit && !targetHit) return { reason: 'stop_loss', price: stopLoss!, gapped: false };
+    if (targetHit && !stopHit) return { reason: 'take_profit', price: takeProfit!, gapped: false };
+
+    return this.stopFirst(bar, isLong)
+      ? { reason: 'stop_loss', price: stopLoss!, gapped: false }
+      : { reason: 'take_profit', price: takeProfit!, gapped: false };
+  }
+
+  /**
+   * Для неоднозначной свечи: был ли stop loss достигнут раньше take profit
+   */
+  private stopFirst(bar: PriceBar, isLong: boolean): boolean {
+    switch (this.config.type) {
+      case 'optimistic':
+        return false;
+      case 'ohlc_path': {
+        const lowFirst = bar.close >= bar.open;
+        // У long стоп снизу, у short — сверху
+        return isLong ? lowFirst : !lowFirst;
+      }
+      case 'pessimistic':
+      default:
+        return true;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { getRolloversBetween } from '@/utils/dateTimeUtils';
+import { InstrumentRegistry, instrumentRegistry } from '@/services/risk/InstrumentRegistry';
+
+/**
+ * Типичные спреды в пипсах для пар из списка на главной странице
+ */
+export const DEFAULT_SPREAD_PIPS: { [pair: string]: number } = {
+  'EUR/USD': 0.8, 'GBP/USD': 1.2, 'USD/JPY': 0.9, 'USD/CHF': 1.3,
+  'AUD/USD': 1.0, 'USD/CAD': 1.4, 'NZD/USD': 1.6, 'EUR/GBP': 1.2,
+  'EUR/JPY': 1.5, 'GBP/JPY': 2.5, 'AUD/JPY': 1.8, 'CAD/JPY': 2.2,
+  'CHF/JPY': 2.5, 'NZD/JPY': 2.5, 'EUR/CHF': 1.8, 'GBP/CHF': 3.0,
+  'USD/NOK': 30, 'USD/SEK': 30, 'USD/DKK': 15, 'USD/PLN': 25,
+  'USD/CZK': 30, 'USD/HUF': 30, 'USD/RUB': 200, 'USD/TRY': 100,
+  'USD/ZAR': 90, 'USD/MXN': 40, 'USD/SGD': 3.0, 'USD/HKD': 5.0
+};
+
+const FALLBACK_SPREAD_PIPS = 2;
+
+export interface FxCostConfig {
+  spreadPips?: number; // Переопределяет таблицу DEFAULT_SPREAD_PIPS
+  useCandleSpread: boolean; // Брать CandleData.spread, если он заполнен
+  candleSpreadUnit: 'pips' | 'price';
+  commissionPerLot: number; // За сторону, в валюте счета
+  swapLongPerLot: number; // За ночь, в валюте счета; отрицательное значение — списание
+  swapShortPerLot: number;
+  contractSize?: number; // Единиц базовой валюты в лоте (по умолчанию из InstrumentRegistry)
+  tripleSwapWeekday?: number; // День недели (Нью-Йорк) с тройным свопом, по умолчанию среда
+}
+
+export interface TradeCostInput {
+  symbol: string;
+  direction: 'long' | 'short';
+  units: number;
+  entryTime: number;
+  exitTime: number;
+  entrySpread?: number; // CandleData.spread на свече входа
+  exitSpread?: number;
+  quoteToAccountRate?: number; // Пересчет спреда из котируемой валюты в валюту счета
+}
+
+export interface TradeCostBreakdown {
+  spread: number;
+  commission: number;
+  swap: number; // Положительное значение — затраты, отрицательное — начисление
+  rolloverNights: number;
+  total: number;
+}
+
+const WEDNESDAY = 3;
+
+export class FxCostModel {
+  private config: FxCostConfig;
+
+  constructor(config: FxCostConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Размер пипса по спецификации инструмента
+   */
+  static pipSize(symbol: string): number {
+    return instrumentRegistry.get(symbol).pipSize;
+  }
+
+  /**
+   * Спред в ценовых единицах для свечи (или по таблице, если у свечи его нет)
+   */
+  spreadInPrice(symbol: string, candleSpread?: number): number {
+    const pip = FxCostModel.pipSize(symbol);
+
+    if (this.config.useCandleSpread && candleSpread !== undefined && candleSpread !== null && candleSpread > 0) {
+      return this.config.candleSpreadUnit === 'price' ? candleSpread : candleSpread * pip;
+    }
+
+    const pips = this.config.spreadPips ?? DEFAULT_SPREAD_PIPS[InstrumentRegistry.normalizeSymbol(symbol)] ?? FALLBACK_SPREAD_PIPS;
+    return pips * pip;
+  }
+
+  /**
+   * Полная разбивка затрат по сделке: половина спреда на входе и на выходе,
+   * комиссия за лот на каждую сторону, своп за каждый ролловер 17:00 Нью-Йорк
+   */
+  calculateTradeCosts(input: TradeCostInput): TradeCostBreakdown {
+    const lots = input.units / (this.config.contractSize ?? instrumentRegistry.get(input.symbol).contractSize);
+
+    const spread = (
+      this.spreadInPrice(input.symbol, input.entrySpread) / 2 +
+      this.spreadInPrice(input.symbol, input.exitSpread) / 2
+    ) * input.units * (input.quoteToAccountRate ?? 1);
+    const commission = this.config.commissionPerLot * lots * 2;
+
+    const rolloverNights = this.countRolloverNights(input.entryTime, input.exitTime);
+    const swapRate = input.direction === 'long' ? this.config.swapLongPerLot : this.config.swapShortPerLot;
+    const swap = -swapRate * lots * rolloverNights;
+
+    return {
+      spread,
+      commission,
+      swap,
+      rolloverNights,
+      total: spread + commission + swap
+    };
+  }
+
+  /**
+   * Число начисляемых ночей: выходные пропускаются, тройной своп в среду
+   */
+  countRolloverNights(entryTime: number, exitTime: number): number {
+    const tripleDay = this.config.tripleSwapWeekday ?? WEDNESDAY;
+
+    return getRolloversBetween(new Date(entryTime), new Date(exitTime)).reduce((nights, rollover) => {
+      if (rollover.newYorkWeekday === 0 || rollover.newYorkWeekday === 6) return nights;
+      return nights + (rollover.newYorkWeekday === tripleDay ? 3 : 1);
+    }, 0);
+  }
+}
+
+/**
+ * Суммарные затраты по набору разбивок
+ */
+export const summarizeCosts = (costs: TradeCostBreakdown[]): TradeCostBreakdown =>
+  costs.reduce(
+    (sum, c) => ({
+      spread: sum.spread + c.spread,
+      commission: sum.commission + c.commission,
+      swap: sum.swap + c.swap,
+      rolloverNights: sum.rolloverNights + c.rolloverNights,
+      total: sum.total + c.total
+    }),
+    { spread: 0, commission: 0, swap: 0, rolloverNights: 0, total: 0 }
+  );
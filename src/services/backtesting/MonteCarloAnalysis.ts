@@ -0,0 +1,245 @@
+import { createSeededRandom } from '@/lib/utils';
+import { Trade } from '@/services/ml/BacktestingEngine';
+import { AdvancedTrade } from './AdvancedBacktestingService';
+
+export interface MonteCarloConfig {
+  iterations: number;
+  method: 'bootstrap' | 'shuffle'; // Выборка с возвращением или перестановка порядка
+  compounding: boolean; // Масштабировать P&L по текущему equity (доходность на сделку)
+  skipProbability: number; // Вероятность пропустить сделку (0-1)
+  maxSlippagePercent: number; // Случайное проскальзывание 0..max % от объема сделки
+  ruinLevelPercent: number; // Разорение: equity опустился на X% от начального капитала
+  percentiles: number[];
+  seed?: number;
+}
+
+/**
+ * Нормализованная сделка для симуляции
+ */
+export interface MonteCarloTrade {
+  pnl: number;
+  notional: number; // Объем позиции в валюте счета
+}
+
+export interface DistributionSummary {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: { [percentile: number]: number };
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  tradesPerRun: number;
+  initialCapital: number;
+
+  finalEquity: DistributionSummary;
+  totalReturnPercent: DistributionSummary;
+  maxDrawdownPercent: DistributionSummary;
+  maxConsecutiveLosses: DistributionSummary;
+
+  probabilityOfRuin: number;
+  probabilityOfLoss: number;
+
+  // Исходный детерминированный путь для сравнения
+  original: {
+    finalEquity: number;
+    maxDrawdownPercent: number;
+  };
+}
+
+interface RunOutcome {
+  finalEquity: number;
+  maxDrawdownPercent: number;
+  maxConsecutiveLosses: number;
+  ruined: boolean;
+}
+
+const DEFAULT_CONFIG: MonteCarloConfig = {
+  iterations: 5000,
+  method: 'bootstrap',
+  compounding: false,
+  skipProbability: 0,
+  maxSlippagePercent: 0,
+  ruinLevelPercent: 50,
+  percentiles: [5, 25, 50, 75, 95]
+};
+
+export class MonteCarloAnalysis {
+  private config: MonteCarloConfig;
+
+  constructor(config: Partial<MonteCarloConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    if (!Number.isInteger(this.config.iterations) || this.config.iterations <= 0) {
+      throw new Error('iterations must be a positive integer');
+    }
+    if (this.config.skipProbability < 0 || this.config.skipProbability >= 1) {
+      throw new Error('skipProbability must be in [0, 1)');
+    }
+  }
+
+  /**
+   * Сделки BacktestingEngine (учитываются только закрытые)
+   */
+  static fromEngineTrades(trades: Trade[]): MonteCarloTrade[] {
+    return trades
+      .filter(t => t.status === 'closed' && t.pnl !== undefined)
+      .map(t => ({ pnl: t.pnl!, notional: t.size * t.entryPrice * (t.quoteToAccountRate ?? 1) }));
+  }
+
+  /**
+   * Сделки AdvancedBacktestingService
+   */
+  static fromAdvancedTrades(trades: AdvancedTrade[]): MonteCarloTrade[] {
+    return trades.map(t => ({ pnl: t.netPnL, notional: Math.abs(t.quantity * t.entryPrice) }));
+  }
+
+  /**
+   * Запуск симуляции по последовательности сделок
+   */
+  run(trades: MonteCarloTrade[], initialCapital: number): MonteCarloResult {
+    if (initialCapital <= 0) {
+      throw new Error('initialCapital must be positive');
+    }
+
+    const random = createSeededRandom(this.config.seed ?? Date.now());
+    const returns = this.toEquityReturns(trades, initialCapital);
+    const original = this.simulatePath(trades, returns, trades.map((_, i) => i), initialCapital, null);
+
+    const outcomes: RunOutcome[] = [];
+    for (let run = 0; run < this.config.iterations; run++) {
+      const order = this.config.method === 'shuffle'
+        ? this.shuffle(trades.length, random)
+        : this.bootstrap(trades.length, random);
+      outcomes.push(this.simulatePath(trades, returns, order, initialCapital, random));
+    }
+
+    const finalEquities = outcomes.map(o => o.finalEquity);
+
+    return {
+      iterations: this.config.iterations,
+      tradesPerRun: trades.length,
+      initialCapital,
+      finalEquity: this.summarize(finalEquities),
+      totalReturnPercent: this.summarize(finalEquities.map(e => (e - initialCapital) / initialCapital * 100)),
+      maxDrawdownPercent: this.summarize(outcomes.map(o => o.maxDrawdownPercent)),
+      maxConsecutiveLosses: this.summarize(outcomes.map(o => o.maxConsecutiveLosses)),
+      probabilityOfRuin: outcomes.filter(o => o.ruined).length / outcomes.length,
+      probabilityOfLoss: finalEquities.filter(e => e < initialCapital).length / outcomes.length,
+      original: {
+        finalEquity: original.finalEquity,
+        maxDrawdownPercent: original.maxDrawdownPercent
+      }
+    };
+  }
+
+  /**
+   * Доходность каждой сделки относительно equity перед ней в исходном порядке
+   */
+  private toEquityReturns(trades: MonteCarloTrade[], initialCapital: number): number[] {
+    let equity = initialCapital;
+    return trades.map(trade => {
+      const ret = equity > 0 ? trade.pnl / equity : 0;
+      equity += trade.pnl;
+      return ret;
+    });
+  }
+
+  private simulatePath(
+    trades: MonteCarloTrade[],
+    returns: number[],
+    order: number[],
+    initialCapital: number,
+    random: (() => number) | null // null — исходный путь без случайных искажений
+  ): RunOutcome {
+    const ruinEquity = initialCapital * (1 - this.config.ruinLevelPercent / 100);
+    let equity = initialCapital;
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    let losses = 0;
+    let maxLosses = 0;
+    let ruined = false;
+
+    for (const index of order) {
+      if (random && this.config.skipProbability > 0 && random() < this.config.skipProbability) continue;
+
+      const trade = trades[index];
+      const scale = this.config.compounding ? equity / initialCapital : 1;
+      const slippage = random
+        ? trade.notional * scale * random() * this.config.maxSlippagePercent / 100
+        : 0;
+      const pnl = this.config.compounding
+        ? returns[index] * equity - slippage
+        : trade.pnl - slippage;
+
+      equity += pnl;
+      losses = pnl < 0 ? losses + 1 : 0;
+      maxLosses = Math.max(maxLosses, losses);
+
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 1);
+
+      if (equity <= ruinEquity) {
+        ruined = true;
+      }
+      if (equity <= 0) {
+        equity = 0;
+        maxDrawdown = 1;
+        break;
+      }
+    }
+
+    return {
+      finalEquity: equity,
+      maxDrawdownPercent: maxDrawdown * 100,
+      maxConsecutiveLosses: maxLosses,
+      ruined
+    };
+  }
+
+  private bootstrap(length: number, random: () => number): number[] {
+    return Array.from({ length }, () => Math.floor(random() * length));
+  }
+
+  private shuffle(length: number, random: () => number): number[] {
+    const order = Array.from({ length }, (_, i) => i);
+    for (let i = length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  }
+
+  private summarize(values: number[]): DistributionSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length;
+
+    const percentiles: { [percentile: number]: number } = {};
+    this.config.percentiles.forEach(p => {
+      percentiles[p] = this.percentile(sorted, p);
+    });
+
+    return {
+      mean,
+      stdDev: Math.sqrt(variance),
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      percentiles
+    };
+  }
+
+  /**
+   * Перцентиль с линейной интерполяцией по отсортированному массиву
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+}
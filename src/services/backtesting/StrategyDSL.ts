@@ -0,0 +1,697 @@
+import { CandleData } from '@/types/session';
+import { indicatorFactory } from '@/services/indicators/indicator-factory';
+import { IndicatorType, MarketDataPoint } from '@/services/indicators/core/types';
+import { AdvancedSignal, AdvancedStrategy, Portfolio, Position } from './AdvancedBacktestingService';
+
+/**
+ * Декларативное описание стратегии. Правила — выражения вида
+ * "rsi(14) < 30 and close > ema(200)"
+ */
+export interface StrategyDefinition {
+  name: string;
+  description?: string;
+  entryLong?: string;
+  entryShort?: string;
+  exitLong?: string;
+  exitShort?: string;
+  stopLossPercent?: number; // % от цены входа
+  takeProfitPercent?: number;
+  positionSizePercent?: number; // % стоимости портфеля на сделку (по умолчанию 10)
+}
+
+export class StrategyDSLError extends Error {
+  constructor(message: string, public rule: string, public position: number) {
+    super(message);
+    this.name = 'StrategyDSLError';
+  }
+}
+
+type PriceField = 'open' | 'high' | 'low' | 'close' | 'volume';
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type NumericNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'price'; field: PriceField; offset: number }
+  | { kind: 'indicator'; key: string; offset: number }
+  | { kind: 'arithmetic'; op: '+' | '-' | '*' | '/'; left: NumericNode; right: NumericNode }
+  | { kind: 'negate'; operand: NumericNode };
+
+type BooleanNode =
+  | { kind: 'compare'; op: ComparisonOperator; left: NumericNode; right: NumericNode }
+  | { kind: 'cross'; direction: 'above' | 'below'; left: NumericNode; right: NumericNode }
+  | { kind: 'logical'; op: 'and' | 'or'; left: BooleanNode; right: BooleanNode }
+  | { kind: 'not'; operand: BooleanNode };
+
+type ExpressionNode = NumericNode | BooleanNode;
+
+interface IndicatorSpec {
+  type: IndicatorType;
+  params: string[]; // Поля конфигурации индикатора в порядке аргументов
+  defaults: number[];
+  fractionalParams?: string[]; // Параметры, которые могут быть дробными
+  outputs?: string[]; // Компоненты многозначных индикаторов, первый — по умолчанию
+}
+
+/**
+ * Индикатор, на который ссылается правило: тип, конфигурация и компонент
+ */
+export interface IndicatorReference {
+  key: string; // Нормализованная запись, например 'macd(12,26,9).signal'
+  type: IndicatorType;
+  config: { [param: string]: number };
+  output?: string;
+}
+
+const INDICATOR_SPECS: { [name: string]: IndicatorSpec } = {
+  rsi: { type: 'rsi', params: ['period'], defaults: [14] },
+  sma: { type: 'sma', params: ['period'], defaults: [20] },
+  ema: { type: 'ema', params: ['period'], defaults: [20] },
+  macd: {
+    type: 'macd',
+    params: ['fastPeriod', 'slowPeriod', 'signalPeriod'],
+    defaults: [12, 26, 9],
+    outputs: ['macd', 'signal', 'histogram']
+  },
+  bollinger: {
+    type: 'bollinger',
+    params: ['period', 'standardDeviations'],
+    defaults: [20, 2],
+    fractionalParams: ['standardDeviations'],
+    outputs: ['middle', 'upper', 'lower', 'bandwidth', 'percentB']
+  },
+  stochastic: {
+    type: 'stochastic',
+    params: ['period', 'kSmoothing', 'dSmoothing'],
+    defaults: [14, 3, 3],
+    outputs: ['k', 'd']
+  }
+};
+
+const PRICE_FIELDS: PriceField[] = ['open', 'high', 'low', 'close', 'volume'];
+const DEFAULT_POSITION_SIZE_PERCENT = 10;
+
+// === РАЗБОР ВЫРАЖЕНИЙ ===
+
+interface Token {
+  type: 'number' | 'ident' | 'op' | 'eof';
+  value: string;
+  position: number;
+}
+
+const tokenize = (rule: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(<=|>=|==|!=|[<>+\-*/(),.[\]]))/y;
+  let position = 0;
+
+  while (position < rule.length) {
+    if (/^\s*$/.test(rule.slice(position))) break;
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(rule);
+    if (!match) {
+      const offset = position + (rule.slice(position).length - rule.slice(position).trimStart().length);
+      throw new StrategyDSLError(`Unexpected character '${rule[offset]}'`, rule, offset);
+    }
+
+    const start = match.index + match[0].length - (match[1] ?? match[2] ?? match[3]).length;
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: match[1], position: start });
+    else if (match[2] !== undefined) tokens.push({ type: 'ident', value: match[2].toLowerCase(), position: start });
+    else tokens.push({ type: 'op', value: match[3], position: start });
+    position = pattern.lastIndex;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: rule.length });
+  return tokens;
+};
+
+const isBoolean = (node: ExpressionNode): node is BooleanNode =>
+  node.kind === 'compare' || node.kind === 'cross' || node.kind === 'logical' || node.kind === 'not';
+
+/**
+ * Рекурсивный спуск: or → and → not → сравнение → +,- → *,/ → унарный минус → операнд
+ */
+class RuleParser {
+  private tokens: Token[];
+  private index = 0;
+  readonly indicators = new Map<string, IndicatorReference>();
+
+  constructor(private rule: string) {
+    this.tokens = tokenize(rule);
+  }
+
+  parse(): BooleanNode {
+    if (this.peek().type === 'eof') {
+      throw this.error('Rule is empty', this.peek());
+    }
+
+    const node = this.parseOr();
+    if (this.peek().type !== 'eof') {
+      throw this.error(`Unexpected '${this.peek().value}'`, this.peek());
+    }
+    return this.expectBoolean(node, this.tokens[0]);
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or')) {
+      const token = this.previous();
+      const right = this.parseAnd();
+      left = { kind: 'logical', op: 'or', left: this.expectBoolean(left, token), right: this.expectBoolean(right, token) };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchKeyword('and')) {
+      const token = this.previous();
+      const right = this.parseNot();
+      left = { kind: 'logical', op: 'and', left: this.expectBoolean(left, token), right: this.expectBoolean(right, token) };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchKeyword('not')) {
+      const token = this.previous();
+      return { kind: 'not', operand: this.expectBoolean(this.parseNot(), token) };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (this.matchKeyword('crosses')) {
+      const direction = this.peek().value;
+      if (direction !== 'above' && direction !== 'below') {
+        throw this.error("Expected 'above' or 'below' after 'crosses'", this.peek());
+      }
+      this.advance();
+      const right = this.parseAdditive();
+      return { kind: 'cross', direction, left: this.expectNumeric(left, token), right: this.expectNumeric(right, token) };
+    }
+
+    if (token.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(token.value)) {
+      this.advance();
+      const right = this.parseAdditive();
+      return {
+        kind: 'compare',
+        op: token.value as ComparisonOperator,
+        left: this.expectNumeric(left, token),
+        right: this.expectNumeric(right, token)
+      };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.matchOp('+') || this.matchOp('-')) {
+      const token = this.previous();
+      const right = this.parseTerm();
+      left = {
+        kind: 'arithmetic',
+        op: token.value as '+' | '-',
+        left: this.expectNumeric(left, token),
+        right: this.expectNumeric(right, token)
+      };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.matchOp('*') || this.matchOp('/')) {
+      const token = this.previous();
+      const right = this.parseUnary();
+      left = {
+        kind: 'arithmetic',
+        op: token.value as '*' | '/',
+        left: this.expectNumeric(left, token),
+        right: this.expectNumeric(right, token)
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOp('-')) {
+      const token = this.previous();
+      return { kind: 'negate', operand: this.expectNumeric(this.parseUnary(), token) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.advance();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.value) };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const node = this.parseOr();
+      this.consumeOp(')');
+      return node;
+    }
+
+    if (token.type === 'ident') {
+      if (PRICE_FIELDS.includes(token.value as PriceField)) {
+        return { kind: 'price', field: token.value as PriceField, offset: this.parseOffset() };
+      }
+      if (INDICATOR_SPECS[token.value]) {
+        return this.parseIndicator(token);
+      }
+      throw this.error(
+        `Unknown identifier '${token.value}'. Available: ${[...PRICE_FIELDS, ...Object.keys(INDICATOR_SPECS)].join(', ')}`,
+        token
+      );
+    }
+
+    throw this.error(token.type === 'eof' ? 'Unexpected end of rule' : `Unexpected '${token.value}'`, token);
+  }
+
+  private parseIndicator(nameToken: Token): NumericNode {
+    const name = nameToken.value;
+    const spec = INDICATOR_SPECS[name];
+    if (!indicatorFactory.getAvailableIndicators().includes(spec.type)) {
+      throw this.error(`Indicator '${name}' is not available in IndicatorFactory`, nameToken);
+    }
+
+    const args: number[] = [];
+    if (this.matchOp('(')) {
+      if (!this.matchOp(')')) {
+        do {
+          const argToken = this.advance();
+          if (argToken.type !== 'number') {
+            throw this.error(`Indicator arguments must be numbers`, argToken);
+          }
+          args.push(Number(argToken.value));
+        } while (this.matchOp(','));
+        this.consumeOp(')');
+      }
+    }
+
+    if (args.length > spec.params.length) {
+      throw this.error(`'${name}' takes at most ${spec.params.length} argument(s): ${spec.params.join(', ')}`, nameToken);
+    }
+
+    const config: { [param: string]: number } = {};
+    spec.params.forEach((param, i) => {
+      const value = args[i] ?? spec.defaults[i];
+      const fractional = spec.fractionalParams?.includes(param);
+      if (!(value > 0) || (!fractional && !Number.isInteger(value))) {
+        throw this.error(`'${name}' ${param} must be a positive ${fractional ? 'number' : 'integer'}`, nameToken);
+      }
+      config[param] = value;
+    });
+
+    let output: string | undefined;
+    if (this.matchOp('.')) {
+      const outputToken = this.advance();
+      output = spec.outputs?.find(o => o.toLowerCase() === outputToken.value);
+      if (!output) {
+        throw this.error(
+          spec.outputs
+            ? `'${name}' has no output '${outputToken.value}'. Available: ${spec.outputs.join(', ')}`
+            : `'${name}' has a single output`,
+          outputToken
+        );
+      }
+    } else if (spec.outputs) {
+      output = spec.outputs[0];
+    }
+
+    const key = `${name}(${spec.params.map(p => config[p]).join(',')})${output ? `.${output}` : ''}`;
+    this.indicators.set(key, { key, type: spec.type, config, output });
+
+    return { kind: 'indicator', key, offset: this.parseOffset() };
+  }
+
+  // Сдвиг назад: close[1] — закрытие предыдущей свечи
+  private parseOffset(): number {
+    if (!this.matchOp('[')) return 0;
+
+    const token = this.advance();
+    if (token.type !== 'number' || !Number.isInteger(Number(token.value))) {
+      throw this.error('Offset must be a non-negative integer', token);
+    }
+    this.consumeOp(']');
+    return Number(token.value);
+  }
+
+  private expectBoolean(node: ExpressionNode, token: Token): BooleanNode {
+    if (!isBoolean(node)) {
+      throw this.error('Expected a condition (comparison), got a numeric value', token);
+    }
+    return node;
+  }
+
+  private expectNumeric(node: ExpressionNode, token: Token): NumericNode {
+    if (isBoolean(node)) {
+      throw this.error('Expected a numeric value, got a condition', token);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchKeyword(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'ident' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private consumeOp(value: string): void {
+    if (!this.matchOp(value)) {
+      throw this.error(`Expected '${value}'`, this.peek());
+    }
+  }
+
+  private error(message: string, token: Token): StrategyDSLError {
+    return new StrategyDSLError(`${message} at position ${token.position + 1}`, this.rule, token.position);
+  }
+}
+
+// === ТЕКСТОВЫЙ ФОРМАТ ===
+
+/**
+ * Разбор текстового описания, по одной директиве на строку (или через ';'):
+ *   name: RSI pullback
+ *   enter long when rsi(14) < 30 and close > ema(200)
+ *   exit when rsi(14) > 55
+ *   stop loss 2%
+ *   take profit 4%
+ *   size 10%
+ */
+export const parseStrategyText = (source: string): StrategyDefinition => {
+  const definition: StrategyDefinition = { name: 'DSL strategy' };
+
+  const setRule = (field: 'entryLong' | 'entryShort' | 'exitLong' | 'exitShort', rule: string, line: string) => {
+    if (definition[field] !== undefined) {
+      throw new StrategyDSLError(`Duplicate rule for ${field}`, line, 0);
+    }
+    definition[field] = rule.trim();
+  };
+
+  source.split(/[\n;]/).map(line => line.trim()).forEach(line => {
+    if (line === '' || line.startsWith('#')) return;
+
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(/^name\s*:\s*(.+)$/i))) {
+      definition.name = match[1].trim();
+    } else if ((match = line.match(/^description\s*:\s*(.+)$/i))) {
+      definition.description = match[1].trim();
+    } else if ((match = line.match(/^enter\s+(long|short)\s+when\s+(.+)$/i))) {
+      setRule(match[1].toLowerCase() === 'long' ? 'entryLong' : 'entryShort', match[2], line);
+    } else if ((match = line.match(/^exit(?:\s+(long|short))?\s+when\s+(.+)$/i))) {
+      const side = match[1]?.toLowerCase();
+      if (side !== 'short') setRule('exitLong', match[2], line);
+      if (side !== 'long') setRule('exitShort', match[2], line);
+    } else if ((match = line.match(/^stop[\s-]*loss\s+(\d+(?:\.\d+)?)\s*%$/i))) {
+      definition.stopLossPercent = Number(match[1]);
+    } else if ((match = line.match(/^take[\s-]*profit\s+(\d+(?:\.\d+)?)\s*%$/i))) {
+      definition.takeProfitPercent = Number(match[1]);
+    } else if ((match = line.match(/^(?:position\s+)?size\s+(\d+(?:\.\d+)?)\s*%$/i))) {
+      definition.positionSizePercent = Number(match[1]);
+    } else {
+      throw new StrategyDSLError(`Unrecognized directive: '${line}'`, line, 0);
+    }
+  });
+
+  return definition;
+};
+
+// === ВАЛИДАЦИЯ И КОМПИЛЯЦИЯ ===
+
+interface ParsedRules {
+  entryLong?: BooleanNode;
+  entryShort?: BooleanNode;
+  exitLong?: BooleanNode;
+  exitShort?: BooleanNode;
+  indicators: IndicatorReference[];
+}
+
+const RULE_FIELDS = ['entryLong', 'entryShort', 'exitLong', 'exitShort'] as const;
+
+const parseRules = (definition: StrategyDefinition): ParsedRules => {
+  if (!definition.entryLong && !definition.entryShort) {
+    throw new StrategyDSLError('Strategy needs at least one entry rule', '', 0);
+  }
+  (['stopLossPercent', 'takeProfitPercent', 'positionSizePercent'] as const).forEach(field => {
+    const value = definition[field];
+    if (value !== undefined && !(value > 0 && value <= 100)) {
+      throw new StrategyDSLError(`${field} must be in (0, 100]`, String(value), 0);
+    }
+  });
+
+  const indicators = new Map<string, IndicatorReference>();
+  const rules: ParsedRules = { indicators: [] };
+
+  RULE_FIELDS.forEach(field => {
+    const rule = definition[field];
+    if (!rule) return;
+
+    const parser = new RuleParser(rule);
+    rules[field] = parser.parse();
+    parser.indicators.forEach((ref, key) => indicators.set(key, ref));
+  });
+
+  rules.indicators = Array.from(indicators.values());
+  return rules;
+};
+
+/**
+ * Проверка описания без компиляции: все ошибки разбора по правилам
+ */
+export const validateStrategyDefinition = (
+  definition: StrategyDefinition | string
+): { valid: boolean; errors: StrategyDSLError[]; indicators: IndicatorReference[] } => {
+  try {
+    const parsed = typeof definition === 'string' ? parseStrategyText(definition) : definition;
+    const errors: StrategyDSLError[] = [];
+
+    RULE_FIELDS.forEach(field => {
+      const rule = parsed[field];
+      if (!rule) return;
+      try {
+        new RuleParser(rule).parse();
+      } catch (error) {
+        if (error instanceof StrategyDSLError) errors.push(error);
+        else throw error;
+      }
+    });
+
+    if (errors.length > 0) {
+      return { valid: false, errors, indicators: [] };
+    }
+    return { valid: true, errors: [], indicators: parseRules(parsed).indicators };
+  } catch (error) {
+    if (error instanceof StrategyDSLError) {
+      return { valid: false, errors: [error], indicators: [] };
+    }
+    throw error;
+  }
+};
+
+interface PreparedData {
+  candles: CandleData[];
+  series: Map<string, number[]>;
+}
+
+const toMarketData = (candles: CandleData[]): MarketDataPoint[] =>
+  candles.map(candle => ({
+    timestamp: new Date(candle.candle_datetime).getTime(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume
+  }));
+
+/**
+ * Компилирует описание (объект или текст) в AdvancedStrategy.
+ * Индикаторы считаются через IndicatorFactory в prepare(), до основного цикла бэктеста
+ */
+export const compileStrategy = (source: StrategyDefinition | string): AdvancedStrategy => {
+  const definition = typeof source === 'string' ? parseStrategyText(source) : source;
+  const rules = parseRules(definition);
+  const sizePercent = definition.positionSizePercent ?? DEFAULT_POSITION_SIZE_PERCENT;
+
+  // Бэктестер передает срезы истории; ключ — первая свеча исходного массива
+  const prepared = new WeakMap<CandleData, PreparedData>();
+
+  const getPrepared = (candles: CandleData[]): PreparedData => {
+    const data = candles.length > 0 ? prepared.get(candles[0]) : undefined;
+    if (!data) {
+      throw new Error(`Strategy '${definition.name}' is not prepared for these candles; call prepare() first`);
+    }
+    return data;
+  };
+
+  const evaluateNumeric = (node: NumericNode, data: PreparedData, index: number): number => {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'price': {
+        const candle = data.candles[index - node.offset];
+        return candle ? candle[node.field] : NaN;
+      }
+      case 'indicator':
+        return data.series.get(node.key)?.[index - node.offset] ?? NaN;
+      case 'negate':
+        return -evaluateNumeric(node.operand, data, index);
+      case 'arithmetic': {
+        const left = evaluateNumeric(node.left, data, index);
+        const right = evaluateNumeric(node.right, data, index);
+        if (node.op === '+') return left + right;
+        if (node.op === '-') return left - right;
+        if (node.op === '*') return left * right;
+        return left / right;
+      }
+    }
+  };
+
+  // Сравнения с NaN (недостаточно истории) всегда ложны
+  const evaluate = (node: BooleanNode, data: PreparedData, index: number): boolean => {
+    switch (node.kind) {
+      case 'logical':
+        return node.op === 'and'
+          ? evaluate(node.left, data, index) && evaluate(node.right, data, index)
+          : evaluate(node.left, data, index) || evaluate(node.right, data, index);
+      case 'not':
+        return !evaluate(node.operand, data, index);
+      case 'cross': {
+        if (index < 1) return false;
+        const diff = evaluateNumeric(node.left, data, index) - evaluateNumeric(node.right, data, index);
+        const prevDiff = evaluateNumeric(node.left, data, index - 1) - evaluateNumeric(node.right, data, index - 1);
+        return node.direction === 'above' ? prevDiff <= 0 && diff > 0 : prevDiff >= 0 && diff < 0;
+      }
+      case 'compare': {
+        const left = evaluateNumeric(node.left, data, index);
+        const right = evaluateNumeric(node.right, data, index);
+        switch (node.op) {
+          case '<': return left < right;
+          case '<=': return left <= right;
+          case '>': return left > right;
+          case '>=': return left >= right;
+          case '==': return left === right;
+          case '!=': return !Number.isNaN(left) && !Number.isNaN(right) && left !== right;
+        }
+      }
+    }
+  };
+
+  const snapshot = (data: PreparedData, index: number): { [key: string]: number } => {
+    const values: { [key: string]: number } = {};
+    rules.indicators.forEach(ref => {
+      values[ref.key] = data.series.get(ref.key)?.[index] ?? NaN;
+    });
+    return values;
+  };
+
+  return {
+    name: definition.name,
+    description: definition.description ?? 'Compiled from strategy DSL',
+    parameters: { ...definition },
+
+    initialize: () => {},
+
+    prepare: async (candles: CandleData[]) => {
+      if (candles.length === 0) return;
+
+      const points = toMarketData(candles);
+      const series = new Map<string, number[]>();
+
+      for (const ref of rules.indicators) {
+        const indicator = indicatorFactory.create(ref.type, {
+          ...ref.config,
+          validationLevel: 'relaxed',
+          enableCaching: false
+        });
+        const result = await indicator.calculate(points);
+
+        if (result.error || result.values.length !== candles.length) {
+          console.warn(`⚠️ ${ref.key}: ${result.error?.message ?? 'unexpected series length'}`);
+          series.set(ref.key, new Array(candles.length).fill(NaN));
+          continue;
+        }
+
+        series.set(ref.key, result.values.map((value: unknown) =>
+          typeof value === 'number'
+            ? value
+            : (value as { [output: string]: number })[ref.output!] ?? NaN
+        ));
+      }
+
+      prepared.set(candles[0], { candles, series });
+    },
+
+    generateSignal: (candles: CandleData[], index: number, portfolio: Portfolio, symbol?: string): AdvancedSignal | null => {
+      const data = getPrepared(candles);
+      // Одна позиция на инструмент, без пирамидинга; другие символы портфеля не мешают
+      if (portfolio.positions.some(p => symbol === undefined || p.symbol === symbol)) return null;
+
+      const long = rules.entryLong ? evaluate(rules.entryLong, data, index) : false;
+      const short = rules.entryShort ? evaluate(rules.entryShort, data, index) : false;
+      if (long === short) return null; // Нет сигнала или противоречивые условия
+
+      const price = data.candles[index].close;
+      const direction = long ? 1 : -1;
+
+      return {
+        type: long ? 'buy' : 'sell',
+        strength: 1,
+        confidence: 1,
+        stopLoss: definition.stopLossPercent !== undefined
+          ? price * (1 - direction * definition.stopLossPercent / 100)
+          : undefined,
+        takeProfit: definition.takeProfitPercent !== undefined
+          ? price * (1 + direction * definition.takeProfitPercent / 100)
+          : undefined,
+        reason: long ? `enter long when ${definition.entryLong}` : `enter short when ${definition.entryShort}`,
+        indicators: snapshot(data, index),
+        riskLevel: 'medium'
+      };
+    },
+
+    calculatePositionSize: (signal: AdvancedSignal, portfolio: Portfolio): number =>
+      portfolio.totalValue * sizePercent / 100,
+
+    shouldExit: (position: Position, currentPrice: number, portfolio: Portfolio, candles?: CandleData[], index?: number) => {
+      const rule = position.side === 'long' ? rules.exitLong : rules.exitShort;
+      if (!rule || !candles || index === undefined) return false;
+      return evaluate(rule, getPrepared(candles), index);
+    },
+
+    onTrade: () => {},
+    onMarketClose: () => {}
+  };
+};
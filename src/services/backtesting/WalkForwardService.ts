@@ -0,0 +1,380 @@
+import { CandleData } from '@/types/session';
+import { createSeededRandom } from '@/lib/utils';
+import {
+  AdvancedBacktestConfig,
+  AdvancedBacktestResult,
+  AdvancedBacktestingService,
+  AdvancedEquityPoint,
+  AdvancedStrategy,
+  AdvancedTrade
+} from './AdvancedBacktestingService';
+
+export type ParameterValue = number | boolean | string;
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step?: number;
+  integer?: boolean;
+}
+
+/**
+ * Пространство поиска: либо явный список значений, либо числовой диапазон
+ */
+export type ParameterSpace = { [key: string]: ParameterValue[] | ParameterRange };
+
+export type StrategyParameters = { [key: string]: ParameterValue };
+
+export type StrategyFactory = (parameters: StrategyParameters) => AdvancedStrategy;
+
+export type OptimizationObjective =
+  | 'sharpeRatio'
+  | 'sortinoRatio'
+  | 'calmarRatio'
+  | 'totalReturn'
+  | 'profitFactor'
+  | ((result: AdvancedBacktestResult) => number);
+
+export interface WalkForwardConfig {
+  inSampleSize: number; // Свечей в in-sample окне
+  outOfSampleSize: number; // Свечей в out-of-sample окне
+  stepSize?: number; // Сдвиг окна, по умолчанию = outOfSampleSize
+  anchored?: boolean; // Расширяющееся in-sample окно от начала истории
+  warmupCandles?: number; // Свечи из in-sample для разогрева индикаторов перед OOS
+
+  // Поиск параметров
+  searchMethod: 'grid' | 'random';
+  randomSamples?: number;
+  seed?: number;
+  objective: OptimizationObjective;
+  minTrades?: number; // Минимум сделок, чтобы in-sample результат учитывался
+  baseParameters?: StrategyParameters; // Фиксированные параметры, не участвующие в поиске
+}
+
+export interface ParameterTrial {
+  parameters: StrategyParameters;
+  score: number;
+  totalTrades: number;
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+
+  bestParameters: StrategyParameters;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  inSampleResult: AdvancedBacktestResult;
+  outOfSampleResult: AdvancedBacktestResult;
+  trials: ParameterTrial[];
+}
+
+export interface WalkForwardResult {
+  result: AdvancedBacktestResult; // Склеенный out-of-sample результат
+  windows: WalkForwardWindow[];
+  walkForwardEfficiency: number; // Годовая OOS доходность / годовая IS доходность
+}
+
+interface WindowBounds {
+  inSampleStart: number;
+  inSampleEnd: number; // exclusive
+  outOfSampleEnd: number; // exclusive
+}
+
+const DEFAULT_RANGE_POINTS = 5;
+
+export class WalkForwardService {
+  private static instance: WalkForwardService;
+
+  private constructor(private backtester: AdvancedBacktestingService) {}
+
+  static getInstance(): WalkForwardService {
+    if (!WalkForwardService.instance) {
+      WalkForwardService.instance = new WalkForwardService(AdvancedBacktestingService.getInstance());
+    }
+    return WalkForwardService.instance;
+  }
+
+  /**
+   * Walk-forward оптимизация: подбор параметров на in-sample окнах
+   * и склейка out-of-sample прогонов в один результат
+   */
+  async runWalkForward(
+    strategyFactory: StrategyFactory,
+    parameterSpace: ParameterSpace,
+    historicalData: CandleData[],
+    config: AdvancedBacktestConfig,
+    walkForwardConfig: WalkForwardConfig,
+    benchmarkData?: CandleData[]
+  ): Promise<WalkForwardResult> {
+    this.validateConfig(walkForwardConfig);
+
+    const candles = historicalData
+      .filter(candle => {
+        const date = new Date(candle.candle_datetime);
+        return date >= config.startDate && date <= config.endDate;
+      })
+      .sort((a, b) => new Date(a.candle_datetime).getTime() - new Date(b.candle_datetime).getTime());
+
+    const bounds = this.buildWindows(candles.length, walkForwardConfig);
+    if (bounds.length === 0) {
+      throw new Error(
+        `Not enough data for walk-forward: ${candles.length} candles, ` +
+        `need at least ${walkForwardConfig.inSampleSize + walkForwardConfig.outOfSampleSize}`
+      );
+    }
+
+    const candidates = this.generateCandidates(parameterSpace, walkForwardConfig);
+    console.log(`🔁 Walk-forward: ${bounds.length} windows × ${candidates.length} parameter sets`);
+
+    const windows: WalkForwardWindow[] = [];
+    const oosTrades: AdvancedTrade[] = [];
+    const oosEquity: AdvancedEquityPoint[] = [];
+    let runningCapital = config.initialCapital;
+
+    for (let w = 0; w < bounds.length; w++) {
+      const window = bounds[w];
+      const inSampleData = candles.slice(window.inSampleStart, window.inSampleEnd);
+      const inSampleConfig = this.configForRange(config, inSampleData, config.initialCapital);
+
+      // Оптимизация на in-sample
+      const trials: ParameterTrial[] = [];
+      let bestTrial: ParameterTrial | null = null;
+      let bestInSampleResult: AdvancedBacktestResult | null = null;
+
+      for (const candidate of candidates) {
+        const parameters = { ...walkForwardConfig.baseParameters, ...candidate };
+        const result = await this.backtester.runAdvancedBacktest(
+          strategyFactory(parameters),
+          inSampleData,
+          inSampleConfig
+        );
+        const trial: ParameterTrial = {
+          parameters,
+          score: this.scoreResult(result, walkForwardConfig),
+          totalTrades: result.totalTrades
+        };
+        trials.push(trial);
+
+        if (!bestTrial || trial.score > bestTrial.score) {
+          bestTrial = trial;
+          bestInSampleResult = result;
+        }
+      }
+
+      // Прогон победителя на out-of-sample с разогревом на хвосте in-sample
+      const warmup = Math.min(walkForwardConfig.warmupCandles ?? 0, window.inSampleEnd);
+      const oosData = candles.slice(window.inSampleEnd - warmup, window.outOfSampleEnd);
+      const oosCandles = candles.slice(window.inSampleEnd, window.outOfSampleEnd);
+      const oosStart = new Date(oosCandles[0].candle_datetime);
+      const oosConfig = this.configForRange(config, oosData, runningCapital);
+
+      const outOfSampleResult = await this.backtester.runAdvancedBacktest(
+        this.withTradingStart(strategyFactory(bestTrial!.parameters), warmup),
+        oosData,
+        oosConfig
+      );
+
+      const windowEquity = outOfSampleResult.equityCurve.filter(point => point.date >= oosStart);
+      oosTrades.push(...outOfSampleResult.trades);
+      oosEquity.push(...windowEquity);
+      if (windowEquity.length > 0) {
+        runningCapital = windowEquity[windowEquity.length - 1].equity;
+      }
+
+      windows.push({
+        index: w,
+        inSampleStart: new Date(inSampleData[0].candle_datetime),
+        inSampleEnd: new Date(inSampleData[inSampleData.length - 1].candle_datetime),
+        outOfSampleStart: oosStart,
+        outOfSampleEnd: new Date(oosCandles[oosCandles.length - 1].candle_datetime),
+        bestParameters: bestTrial!.parameters,
+        inSampleScore: bestTrial!.score,
+        outOfSampleScore: this.scoreResult(outOfSampleResult, walkForwardConfig),
+        inSampleResult: bestInSampleResult!,
+        outOfSampleResult,
+        trials
+      });
+    }
+
+    const stitchedEquity = this.stitchEquityCurve(oosEquity, config.initialCapital);
+    const oosRange = stitchedEquity.length > 0
+      ? { start: stitchedEquity[0].date, end: stitchedEquity[stitchedEquity.length - 1].date }
+      : null;
+
+    const result = this.backtester.calculateAdvancedResults(
+      oosTrades,
+      stitchedEquity,
+      config,
+      benchmarkData && oosRange
+        ? benchmarkData.filter(candle => {
+            const date = new Date(candle.candle_datetime);
+            return date >= oosRange.start && date <= oosRange.end;
+          })
+        : undefined
+    );
+
+    return {
+      result,
+      windows,
+      walkForwardEfficiency: this.calculateWalkForwardEfficiency(windows)
+    };
+  }
+
+  /**
+   * Разбиение истории на окна (rolling или anchored)
+   */
+  buildWindows(totalCandles: number, config: WalkForwardConfig): WindowBounds[] {
+    const step = config.stepSize ?? config.outOfSampleSize;
+    const windows: WindowBounds[] = [];
+
+    for (let offset = 0; ; offset += step) {
+      const inSampleEnd = offset + config.inSampleSize;
+      const outOfSampleEnd = inSampleEnd + config.outOfSampleSize;
+      if (outOfSampleEnd > totalCandles) break;
+
+      windows.push({
+        inSampleStart: config.anchored ? 0 : offset,
+        inSampleEnd,
+        outOfSampleEnd
+      });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Генерация наборов параметров для grid или random search
+   */
+  generateCandidates(space: ParameterSpace, config: WalkForwardConfig): StrategyParameters[] {
+    const keys = Object.keys(space);
+    if (keys.length === 0) return [{}];
+
+    if (config.searchMethod === 'random') {
+      const random = createSeededRandom(config.seed ?? 42);
+      const samples = config.randomSamples ?? 20;
+
+      return Array.from({ length: samples }, () => {
+        const parameters: StrategyParameters = {};
+        keys.forEach(key => {
+          parameters[key] = this.sampleValue(space[key], random);
+        });
+        return parameters;
+      });
+    }
+
+    return keys.reduce<StrategyParameters[]>((combinations, key) => {
+      const values = this.expandValues(space[key]);
+      const expanded: StrategyParameters[] = [];
+      combinations.forEach(combination => {
+        values.forEach(value => expanded.push({ ...combination, [key]: value }));
+      });
+      return expanded;
+    }, [{}]);
+  }
+
+  // === ВСПОМОГАТЕЛЬНЫЕ МЕТОДЫ ===
+
+  private validateConfig(config: WalkForwardConfig): void {
+    if (!Number.isInteger(config.inSampleSize) || config.inSampleSize < 2) {
+      throw new Error('inSampleSize must be an integer >= 2');
+    }
+    if (!Number.isInteger(config.outOfSampleSize) || config.outOfSampleSize < 2) {
+      throw new Error('outOfSampleSize must be an integer >= 2');
+    }
+    if (config.stepSize !== undefined && (!Number.isInteger(config.stepSize) || config.stepSize < 1)) {
+      throw new Error('stepSize must be a positive integer');
+    }
+  }
+
+  private expandValues(definition: ParameterValue[] | ParameterRange): ParameterValue[] {
+    if (Array.isArray(definition)) return definition;
+
+    const { min, max, integer } = definition;
+    const step = definition.step ?? (max - min) / (DEFAULT_RANGE_POINTS - 1);
+    if (step <= 0) return [min];
+
+    const values: number[] = [];
+    for (let value = min; value <= max + step * 1e-9; value += step) {
+      values.push(integer ? Math.round(value) : Number(value.toFixed(10)));
+    }
+    return Array.from(new Set(values));
+  }
+
+  private sampleValue(definition: ParameterValue[] | ParameterRange, random: () => number): ParameterValue {
+    if (Array.isArray(definition)) {
+      return definition[Math.floor(random() * definition.length)];
+    }
+
+    const { min, max, step, integer } = definition;
+    let value = min + random() * (max - min);
+    if (step) value = min + Math.round((value - min) / step) * step;
+    return integer ? Math.round(value) : value;
+  }
+
+  private scoreResult(result: AdvancedBacktestResult, config: WalkForwardConfig): number {
+    if (result.totalTrades < (config.minTrades ?? 1)) return -Infinity;
+
+    const score = typeof config.objective === 'function'
+      ? config.objective(result)
+      : result[config.objective];
+
+    return Number.isNaN(score) ? -Infinity : score;
+  }
+
+  private configForRange(
+    config: AdvancedBacktestConfig,
+    candles: CandleData[],
+    initialCapital: number
+  ): AdvancedBacktestConfig {
+    return {
+      ...config,
+      initialCapital,
+      startDate: new Date(candles[0].candle_datetime),
+      endDate: new Date(candles[candles.length - 1].candle_datetime)
+    };
+  }
+
+  /**
+   * Подавляет сигналы на свечах разогрева, чтобы сделки открывались только в OOS
+   */
+  private withTradingStart(strategy: AdvancedStrategy, warmup: number): AdvancedStrategy {
+    if (warmup === 0) return strategy;
+
+    return {
+      ...strategy,
+      generateSignal: (candles, index, portfolio, symbol) =>
+        index < warmup ? null : strategy.generateSignal(candles, index, portfolio, symbol)
+    };
+  }
+
+  /**
+   * Пересчет просадок по склеенной кривой с переносом пика между окнами
+   */
+  private stitchEquityCurve(points: AdvancedEquityPoint[], initialCapital: number): AdvancedEquityPoint[] {
+    let peak = initialCapital;
+
+    return points.map(point => {
+      peak = Math.max(peak, point.equity);
+      return {
+        ...point,
+        drawdown: peak - point.equity,
+        drawdownPercent: peak > 0 ? (peak - point.equity) / peak : 0
+      };
+    });
+  }
+
+  private calculateWalkForwardEfficiency(windows: WalkForwardWindow[]): number {
+    if (windows.length === 0) return 0;
+
+    const avgInSample = windows.reduce((sum, w) => sum + w.inSampleResult.annualizedReturn, 0) / windows.length;
+    const avgOutOfSample = windows.reduce((sum, w) => sum + w.outOfSampleResult.annualizedReturn, 0) / windows.length;
+
+    return avgInSample > 0 ? avgOutOfSample / avgInSample : 0;
+  }
+}
+
+export const walkForwardService = WalkForwardService.getInstance();
@@ -0,0 +1,277 @@
+import { CandleData } from '@/types/session';
+import { getNewYorkUtcOffset, parseTimeframe } from '@/utils/dateTimeUtils';
+import type { MarketTick } from './RealTimeMarketService';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const DAY_MINUTES = 1440;
+
+/**
+ * utc — границы от полуночи UTC; broker — торговый день FX начинается в 17:00 по Нью-Йорку,
+ * поэтому дневная свеча совпадает с тем, что показывают брокеры, а 4h-свечи начинаются в 17:00, 21:00, ...
+ */
+export type CandleAlignment = 'utc' | 'broker';
+
+export interface ResampleOptions {
+  alignment?: CandleAlignment;
+  /** Таймфрейм исходных свечей; нужен для проверки кратности и отбрасывания неполных свечей */
+  sourceTimeframe?: string;
+  /** Оставлять ли неполные корзины (например, текущую незакрытую свечу). По умолчанию да */
+  includePartial?: boolean;
+  sessionId?: string;
+}
+
+export type TickPriceSide = 'bid' | 'ask' | 'mid';
+
+export interface TickAggregationOptions {
+  alignment?: CandleAlignment;
+  /** Какую цену тика брать для OHLC; FX-графики обычно строятся по bid */
+  priceSide?: TickPriceSide;
+  sessionId?: string;
+}
+
+/**
+ * Начало торгового дня (17:00 Нью-Йорк), в который попадает момент time
+ */
+export const getBrokerDayStart = (time: number): number => {
+  const offset = getNewYorkUtcOffset(new Date(time));
+  // Сдвигаем так, чтобы 17:00 по Нью-Йорку стало полуночью
+  const shifted = time + (offset + 7) * HOUR_MS;
+  const shiftedDay = Math.floor(shifted / DAY_MS) * DAY_MS;
+  return shiftedDay - (offset + 7) * HOUR_MS;
+};
+
+/**
+ * Начало свечи таймфрейма timeframeMinutes, содержащей момент time (начало включительно)
+ */
+export const getCandleStart = (
+  time: number,
+  timeframeMinutes: number,
+  alignment: CandleAlignment = 'broker'
+): number => {
+  const timeframeMs = timeframeMinutes * MINUTE_MS;
+
+  if (alignment === 'utc') {
+    return Math.floor(time / timeframeMs) * timeframeMs;
+  }
+
+  if (timeframeMinutes > DAY_MINUTES || DAY_MINUTES % timeframeMinutes !== 0) {
+    throw new Error(`Таймфрейм ${timeframeMinutes}m нельзя выровнять по торговому дню`);
+  }
+
+  const dayStart = getBrokerDayStart(time);
+  return dayStart + Math.floor((time - dayStart) / timeframeMs) * timeframeMs;
+};
+
+const toTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
+
+interface CandleBucket {
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  spreadSum: number;
+  spreadCount: number;
+  count: number;
+  sessionId: string;
+}
+
+const bucketToCandle = (bucket: CandleBucket, index: number): CandleData => {
+  const candle: CandleData = {
+    session_id: bucket.sessionId,
+    candle_index: index,
+    open: bucket.open,
+    high: bucket.high,
+    low: bucket.low,
+    close: bucket.close,
+    volume: bucket.volume,
+    candle_datetime: new Date(bucket.start).toISOString()
+  };
+  if (bucket.spreadCount > 0) {
+    candle.spread = bucket.spreadSum / bucket.spreadCount;
+  }
+  return candle;
+};
+
+/**
+ * Сборка свечей старшего таймфрейма из свечей сессии (например, 1m → 5m/15m/1h/4h/1d, 3m, 2h)
+ */
+export function resampleCandles(
+  candles: CandleData[],
+  targetTimeframe: string,
+  options: ResampleOptions = {}
+): CandleData[] {
+  const alignment = options.alignment ?? 'broker';
+  const targetMinutes = parseTimeframe(targetTimeframe);
+  const sourceMinutes = options.sourceTimeframe ? parseTimeframe(options.sourceTimeframe) : null;
+
+  if (sourceMinutes !== null && (targetMinutes < sourceMinutes || targetMinutes % sourceMinutes !== 0)) {
+    throw new Error(`Таймфрейм ${targetTimeframe} не кратен исходному ${options.sourceTimeframe}`);
+  }
+
+  const sorted = [...candles].sort((a, b) => toTime(a) - toTime(b));
+  const buckets: CandleBucket[] = [];
+
+  for (const candle of sorted) {
+    const start = getCandleStart(toTime(candle), targetMinutes, alignment);
+    let bucket = buckets[buckets.length - 1];
+
+    if (!bucket || bucket.start !== start) {
+      bucket = {
+        start,
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: 0,
+        spreadSum: 0,
+        spreadCount: 0,
+        count: 0,
+        sessionId: options.sessionId ?? candle.session_id
+      };
+      buckets.push(bucket);
+    }
+
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+    bucket.volume += candle.volume;
+    bucket.count++;
+    if (candle.spread !== undefined) {
+      bucket.spreadSum += candle.spread;
+      bucket.spreadCount++;
+    }
+  }
+
+  const expectedCount = sourceMinutes !== null ? targetMinutes / sourceMinutes : null;
+  const complete = options.includePartial === false && expectedCount !== null
+    ? buckets.filter(bucket => bucket.count >= expectedCount)
+    : buckets;
+
+  return complete.map(bucketToCandle);
+}
+
+/**
+ * Потоковая сборка свечей из тиков одного инструмента.
+ * Тик на границе открывает новую свечу; тики старше текущей свечи отбрасываются
+ */
+export class TickCandleAggregator {
+  private current: CandleBucket | null = null;
+  private nextIndex = 0;
+  private symbol: string | null = null;
+  private timeframeMinutes: number;
+  private alignment: CandleAlignment;
+  private priceSide: TickPriceSide;
+  private sessionId: string;
+  lateTicks = 0;
+
+  constructor(timeframe: string, options: TickAggregationOptions = {}) {
+    this.timeframeMinutes = parseTimeframe(timeframe);
+    this.alignment = options.alignment ?? 'broker';
+    this.priceSide = options.priceSide ?? 'bid';
+    this.sessionId = options.sessionId ?? '';
+  }
+
+  /**
+   * Добавляет тик; возвращает свечи, закрытые его приходом
+   */
+  push(tick: MarketTick): CandleData[] {
+    if (this.symbol === null) {
+      this.symbol = tick.symbol;
+    } else if (tick.symbol !== this.symbol) {
+      throw new Error(`Тик ${tick.symbol} не относится к инструменту ${this.symbol}`);
+    }
+
+    const start = getCandleStart(tick.timestamp, this.timeframeMinutes, this.alignment);
+    if (this.current && start < this.current.start) {
+      this.lateTicks++;
+      return [];
+    }
+
+    const closed: CandleData[] = [];
+    if (this.current && start > this.current.start) {
+      closed.push(bucketToCandle(this.current, this.nextIndex++));
+      this.current = null;
+    }
+
+    const price = this.getPrice(tick);
+    if (!this.current) {
+      this.current = {
+        start,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0,
+        spreadSum: 0,
+        spreadCount: 0,
+        count: 0,
+        sessionId: this.sessionId
+      };
+    }
+
+    const bucket = this.current;
+    bucket.high = Math.max(bucket.high, price);
+    bucket.low = Math.min(bucket.low, price);
+    bucket.close = price;
+    // Без объёма у источника считаем тиковый объём
+    bucket.volume += tick.volume > 0 ? tick.volume : 1;
+    bucket.count++;
+    if (tick.bid !== undefined && tick.ask !== undefined) {
+      bucket.spreadSum += tick.ask - tick.bid;
+      bucket.spreadCount++;
+    }
+
+    return closed;
+  }
+
+  /**
+   * Текущая незакрытая свеча
+   */
+  peek(): CandleData | null {
+    return this.current ? bucketToCandle(this.current, this.nextIndex) : null;
+  }
+
+  /**
+   * Закрывает текущую свечу (конец потока)
+   */
+  flush(): CandleData | null {
+    const candle = this.peek();
+    if (candle) {
+      this.nextIndex++;
+      this.current = null;
+    }
+    return candle;
+  }
+
+  private getPrice(tick: MarketTick): number {
+    const { bid, ask } = tick;
+    if (this.priceSide === 'bid' && bid !== undefined) return bid;
+    if (this.priceSide === 'ask' && ask !== undefined) return ask;
+    if (this.priceSide === 'mid' && bid !== undefined && ask !== undefined) return (bid + ask) / 2;
+    return tick.price;
+  }
+}
+
+/**
+ * Свечи из набора тиков (порядок во входе не важен: open/close определяются по времени)
+ */
+export function aggregateTicks(
+  ticks: MarketTick[],
+  timeframe: string,
+  options: TickAggregationOptions = {}
+): CandleData[] {
+  const aggregator = new TickCandleAggregator(timeframe, options);
+  const candles: CandleData[] = [];
+
+  [...ticks]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(tick => candles.push(...aggregator.push(tick)));
+
+  const last = aggregator.flush();
+  if (last) candles.push(last);
+  return candles;
+}
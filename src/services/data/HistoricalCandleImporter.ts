@@ -0,0 +1,484 @@
+import { CandleData } from '@/types/session';
+import { validateNumericValues, validatePriceLogic } from '@/utils/validation/candleValidationRules';
+
+/**
+ * Массовый импорт истории: экспорт MetaTrader (CSV и бинарный HST), CSV Dukascopy
+ * и произвольный OHLCV CSV с сопоставлением колонок
+ */
+
+export type ImportFormat = 'metatrader' | 'dukascopy' | 'generic';
+
+export type ImportDateFormat =
+  | 'YYYY.MM.DD'
+  | 'YYYY-MM-DD'
+  | 'YYYYMMDD'
+  | 'DD.MM.YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'unix'
+  | 'unix_ms';
+
+/** Номера колонок (с нуля); time — если время лежит отдельно от даты */
+export interface ColumnMapping {
+  date: number;
+  time?: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface CsvImportOptions {
+  /** По умолчанию определяется по первой строке: табуляция, ';' или ',' */
+  delimiter?: string;
+  /** По умолчанию заголовок есть, если в первой строке нет ни одного числа */
+  hasHeader?: boolean;
+  /** По умолчанию берётся по названиям колонок заголовка */
+  columns?: ColumnMapping;
+  /** По умолчанию подбирается по первым строкам */
+  dateFormat?: ImportDateFormat;
+  /**
+   * Смещение времени файла от UTC в минутах (время брокера MT обычно GMT+2/+3).
+   * Суффикс зоны в самой дате ('GMT+0200', '+02:00', 'Z') важнее этой настройки
+   */
+  timezoneOffsetMinutes?: number;
+}
+
+export interface ImportPreset {
+  format: ImportFormat;
+  label: string;
+  options: CsvImportOptions;
+}
+
+export const IMPORT_PRESETS: Record<ImportFormat, ImportPreset> = {
+  // MT4 History Center: 2024.01.02,00:00,1.1,... без заголовка; MT5: <DATE>\t<TIME>\t... с заголовком
+  metatrader: {
+    format: 'metatrader',
+    label: 'MetaTrader 4/5 (CSV, HST)',
+    options: {
+      dateFormat: 'YYYY.MM.DD',
+      columns: { date: 0, time: 1, open: 2, high: 3, low: 4, close: 5, volume: 6 }
+    }
+  },
+  // Gmt time,Open,High,Low,Close,Volume / 02.01.2024 00:00:00.000
+  dukascopy: {
+    format: 'dukascopy',
+    label: 'Dukascopy CSV',
+    options: {
+      delimiter: ',',
+      hasHeader: true,
+      dateFormat: 'DD.MM.YYYY',
+      columns: { date: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 }
+    }
+  },
+  generic: {
+    format: 'generic',
+    label: 'OHLCV CSV',
+    options: {}
+  }
+};
+
+export interface ImportedCandle {
+  /** UTC, мс */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface InvalidRow {
+  /** Номер строки в файле (с единицы); для HST — номер записи */
+  line: number;
+  errors: string[];
+}
+
+export interface ParseResult {
+  /** Отсортированы по времени; при повторе времени остаётся последняя строка */
+  candles: ImportedCandle[];
+  invalid: InvalidRow[];
+  duplicates: number;
+  detected: Required<Omit<CsvImportOptions, 'columns'>> & { columns: ColumnMapping };
+  /** Символ и период из заголовка HST */
+  symbol?: string;
+  periodMinutes?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const DATE_FORMAT_PATTERNS: [ImportDateFormat, RegExp][] = [
+  ['YYYY.MM.DD', /^\d{4}\.\d{1,2}\.\d{1,2}/],
+  ['YYYY-MM-DD', /^\d{4}-\d{1,2}-\d{1,2}/],
+  ['DD.MM.YYYY', /^\d{1,2}\.\d{1,2}\.\d{4}/],
+  ['YYYYMMDD', /^\d{8}(?:\s|$)/],
+  ['unix_ms', /^\d{13}$/],
+  ['unix', /^\d{9,10}$/]
+];
+
+const HEADER_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  date: ['datetime', 'date', 'gmt time', 'local time', 'timestamp', 'time'],
+  time: ['time'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'tickvol', 'tick_volume', 'vol', 'v']
+};
+
+const normalizeHeader = (cell: string): string => cell.trim().replace(/^<|>$/g, '').toLowerCase();
+
+export function detectDelimiter(line: string): string {
+  const candidates = ['\t', ';', ','];
+  return candidates.find(delimiter => line.split(delimiter).length >= 5) ?? ',';
+}
+
+/**
+ * Колонки по заголовку: MT5 (<DATE>, <TICKVOL>), Dukascopy (Gmt time), обычные open/high/low/close
+ */
+export function mapColumnsFromHeader(header: string[]): ColumnMapping | null {
+  const names = header.map(normalizeHeader);
+  const find = (aliases: string[], exclude: number[] = []) => {
+    for (const alias of aliases) {
+      const index = names.findIndex((name, i) => name === alias && !exclude.includes(i));
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+
+  const date = find(HEADER_ALIASES.date);
+  const open = find(HEADER_ALIASES.open);
+  const high = find(HEADER_ALIASES.high);
+  const low = find(HEADER_ALIASES.low);
+  const close = find(HEADER_ALIASES.close);
+  if ([date, open, high, low, close].some(index => index < 0)) return null;
+
+  const mapping: ColumnMapping = { date, open, high, low, close };
+  const time = find(HEADER_ALIASES.time, [date]);
+  const volume = find(HEADER_ALIASES.volume);
+  if (time >= 0) mapping.time = time;
+  if (volume >= 0) mapping.volume = volume;
+  return mapping;
+}
+
+export function detectDateFormat(samples: string[]): ImportDateFormat | null {
+  for (const [format, pattern] of DATE_FORMAT_PATTERNS) {
+    if (samples.length > 0 && samples.every(sample => pattern.test(sample.trim()))) return format;
+  }
+
+  // DD/MM против MM/DD: решает значение больше 12 в первой или второй части
+  const slashed = samples.map(sample => sample.trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{4}/));
+  if (samples.length === 0 || slashed.some(match => !match)) return null;
+  return slashed.some(match => Number(match![1]) > 12) ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+}
+
+/**
+ * Смещение от UTC в минутах по суффиксу даты: 'GMT+0200', 'UTC-05:00', 'GMT', '...T10:00:00+03:00', '...Z'
+ */
+export function detectTimezoneOffset(value: string): number | null {
+  const trimmed = value.trim();
+  const named = trimmed.match(/(?:GMT|UTC)(?:\s*([+-])(\d{2}):?(\d{2}))?$/i);
+  const iso = trimmed.match(/\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|([+-])(\d{2}):(\d{2}))$/i);
+  const match = named ?? iso;
+  if (!match) return null;
+
+  // 'GMT', 'UTC' и 'Z' без смещения
+  if (!match[1]) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+type CalendarFormat = Exclude<ImportDateFormat, 'unix' | 'unix_ms'>;
+
+// Шаблон даты и порядок частей [год, месяц, день]
+const DATE_PARSERS: Record<CalendarFormat, [RegExp, (match: RegExpMatchArray) => [number, number, number]]> = {
+  'YYYY.MM.DD': [/^(\d{4})\.(\d{1,2})\.(\d{1,2})/, m => [Number(m[1]), Number(m[2]), Number(m[3])]],
+  'YYYY-MM-DD': [/^(\d{4})-(\d{1,2})-(\d{1,2})/, m => [Number(m[1]), Number(m[2]), Number(m[3])]],
+  'YYYYMMDD': [/^(\d{4})(\d{2})(\d{2})/, m => [Number(m[1]), Number(m[2]), Number(m[3])]],
+  'DD.MM.YYYY': [/^(\d{1,2})\.(\d{1,2})\.(\d{4})/, m => [Number(m[3]), Number(m[2]), Number(m[1])]],
+  'DD/MM/YYYY': [/^(\d{1,2})\/(\d{1,2})\/(\d{4})/, m => [Number(m[3]), Number(m[2]), Number(m[1])]],
+  'MM/DD/YYYY': [/^(\d{1,2})\/(\d{1,2})\/(\d{4})/, m => [Number(m[3]), Number(m[1]), Number(m[2])]]
+};
+
+/**
+ * Время в UTC (мс) из даты и, если есть, отдельной колонки времени
+ */
+export function parseImportTimestamp(
+  dateValue: string,
+  timeValue: string | undefined,
+  format: ImportDateFormat,
+  timezoneOffsetMinutes: number
+): number | null {
+  const raw = dateValue.trim();
+  if (format === 'unix' || format === 'unix_ms') {
+    const value = Number(raw);
+    if (raw === '' || !Number.isFinite(value)) return null;
+    return format === 'unix' ? value * 1000 : value;
+  }
+
+  const [pattern, toParts] = DATE_PARSERS[format];
+  const dateMatch = raw.match(pattern);
+  if (!dateMatch) return null;
+  const [year, month, day] = toParts(dateMatch);
+
+  // Время либо в той же ячейке после пробела или 'T', либо в отдельной колонке
+  const timeSource = timeValue ?? raw.slice(dateMatch[0].length);
+  const timeMatch = timeSource.match(/(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?/);
+  const [hours, minutes, seconds, millis] = timeMatch
+    ? [Number(timeMatch[1]), Number(timeMatch[2]), Number(timeMatch[3] ?? 0), Number((timeMatch[4] ?? '0').padEnd(3, '0'))]
+    : [0, 0, 0, 0];
+
+  if (month < 1 || month > 12 || hours > 23 || minutes > 59 || seconds > 59) return null;
+  const local = Date.UTC(year, month - 1, day, hours, minutes, seconds, millis);
+  // 31.02 и подобные даты Date.UTC переносит на следующий месяц
+  if (new Date(local).getUTCDate() !== day) return null;
+
+  const offset = detectTimezoneOffset(raw) ?? detectTimezoneOffset(timeValue ?? '') ?? timezoneOffsetMinutes;
+  return local - offset * MINUTE_MS;
+}
+
+/**
+ * Проверка свечи теми же правилами, что и ручной ввод (candleValidationRules)
+ */
+export function validateImportedCandle(candle: Omit<ImportedCandle, 'time'>): string[] {
+  const errors = validateNumericValues({
+    open: String(candle.open),
+    high: String(candle.high),
+    low: String(candle.low),
+    close: String(candle.close),
+    volume: String(candle.volume)
+  });
+  return errors.length > 0 ? errors : validatePriceLogic(candle);
+}
+
+const finalizeCandles = (rows: ImportedCandle[]): { candles: ImportedCandle[]; duplicates: number } => {
+  const byTime = new Map<number, ImportedCandle>();
+  rows.forEach(candle => byTime.set(candle.time, candle));
+  const candles = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+  return { candles, duplicates: rows.length - candles.length };
+};
+
+const toNumber = (value: string | undefined): number =>
+  value === undefined || value.trim() === '' ? NaN : Number(value.trim().replace(',', '.'));
+
+/**
+ * Разбор CSV/TXT; пустые строки пропускаются, невалидные попадают в invalid с номером строки
+ */
+export function parseCandleCsv(text: string, options: CsvImportOptions = {}): ParseResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstIndex = lines.findIndex(line => line.trim() !== '');
+  if (firstIndex < 0) {
+    throw new Error('Файл пуст');
+  }
+
+  const delimiter = options.delimiter ?? detectDelimiter(lines[firstIndex]);
+  const firstCells = lines[firstIndex].split(delimiter);
+  const hasHeader = options.hasHeader ?? !firstCells.some(cell => cell.trim() !== '' && Number.isFinite(Number(cell)));
+
+  const columns = (hasHeader ? mapColumnsFromHeader(firstCells) : null) ?? options.columns;
+  if (!columns) {
+    throw new Error('Не удалось определить колонки: укажите сопоставление колонок');
+  }
+
+  const dataStart = hasHeader ? firstIndex + 1 : firstIndex;
+  const samples = lines.slice(dataStart)
+    .filter(line => line.trim() !== '')
+    .slice(0, 50)
+    .map(line => line.split(delimiter)[columns.date] ?? '');
+  const dateFormat = options.dateFormat ?? detectDateFormat(samples);
+  if (!dateFormat) {
+    throw new Error('Не удалось определить формат даты');
+  }
+
+  const fileOffset = samples.length > 0 ? detectTimezoneOffset(samples[0]) : null;
+  const timezoneOffsetMinutes = fileOffset ?? options.timezoneOffsetMinutes ?? 0;
+
+  const rows: ImportedCandle[] = [];
+  const invalid: InvalidRow[] = [];
+
+  for (let i = dataStart; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const cells = lines[i].split(delimiter);
+
+    const time = parseImportTimestamp(
+      cells[columns.date] ?? '',
+      columns.time !== undefined ? cells[columns.time] : undefined,
+      dateFormat,
+      timezoneOffsetMinutes
+    );
+    const candle = {
+      open: toNumber(cells[columns.open]),
+      high: toNumber(cells[columns.high]),
+      low: toNumber(cells[columns.low]),
+      close: toNumber(cells[columns.close]),
+      volume: columns.volume !== undefined ? toNumber(cells[columns.volume]) : 0
+    };
+
+    const errors = validateImportedCandle(candle);
+    if (time === null) errors.unshift(`Неверная дата: ${cells[columns.date] ?? ''}`);
+    if (errors.length > 0) {
+      invalid.push({ line: i + 1, errors });
+      continue;
+    }
+    rows.push({ time: time!, ...candle });
+  }
+
+  return {
+    ...finalizeCandles(rows),
+    invalid,
+    detected: { delimiter, hasHeader, columns, dateFormat, timezoneOffsetMinutes }
+  };
+}
+
+const HST_HEADER_SIZE = 148;
+const HST_RECORD_SIZE: Record<number, number> = { 400: 44, 401: 60 };
+
+/**
+ * Разбор истории MT4 (*.hst), версии 400 и 401. Время в файле — время сервера брокера
+ */
+export function parseHst(buffer: ArrayBuffer, options: Pick<CsvImportOptions, 'timezoneOffsetMinutes'> = {}): ParseResult {
+  if (buffer.byteLength < HST_HEADER_SIZE) {
+    throw new Error('Файл HST повреждён: нет заголовка');
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getInt32(0, true);
+  const recordSize = HST_RECORD_SIZE[version];
+  if (!recordSize) {
+    throw new Error(`Неподдерживаемая версия HST: ${version}`);
+  }
+
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length)).replace(/\0.*$/, '');
+  // int64 без BigInt: время и объём в HST укладываются в 53 бита
+  const readInt64 = (offset: number) => view.getUint32(offset, true) + view.getInt32(offset + 4, true) * 2 ** 32;
+
+  const timezoneOffsetMinutes = options.timezoneOffsetMinutes ?? 0;
+  const count = Math.floor((buffer.byteLength - HST_HEADER_SIZE) / recordSize);
+  const rows: ImportedCandle[] = [];
+  const invalid: InvalidRow[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const offset = HST_HEADER_SIZE + i * recordSize;
+    // В версии 400 порядок цен open, low, high, close, в 401 — open, high, low, close
+    const candle = version === 401
+      ? {
+          time: readInt64(offset) * 1000,
+          open: view.getFloat64(offset + 8, true),
+          high: view.getFloat64(offset + 16, true),
+          low: view.getFloat64(offset + 24, true),
+          close: view.getFloat64(offset + 32, true),
+          volume: readInt64(offset + 40)
+        }
+      : {
+          time: view.getInt32(offset, true) * 1000,
+          open: view.getFloat64(offset + 4, true),
+          low: view.getFloat64(offset + 12, true),
+          high: view.getFloat64(offset + 20, true),
+          close: view.getFloat64(offset + 28, true),
+          volume: view.getFloat64(offset + 36, true)
+        };
+
+    const errors = validateImportedCandle(candle);
+    if (errors.length > 0) {
+      invalid.push({ line: i + 1, errors });
+      continue;
+    }
+    rows.push({ ...candle, time: candle.time - timezoneOffsetMinutes * MINUTE_MS });
+  }
+
+  return {
+    ...finalizeCandles(rows),
+    invalid,
+    detected: {
+      delimiter: '',
+      hasHeader: true,
+      columns: IMPORT_PRESETS.metatrader.options.columns!,
+      dateFormat: 'unix',
+      timezoneOffsetMinutes
+    },
+    symbol: readString(68, 12),
+    periodMinutes: view.getInt32(80, true)
+  };
+}
+
+export interface ImportChange {
+  candle: CandleData;
+  previous: CandleData;
+}
+
+export interface ImportPlan {
+  added: CandleData[];
+  updated: ImportChange[];
+  unchanged: number;
+  /** Новые свечи раньше последней свечи сессии: индекс не может их вставить по порядку */
+  rejected: ImportedCandle[];
+}
+
+const PRICE_EPSILON = 1e-9;
+
+const sameValues = (a: ImportedCandle, b: CandleData): boolean =>
+  Math.abs(a.open - b.open) < PRICE_EPSILON &&
+  Math.abs(a.high - b.high) < PRICE_EPSILON &&
+  Math.abs(a.low - b.low) < PRICE_EPSILON &&
+  Math.abs(a.close - b.close) < PRICE_EPSILON &&
+  Math.abs(a.volume - b.volume) < PRICE_EPSILON;
+
+/**
+ * Сравнение с уже сохранёнными свечами сессии по времени: совпавшие по времени
+ * свечи обновляются на месте, новые получают индексы после последнего.
+ * candle_index задаёт порядок свечей для индикаторов, обучения и бэктестов, поэтому
+ * новые свечи раньше последней свечи сессии отклоняются — историю грузят в пустую сессию
+ */
+export function planImport(imported: ImportedCandle[], existing: CandleData[], sessionId: string): ImportPlan {
+  const byTime = new Map(existing.map(candle => [new Date(candle.candle_datetime).getTime(), candle]));
+  const lastTime = existing.reduce((max, candle) => Math.max(max, new Date(candle.candle_datetime).getTime()), -Infinity);
+  let nextIndex = existing.reduce((max, candle) => Math.max(max, candle.candle_index), -1) + 1;
+
+  const plan: ImportPlan = { added: [], updated: [], unchanged: 0, rejected: [] };
+  imported.forEach(candle => {
+    const values = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      candle_datetime: new Date(candle.time).toISOString()
+    };
+    const previous = byTime.get(candle.time);
+
+    if (!previous && candle.time < lastTime) {
+      plan.rejected.push(candle);
+    } else if (!previous) {
+      plan.added.push({ session_id: sessionId, candle_index: nextIndex++, ...values });
+    } else if (sameValues(candle, previous)) {
+      plan.unchanged++;
+    } else {
+      plan.updated.push({ candle: { ...previous, ...values }, previous });
+    }
+  });
+  return plan;
+}
+
+export const DEFAULT_IMPORT_CHUNK_SIZE = 1000;
+
+/**
+ * Сохранение порциями (например, через candleService.saveCandleBatch), чтобы файлы
+ * на сотни тысяч строк не упирались в размер запроса; порции идут последовательно
+ */
+export async function saveInChunks(
+  candles: CandleData[],
+  saveBatch: (batch: CandleData[]) => Promise<CandleData[]>,
+  options: { chunkSize?: number; onProgress?: (saved: number, total: number) => void } = {}
+): Promise<CandleData[]> {
+  const chunkSize = options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE;
+  const saved: CandleData[] = [];
+
+  for (let start = 0; start < candles.length; start += chunkSize) {
+    const result = await saveBatch(candles.slice(start, start + chunkSize));
+    saved.push(...result);
+    options.onProgress?.(Math.min(start + chunkSize, candles.length), candles.length);
+  }
+  return saved;
+}
@@ -0,0 +1,435 @@
+import { CandleData } from '@/types/session';
+import type { MarketDataProvider, MarketTick } from './RealTimeMarketService';
+
+export interface ProviderCapabilities {
+  /** Поддерживаемые инструменты: список или проверка */
+  symbols: string[] | ((symbol: string) => boolean);
+  /** Поддерживаемые интервалы; не указаны — любые */
+  intervals?: string[];
+  /** Не больше maxRequests запросов истории за windowMs */
+  rateLimit?: { maxRequests: number; windowMs: number };
+  /** При равном здоровье выбирается меньший приоритет */
+  priority?: number;
+}
+
+export interface RegistryOptions {
+  /** Запрос дольше этого считается зависшим и передаётся следующему поставщику */
+  requestTimeoutMs: number;
+  /** Поток без тиков дольше этого считается остановившимся */
+  staleAfterMs: number;
+  /** Задержка, при которой составляющая латентности в оценке обнуляется */
+  maxLatencyMs: number;
+  /** Столько ошибок подряд выводят поставщика из ротации на cooldownMs */
+  failureThreshold: number;
+  cooldownMs: number;
+  /** Сколько последних запросов учитывается в оценке здоровья */
+  healthWindow: number;
+  /** Запросы старше этого забываются: понижение в очереди не вечное */
+  healthWindowMs: number;
+  now: () => number;
+}
+
+export const DEFAULT_REGISTRY_OPTIONS: RegistryOptions = {
+  requestTimeoutMs: 10000,
+  staleAfterMs: 30000,
+  maxLatencyMs: 2000,
+  failureThreshold: 3,
+  cooldownMs: 60000,
+  healthWindow: 50,
+  healthWindowMs: 5 * 60 * 1000,
+  now: () => Date.now()
+};
+
+export interface ProviderHealth {
+  name: string;
+  /** 0..1: доля успешных запросов, латентность и свежесть потока */
+  score: number;
+  status: 'healthy' | 'degraded' | 'down';
+  requests: number;
+  errorRate: number;
+  averageLatency: number;
+  lastTickAt: number | null;
+  stale: boolean;
+  rateLimited: boolean;
+}
+
+export interface CandleDiscrepancy {
+  candleTime: string;
+  field: 'open' | 'high' | 'low' | 'close';
+  providers: [string, string];
+  values: [number, number];
+  /** Относительное расхождение */
+  difference: number;
+}
+
+export interface ReconciliationReport {
+  symbol: string;
+  interval: string;
+  providers: string[];
+  /** Сколько пар свечей с одинаковым временем сравнено */
+  compared: number;
+  discrepancies: CandleDiscrepancy[];
+}
+
+interface RequestRecord {
+  ok: boolean;
+  latency: number;
+  at: number;
+}
+
+interface ProviderEntry {
+  provider: MarketDataProvider;
+  capabilities: ProviderCapabilities;
+  records: RequestRecord[];
+  requestTimes: number[];
+  consecutiveFailures: number;
+  downUntil: number;
+  /** Время последнего тика по инструменту */
+  lastTicks: Map<string, number>;
+  subscribedSymbols: Set<string>;
+}
+
+interface StreamState {
+  active: string;
+  since: number;
+  callbacks: ((data: MarketTick) => void)[];
+}
+
+const PRICE_FIELDS: CandleDiscrepancy['field'][] = ['open', 'high', 'low', 'close'];
+const DEGRADED_SCORE = 0.6;
+
+/**
+ * Сравнение свечей двух поставщиков по времени открытия
+ */
+export function reconcileCandles(
+  first: { provider: string; candles: CandleData[] },
+  second: { provider: string; candles: CandleData[] },
+  tolerance: number
+): { compared: number; discrepancies: CandleDiscrepancy[] } {
+  const byTime = new Map(second.candles.map(candle => [new Date(candle.candle_datetime).getTime(), candle]));
+  const discrepancies: CandleDiscrepancy[] = [];
+  let compared = 0;
+
+  first.candles.forEach(candle => {
+    const other = byTime.get(new Date(candle.candle_datetime).getTime());
+    if (!other) return;
+    compared++;
+
+    PRICE_FIELDS.forEach(field => {
+      const a = candle[field];
+      const b = other[field];
+      const mid = (Math.abs(a) + Math.abs(b)) / 2;
+      const difference = mid > 0 ? Math.abs(a - b) / mid : 0;
+      if (difference > tolerance) {
+        discrepancies.push({
+          candleTime: candle.candle_datetime,
+          field,
+          providers: [first.provider, second.provider],
+          values: [a, b],
+          difference
+        });
+      }
+    });
+  });
+
+  return { compared, discrepancies };
+}
+
+/**
+ * Реестр поставщиков рыночных данных: выбор по инструменту и интервалу,
+ * оценка здоровья, переключение на следующего поставщика при ошибке или
+ * зависании и сверка свечей между поставщиками
+ */
+export class MarketDataProviderRegistry {
+  private entries = new Map<string, ProviderEntry>();
+  private streams = new Map<string, StreamState>();
+  private monitor: ReturnType<typeof setInterval> | null = null;
+  private options: RegistryOptions;
+
+  constructor(options: Partial<RegistryOptions> = {}) {
+    this.options = { ...DEFAULT_REGISTRY_OPTIONS, ...options };
+  }
+
+  register(provider: MarketDataProvider, capabilities: ProviderCapabilities): void {
+    if (this.entries.has(provider.name)) {
+      throw new Error(`Поставщик ${provider.name} уже зарегистрирован`);
+    }
+    this.entries.set(provider.name, {
+      provider,
+      capabilities,
+      records: [],
+      requestTimes: [],
+      consecutiveFailures: 0,
+      downUntil: 0,
+      lastTicks: new Map(),
+      subscribedSymbols: new Set()
+    });
+  }
+
+  getProviders(): MarketDataProvider[] {
+    return Array.from(this.entries.values()).map(entry => entry.provider);
+  }
+
+  /**
+   * Поставщики для инструмента и интервала, от лучшего к худшему.
+   * Порядок задаёт priority; здоровье только понижает: сначала исправные,
+   * затем деградировавшие, в конце выведенные из ротации — лучше плохой источник, чем никакого.
+   * Поэтому неизмеренный запасной поставщик не обгоняет работающий основной
+   */
+  getCandidates(symbol: string, interval?: string): MarketDataProvider[] {
+    const rank = { healthy: 0, degraded: 1, down: 2 };
+    return Array.from(this.entries.values())
+      .filter(entry => this.supports(entry, symbol, interval))
+      .map((entry, order) => ({ entry, order, health: this.computeHealth(entry) }))
+      .sort((a, b) =>
+        rank[a.health.status] - rank[b.health.status] ||
+        (a.entry.capabilities.priority ?? 0) - (b.entry.capabilities.priority ?? 0) ||
+        a.order - b.order
+      )
+      .map(({ entry }) => entry.provider);
+  }
+
+  /**
+   * История у лучшего доступного поставщика; при ошибке, зависании,
+   * пустом ответе или исчерпанном лимите запрос уходит следующему
+   */
+  async getHistoricalData(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    const candidates = this.getCandidates(symbol, interval);
+    if (candidates.length === 0) {
+      throw new Error(`Нет поставщика для ${symbol} ${interval}`);
+    }
+
+    const errors: string[] = [];
+    for (const provider of candidates) {
+      const entry = this.entries.get(provider.name)!;
+      if (this.isRateLimited(entry)) {
+        errors.push(`${provider.name}: лимит запросов`);
+        continue;
+      }
+
+      try {
+        return await this.request(entry, symbol, interval, limit);
+      } catch (error) {
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    throw new Error(`Все поставщики недоступны для ${symbol} ${interval}: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Подписка через лучшего поставщика. Тики других поставщиков, на которых
+   * инструмент был раньше, в callback не попадают, но учитываются в их свежести
+   */
+  subscribe(symbol: string, callback: (data: MarketTick) => void): void {
+    const stream = this.streams.get(symbol);
+    if (stream) {
+      stream.callbacks.push(callback);
+      return;
+    }
+
+    const [best] = this.getCandidates(symbol);
+    if (!best) {
+      throw new Error(`Нет поставщика для ${symbol}`);
+    }
+
+    this.streams.set(symbol, { active: best.name, since: this.options.now(), callbacks: [callback] });
+    this.attachStream(this.entries.get(best.name)!, symbol);
+  }
+
+  /**
+   * Переключает остановившиеся потоки на следующего поставщика.
+   * Возвращает инструменты, для которых произошло переключение
+   */
+  checkStreams(): string[] {
+    const now = this.options.now();
+    const switched: string[] = [];
+
+    this.streams.forEach((stream, symbol) => {
+      const entry = this.entries.get(stream.active)!;
+      const lastTick = Math.max(entry.lastTicks.get(symbol) ?? 0, stream.since);
+      if (now - lastTick <= this.options.staleAfterMs) return;
+
+      this.recordFailure(entry, 0);
+      const next = this.getCandidates(symbol).find(provider => provider.name !== stream.active);
+      if (!next) return;
+
+      console.warn(`Поток ${symbol} от ${stream.active} остановился, переключение на ${next.name}`);
+      stream.active = next.name;
+      stream.since = now;
+      this.attachStream(this.entries.get(next.name)!, symbol);
+      switched.push(symbol);
+    });
+
+    return switched;
+  }
+
+  startMonitoring(intervalMs = this.options.staleAfterMs / 2): void {
+    this.stopMonitoring();
+    this.monitor = setInterval(() => this.checkStreams(), intervalMs);
+  }
+
+  stopMonitoring(): void {
+    if (this.monitor) {
+      clearInterval(this.monitor);
+      this.monitor = null;
+    }
+  }
+
+  getActiveProvider(symbol: string): string | null {
+    return this.streams.get(symbol)?.active ?? null;
+  }
+
+  getHealth(name?: string): ProviderHealth[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !name || entry.provider.name === name)
+      .map(entry => this.computeHealth(entry));
+  }
+
+  /**
+   * Сверка свечей всех поставщиков инструмента попарно.
+   * Расхождение больше tolerance (относительного) попадает в отчёт
+   */
+  async reconcile(symbol: string, interval: string, limit: number, tolerance = 0.0005): Promise<ReconciliationReport> {
+    const providers = this.getCandidates(symbol, interval);
+    const results = await Promise.allSettled(providers.map(provider => {
+      const entry = this.entries.get(provider.name)!;
+      return this.request(entry, symbol, interval, limit)
+        .then(candles => ({ provider: provider.name, candles }));
+    }));
+
+    const sources = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const report: ReconciliationReport = {
+      symbol,
+      interval,
+      providers: sources.map(source => source.provider),
+      compared: 0,
+      discrepancies: []
+    };
+
+    for (let i = 0; i < sources.length; i++) {
+      for (let j = i + 1; j < sources.length; j++) {
+        const { compared, discrepancies } = reconcileCandles(sources[i], sources[j], tolerance);
+        report.compared += compared;
+        report.discrepancies.push(...discrepancies);
+      }
+    }
+
+    if (report.discrepancies.length > 0) {
+      console.warn(`⚠️ ${symbol} ${interval}: ${report.discrepancies.length} расхождений между поставщиками`);
+    }
+    return report;
+  }
+
+  private supports(entry: ProviderEntry, symbol: string, interval?: string): boolean {
+    const { symbols, intervals } = entry.capabilities;
+    const symbolOk = typeof symbols === 'function' ? symbols(symbol) : symbols.includes(symbol);
+    return symbolOk && (!interval || !intervals || intervals.includes(interval));
+  }
+
+  private async request(entry: ProviderEntry, symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    const start = this.options.now();
+    entry.requestTimes.push(start);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`нет ответа за ${this.options.requestTimeoutMs} мс`)), this.options.requestTimeoutMs);
+    });
+
+    try {
+      const candles = await Promise.race([entry.provider.getHistoricalData(symbol, interval, limit), timeout]);
+      if (limit > 0 && candles.length === 0) {
+        throw new Error('пустой ответ');
+      }
+      this.recordSuccess(entry, this.options.now() - start);
+      return candles;
+    } catch (error) {
+      this.recordFailure(entry, this.options.now() - start);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private attachStream(entry: ProviderEntry, symbol: string): void {
+    if (entry.subscribedSymbols.has(symbol)) return;
+    entry.subscribedSymbols.add(symbol);
+
+    entry.provider.subscribe([symbol], tick => {
+      entry.lastTicks.set(symbol, this.options.now());
+      const stream = this.streams.get(symbol);
+      if (!stream || stream.active !== entry.provider.name) return;
+
+      stream.callbacks.forEach(callback => {
+        try {
+          callback(tick);
+        } catch (error) {
+          console.error('Error in market data callback:', error);
+        }
+      });
+    });
+  }
+
+  private recordSuccess(entry: ProviderEntry, latency: number): void {
+    this.pushRecord(entry, { ok: true, latency, at: this.options.now() });
+    entry.consecutiveFailures = 0;
+  }
+
+  private recordFailure(entry: ProviderEntry, latency: number): void {
+    this.pushRecord(entry, { ok: false, latency, at: this.options.now() });
+    entry.consecutiveFailures++;
+    if (entry.consecutiveFailures >= this.options.failureThreshold) {
+      entry.downUntil = this.options.now() + this.options.cooldownMs;
+      entry.consecutiveFailures = 0;
+    }
+  }
+
+  private pushRecord(entry: ProviderEntry, record: RequestRecord): void {
+    entry.records.push(record);
+    if (entry.records.length > this.options.healthWindow) entry.records.shift();
+  }
+
+  private isRateLimited(entry: ProviderEntry): boolean {
+    const limit = entry.capabilities.rateLimit;
+    if (!limit) return false;
+
+    const windowStart = this.options.now() - limit.windowMs;
+    entry.requestTimes = entry.requestTimes.filter(time => time > windowStart);
+    return entry.requestTimes.length >= limit.maxRequests;
+  }
+
+  private computeHealth(entry: ProviderEntry): ProviderHealth {
+    const now = this.options.now();
+    const records = entry.records.filter(record => now - record.at <= this.options.healthWindowMs);
+    const errors = records.filter(record => !record.ok).length;
+    const succeeded = records.filter(record => record.ok);
+    const errorRate = records.length > 0 ? errors / records.length : 0;
+    const averageLatency = succeeded.length > 0
+      ? succeeded.reduce((sum, record) => sum + record.latency, 0) / succeeded.length
+      : 0;
+
+    const tickTimes = Array.from(entry.lastTicks.values());
+    const lastTickAt = tickTimes.length > 0 ? Math.max(...tickTimes) : null;
+    const stale = Array.from(entry.subscribedSymbols).some(symbol => {
+      const stream = this.streams.get(symbol);
+      const since = stream?.active === entry.provider.name ? stream.since : 0;
+      return now - Math.max(entry.lastTicks.get(symbol) ?? 0, since) > this.options.staleAfterMs;
+    });
+
+    const latencyScore = Math.max(0, 1 - averageLatency / this.options.maxLatencyMs);
+    const score = 0.5 * (1 - errorRate) + 0.3 * latencyScore + 0.2 * (stale ? 0 : 1);
+    const down = entry.downUntil > now;
+
+    return {
+      name: entry.provider.name,
+      score: down ? 0 : score,
+      status: down ? 'down' : score < DEGRADED_SCORE ? 'degraded' : 'healthy',
+      requests: records.length,
+      errorRate,
+      averageLatency,
+      lastTickAt,
+      stale,
+      rateLimited: this.isRateLimited(entry)
+    };
+  }
+}
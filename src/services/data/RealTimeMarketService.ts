@@ -1,6 +1,8 @@
 import { CandleData } from '@/types/session';
+import { MarketDataProviderRegistry } from './MarketDataProviderRegistry';
+import { FeedSchema, FeedTick, WebSocketFeedAdapter } from './WebSocketFeedAdapter';
 
-interface MarketDataProvider {
+export interface MarketDataProvider {
   name: string;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
@@ -8,7 +10,7 @@ interface MarketDataProvider {
   getHistoricalData(symbol: string, interval: string, limit: number): Promise<CandleData[]>;
 }
 
-interface MarketTick {
+export interface MarketTick {
   symbol: string;
   price: number;
   volume: number;
@@ -55,9 +57,10 @@ interface EconomicEvent {
 
 export class RealTimeMarketService {
   private static instance: RealTimeMarketService;
-  private providers: Map<string, MarketDataProvider> = new Map();
+  private registry = new MarketDataProviderRegistry();
   private websockets: Map<string, WebSocket> = new Map();
   private subscribers: Map<string, ((data: MarketTick) => void)[]> = new Map();
+  private replayProvider: MarketDataProvider | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
 
@@ -74,29 +77,56 @@ export class RealTimeMarketService {
 
   private initializeProviders(): void {
     // Binance provider для криптовалют
-    this.providers.set('binance', new BinanceProvider());
+    this.registry.register(new BinanceProvider(), {
+      symbols: isCryptoSymbol,
+      intervals: ['1m', '5m', '15m', '30m', '1h', '4h', '1d'],
+      rateLimit: { maxRequests: 1200, windowMs: 60 * 1000 }
+    });
     
     // Alpha Vantage для форекса и акций
-    this.providers.set('alphavantage', new AlphaVantageProvider());
+    this.registry.register(new AlphaVantageProvider(), {
+      symbols: symbol => !isCryptoSymbol(symbol) && isForexSymbol(symbol),
+      rateLimit: { maxRequests: 5, windowMs: 60 * 1000 }
+    });
     
-    // Yahoo Finance для индексов
-    this.providers.set('yahoo', new YahooFinanceProvider());
+    // Yahoo Finance для индексов и как запасной источник
+    this.registry.register(new YahooFinanceProvider(), {
+      symbols: () => true,
+      priority: 1
+    });
+  }
+
+  getProviderRegistry(): MarketDataProviderRegistry {
+    return this.registry;
   }
 
   /**
    * Подключается к поставщикам данных
    */
   async connectToProviders(): Promise<void> {
-    const connectionPromises = Array.from(this.providers.values()).map(provider => 
+    const connectionPromises = this.registry.getProviders().map(provider => 
       provider.connect().catch(error => {
         console.error(`Failed to connect to ${provider.name}:`, error);
       })
     );
 
     await Promise.allSettled(connectionPromises);
+    this.registry.startMonitoring();
     console.log('✅ Market data providers connected');
   }
 
+  /**
+   * Подменяет внешние источники записанными данными (null — возврат к живым поставщикам).
+   * Инструменты, на которые подписались после вызова, получают тики воспроизведения
+   */
+  setReplayProvider(provider: MarketDataProvider | null): void {
+    this.replayProvider = provider;
+  }
+
+  isReplaying(): boolean {
+    return this.replayProvider !== null;
+  }
+
   /**
    * Подписывается на real-time данные
    */
@@ -107,12 +137,14 @@ export class RealTimeMarketService {
       }
       this.subscribers.get(symbol)!.push(callback);
 
-      // Определяем провайдера по символу
-      const provider = this.selectProvider(symbol);
-      if (provider) {
-        provider.subscribe([symbol], (data) => {
-          this.notifySubscribers(symbol, data);
-        });
+      // Поток одного инструмента открывается один раз, дальше — рассылка подписчикам
+      if (this.subscribers.get(symbol)!.length > 1) return;
+
+      const onTick = (data: MarketTick) => this.notifySubscribers(symbol, data);
+      if (this.replayProvider) {
+        this.replayProvider.subscribe([symbol], onTick);
+      } else {
+        this.registry.subscribe(symbol, onTick);
       }
     });
   }
@@ -126,13 +158,10 @@ export class RealTimeMarketService {
     limit: number = 1000
   ): Promise<CandleData[]> {
     try {
-      const provider = this.selectProvider(symbol);
-      if (!provider) {
-        throw new Error(`No provider available for symbol: ${symbol}`);
-      }
-
       console.log(`📊 Fetching ${limit} ${interval} candles for ${symbol}`);
-      const data = await provider.getHistoricalData(symbol, interval, limit);
+      const data = this.replayProvider
+        ? await this.replayProvider.getHistoricalData(symbol, interval, limit)
+        : await this.registry.getHistoricalData(symbol, interval, limit);
       
       console.log(`✅ Received ${data.length} historical candles for ${symbol}`);
       return data;
@@ -185,18 +214,6 @@ export class RealTimeMarketService {
     }
   }
 
-  private selectProvider(symbol: string): MarketDataProvider | null {
-    if (symbol.includes('BTC') || symbol.includes('ETH') || symbol.includes('USDT')) {
-      return this.providers.get('binance') || null;
-    }
-    
-    if (symbol.includes('USD') || symbol.includes('EUR') || symbol.includes('GBP')) {
-      return this.providers.get('alphavantage') || null;
-    }
-    
-    return this.providers.get('yahoo') || null;
-  }
-
   private notifySubscribers(symbol: string, data: MarketTick): void {
     const callbacks = this.subscribers.get(symbol);
     if (callbacks) {
@@ -318,37 +335,63 @@ export class RealTimeMarketService {
 
 // === ПРОВАЙДЕРЫ ДАННЫХ ===
 
+const isCryptoSymbol = (symbol: string): boolean =>
+  symbol.includes('BTC') || symbol.includes('ETH') || symbol.includes('USDT');
+
+const isForexSymbol = (symbol: string): boolean =>
+  symbol.includes('USD') || symbol.includes('EUR') || symbol.includes('GBP');
+
+// Агрегированные сделки Binance: поле a — сквозной номер, по нему догружаются пропуски
+const BINANCE_AGG_TRADE_SCHEMA: FeedSchema = {
+  subscribeMessage: symbols => ({
+    method: 'SUBSCRIBE',
+    params: symbols.map(symbol => `${symbol.toLowerCase()}@aggTrade`),
+    id: Date.now()
+  }),
+  match: { field: 'e', value: 'aggTrade' },
+  fields: { symbol: 's', price: 'p', volume: 'q', timestamp: 'T', sequence: 'a' }
+};
+
 class BinanceProvider implements MarketDataProvider {
   name = 'Binance';
-  private ws?: WebSocket;
+  private feed = new WebSocketFeedAdapter({
+    name: 'Binance',
+    url: 'wss://stream.binance.com:9443/ws',
+    schema: BINANCE_AGG_TRADE_SCHEMA,
+    heartbeat: { intervalMs: 10000, timeoutMs: 60000 },
+    backfill: (symbol, from, to) => this.fetchAggTrades(symbol, from, to)
+  });
 
   async connect(): Promise<void> {
-    // В реальной реализации здесь подключение к Binance WebSocket
+    // Сокет открывается при первой подписке
     console.log('🔗 Connected to Binance API');
   }
 
   async disconnect(): Promise<void> {
-    if (this.ws) {
-      this.ws.close();
-    }
+    await this.feed.disconnect();
   }
 
   subscribe(symbols: string[], callback: (data: MarketTick) => void): void {
-    // Симуляция подписки на WebSocket
-    symbols.forEach(symbol => {
-      const interval = setInterval(() => {
-        const price = 50000 + (Math.random() - 0.5) * 2000; // Симуляция цены BTC
-        callback({
-          symbol,
-          price,
-          volume: Math.random() * 1000,
-          timestamp: Date.now()
-        });
-      }, 1000);
-      
-      // В реальности здесь был бы WebSocket
-      setTimeout(() => clearInterval(interval), 60000); // Остановка через минуту для демо
-    });
+    this.feed.subscribe(symbols, callback);
+  }
+
+  private async fetchAggTrades(symbol: string, from: number, to: number): Promise<FeedTick[]> {
+    const limit = Math.min(1000, to - from + 1);
+    const response = await fetch(
+      `https://api.binance.com/api/v3/aggTrades?symbol=${symbol}&fromId=${from}&limit=${limit}`
+    );
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const trades: Array<{ a: number; p: string; q: string; T: number }> = await response.json();
+    return trades.map(trade => ({
+      symbol,
+      price: parseFloat(trade.p),
+      volume: parseFloat(trade.q),
+      timestamp: trade.T,
+      sequence: trade.a
+    }));
   }
 
   async getHistoricalData(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
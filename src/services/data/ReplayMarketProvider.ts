@@ -0,0 +1,311 @@
+import { CandleData } from '@/types/session';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import { TickCandleAggregator, resampleCandles } from './CandleResampler';
+import type { MarketDataProvider, MarketTick } from './RealTimeMarketService';
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+/** Доли длительности свечи, в которые приходят синтетические тики open → экстремумы → close */
+const SYNTHETIC_TICK_OFFSETS = [0, 0.25, 0.5, 0.75];
+
+export type ReplaySource =
+  | { type: 'candles'; candles: CandleData[]; timeframe: string }
+  | { type: 'ticks'; ticks: MarketTick[] };
+
+/** candle — один тик по close на свечу, tick — внутрисвечной путь из четырёх тиков */
+export type ReplayMode = 'candle' | 'tick';
+
+export type ReplayStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+export interface ReplayOptions {
+  /** Инструмент, под которым воспроизводятся свечи */
+  symbol: string;
+  /** Для источника из тиков не используется: тики идут как есть */
+  mode?: ReplayMode;
+  /** Множитель скорости: 1 — реальное время, 10 — в десять раз быстрее */
+  speed?: number;
+  /** Предел паузы между событиями, чтобы не ждать выходные и разрывы в данных, мс */
+  maxDelayMs?: number;
+}
+
+export interface ReplayState {
+  status: ReplayStatus;
+  /** Сколько событий уже отдано подписчикам */
+  position: number;
+  total: number;
+  speed: number;
+  /** Время последнего отданного события */
+  currentTime: number | null;
+}
+
+interface ReplayEvent {
+  tick: MarketTick;
+  /** Индекс свечи источника, закрытой этим событием */
+  closesCandle: number | null;
+}
+
+/**
+ * Воспроизведение сохранённой сессии или импортированного файла как живого потока:
+ * те же MarketTick через subscribe, управление скоростью, пауза, пошаговый режим и перемотка
+ */
+export class ReplayMarketProvider implements MarketDataProvider {
+  name = 'Replay';
+  private events: ReplayEvent[];
+  private candles: CandleData[];
+  private sourceTimeframe: string | null;
+  private subscribers: Map<string, ((data: MarketTick) => void)[]> = new Map();
+  private stateListeners = new Set<(state: ReplayState) => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private position = 0;
+  private status: ReplayStatus = 'idle';
+  private speed: number;
+  private maxDelayMs: number;
+
+  constructor(source: ReplaySource, private options: ReplayOptions) {
+    this.speed = this.validateSpeed(options.speed ?? 1);
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+    if (source.type === 'candles') {
+      this.candles = [...source.candles].sort((a, b) => toTime(a) - toTime(b));
+      this.sourceTimeframe = source.timeframe;
+      this.events = this.buildCandleEvents(options.mode ?? 'candle');
+    } else {
+      this.candles = [];
+      this.sourceTimeframe = null;
+      this.events = [...source.ticks]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(tick => ({ tick, closesCandle: null }));
+    }
+  }
+
+  async connect(): Promise<void> {
+    console.log(`🔗 Replay ready: ${this.events.length} events for ${this.options.symbol}`);
+  }
+
+  async disconnect(): Promise<void> {
+    this.pause();
+    this.subscribers.clear();
+  }
+
+  subscribe(symbols: string[], callback: (data: MarketTick) => void): void {
+    symbols.forEach(symbol => {
+      if (!this.subscribers.has(symbol)) {
+        this.subscribers.set(symbol, []);
+      }
+      this.subscribers.get(symbol)!.push(callback);
+    });
+  }
+
+  /**
+   * История только до текущей позиции воспроизведения — без заглядывания вперёд
+   */
+  async getHistoricalData(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    let history: CandleData[];
+
+    if (this.sourceTimeframe) {
+      const played = this.candles.slice(0, this.getClosedCandleCount());
+      history = interval === this.sourceTimeframe
+        ? played
+        : resampleCandles(played, interval, { sourceTimeframe: this.sourceTimeframe, includePartial: false });
+    } else {
+      // Последняя собранная из тиков свеча ещё формируется и не возвращается
+      const aggregator = new TickCandleAggregator(interval);
+      history = this.events
+        .slice(0, this.position)
+        .filter(event => event.tick.symbol === symbol)
+        .flatMap(event => aggregator.push(event.tick));
+    }
+
+    return history.slice(-limit);
+  }
+
+  play(): void {
+    if (this.status === 'playing') return;
+    if (this.position >= this.events.length) {
+      this.setStatus('finished');
+      return;
+    }
+    this.setStatus('playing');
+    this.scheduleNext();
+  }
+
+  pause(): void {
+    this.clearTimer();
+    if (this.status === 'playing') this.setStatus('paused');
+  }
+
+  /**
+   * Пошаговый режим: останавливает воспроизведение и отдаёт одно событие
+   */
+  step(): boolean {
+    this.pause();
+    if (this.position >= this.events.length) return false;
+
+    this.emitNext();
+    this.setStatus(this.position >= this.events.length ? 'finished' : 'paused');
+    return true;
+  }
+
+  /**
+   * Перемотка к первому событию не раньше time. Пропущенные события подписчикам не отдаются
+   */
+  seek(time: number | string): void {
+    const target = typeof time === 'number' ? time : new Date(time).getTime();
+    const index = this.events.findIndex(event => event.tick.timestamp >= target);
+    this.position = index === -1 ? this.events.length : index;
+
+    if (this.status === 'playing') {
+      this.clearTimer();
+      this.scheduleNext();
+    } else {
+      this.setStatus(this.position >= this.events.length ? 'finished' : this.position > 0 ? 'paused' : 'idle');
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = this.validateSpeed(speed);
+    if (this.status === 'playing') {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+    this.notifyState();
+  }
+
+  getState(): ReplayState {
+    const last = this.events[this.position - 1];
+    return {
+      status: this.status,
+      position: this.position,
+      total: this.events.length,
+      speed: this.speed,
+      currentTime: last ? last.tick.timestamp : null
+    };
+  }
+
+  onStateChange(listener: (state: ReplayState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private buildCandleEvents(mode: ReplayMode): ReplayEvent[] {
+    const durationMs = parseTimeframe(this.sourceTimeframe!) * MINUTE_MS;
+    const { symbol } = this.options;
+
+    return this.candles.flatMap((candle, index) => {
+      const start = toTime(candle);
+      if (mode === 'candle') {
+        return [{
+          tick: { symbol, price: candle.close, volume: candle.volume, timestamp: start + durationMs },
+          closesCandle: index
+        }];
+      }
+
+      // Медвежья свеча чаще сначала ходит вверх, бычья — вниз
+      const path = candle.close >= candle.open
+        ? [candle.open, candle.low, candle.high, candle.close]
+        : [candle.open, candle.high, candle.low, candle.close];
+
+      return path.map((price, i) => ({
+        tick: {
+          symbol,
+          price,
+          volume: candle.volume / path.length,
+          timestamp: start + SYNTHETIC_TICK_OFFSETS[i] * durationMs
+        },
+        closesCandle: i === path.length - 1 ? index : null
+      }));
+    });
+  }
+
+  private getClosedCandleCount(): number {
+    for (let i = this.position - 1; i >= 0; i--) {
+      const closed = this.events[i].closesCandle;
+      if (closed !== null) return closed + 1;
+    }
+    return 0;
+  }
+
+  private scheduleNext(): void {
+    if (this.position >= this.events.length) {
+      this.setStatus('finished');
+      return;
+    }
+
+    const previous = this.events[this.position - 1];
+    const gap = previous ? this.events[this.position].tick.timestamp - previous.tick.timestamp : 0;
+    const delay = Math.min(this.maxDelayMs, Math.max(0, gap) / this.speed);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.emitNext();
+      this.scheduleNext();
+    }, delay);
+  }
+
+  private emitNext(): void {
+    const { tick } = this.events[this.position++];
+    this.subscribers.get(tick.symbol)?.forEach(callback => {
+      try {
+        callback(tick);
+      } catch (error) {
+        console.error('Error in replay callback:', error);
+      }
+    });
+    this.notifyState();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setStatus(status: ReplayStatus): void {
+    this.status = status;
+    this.notifyState();
+  }
+
+  private notifyState(): void {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  private validateSpeed(speed: number): number {
+    if (!(speed > 0)) {
+      throw new Error(`Скорость воспроизведения должна быть больше 0: ${speed}`);
+    }
+    return speed;
+  }
+}
+
+/**
+ * Источник для воспроизведения из файла, сохранённого экспортом сессии (useDataExport)
+ */
+export function parseSessionExport(content: string): { symbol: string; source: ReplaySource } {
+  let data: { session?: { id?: string; pair?: string; timeframe?: string }; candles?: CandleData[] };
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Файл не похож на экспорт сессии');
+  }
+
+  const { session, candles } = data;
+  if (!session?.pair || !session.timeframe || !Array.isArray(candles)) {
+    throw new Error('Файл не похож на экспорт сессии');
+  }
+
+  // При экспорте session_id вырезается
+  const sessionId = session.id ?? `replay_${session.pair}`;
+  return {
+    symbol: session.pair,
+    source: {
+      type: 'candles',
+      timeframe: session.timeframe,
+      candles: candles.map(candle => ({ ...candle, session_id: candle.session_id ?? sessionId }))
+    }
+  };
+}
+
+const toTime = (candle: CandleData): number => new Date(candle.candle_datetime).getTime();
@@ -1,4 +1,5 @@
 import { CandleData } from '@/types/session';
+import { ResampleOptions, resampleCandles } from './CandleResampler';
 
 interface VolumeAnalysis {
   currentVolume: number;
@@ -22,6 +23,7 @@ export class SessionBasedDataService {
   private sessionCache: Map<string, CandleData[]> = new Map();
   private metricsCache: Map<string, RealTimeMetrics> = new Map();
   private lastUpdateTimes: Map<string, number> = new Map();
+  private resampledCache: Map<string, CandleData[]> = new Map();
 
   static getInstance(): SessionBasedDataService {
     if (!SessionBasedDataService.instance) {
@@ -41,6 +43,25 @@ export class SessionBasedDataService {
     return [];
   }
 
+  /**
+   * Свечи сессии в другом таймфрейме; результат кэшируется до обновления данных сессии
+   */
+  getResampledCandles(
+    sessionId: string,
+    timeframe: string,
+    options: Omit<ResampleOptions, 'sessionId'> = {}
+  ): CandleData[] {
+    const key = [sessionId, timeframe, options.alignment ?? 'broker', options.sourceTimeframe ?? '', options.includePartial ?? true].join('|');
+    const cached = this.resampledCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const resampled = resampleCandles(this.getSessionCandles(sessionId), timeframe, { ...options, sessionId });
+    this.resampledCache.set(key, resampled);
+    return resampled;
+  }
+
   getCurrentPrice(sessionId: string): number {
     const candles = this.getSessionCandles(sessionId);
     if (candles.length === 0) return 0;
@@ -252,12 +273,18 @@ export class SessionBasedDataService {
     // Очищаем кэш метрик при обновлении данных
     this.metricsCache.delete(sessionId);
     this.lastUpdateTimes.delete(sessionId);
+    for (const key of this.resampledCache.keys()) {
+      if (key.startsWith(`${sessionId}|`)) {
+        this.resampledCache.delete(key);
+      }
+    }
   }
 
   clearCache(): void {
     this.sessionCache.clear();
     this.metricsCache.clear();
     this.lastUpdateTimes.clear();
+    this.resampledCache.clear();
   }
 }
 
@@ -0,0 +1,450 @@
+import { CandleData } from '@/types/session';
+import type { MarketDataProvider, MarketTick } from './RealTimeMarketService';
+
+/**
+ * Описание формата сообщений поставщика: как подписаться, как пинговать
+ * и где в сообщении лежат поля тика (пути через точку, например 'k.c')
+ */
+export interface FeedSchema {
+  subscribeMessage(symbols: string[]): unknown;
+  /** Сообщение-пинг; без него живость определяется по любому входящему сообщению */
+  pingMessage?(): unknown;
+  /** Отбор сообщений с тиками по значению поля, например { field: 'e', value: 'aggTrade' } */
+  match?: { field: string; value: string | number };
+  /** Поле с массивом тиков, если поставщик присылает их пачкой */
+  batchField?: string;
+  fields: {
+    symbol: string;
+    price: string;
+    timestamp: string;
+    volume?: string;
+    bid?: string;
+    ask?: string;
+    /** Цены свечи для потоков свечей (kline) */
+    open?: string;
+    high?: string;
+    low?: string;
+    /** Сквозной номер сообщения по инструменту — для поиска пропусков */
+    sequence?: string;
+  };
+  timestampUnit?: 'ms' | 's';
+}
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Доля случайного разброса задержки, 0..1 */
+  jitter: number;
+  /** Попыток подряд до отказа; 0 — без ограничения */
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: 0
+};
+
+export interface HeartbeatOptions {
+  intervalMs: number;
+  /** Без входящих сообщений дольше этого соединение считается мёртвым */
+  timeoutMs: number;
+}
+
+export interface FeedTick extends MarketTick {
+  sequence?: number;
+  open?: number;
+  high?: number;
+  low?: number;
+}
+
+/** Минимум от WebSocket, который нужен адаптеру (браузерный WebSocket и ws из Node подходят) */
+export interface FeedSocket {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+export interface WebSocketFeedConfig {
+  name: string;
+  url: string;
+  schema: FeedSchema;
+  backoff?: Partial<BackoffOptions>;
+  heartbeat?: HeartbeatOptions;
+  /** Догрузка пропущенных номеров [fromSequence, toSequence] через REST */
+  backfill?: (symbol: string, fromSequence: number, toSequence: number) => Promise<FeedTick[]>;
+  history?: (symbol: string, interval: string, limit: number) => Promise<CandleData[]>;
+  createSocket?: (url: string) => FeedSocket;
+  random?: () => number;
+}
+
+export type FeedStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface FeedStats {
+  status: FeedStatus;
+  messages: number;
+  ticks: number;
+  reconnects: number;
+  /** Повторы и опоздавшие сообщения, отброшенные по номеру */
+  duplicates: number;
+  gaps: number;
+  backfilled: number;
+  /** Пропуски, которые не удалось догрузить */
+  unrecoveredGaps: number;
+  lastMessageAt: number | null;
+}
+
+const OPEN = 1;
+
+interface SymbolState {
+  lastSequence: number | null;
+  backfilling: boolean;
+  buffer: FeedTick[];
+}
+
+/**
+ * Задержка перед попыткой attempt (с нуля): экспонента с потолком и разбросом
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(options.multiplier, attempt));
+  return Math.max(0, Math.round(base * (1 + options.jitter * (2 * random() - 1))));
+}
+
+const readPath = (source: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+
+const readNumber = (source: unknown, path?: string): number | undefined => {
+  if (!path) return undefined;
+  const value = readPath(source, path);
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Разбор сообщения по схеме; сообщения не того типа и неполные тики пропускаются
+ */
+export function parseFeedMessage(message: unknown, schema: FeedSchema): FeedTick[] {
+  if (schema.match && readPath(message, schema.match.field) !== schema.match.value) return [];
+
+  const items = schema.batchField ? readPath(message, schema.batchField) : [message];
+  if (!Array.isArray(items)) return [];
+
+  const { fields } = schema;
+  return items.flatMap(item => {
+    const symbol = readPath(item, fields.symbol);
+    const price = readNumber(item, fields.price);
+    const timestamp = readNumber(item, fields.timestamp);
+    if (typeof symbol !== 'string' || price === undefined || timestamp === undefined) return [];
+
+    const tick: FeedTick = {
+      symbol,
+      price,
+      volume: readNumber(item, fields.volume) ?? 0,
+      timestamp: schema.timestampUnit === 's' ? timestamp * 1000 : timestamp
+    };
+    const bid = readNumber(item, fields.bid);
+    const ask = readNumber(item, fields.ask);
+    const sequence = readNumber(item, fields.sequence);
+    const open = readNumber(item, fields.open);
+    const high = readNumber(item, fields.high);
+    const low = readNumber(item, fields.low);
+    if (bid !== undefined) tick.bid = bid;
+    if (ask !== undefined) tick.ask = ask;
+    if (sequence !== undefined) tick.sequence = sequence;
+    if (open !== undefined) tick.open = open;
+    if (high !== undefined) tick.high = high;
+    if (low !== undefined) tick.low = low;
+    return [tick];
+  });
+}
+
+/**
+ * Универсальный потоковый поставщик поверх WebSocket: формат задаётся схемой,
+ * переподключение с экспоненциальной задержкой и повторной подпиской,
+ * heartbeat, отбрасывание повторов и догрузка пропусков по номерам сообщений
+ */
+export class WebSocketFeedAdapter implements MarketDataProvider {
+  readonly name: string;
+  private socket: FeedSocket | null = null;
+  private status: FeedStatus = 'idle';
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private connectPromise: Promise<void> | null = null;
+  private pendingConnect: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private listeners = new Map<string, ((data: MarketTick) => void)[]>();
+  private symbols = new Map<string, SymbolState>();
+  private backoff: BackoffOptions;
+  private stats: Omit<FeedStats, 'status'> = {
+    messages: 0,
+    ticks: 0,
+    reconnects: 0,
+    duplicates: 0,
+    gaps: 0,
+    backfilled: 0,
+    unrecoveredGaps: 0,
+    lastMessageAt: null
+  };
+
+  constructor(private config: WebSocketFeedConfig) {
+    this.name = config.name;
+    this.backoff = { ...DEFAULT_BACKOFF, ...config.backoff };
+  }
+
+  /**
+   * Разрешается при первом открытии соединения; при обрывах адаптер
+   * переподключается сам, пока не вызван disconnect()
+   */
+  connect(): Promise<void> {
+    if (this.connectPromise) return this.connectPromise;
+    if (this.status === 'open') return Promise.resolve();
+
+    this.connectPromise = new Promise<void>((resolve, reject) => {
+      this.pendingConnect = { resolve, reject };
+    });
+    // Во время переподключения новый сокет откроет уже запланированная попытка
+    if (this.status !== 'reconnecting') {
+      this.status = 'connecting';
+      this.openSocket();
+    }
+    return this.connectPromise;
+  }
+
+  async disconnect(): Promise<void> {
+    this.status = 'closed';
+    this.clearTimers();
+    this.pendingConnect?.reject(new Error(`${this.name}: соединение закрыто`));
+    this.pendingConnect = null;
+    this.connectPromise = null;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  subscribe(symbols: string[], callback: (data: MarketTick) => void): void {
+    const added = symbols.filter(symbol => !this.listeners.has(symbol));
+    symbols.forEach(symbol => {
+      if (!this.listeners.has(symbol)) {
+        this.listeners.set(symbol, []);
+        this.symbols.set(symbol, { lastSequence: null, backfilling: false, buffer: [] });
+      }
+      this.listeners.get(symbol)!.push(callback);
+    });
+
+    if (this.status === 'open' && added.length > 0) {
+      this.send(this.config.schema.subscribeMessage(added));
+    } else if (this.status === 'idle' || this.status === 'closed') {
+      this.connect().catch(error => console.error(`${this.name} connection failed:`, error));
+    }
+  }
+
+  async getHistoricalData(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+    if (!this.config.history) {
+      throw new Error(`${this.name}: история не поддерживается`);
+    }
+    return this.config.history(symbol, interval, limit);
+  }
+
+  getStats(): FeedStats {
+    return { status: this.status, ...this.stats };
+  }
+
+  private openSocket(): void {
+    const createSocket = this.config.createSocket ?? ((url: string) => new WebSocket(url) as unknown as FeedSocket);
+    let socket: FeedSocket;
+    try {
+      socket = createSocket(this.config.url);
+    } catch (error) {
+      console.error(`${this.name} socket error:`, error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.status = 'open';
+      this.attempt = 0;
+      this.stats.lastMessageAt = Date.now();
+      this.pendingConnect?.resolve();
+      this.pendingConnect = null;
+      this.connectPromise = null;
+
+      // После переподключения подписки восстанавливаются целиком
+      if (this.listeners.size > 0) {
+        this.send(this.config.schema.subscribeMessage(Array.from(this.listeners.keys())));
+      }
+      this.startHeartbeat();
+    };
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) return;
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = error => {
+      if (this.socket !== socket) return;
+      console.error(`${this.name} WebSocket error:`, error);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearTimers();
+      if (this.status !== 'closed') this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.backoff.maxAttempts > 0 && this.attempt >= this.backoff.maxAttempts) {
+      this.status = 'closed';
+      this.pendingConnect?.reject(new Error(`${this.name}: не удалось подключиться за ${this.attempt} попыток`));
+      this.pendingConnect = null;
+      this.connectPromise = null;
+      return;
+    }
+
+    const delay = computeBackoffDelay(this.attempt++, this.backoff, this.config.random);
+    this.status = 'reconnecting';
+    this.stats.reconnects++;
+    console.warn(`🔄 ${this.name}: reconnecting in ${delay} ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    const { heartbeat, schema } = this.config;
+    if (!heartbeat) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      const silence = Date.now() - (this.stats.lastMessageAt ?? 0);
+      if (silence > heartbeat.timeoutMs) {
+        // Не ждём закрытия от молчащего сервера: старый сокет сразу отвязывается
+        console.warn(`💔 ${this.name}: no messages for ${silence} ms, reconnecting`);
+        const socket = this.socket;
+        this.socket = null;
+        this.clearTimers();
+        socket?.close();
+        this.scheduleReconnect();
+        return;
+      }
+      if (schema.pingMessage) this.send(schema.pingMessage());
+    }, heartbeat.intervalMs);
+  }
+
+  private handleMessage(data: unknown): void {
+    this.stats.messages++;
+    this.stats.lastMessageAt = Date.now();
+
+    let message: unknown;
+    try {
+      message = typeof data === 'string' ? JSON.parse(data) : JSON.parse(String(data));
+    } catch (error) {
+      console.error(`${this.name}: invalid message`, error);
+      return;
+    }
+
+    parseFeedMessage(message, this.config.schema).forEach(tick => this.acceptTick(tick));
+  }
+
+  private acceptTick(tick: FeedTick): void {
+    const state = this.symbols.get(tick.symbol);
+    if (!state) return;
+
+    if (tick.sequence === undefined) {
+      this.emit(tick);
+      return;
+    }
+    if (state.backfilling) {
+      state.buffer.push(tick);
+      return;
+    }
+
+    const last = state.lastSequence;
+    if (last !== null && tick.sequence <= last) {
+      this.stats.duplicates++;
+      return;
+    }
+    if (last !== null && tick.sequence > last + 1) {
+      this.stats.gaps++;
+      if (this.config.backfill) {
+        state.buffer.push(tick);
+        void this.backfillGap(tick.symbol, state, last + 1, tick.sequence - 1);
+        return;
+      }
+      this.stats.unrecoveredGaps++;
+    }
+
+    state.lastSequence = tick.sequence;
+    this.emit(tick);
+  }
+
+  private async backfillGap(symbol: string, state: SymbolState, from: number, to: number): Promise<void> {
+    state.backfilling = true;
+    try {
+      const missing = await this.config.backfill!(symbol, from, to);
+      missing
+        .filter(tick => tick.sequence !== undefined && tick.sequence >= from && tick.sequence <= to)
+        .sort((a, b) => a.sequence! - b.sequence!)
+        .forEach(tick => {
+          if (tick.sequence! <= state.lastSequence!) return;
+          state.lastSequence = tick.sequence!;
+          this.stats.backfilled++;
+          this.emit(tick);
+        });
+    } catch (error) {
+      console.error(`${this.name}: backfill ${symbol} ${from}-${to} failed`, error);
+    }
+
+    if (state.lastSequence! < to) this.stats.unrecoveredGaps++;
+    // Недогруженный пропуск принимается, чтобы поток не встал
+    state.lastSequence = Math.max(state.lastSequence!, to);
+    state.backfilling = false;
+
+    const buffered = state.buffer.sort((a, b) => a.sequence! - b.sequence!);
+    state.buffer = [];
+    buffered.forEach(tick => this.acceptTick(tick));
+  }
+
+  private emit(tick: FeedTick): void {
+    this.stats.ticks++;
+    this.listeners.get(tick.symbol)?.forEach(callback => {
+      try {
+        callback(tick);
+      } catch (error) {
+        console.error('Error in market data callback:', error);
+      }
+    });
+  }
+
+  private send(message: unknown): void {
+    if (this.socket && this.socket.readyState === OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
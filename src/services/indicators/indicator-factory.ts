@@ -7,14 +7,25 @@ import { RSIIndicator, RSIConfig } from './rsi/rsi-indicator';
 import { MACDIndicator, MACDConfig } from './macd/macd-indicator';
 import { BollingerBandsIndicator, BollingerBandsConfig } from './bollinger/bollinger-indicator';
 import { StochasticIndicator, StochasticConfig } from './stochastic/stochastic-indicator';
+import { MovingAverageIndicator, MovingAverageConfig } from './moving-average/moving-average-indicator';
 import { 
   IndicatorType, 
+  IndicatorConfig,
   FactoryConfig, 
   BatchCalculationRequest, 
   BatchCalculationResult,
   MarketDataPoint
 } from './core/types';
 
+export type FactoryIndicator =
+  | RSIIndicator
+  | MACDIndicator
+  | BollingerBandsIndicator
+  | StochasticIndicator
+  | MovingAverageIndicator;
+
+const AVAILABLE_INDICATORS: IndicatorType[] = ['rsi', 'macd', 'bollinger', 'stochastic', 'sma', 'ema'];
+
 export class IndicatorFactory {
   private config: FactoryConfig;
 
@@ -41,6 +52,40 @@ export class IndicatorFactory {
     return new StochasticIndicator(config as StochasticConfig);
   }
 
+  createSMA(config: Partial<MovingAverageConfig> = {}): MovingAverageIndicator {
+    return new MovingAverageIndicator({ ...config, method: 'sma' } as MovingAverageConfig);
+  }
+
+  createEMA(config: Partial<MovingAverageConfig> = {}): MovingAverageIndicator {
+    return new MovingAverageIndicator({ ...config, method: 'ema' } as MovingAverageConfig);
+  }
+
+  /**
+   * Indicator types this factory can create
+   */
+  getAvailableIndicators(): IndicatorType[] {
+    return [...AVAILABLE_INDICATORS];
+  }
+
+  create(type: IndicatorType, config: Partial<IndicatorConfig> = {}): FactoryIndicator {
+    switch (type) {
+      case 'rsi':
+        return this.createRSI(config as RSIConfig);
+      case 'macd':
+        return this.createMACD(config as MACDConfig);
+      case 'bollinger':
+        return this.createBollingerBands(config as BollingerBandsConfig);
+      case 'stochastic':
+        return this.createStochastic(config as StochasticConfig);
+      case 'sma':
+        return this.createSMA(config as MovingAverageConfig);
+      case 'ema':
+        return this.createEMA(config as MovingAverageConfig);
+      default:
+        throw new Error(`Unsupported indicator type: ${type}`);
+    }
+  }
+
   async calculateBatch(request: BatchCalculationRequest): Promise<BatchCalculationResult> {
     const startTime = performance.now();
     const results = new Map();
@@ -48,24 +93,7 @@ export class IndicatorFactory {
 
     for (const indicatorRequest of request.indicators) {
       try {
-        let indicator;
-        switch (indicatorRequest.type) {
-          case 'rsi':
-            indicator = this.createRSI(indicatorRequest.config as RSIConfig);
-            break;
-          case 'macd':
-            indicator = this.createMACD(indicatorRequest.config as MACDConfig);
-            break;
-          case 'bollinger':
-            indicator = this.createBollingerBands(indicatorRequest.config as BollingerBandsConfig);
-            break;
-          case 'stochastic':
-            indicator = this.createStochastic(indicatorRequest.config as StochasticConfig);
-            break;
-          default:
-            throw new Error(`Unsupported indicator type: ${indicatorRequest.type}`);
-        }
-
+        const indicator = this.create(indicatorRequest.type, indicatorRequest.config);
         const result = await indicator.calculate(request.data);
         results.set(indicatorRequest.type, result);
       } catch (error) {
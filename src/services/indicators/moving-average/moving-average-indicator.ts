@@ -0,0 +1,92 @@
+/**
+ * Moving Average Indicator
+ * Simple and exponential moving averages of the closing price.
+ */
+
+import { BaseIndicator } from '../core/base-indicator';
+import { MarketDataPoint, BaseIndicatorConfig, IndicatorError } from '../core/types';
+
+export interface MovingAverageConfig extends BaseIndicatorConfig {
+  period: number;
+  method: 'sma' | 'ema';
+}
+
+export class MovingAverageIndicator extends BaseIndicator<number, MovingAverageConfig> {
+  protected getDefaultConfig(): MovingAverageConfig {
+    return {
+      period: 20,
+      method: 'sma',
+      enableCaching: true,
+      enableStreaming: true,
+      validationLevel: 'normal'
+    };
+  }
+
+  protected getMinDataPoints(): number {
+    return this.config.period;
+  }
+
+  protected getIndicatorName(): string {
+    return this.config.method === 'ema' ? 'EMA' : 'SMA';
+  }
+
+  protected async performCalculation(data: MarketDataPoint[]): Promise<{
+    values: number[];
+    error?: IndicatorError;
+  }> {
+    try {
+      const closes = data.map(d => d.close);
+      const values = this.config.method === 'ema' ? this.calculateEMA(closes) : this.calculateSMA(closes);
+      return { values };
+    } catch (error) {
+      return {
+        values: [],
+        error: {
+          code: 'MOVING_AVERAGE_ERROR',
+          message: error instanceof Error ? error.message : 'Calculation failed',
+          context: { period: this.config.period, method: this.config.method },
+          suggestions: ['Check data sufficiency', 'Verify period setting']
+        }
+      };
+    }
+  }
+
+  private calculateSMA(closes: number[]): number[] {
+    const period = this.config.period;
+    const values: number[] = [];
+    let sum = 0;
+
+    for (let i = 0; i < closes.length; i++) {
+      sum += closes[i];
+      if (i >= period) sum -= closes[i - period];
+      values.push(i < period - 1 ? NaN : sum / period);
+    }
+
+    return values;
+  }
+
+  /**
+   * EMA seeded with the SMA of the first period values
+   */
+  private calculateEMA(closes: number[]): number[] {
+    const period = this.config.period;
+    const alpha = 2 / (period + 1);
+    const values: number[] = [];
+    let ema = NaN;
+
+    for (let i = 0; i < closes.length; i++) {
+      if (i < period - 1) {
+        values.push(NaN);
+        continue;
+      }
+      if (i === period - 1) {
+        ema = closes.slice(0, period).reduce((sum, val) => sum + val, 0) / period;
+      } else {
+        ema = closes[i] * alpha + ema * (1 - alpha);
+      }
+      values.push(ema);
+    }
+
+    return values;
+  }
+}
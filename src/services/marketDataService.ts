@@ -1,4 +1,7 @@
 import { CandleData } from '@/types/session';
+import { MarketDataProviderRegistry } from './data/MarketDataProviderRegistry';
+import type { MarketDataProvider } from './data/RealTimeMarketService';
+import { FeedSchema, FeedTick, WebSocketFeedAdapter } from './data/WebSocketFeedAdapter';
 
 interface MarketDataConfig {
   symbol: string;
@@ -29,9 +32,20 @@ interface EconomicEvent {
   previous?: number;
 }
 
+// Свечи Binance (kline): k.t — время открытия свечи, k.c — текущая цена закрытия
+export const binanceKlineSchema = (interval: string): FeedSchema => ({
+  subscribeMessage: symbols => ({
+    method: 'SUBSCRIBE',
+    params: symbols.map(symbol => `${symbol.toLowerCase()}@kline_${interval}`),
+    id: Date.now()
+  }),
+  match: { field: 'e', value: 'kline' },
+  fields: { symbol: 's', price: 'k.c', open: 'k.o', high: 'k.h', low: 'k.l', volume: 'k.v', timestamp: 'k.t' }
+});
+
 export class MarketDataService {
   private static instance: MarketDataService;
-  private websockets: Map<string, WebSocket> = new Map();
+  private feeds: Map<string, WebSocketFeedAdapter> = new Map();
   private dataCache: Map<string, CandleData[]> = new Map();
   private subscribers: Map<string, Array<(data: any) => void>> = new Map();
   private readonly baseUrls = {
@@ -41,6 +55,8 @@ export class MarketDataService {
     economicCalendar: 'https://api.forexfactory.com/calendar'
   };
 
+  private registry = this.createProviderRegistry();
+
   static getInstance(): MarketDataService {
     if (!MarketDataService.instance) {
       MarketDataService.instance = new MarketDataService();
@@ -70,53 +86,39 @@ export class MarketDataService {
     }
   }
 
-  // Подключение к Binance WebSocket
+  // Подключение к потоку свечей Binance: переподключение и heartbeat берёт на себя адаптер
   private async connectBinanceWS(symbol: string, interval: string, wsKey: string): Promise<void> {
-    const wsUrl = `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@kline_${interval}`;
-    const ws = new WebSocket(wsUrl);
-    
-    ws.onopen = () => {
-      console.log(`Binance WebSocket connected for ${symbol}`);
-    };
-    
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        const kline = data.k;
-        
-        const candleData: CandleData = {
-          id: `${symbol}_${kline.t}`,
-          session_id: 'realtime',
-          candle_index: Math.floor(Date.now() / 1000),
-          open: parseFloat(kline.o),
-          high: parseFloat(kline.h),
-          low: parseFloat(kline.l),
-          close: parseFloat(kline.c),
-          volume: parseFloat(kline.v),
-          candle_datetime: new Date(kline.t).toISOString(),
-          timestamp: new Date(kline.t).toISOString(),
-          created_at: new Date().toISOString()
-        };
-        
-        this.updateCandleCache(wsKey, candleData);
-        this.notifySubscribers(wsKey, candleData);
-        
-      } catch (error) {
-        console.error('Error parsing Binance data:', error);
-      }
-    };
-    
-    ws.onerror = (error) => {
-      console.error('Binance WebSocket error:', error);
-      this.reconnectWebSocket(wsKey, () => this.connectBinanceWS(symbol, interval, wsKey));
-    };
-    
-    ws.onclose = () => {
-      console.log('Binance WebSocket closed');
-      this.reconnectWebSocket(wsKey, () => this.connectBinanceWS(symbol, interval, wsKey));
-    };
-    
-    this.websockets.set(wsKey, ws);
+    await this.feeds.get(wsKey)?.disconnect();
+
+    const feed = new WebSocketFeedAdapter({
+      name: `Binance ${wsKey}`,
+      url: 'wss://stream.binance.com:9443/ws',
+      schema: binanceKlineSchema(interval),
+      heartbeat: { intervalMs: 10000, timeoutMs: 60000 }
+    });
+
+    feed.subscribe([symbol.toUpperCase()], tick => {
+      const kline = tick as FeedTick;
+      const candleData: CandleData = {
+        id: `${symbol}_${kline.timestamp}`,
+        session_id: 'realtime',
+        candle_index: Math.floor(Date.now() / 1000),
+        open: kline.open ?? kline.price,
+        high: kline.high ?? kline.price,
+        low: kline.low ?? kline.price,
+        close: kline.price,
+        volume: kline.volume,
+        candle_datetime: new Date(kline.timestamp).toISOString(),
+        timestamp: new Date(kline.timestamp).toISOString(),
+        created_at: new Date().toISOString()
+      };
+
+      this.updateCandleCache(wsKey, candleData);
+      this.notifySubscribers(wsKey, candleData);
+    });
+
+    // Сокет открывает подписка; ждать соединения здесь не нужно
+    this.feeds.set(wsKey, feed);
   }
 
   // Загрузка исторических данных
@@ -137,15 +139,8 @@ export class MarketDataService {
     }
     
     try {
-      let historicalData: CandleData[];
-      
-      if (this.isCryptoSymbol(symbol)) {
-        historicalData = await this.getBinanceHistorical(symbol, interval, limit);
-      } else if (this.isForexSymbol(symbol)) {
-        historicalData = await this.getAlphaVantageHistorical(symbol, interval, limit);
-      } else {
-        historicalData = await this.getYahooHistorical(symbol, interval, limit);
-      }
+      // Поставщик выбирается реестром по здоровью; при ошибке или пустом ответе — следующий
+      const historicalData = await this.registry.getHistoricalData(symbol, interval, limit);
       
       // Кэшируем данные
       this.dataCache.set(cacheKey, historicalData);
@@ -158,6 +153,42 @@ export class MarketDataService {
     }
   }
 
+  getProviderRegistry(): MarketDataProviderRegistry {
+    return this.registry;
+  }
+
+  // REST-источники истории; потоки этот сервис открывает сам (connectRealTime)
+  private createProviderRegistry(): MarketDataProviderRegistry {
+    const restProvider = (
+      name: string,
+      fetchHistory: (symbol: string, interval: string, limit: number) => Promise<CandleData[]>
+    ): MarketDataProvider => ({
+      name,
+      connect: async () => {},
+      disconnect: async () => {},
+      subscribe: () => {},
+      getHistoricalData: fetchHistory
+    });
+
+    const registry = new MarketDataProviderRegistry();
+    registry.register(
+      restProvider('Binance', (symbol, interval, limit) => this.getBinanceHistorical(symbol, interval, limit)),
+      { symbols: symbol => this.isCryptoSymbol(symbol), rateLimit: { maxRequests: 1200, windowMs: 60 * 1000 } }
+    );
+    registry.register(
+      restProvider('Alpha Vantage', (symbol, interval, limit) => this.getAlphaVantageHistorical(symbol, interval, limit)),
+      {
+        symbols: symbol => !this.isCryptoSymbol(symbol) && this.isForexSymbol(symbol),
+        rateLimit: { maxRequests: 5, windowMs: 60 * 1000 }
+      }
+    );
+    registry.register(
+      restProvider('Yahoo Finance', (symbol, interval, limit) => this.getYahooHistorical(symbol, interval, limit)),
+      { symbols: () => true, priority: 1 }
+    );
+    return registry;
+  }
+
   // Получение данных с Binance
   private async getBinanceHistorical(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
     const url = `${this.baseUrls.binance}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`;
@@ -356,18 +387,6 @@ export class MarketDataService {
     }
   }
 
-  private reconnectWebSocket(wsKey: string, connectFn: () => Promise<void>): void {
-    setTimeout(async () => {
-      try {
-        await connectFn();
-        console.log(`Reconnected WebSocket for ${wsKey}`);
-      } catch (error) {
-        console.error(`Failed to reconnect WebSocket for ${wsKey}:`, error);
-        this.reconnectWebSocket(wsKey, connectFn);
-      }
-    }, 5000); // Переподключение через 5 секунд
-  }
-
   private async connectAlphaVantageWS(symbol: string, interval: string, wsKey: string): Promise<void> {
     // Alpha Vantage не поддерживает WebSocket, используем polling
     const pollInterval = this.getPollingInterval(interval);
@@ -614,10 +633,8 @@ export class MarketDataService {
   // Очистка ресурсов
   disconnect(): void {
     // Закрываем WebSocket соединения
-    this.websockets.forEach((ws, key) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
-      }
+    this.feeds.forEach((feed, key) => {
+      void feed.disconnect();
       console.log(`Disconnected WebSocket for ${key}`);
     });
     
@@ -631,7 +648,7 @@ export class MarketDataService {
       pollingIntervals.clear();
     }
     
-    this.websockets.clear();
+    this.feeds.clear();
     this.subscribers.clear();
     
     // Сохраняем кэш данных для быстрого восстановления соединения
@@ -1,4 +1,13 @@
 import { CandleData } from '@/types/session';
+import {
+  TradeSide,
+  TripleBarrierConfig,
+  DEFAULT_TRIPLE_BARRIER_CONFIG,
+  getExpiryLabels,
+  getMetaLabels,
+  getSampleUniquenessWeights,
+  getTripleBarrierLabels
+} from './labeling/TripleBarrierLabeling';
 
 // Type for ML pipeline - using any to avoid complex type issues
 type MLPipeline = any;
@@ -13,6 +22,10 @@ export interface TrainingExperiment {
   startTime: Date;
   endTime?: Date;
   features: string[];
+  crossValidation?: CrossValidationResult;
+  /** Parent study when the experiment is a hyperparameter-search trial */
+  studyId?: string;
+  trialNumber?: number;
 }
 
 export interface ModelMetrics {
@@ -38,8 +51,19 @@ export interface ModelConfig {
   epochs?: number;
   batchSize?: number;
   learningRate?: number;
+  crossValidation?: CrossValidationConfig & { method: CrossValidationMethod };
+  labeling?: LabelingConfig;
 }
 
+/**
+ * Target generation; next_candle is the plain up/down label
+ */
+export type LabelingConfig =
+  | { method: 'next_candle' }
+  | { method: 'triple_barrier'; barriers?: Partial<TripleBarrierConfig> }
+  | { method: 'expiry'; expiryCandles: number }
+  | { method: 'meta'; primarySides: Array<TradeSide | 0>; barriers?: Partial<TripleBarrierConfig> };
+
 export interface FeatureVector {
   timestamp: number;
   features: number[];
@@ -47,9 +71,68 @@ export interface FeatureVector {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Feature groups selectable through ModelConfig.features; configs that name
+ * none of them (legacy names) get every group
+ */
+export const FEATURE_GROUPS = ['ohlcv', 'technical', 'patterns', 'volume', 'time'] as const;
+export type FeatureGroup = typeof FEATURE_GROUPS[number];
+
+export type CrossValidationMethod = 'purged_kfold' | 'combinatorial_purged';
+
+export interface CrossValidationConfig {
+  /** Number of contiguous groups the series is cut into */
+  groups: number;
+  /** Groups held out per split (combinatorial purged CV only) */
+  testGroups?: number;
+  /** How many candles ahead a label looks; overlapping training samples are purged */
+  labelHorizon?: number;
+  /** Candles dropped from training right after each test block */
+  embargo?: number;
+  /** Decision thresholds evaluated as competing trials for the PBO estimate */
+  candidateThresholds?: number[];
+}
+
+export interface PurgedSplit {
+  trainIndices: number[];
+  testIndices: number[];
+  /** Test blocks as [start, end) sample ranges */
+  testRanges: Array<[number, number]>;
+  purgedCount: number;
+}
+
+export interface CrossValidationFold {
+  fold: number;
+  testRanges: Array<[number, number]>;
+  trainSize: number;
+  testSize: number;
+  purgedCount: number;
+  metrics: ModelMetrics;
+}
+
+export interface CrossValidationResult {
+  method: CrossValidationMethod;
+  folds: CrossValidationFold[];
+  mean: ModelMetrics;
+  std: ModelMetrics;
+  /** Probability of backtest overfitting across candidate thresholds (CSCV) */
+  pbo: number;
+}
+
+type TrainingOptions = Pick<ModelConfig, 'epochs' | 'learningRate'>;
+
+interface EventLabel {
+  label: number;
+  endIndex: number;
+  return: number;
+  weight: number;
+}
+
+const DEFAULT_CANDIDATE_THRESHOLDS = [0.4, 0.45, 0.5, 0.55, 0.6];
+
 export class AdvancedMLTrainingService {
   private experiments: Map<string, TrainingExperiment> = new Map();
-  private models: Map<string, any> = new Map();
+  private models: Map<string, { weights: number[] }> = new Map();
   private featurePipeline: MLPipeline | null = null;
 
   async initialize() {
@@ -76,26 +159,32 @@ export class AdvancedMLTrainingService {
     }
 
     const features: FeatureVector[] = [];
+    const eventLabels = this.buildEventLabels(candles, config.labeling);
+    const groups = this.resolveFeatureGroups(config.features);
     
     for (let i = config.lookbackPeriod; i < candles.length - 1; i++) {
+      const event = eventLabels?.get(i);
+      // Events without a complete label window are skipped
+      if (eventLabels && !event) continue;
+
       const lookbackCandles = candles.slice(i - config.lookbackPeriod, i);
       const currentCandle = candles[i];
       const nextCandle = candles[i + 1];
 
       // Basic OHLCV features
-      const ohlcvFeatures = this.extractOHLCVFeatures(lookbackCandles);
+      const ohlcvFeatures = groups.has('ohlcv') ? this.extractOHLCVFeatures(lookbackCandles) : [];
       
       // Technical indicator features
-      const technicalFeatures = this.extractTechnicalFeatures(lookbackCandles, i);
+      const technicalFeatures = groups.has('technical') ? this.extractTechnicalFeatures(lookbackCandles, i) : [];
       
       // Price pattern features
-      const patternFeatures = this.extractPatternFeatures(lookbackCandles);
+      const patternFeatures = groups.has('patterns') ? this.extractPatternFeatures(lookbackCandles) : [];
       
       // Volume profile features
-      const volumeFeatures = this.extractVolumeFeatures(lookbackCandles);
+      const volumeFeatures = groups.has('volume') ? this.extractVolumeFeatures(lookbackCandles) : [];
       
       // Time-based features
-      const timeFeatures = this.extractTimeFeatures(Number(currentCandle.timestamp));
+      const timeFeatures = groups.has('time') ? this.extractTimeFeatures(Number(currentCandle.timestamp)) : [];
 
       // Combine all features
       const allFeatures = [
@@ -107,7 +196,7 @@ export class AdvancedMLTrainingService {
       ];
 
       // Create label (1 for up, 0 for down)
-      const label = nextCandle.close > currentCandle.close ? 1 : 0;
+      const label = event ? event.label : nextCandle.close > currentCandle.close ? 1 : 0;
 
       features.push({
         timestamp: Number(currentCandle.timestamp),
@@ -118,7 +207,12 @@ export class AdvancedMLTrainingService {
           high: currentCandle.high,
           low: currentCandle.low,
           close: currentCandle.close,
-          volume: currentCandle.volume
+          volume: currentCandle.volume,
+          ...(event && {
+            labelEndIndex: event.endIndex,
+            labelReturn: event.return,
+            sampleWeight: event.weight
+          })
         }
       });
     }
@@ -126,6 +220,44 @@ export class AdvancedMLTrainingService {
     return features;
   }
 
+  private resolveFeatureGroups(names: string[]): Set<FeatureGroup> {
+    const selected = FEATURE_GROUPS.filter(group => names.includes(group));
+    return new Set(selected.length > 0 ? selected : FEATURE_GROUPS);
+  }
+
+  /**
+   * Event-based labels keyed by candle index, with uniqueness weights normalized to mean 1
+   */
+  private buildEventLabels(
+    candles: CandleData[],
+    labeling?: LabelingConfig
+  ): Map<number, EventLabel> | null {
+    if (!labeling || labeling.method === 'next_candle') return null;
+
+    const events: Array<Omit<EventLabel, 'weight'> & { index: number }> = labeling.method === 'expiry'
+      ? getExpiryLabels(candles, labeling.expiryCandles).map(e => ({ ...e, label: e.label === 1 ? 1 : 0 }))
+      : labeling.method === 'meta'
+        ? getMetaLabels(candles, labeling.primarySides, labeling.barriers)
+        : getTripleBarrierLabels(candles, labeling.barriers).map(e => ({ ...e, label: e.label === 1 ? 1 : 0 }));
+
+    const uniqueness = getSampleUniquenessWeights(events);
+    const meanUniqueness = uniqueness.length > 0 ? this.mean(uniqueness) : 1;
+
+    return new Map(events.map((e, k): [number, EventLabel] => [
+      e.index,
+      { label: e.label, endIndex: e.endIndex, return: e.return, weight: uniqueness[k] / meanUniqueness }
+    ]));
+  }
+
+  /**
+   * How many candles ahead labels look, used as the default purge horizon
+   */
+  private getLabelHorizon(labeling?: LabelingConfig): number {
+    if (!labeling || labeling.method === 'next_candle') return 1;
+    if (labeling.method === 'expiry') return labeling.expiryCandles;
+    return labeling.barriers?.maxHoldingPeriod ?? DEFAULT_TRIPLE_BARRIER_CONFIG.maxHoldingPeriod;
+  }
+
   private extractOHLCVFeatures(candles: CandleData[]): number[] {
     const features: number[] = [];
     
@@ -297,7 +429,7 @@ export class AdvancedMLTrainingService {
       const testData = features.slice(i, i + windowSize);
 
       // Simple logistic regression model
-      const model = await this.trainSimpleModel(trainData);
+      const model = await this.trainSimpleModel(trainData, config);
       
       for (const sample of testData) {
         if (sample.label !== undefined) {
@@ -311,19 +443,193 @@ export class AdvancedMLTrainingService {
     return this.calculateMetrics(predictions, actuals, features);
   }
 
-  private async trainSimpleModel(data: FeatureVector[]) {
+  /**
+   * Purged K-fold: each group is the test block once; training samples whose
+   * labels overlap the block are purged and an embargo follows it
+   */
+  async purgedKFoldValidation(
+    features: FeatureVector[],
+    cvConfig: CrossValidationConfig,
+    training: TrainingOptions = {}
+  ): Promise<CrossValidationResult> {
+    const labeled = features.filter(f => f.label !== undefined);
+    const splits = this.getPurgedSplits(labeled.length, { ...cvConfig, testGroups: 1 });
+    return this.runCrossValidation('purged_kfold', labeled, splits, cvConfig, training);
+  }
+
+  /**
+   * Combinatorial purged CV: every combination of testGroups out of groups is held out
+   */
+  async combinatorialPurgedValidation(
+    features: FeatureVector[],
+    cvConfig: CrossValidationConfig,
+    training: TrainingOptions = {}
+  ): Promise<CrossValidationResult> {
+    const labeled = features.filter(f => f.label !== undefined);
+    const splits = this.getPurgedSplits(labeled.length, { ...cvConfig, testGroups: cvConfig.testGroups ?? 2 });
+    return this.runCrossValidation('combinatorial_purged', labeled, splits, cvConfig, training);
+  }
+
+  /**
+   * Train/test index sets with purging and embargo around every test block
+   */
+  getPurgedSplits(sampleCount: number, cvConfig: CrossValidationConfig): PurgedSplit[] {
+    const { groups, testGroups = 1, labelHorizon = 1, embargo = 0 } = cvConfig;
+    if (groups < 2 || testGroups < 1 || testGroups >= groups) {
+      throw new Error(`Invalid cross-validation groups: ${testGroups} of ${groups}`);
+    }
+    if (sampleCount < groups) {
+      throw new Error(`Insufficient data: need at least ${groups} samples`);
+    }
+
+    const bounds = Array.from({ length: groups + 1 }, (_, g) => Math.floor(g * sampleCount / groups));
+
+    return this.combinations(groups, testGroups).map(combo => {
+      const testRanges = combo.map(g => [bounds[g], bounds[g + 1]] as [number, number]);
+      // 0 - train, 1 - test, 2 - purged or embargoed
+      const state = new Uint8Array(sampleCount);
+
+      testRanges.forEach(([start, end]) => {
+        // Label of sample i spans [i, i + labelHorizon]
+        const from = Math.max(0, start - labelHorizon);
+        const to = Math.min(sampleCount, end + labelHorizon + embargo);
+        for (let i = from; i < to; i++) {
+          if (state[i] === 0) state[i] = 2;
+        }
+        for (let i = start; i < end; i++) state[i] = 1;
+      });
+
+      const trainIndices: number[] = [];
+      const testIndices: number[] = [];
+      let purgedCount = 0;
+      state.forEach((value, i) => {
+        if (value === 0) trainIndices.push(i);
+        else if (value === 1) testIndices.push(i);
+        else purgedCount++;
+      });
+
+      return { trainIndices, testIndices, testRanges, purgedCount };
+    });
+  }
+
+  /**
+   * PBO via CSCV: share of splits where the trial that is best in-sample
+   * ranks at or below the out-of-sample median (logit of relative rank <= 0)
+   */
+  estimateProbabilityOfOverfitting(inSample: number[][], outOfSample: number[][]): number {
+    if (inSample.length === 0 || inSample[0].length < 2) return 0;
+
+    const overfitSplits = inSample.filter((trials, split) => {
+      const best = trials.indexOf(Math.max(...trials));
+      const oos = outOfSample[split];
+      const below = oos.filter(v => v < oos[best]).length;
+      const ties = oos.filter(v => v === oos[best]).length;
+      const omega = (below + (ties + 1) / 2) / (oos.length + 1);
+      return Math.log(omega / (1 - omega)) <= 0;
+    });
+
+    return overfitSplits.length / inSample.length;
+  }
+
+  private async runCrossValidation(
+    method: CrossValidationMethod,
+    features: FeatureVector[],
+    splits: PurgedSplit[],
+    cvConfig: CrossValidationConfig,
+    training: TrainingOptions
+  ): Promise<CrossValidationResult> {
+    const thresholds = cvConfig.candidateThresholds ?? DEFAULT_CANDIDATE_THRESHOLDS;
+    const folds: CrossValidationFold[] = [];
+    const inSample: number[][] = [];
+    const outOfSample: number[][] = [];
+
+    for (const [index, split] of splits.entries()) {
+      const trainSegments = this.toSegments(features, split.trainIndices);
+      const testSegments = this.toSegments(features, split.testIndices);
+      const model = await this.trainSimpleModel(trainSegments.flat(), training);
+
+      folds.push({
+        fold: index + 1,
+        testRanges: split.testRanges,
+        trainSize: split.trainIndices.length,
+        testSize: split.testIndices.length,
+        purgedCount: split.purgedCount,
+        metrics: this.evaluateSegments(model, testSegments, 0.5)
+      });
+
+      inSample.push(thresholds.map(t => this.evaluateSegments(model, trainSegments, t).sharpeRatio));
+      outOfSample.push(thresholds.map(t => this.evaluateSegments(model, testSegments, t).sharpeRatio));
+    }
+
+    const foldMetrics = folds.map(f => f.metrics);
+    return {
+      method,
+      folds,
+      mean: this.aggregateMetrics(foldMetrics, values => this.mean(values)),
+      std: this.aggregateMetrics(foldMetrics, values => this.standardDeviation(values)),
+      pbo: this.estimateProbabilityOfOverfitting(inSample, outOfSample)
+    };
+  }
+
+  /**
+   * Contiguous runs of samples, so strategy returns never bridge a purged gap
+   */
+  private toSegments(features: FeatureVector[], indices: number[]): FeatureVector[][] {
+    const segments: FeatureVector[][] = [];
+    indices.forEach((index, i) => {
+      if (i === 0 || index !== indices[i - 1] + 1) segments.push([]);
+      segments[segments.length - 1].push(features[index]);
+    });
+    return segments;
+  }
+
+  private evaluateSegments(model: { weights: number[] }, segments: FeatureVector[][], threshold: number): ModelMetrics {
+    const predictions: number[] = [];
+    const actuals: number[] = [];
+    const returns: number[] = [];
+
+    for (const segment of segments) {
+      const segmentPredictions = segment.map(sample => this.predictSimple(model, sample.features, threshold));
+      predictions.push(...segmentPredictions);
+      actuals.push(...segment.map(sample => sample.label!));
+      returns.push(...this.calculateStrategyReturns(segmentPredictions, segment));
+    }
+
+    return this.buildMetrics(predictions, actuals, returns);
+  }
+
+  private aggregateMetrics(metrics: ModelMetrics[], reduce: (values: number[]) => number): ModelMetrics {
+    const keys = Object.keys(metrics[0]) as Array<keyof ModelMetrics>;
+    return keys.reduce(
+      (result, key) => ({ ...result, [key]: reduce(metrics.map(m => m[key])) }),
+      {} as ModelMetrics
+    );
+  }
+
+  private combinations(n: number, k: number, start = 0): number[][] {
+    if (k === 0) return [[]];
+    const result: number[][] = [];
+    for (let i = start; i <= n - k; i++) {
+      this.combinations(n, k - 1, i + 1).forEach(rest => result.push([i, ...rest]));
+    }
+    return result;
+  }
+
+  private async trainSimpleModel(data: FeatureVector[], options: TrainingOptions = {}) {
     // Simple logistic regression implementation
     const features = data.map(d => d.features);
     const labels = data.map(d => d.label || 0);
+    // Uniqueness weights from event labeling; plain labels weigh 1
+    const sampleWeights = data.map(d => d.metadata?.sampleWeight ?? 1);
     
     const weights = new Array(features[0].length).fill(0);
-    const learningRate = 0.01;
-    const epochs = 100;
+    const learningRate = options.learningRate ?? 0.01;
+    const epochs = options.epochs ?? 100;
 
     for (let epoch = 0; epoch < epochs; epoch++) {
       for (let i = 0; i < features.length; i++) {
         const prediction = this.sigmoid(this.dotProduct(weights, features[i]));
-        const error = labels[i] - prediction;
+        const error = (labels[i] - prediction) * sampleWeights[i];
         
         for (let j = 0; j < weights.length; j++) {
           weights[j] += learningRate * error * features[i][j];
@@ -334,12 +640,16 @@ export class AdvancedMLTrainingService {
     return { weights };
   }
 
-  private predictSimple(model: any, features: number[]): number {
+  private predictSimple(model: { weights: number[] }, features: number[], threshold: number = 0.5): number {
     const logit = this.dotProduct(model.weights, features);
-    return this.sigmoid(logit) > 0.5 ? 1 : 0;
+    return this.sigmoid(logit) > threshold ? 1 : 0;
   }
 
   private calculateMetrics(predictions: number[], actuals: number[], features: FeatureVector[]): ModelMetrics {
+    return this.buildMetrics(predictions, actuals, this.calculateStrategyReturns(predictions, features));
+  }
+
+  private buildMetrics(predictions: number[], actuals: number[], returns: number[]): ModelMetrics {
     const correct = predictions.filter((pred, i) => pred === actuals[i]).length;
     const accuracy = correct / predictions.length;
 
@@ -357,7 +667,6 @@ export class AdvancedMLTrainingService {
     const f1Score = 2 * (precision * recall) / (precision + recall) || 0;
 
     // Trading metrics
-    const returns = this.calculateStrategyReturns(predictions, features);
     const sharpeRatio = this.sharpeRatio(returns);
     const maxDrawdown = this.calculateMaxDrawdown(returns);
     const winRate = tp / (tp + fn) || 0;
@@ -372,8 +681,8 @@ export class AdvancedMLTrainingService {
       winRate,
       totalTrades: predictions.filter(p => p === 1).length,
       profitableTrades: tp,
-      avgReturn: this.mean(returns),
-      volatility: this.standardDeviation(returns)
+      avgReturn: returns.length > 0 ? this.mean(returns) : 0,
+      volatility: returns.length > 0 ? this.standardDeviation(returns) : 0
     };
   }
 
@@ -392,6 +701,24 @@ export class AdvancedMLTrainingService {
   }
 
   async startExperiment(name: string, config: ModelConfig, candles: CandleData[]): Promise<string> {
+    const experimentId = this.createExperiment(name, config);
+
+    // Run training in background
+    this.runExperiment(experimentId, config, candles, true);
+
+    return experimentId;
+  }
+
+  /**
+   * Same as startExperiment but resolves once training is finished (used by hyperparameter search)
+   */
+  async trainAndEvaluate(name: string, config: ModelConfig, candles: CandleData[]): Promise<TrainingExperiment> {
+    const experimentId = this.createExperiment(name, config);
+    await this.runExperiment(experimentId, config, candles);
+    return this.experiments.get(experimentId)!;
+  }
+
+  private createExperiment(name: string, config: ModelConfig): string {
     const experimentId = `exp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const experiment: TrainingExperiment = {
@@ -411,27 +738,43 @@ export class AdvancedMLTrainingService {
 
     this.experiments.set(experimentId, experiment);
 
-    // Run training in background
-    this.runExperiment(experimentId, config, candles);
-
     return experimentId;
   }
 
-  private async runExperiment(experimentId: string, config: ModelConfig, candles: CandleData[]) {
+  /**
+   * Validate the configuration; with fitFinalModel also train a model on all labeled
+   * data, whose weights are kept for getTrainedWeights (search trials only need metrics)
+   */
+  private async runExperiment(experimentId: string, config: ModelConfig, candles: CandleData[], fitFinalModel = false) {
     try {
       const experiment = this.experiments.get(experimentId)!;
       
       // Engineer features
       const features = await this.engineerFeatures(candles, config);
       
-      // Perform walk-forward validation
-      const metrics = await this.walkForwardValidation(features, config);
-      
-      experiment.metrics = metrics;
+      if (config.crossValidation) {
+        // Purged CV keeps the fold breakdown so comparisons can see the variance
+        const { method, ...cvConfig } = config.crossValidation;
+        cvConfig.labelHorizon = cvConfig.labelHorizon ?? this.getLabelHorizon(config.labeling);
+        const result = method === 'combinatorial_purged'
+          ? await this.combinatorialPurgedValidation(features, cvConfig, config)
+          : await this.purgedKFoldValidation(features, cvConfig, config);
+        experiment.crossValidation = result;
+        experiment.metrics = result.mean;
+      } else {
+        // Perform walk-forward validation
+        experiment.metrics = await this.walkForwardValidation(features, config);
+      }
+
+      const labeled = features.filter(f => f.label !== undefined);
+      if (fitFinalModel && labeled.length > 0) {
+        this.models.set(experimentId, await this.trainSimpleModel(labeled, config));
+      }
+
       experiment.status = 'completed';
       experiment.endTime = new Date();
       
-      console.log(`Experiment ${experimentId} completed:`, metrics);
+      console.log(`Experiment ${experimentId} completed:`, experiment.metrics);
       
     } catch (error) {
       const experiment = this.experiments.get(experimentId)!;
@@ -445,6 +788,13 @@ export class AdvancedMLTrainingService {
     return this.experiments.get(id);
   }
 
+  /**
+   * Weights of the final model of a completed experiment started with startExperiment
+   */
+  getTrainedWeights(experimentId: string): { weights: number[] } | undefined {
+    return this.models.get(experimentId);
+  }
+
   getAllExperiments(): TrainingExperiment[] {
     return Array.from(this.experiments.values());
   }
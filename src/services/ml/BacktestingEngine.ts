@@ -1,5 +1,9 @@
 import { CandleData } from '@/types/session';
 import { ModelMetrics } from './AdvancedMLTrainingService';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import { FillModelConfig, IntrabarFillModel } from '@/services/backtesting/FillModel';
+import { FxCostConfig, FxCostModel, TradeCostBreakdown, summarizeCosts } from '@/services/backtesting/FxCostModel';
+import { LotSizingConfig, LotSizingResult, instrumentRegistry } from '@/services/risk/InstrumentRegistry';
 
 export interface BacktestConfig {
   initialCapital: number;
@@ -9,6 +13,19 @@ export interface BacktestConfig {
   transactionCost: number; // Percentage per trade
   maxPositions: number;
   riskPerTrade: number; // Percentage of capital at risk
+  binaryOptions?: BinaryOptionsConfig;
+  fillModel?: Partial<FillModelConfig>; // Stop/take-profit resolution inside a candle
+  symbol?: string; // Instrument traded, used by the FX cost model
+  costModel?: FxCostConfig; // Spread/commission/swap costs instead of flat transactionCost
+  lotSizing?: LotSizingConfig; // Size in broker lots from riskPerTrade and stop distance (requires symbol)
+}
+
+export interface BinaryOptionsConfig {
+  stake: number; // Fixed amount per contract
+  expiryCandles: number; // Contract settles at the close of the N-th candle after entry
+  payoutRatio: number; // Profit on a winning contract as a fraction of stake (0.8 = 80%)
+  tieRule: 'refund' | 'loss'; // Settlement when expiry price equals entry price
+  minConfidence?: number; // Signals below this confidence are skipped (default 0.6)
 }
 
 export interface Trade {
@@ -18,13 +35,17 @@ export interface Trade {
   entryPrice: number;
   exitPrice?: number;
   direction: 'long' | 'short';
-  size: number;
+  size: number; // Units of the base asset
+  lots?: number;
+  quoteToAccountRate?: number; // P&L conversion from quote to account currency (lot sizing only)
   pnl?: number;
   pnlPercent?: number;
   status: 'open' | 'closed' | 'stopped';
   stopLoss?: number;
   takeProfit?: number;
   reason?: 'signal' | 'stop_loss' | 'take_profit' | 'timeout';
+  entrySpread?: number;
+  costs?: TradeCostBreakdown;
 }
 
 export interface BacktestResults {
@@ -47,11 +68,52 @@ export interface BacktestResults {
     sortinoRatio: number;
     valueAtRisk: number;
     transactionCosts: number;
+    costBreakdown?: TradeCostBreakdown; // Present when the FX cost model is used
   };
   equityCurve: { timestamp: number; equity: number; drawdown: number }[];
   monthlyReturns: { month: string; return: number }[];
 }
 
+export interface BinaryContract {
+  id: string;
+  entryTime: number;
+  expiryTime?: number;
+  entryPrice: number;
+  expiryPrice?: number;
+  direction: 'call' | 'put';
+  stake: number;
+  confidence: number;
+  status: 'open' | 'settled';
+  outcome?: 'win' | 'loss' | 'tie';
+  pnl?: number;
+}
+
+export interface BinaryBacktestResults {
+  contracts: BinaryContract[];
+  metrics: {
+    totalContracts: number;
+    wins: number;
+    losses: number;
+    ties: number;
+    unsettled: number; // Contracts whose expiry falls beyond the data
+    winRate: number; // Wins / (wins + losses), refunded ties excluded
+    callWinRate: number;
+    putWinRate: number;
+    breakEvenAccuracy: number; // Win rate at which expectancy is zero
+    edgeOverBreakEven: number;
+    expectancyPerStake: number; // Payout-adjusted expected return per unit staked
+    averagePnl: number;
+    totalReturn: number;
+    totalReturnPercent: number;
+    totalStaked: number;
+    profitFactor: number;
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+    sharpeRatio: number;
+  };
+  equityCurve: { timestamp: number; equity: number; drawdown: number }[];
+}
+
 export interface PredictionSignal {
   timestamp: number;
   direction: 'long' | 'short';
@@ -61,13 +123,21 @@ export interface PredictionSignal {
 
 export class BacktestingEngine {
   private config: BacktestConfig;
+  private fillModel: IntrabarFillModel;
+  private costModel: FxCostModel | null;
   private trades: Trade[] = [];
   private currentEquity: number;
   private peakEquity: number;
   private equityCurve: { timestamp: number; equity: number; drawdown: number }[] = [];
 
   constructor(config: BacktestConfig) {
+    if (config.lotSizing && !config.symbol) {
+      throw new Error('lotSizing requires a symbol');
+    }
+
     this.config = config;
+    this.fillModel = new IntrabarFillModel(config.fillModel);
+    this.costModel = config.costModel ? new FxCostModel(config.costModel) : null;
     this.currentEquity = config.initialCapital;
     this.peakEquity = config.initialCapital;
   }
@@ -90,11 +160,11 @@ export class BacktestingEngine {
 
     for (let i = 0; i < candles.length; i++) {
       const candle = candles[i];
-      const currentTime = candle.timestamp;
+      const currentTime = this.getCandleTime(candle);
 
       // Process any new signals at this time
       while (signalIndex < sortedSignals.length && 
-             sortedSignals[signalIndex].timestamp === Number(currentTime)) {
+             sortedSignals[signalIndex].timestamp === currentTime) {
         const signal = sortedSignals[signalIndex];
         
         if (openTrades.length < this.config.maxPositions) {
@@ -111,7 +181,7 @@ export class BacktestingEngine {
       openTrades = this.updateOpenTrades(openTrades, candle);
 
       // Update equity curve
-      this.updateEquityCurve(Number(currentTime), openTrades);
+      this.updateEquityCurve(currentTime, openTrades);
     }
 
     // Close any remaining open trades
@@ -123,6 +193,163 @@ export class BacktestingEngine {
     return this.calculateResults();
   }
 
+  /**
+   * Run backtest as fixed-stake binary option contracts (CALL/PUT with expiry)
+   */
+  async runBinaryBacktest(
+    candles: CandleData[],
+    signals: PredictionSignal[]
+  ): Promise<BinaryBacktestResults> {
+    const options = this.config.binaryOptions;
+    if (!options) {
+      throw new Error('binaryOptions config is required for binary backtest');
+    }
+    if (!Number.isInteger(options.expiryCandles) || options.expiryCandles < 1) {
+      throw new Error('expiryCandles must be a positive integer');
+    }
+
+    this.reset();
+
+    const minConfidence = options.minConfidence ?? 0.6;
+    const sortedSignals = [...signals].sort((a, b) => a.timestamp - b.timestamp);
+    const contracts: BinaryContract[] = [];
+    let openContracts: { contract: BinaryContract; expiryIndex: number }[] = [];
+    let signalIndex = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+      const candle = candles[i];
+      const currentTime = this.getCandleTime(candle);
+
+      // Settle contracts expiring on this candle
+      openContracts = openContracts.filter(({ contract, expiryIndex }) => {
+        if (expiryIndex !== i) return true;
+        this.settleContract(contract, candle, currentTime, options);
+        return false;
+      });
+
+      while (signalIndex < sortedSignals.length && sortedSignals[signalIndex].timestamp <= currentTime) {
+        const signal = sortedSignals[signalIndex];
+        const lockedStake = openContracts.reduce((sum, c) => sum + c.contract.stake, 0);
+
+        if (signal.timestamp === currentTime &&
+            signal.confidence >= minConfidence &&
+            openContracts.length < this.config.maxPositions &&
+            this.currentEquity - lockedStake >= options.stake) {
+          const contract: BinaryContract = {
+            id: `contract_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+            entryTime: currentTime,
+            entryPrice: candle.close,
+            direction: signal.direction === 'long' ? 'call' : 'put',
+            stake: options.stake,
+            confidence: signal.confidence,
+            status: 'open'
+          };
+          contracts.push(contract);
+          openContracts.push({ contract, expiryIndex: i + options.expiryCandles });
+        }
+
+        signalIndex++;
+      }
+
+      this.updateEquityCurve(currentTime, []);
+    }
+
+    return this.calculateBinaryResults(contracts, options);
+  }
+
+  /**
+   * Number of candles covered by a prediction interval (minutes) on a given timeframe
+   */
+  static expiryCandlesForInterval(predictionInterval: number, timeframe: string): number {
+    return Math.max(1, Math.ceil(predictionInterval / parseTimeframe(timeframe)));
+  }
+
+  private settleContract(
+    contract: BinaryContract,
+    candle: CandleData,
+    time: number,
+    options: BinaryOptionsConfig
+  ): void {
+    const priceMove = candle.close - contract.entryPrice;
+    const directional = contract.direction === 'call' ? priceMove : -priceMove;
+
+    if (directional > 0) {
+      contract.outcome = 'win';
+      contract.pnl = contract.stake * options.payoutRatio;
+    } else if (directional === 0 && options.tieRule === 'refund') {
+      contract.outcome = 'tie';
+      contract.pnl = 0;
+    } else {
+      contract.outcome = 'loss';
+      contract.pnl = -contract.stake;
+    }
+
+    contract.expiryTime = time;
+    contract.expiryPrice = candle.close;
+    contract.status = 'settled';
+    this.currentEquity += contract.pnl;
+  }
+
+  private calculateBinaryResults(
+    contracts: BinaryContract[],
+    options: BinaryOptionsConfig
+  ): BinaryBacktestResults {
+    const settled = contracts.filter(c => c.status === 'settled');
+    const wins = settled.filter(c => c.outcome === 'win');
+    const losses = settled.filter(c => c.outcome === 'loss');
+    const ties = settled.filter(c => c.outcome === 'tie');
+
+    const directionalWinRate = (direction: BinaryContract['direction']): number => {
+      const decided = settled.filter(c => c.direction === direction && c.outcome !== 'tie');
+      return decided.length > 0 ? decided.filter(c => c.outcome === 'win').length / decided.length : 0;
+    };
+
+    const decidedCount = wins.length + losses.length;
+    const winRate = decidedCount > 0 ? wins.length / decidedCount : 0;
+    const breakEvenAccuracy = 1 / (1 + options.payoutRatio);
+    const expectancyPerStake = decidedCount > 0
+      ? winRate * options.payoutRatio - (1 - winRate)
+      : 0;
+
+    const grossProfit = wins.reduce((sum, c) => sum + c.pnl!, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, c) => sum + c.pnl!, 0));
+    const totalReturn = this.currentEquity - this.config.initialCapital;
+    const maxDrawdown = this.equityCurve.length > 0 ? Math.max(...this.equityCurve.map(e => e.drawdown)) : 0;
+
+    return {
+      contracts,
+      metrics: {
+        totalContracts: settled.length,
+        wins: wins.length,
+        losses: losses.length,
+        ties: ties.length,
+        unsettled: contracts.length - settled.length,
+        winRate,
+        callWinRate: directionalWinRate('call'),
+        putWinRate: directionalWinRate('put'),
+        breakEvenAccuracy,
+        edgeOverBreakEven: decidedCount > 0 ? winRate - breakEvenAccuracy : 0,
+        expectancyPerStake,
+        averagePnl: settled.length > 0 ? totalReturn / settled.length : 0,
+        totalReturn,
+        totalReturnPercent: (totalReturn / this.config.initialCapital) * 100,
+        totalStaked: settled.reduce((sum, c) => sum + c.stake, 0),
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : 0,
+        maxDrawdown,
+        maxDrawdownPercent: maxDrawdown * 100,
+        sharpeRatio: this.calculateSharpeRatio(this.calculateDailyReturns())
+      },
+      equityCurve: this.equityCurve
+    };
+  }
+
+  private getCandleTime(candle: CandleData): number {
+    const numeric = Number(candle.timestamp);
+    return Number.isFinite(numeric)
+      ? numeric
+      : new Date(candle.timestamp ?? candle.candle_datetime).getTime();
+  }
+
   private reset(): void {
     this.trades = [];
     this.currentEquity = this.config.initialCapital;
@@ -142,13 +369,24 @@ export class BacktestingEngine {
 
     const trade: Trade = {
       id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
-      entryTime: Number(candle.timestamp),
+      entryTime: this.getCandleTime(candle),
       entryPrice: candle.close,
       direction: signal.direction,
       size: positionValue / candle.close,
-      status: 'open'
+      status: 'open',
+      entrySpread: candle.spread
     };
 
+    if (this.config.lotSizing) {
+      const sizing = this.calculateLots(candle.close, riskAmount, positionValue);
+      if (sizing.lots === 0) {
+        return null;
+      }
+      trade.size = sizing.units;
+      trade.lots = sizing.lots;
+      trade.quoteToAccountRate = sizing.quoteToAccountRate;
+    }
+
     // Set stop loss and take profit
     if (this.config.stopLoss) {
       const stopDistance = candle.close * (this.config.stopLoss / 100);
@@ -170,47 +408,36 @@ export class BacktestingEngine {
 
   private updateOpenTrades(openTrades: Trade[], candle: CandleData): Trade[] {
     const activeTrades: Trade[] = [];
+    const candleTime = this.getCandleTime(candle);
 
     for (const trade of openTrades) {
-      let shouldClose = false;
-      let closeReason: Trade['reason'] = 'signal';
-
-      // Check stop loss
-      if (trade.stopLoss) {
-        if ((trade.direction === 'long' && candle.low <= trade.stopLoss) ||
-            (trade.direction === 'short' && candle.high >= trade.stopLoss)) {
-          shouldClose = true;
-          closeReason = 'stop_loss';
-        }
+      // Entry happens at the close, so the entry candle's range cannot trigger exits
+      if (trade.entryTime === candleTime) {
+        activeTrades.push(trade);
+        continue;
       }
 
-      // Check take profit
-      if (trade.takeProfit && !shouldClose) {
-        if ((trade.direction === 'long' && candle.high >= trade.takeProfit) ||
-            (trade.direction === 'short' && candle.low <= trade.takeProfit)) {
-          shouldClose = true;
-          closeReason = 'take_profit';
-        }
-      }
+      const fill = this.fillModel.resolveExit(candle, {
+        side: trade.direction,
+        stopLoss: trade.stopLoss,
+        takeProfit: trade.takeProfit
+      });
 
-      // Check for exit signal (simplified - could be enhanced)
-      if (!shouldClose) {
+      if (fill) {
+        this.closeTrade(trade, candle, fill.reason, fill.price);
+      } else {
         // Hold for now - in real implementation, this would check exit signals
         activeTrades.push(trade);
-      } else {
-        this.closeTrade(trade, candle, closeReason);
       }
     }
 
     return activeTrades;
   }
 
-  private closeTrade(trade: Trade, candle: CandleData, reason: Trade['reason']): void {
-    const exitPrice = reason === 'stop_loss' ? trade.stopLoss! :
-                     reason === 'take_profit' ? trade.takeProfit! :
-                     candle.close;
+  private closeTrade(trade: Trade, candle: CandleData, reason: Trade['reason'], fillPrice?: number): void {
+    const exitPrice = fillPrice ?? candle.close;
 
-    trade.exitTime = Number(candle.timestamp);
+    trade.exitTime = this.getCandleTime(candle);
     trade.exitPrice = exitPrice;
     trade.reason = reason;
     trade.status = 'closed';
@@ -220,15 +447,67 @@ export class BacktestingEngine {
       ? exitPrice - trade.entryPrice
       : trade.entryPrice - exitPrice;
     
-    const grossPnl = (priceChange / trade.entryPrice) * trade.size * trade.entryPrice;
-    const transactionCost = (trade.size * trade.entryPrice * this.config.transactionCost / 100) * 2; // Entry + exit
+    const quoteToAccountRate = trade.quoteToAccountRate ?? 1;
+    const grossPnl = (priceChange / trade.entryPrice) * trade.size * trade.entryPrice * quoteToAccountRate;
+
+    let transactionCost: number;
+    if (this.costModel) {
+      trade.costs = this.costModel.calculateTradeCosts({
+        symbol: this.config.symbol ?? '',
+        direction: trade.direction,
+        units: trade.size,
+        entryTime: trade.entryTime,
+        exitTime: trade.exitTime,
+        entrySpread: trade.entrySpread,
+        exitSpread: candle.spread,
+        quoteToAccountRate
+      });
+      transactionCost = trade.costs.total;
+    } else {
+      transactionCost = (this.tradeNotional(trade) * this.config.transactionCost / 100) * 2; // Entry + exit
+    }
     
     trade.pnl = grossPnl - transactionCost;
-    trade.pnlPercent = (trade.pnl / (trade.size * trade.entryPrice)) * 100;
+    trade.pnlPercent = (trade.pnl / this.tradeNotional(trade)) * 100;
 
     this.currentEquity += trade.pnl;
   }
 
+  /**
+   * Lot size from the risk budget and stop distance; without a stop the
+   * notional position value is converted to lots instead
+   */
+  private calculateLots(
+    price: number,
+    riskAmount: number,
+    positionValue: number
+  ): Pick<LotSizingResult, 'lots' | 'units' | 'quoteToAccountRate'> {
+    const symbol = this.config.symbol!;
+    const { accountCurrency, conversionRates } = this.config.lotSizing!;
+
+    if (this.config.stopLoss) {
+      return instrumentRegistry.calculateLotSize({
+        symbol,
+        accountBalance: this.currentEquity,
+        riskPerTrade: riskAmount / this.currentEquity,
+        stopDistance: price * (this.config.stopLoss / 100),
+        accountCurrency,
+        conversionRates,
+        entryPrice: price
+      });
+    }
+
+    const spec = instrumentRegistry.get(symbol);
+    const quoteToAccountRate = instrumentRegistry.getQuoteToAccountRate(symbol, accountCurrency, conversionRates, price);
+    const lots = instrumentRegistry.roundLots(symbol, positionValue / (price * quoteToAccountRate * spec.contractSize));
+    return { lots, units: lots * spec.contractSize, quoteToAccountRate };
+  }
+
+  // Position value in account currency
+  private tradeNotional(trade: Trade): number {
+    return trade.size * trade.entryPrice * (trade.quoteToAccountRate ?? 1);
+  }
+
   private updateEquityCurve(timestamp: number, openTrades: Trade[]): void {
     // Calculate unrealized P&L from open trades
     let unrealizedPnl = 0;
@@ -285,9 +564,14 @@ export class BacktestingEngine {
     
     const valueAtRisk = this.calculateVaR(dailyReturns);
     
-    const transactionCosts = completedTrades.reduce((sum, t) => 
-      sum + (t.size * t.entryPrice * this.config.transactionCost / 100) * 2, 0
-    );
+    const costBreakdown = this.costModel
+      ? summarizeCosts(completedTrades.filter(t => t.costs).map(t => t.costs!))
+      : undefined;
+    const transactionCosts = costBreakdown
+      ? costBreakdown.total
+      : completedTrades.reduce((sum, t) => 
+          sum + (this.tradeNotional(t) * this.config.transactionCost / 100) * 2, 0
+        );
 
     const monthlyReturns = this.calculateMonthlyReturns();
 
@@ -310,7 +594,8 @@ export class BacktestingEngine {
         calmarRatio,
         sortinoRatio,
         valueAtRisk,
-        transactionCosts
+        transactionCosts,
+        costBreakdown
       },
       equityCurve: this.equityCurve,
       monthlyReturns
@@ -1,4 +1,5 @@
-import { TrainingExperiment, ModelMetrics } from './AdvancedMLTrainingService';
+import { TrainingExperiment, ModelMetrics, CrossValidationResult } from './AdvancedMLTrainingService';
+import { ExperimentArtifact, ExperimentStore, reviveExperiment } from './persistence/ExperimentStore';
 
 export interface ExperimentComparison {
   experiments: TrainingExperiment[];
@@ -8,7 +9,11 @@ export interface ExperimentComparison {
 
 export interface ExperimentRanking {
   experiment: TrainingExperiment;
+  /** Composite score; with a fold breakdown it is the mean fold score minus one standard error */
   score: number;
+  /** Spread of the composite score across cross-validation folds (0 without folds) */
+  scoreStd: number;
+  foldScores: number[];
   rank: number;
 }
 
@@ -17,6 +22,7 @@ export interface ExperimentFilter {
   modelTypes?: string[];
   minAccuracy?: number;
   minSharpeRatio?: number;
+  studyId?: string;
   dateRange?: {
     start: Date;
     end: Date;
@@ -26,6 +32,38 @@ export interface ExperimentFilter {
 export class ExperimentTracker {
   private experiments: Map<string, TrainingExperiment> = new Map();
   private experimentHistory: TrainingExperiment[] = [];
+  private store: ExperimentStore | null = null;
+  private pendingWrites = new Set<Promise<void>>();
+
+  /**
+   * Attach a durable store; tracked changes are written through to it
+   */
+  setStore(store: ExperimentStore | null): void {
+    this.store = store;
+  }
+
+  /**
+   * Load experiments from the store (own and teammates'); returns how many are tracked afterwards
+   */
+  async restore(): Promise<number> {
+    if (!this.store) return this.experiments.size;
+
+    const stored = await this.store.listExperiments();
+    stored.forEach(exp => {
+      // Local in-flight runs are newer than whatever the store has
+      if (this.experiments.get(exp.id)?.status !== 'running') {
+        this.experiments.set(exp.id, reviveExperiment(exp));
+      }
+    });
+    return this.experiments.size;
+  }
+
+  /**
+   * Wait until every write-through issued so far has settled
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
 
   /**
    * Add experiment to tracking
@@ -33,6 +71,7 @@ export class ExperimentTracker {
   addExperiment(experiment: TrainingExperiment): void {
     this.experiments.set(experiment.id, experiment);
     this.experimentHistory.push({ ...experiment });
+    this.persist(experiment.id);
   }
 
   /**
@@ -42,9 +81,38 @@ export class ExperimentTracker {
     const experiment = this.experiments.get(experimentId);
     if (experiment) {
       Object.assign(experiment, updates);
+      this.persist(experimentId);
     }
   }
 
+  /**
+   * Store a model artifact (e.g. trained weights) next to the experiment
+   */
+  async saveArtifact(
+    experimentId: string,
+    name: string,
+    content: unknown,
+    kind: ExperimentArtifact['kind'] = 'weights'
+  ): Promise<void> {
+    if (!this.store) throw new Error('Experiment store is not configured');
+    await this.store.putArtifact({ experimentId, name, kind, content, createdAt: new Date().toISOString() });
+  }
+
+  async loadArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null> {
+    return this.store ? this.store.getArtifact(experimentId, name) : null;
+  }
+
+  /**
+   * Store the per-fold breakdown of a purged cross-validation run;
+   * headline metrics become the fold means
+   */
+  recordCrossValidation(experimentId: string, result: CrossValidationResult): void {
+    this.updateExperiment(experimentId, {
+      crossValidation: result,
+      metrics: result.mean
+    });
+  }
+
   /**
    * Get experiment by ID
    */
@@ -76,6 +144,10 @@ export class ExperimentTracker {
       experiments = experiments.filter(exp => exp.metrics.sharpeRatio >= filter.minSharpeRatio!);
     }
 
+    if (filter.studyId) {
+      experiments = experiments.filter(exp => exp.studyId === filter.studyId);
+    }
+
     if (filter.dateRange) {
       experiments = experiments.filter(exp => 
         exp.startTime >= filter.dateRange!.start && exp.startTime <= filter.dateRange!.end
@@ -85,6 +157,14 @@ export class ExperimentTracker {
     return experiments;
   }
 
+  /**
+   * Trials of a hyperparameter-search study in execution order
+   */
+  getStudyTrials(studyId: string): TrainingExperiment[] {
+    return this.getExperiments({ studyId })
+      .sort((a, b) => (a.trialNumber ?? 0) - (b.trialNumber ?? 0));
+  }
+
   /**
    * Compare multiple experiments
    */
@@ -137,9 +217,8 @@ export class ExperimentTracker {
   /**
    * Calculate composite score for experiment ranking
    */
-  private calculateCompositeScore(experiment: TrainingExperiment): number {
-    const metrics = experiment.metrics;
-    
+  private calculateCompositeScore(metrics: ModelMetrics): number {
+
     // Weighted scoring system
     const weights = {
       accuracy: 0.2,
@@ -165,10 +244,26 @@ export class ExperimentTracker {
    * Calculate rankings for experiments
    */
   private calculateRankings(experiments: TrainingExperiment[]): ExperimentRanking[] {
-    const scoredExperiments = experiments.map(exp => ({
-      experiment: exp,
-      score: this.calculateCompositeScore(exp)
-    }));
+    const scoredExperiments = experiments.map(exp => {
+      const folds = exp.crossValidation?.folds ?? [];
+      if (folds.length === 0) {
+        return { experiment: exp, score: this.calculateCompositeScore(exp.metrics), scoreStd: 0, foldScores: [] };
+      }
+
+      // Penalize unstable experiments: a high mean on a few lucky folds should not win
+      const foldScores = folds.map(fold => this.calculateCompositeScore(fold.metrics));
+      const mean = foldScores.reduce((sum, s) => sum + s, 0) / foldScores.length;
+      const scoreStd = Math.sqrt(
+        foldScores.reduce((sum, s) => sum + Math.pow(s - mean, 2), 0) / foldScores.length
+      );
+
+      return {
+        experiment: exp,
+        score: mean - scoreStd / Math.sqrt(foldScores.length),
+        scoreStd,
+        foldScores
+      };
+    });
 
     // Sort by score descending
     scoredExperiments.sort((a, b) => b.score - a.score);
@@ -204,7 +299,7 @@ export class ExperimentTracker {
       : 0;
 
     const bestOverallScore = completed.length > 0
-      ? Math.max(...completed.map(exp => this.calculateCompositeScore(exp)))
+      ? Math.max(...completed.map(exp => this.calculateCompositeScore(exp.metrics)))
       : 0;
 
     return {
@@ -239,7 +334,8 @@ export class ExperimentTracker {
 
       for (const exp of experiments) {
         if (exp.id && !this.experiments.has(exp.id)) {
-          this.experiments.set(exp.id, exp);
+          this.experiments.set(exp.id, reviveExperiment(exp));
+          this.persist(exp.id);
           imported++;
         }
       }
@@ -266,10 +362,30 @@ export class ExperimentTracker {
     }
 
     toDelete.forEach(id => this.experiments.delete(id));
+    if (this.store && toDelete.length > 0) {
+      this.track(this.store.deleteExperiments(toDelete));
+    }
     
     return toDelete.length;
   }
 
+  private persist(experimentId: string): void {
+    const experiment = this.experiments.get(experimentId);
+    if (this.store && experiment) {
+      this.track(this.store.putExperiment(experiment));
+    }
+  }
+
+  /**
+   * Writes are fire-and-forget for callers; failures are logged, the offline store retries them
+   */
+  private track(write: Promise<void>): void {
+    const pending = write
+      .catch(error => console.error('Failed to persist experiments:', error))
+      .finally(() => this.pendingWrites.delete(pending));
+    this.pendingWrites.add(pending);
+  }
+
   /**
    * Get performance trends over time
    */
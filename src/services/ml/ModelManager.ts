@@ -1,4 +1,13 @@
-import { onnxInferenceService } from './OnnxInferenceService';
+import { onnxInferenceService, ONNX_FEATURE_NAMES, PredictionResponse } from './OnnxInferenceService';
+import { ModelTrafficRouter, RolloutMode, RolloutThresholds } from './ModelTrafficRouter';
+import {
+  ModelManifest,
+  ScalerParams,
+  checkFeatureCompatibility,
+  computeSha256,
+  parseManifest,
+  resolveModelPath
+} from './ModelManifest';
 
 interface ModelConfiguration {
   name: string;
@@ -6,27 +15,40 @@ interface ModelConfiguration {
   modelPath: string;
   inputShape: number[];
   outputShape: number[];
-  scalerParams?: {
-    mean: number[];
-    std: number[];
-    min?: number[];
-    max?: number[];
-  };
-  metadata?: {
-    description: string;
-    author: string;
-    created: string;
-    accuracy: number;
-    trainingData: string;
-  };
+  scalerParams?: ScalerParams;
+  /** Feature order from the manifest; must match the live extractor */
+  features?: string[];
+  /** Expected SHA-256 of the model file */
+  sha256?: string;
+  target?: ModelManifest['target'];
+  manifestPath?: string;
+  metadata?: ModelManifest['metadata'];
 }
 
+interface ModelManagerOptions {
+  fetchFn?: typeof fetch;
+  /** Feature names produced by the live extractor, in order */
+  liveFeatures?: readonly string[];
+  /** Source of randomness for canary routing */
+  random?: () => number;
+}
+
+/**
+ * Lists the installed manifests as {"manifests": ["eurusd-m5.json"]}, paths relative to the index.
+ * The app ships an empty index: models are added per deployment, each manifest next to its .onnx file
+ */
+export const MODEL_INDEX_PATH = '/models/index.json';
+
 interface DeploymentConfig {
   modelName: string;
   targetEnvironment: 'development' | 'staging' | 'production';
   rolloutPercentage: number;
   autoRollback: boolean;
   healthCheckInterval: number;
+  /** Model currently serving traffic; when set, the deployed model becomes a canary or shadow of it */
+  primaryModel?: string;
+  mode?: RolloutMode;
+  thresholds?: Partial<RolloutThresholds>;
 }
 
 export class ModelManager {
@@ -40,66 +62,96 @@ export class ModelManager {
     error?: string;
   }> = [];
 
-  constructor() {
-    this.initializeDefaultModels();
+  private verifiedChecksums: Map<string, string> = new Map();
+  private fetchFn: typeof fetch;
+  private liveFeatures: readonly string[];
+  private trafficRouter: ModelTrafficRouter;
+
+  constructor(options: ModelManagerOptions = {}) {
+    this.fetchFn = options.fetchFn ?? ((input, init) => fetch(input, init));
+    this.liveFeatures = options.liveFeatures ?? ONNX_FEATURE_NAMES;
+    this.trafficRouter = new ModelTrafficRouter(
+      (symbol, features, modelName) => onnxInferenceService.predict(symbol, features, modelName),
+      (rollout, reasons) => this.handleAutoRollback(rollout.candidateModel, rollout.primaryModel, reasons),
+      options.random
+    );
   }
 
-  private initializeDefaultModels() {
-    // Add default model configurations
-    const defaultConfigs: ModelConfiguration[] = [
-      {
-        name: 'binary-classifier-v1',
-        version: '1.0.0',
-        modelPath: '/models/binary-classifier-v1.onnx',
-        inputShape: [1, 15],
-        outputShape: [1, 2],
-        scalerParams: {
-          mean: [
-            50000, 50500, 49500, 50250, 1000000, // OHLCV
-            1.005, 1.02, // Price ratios
-            50100, 50150, 50200, // SMAs
-            1.003, 1.001, 0.998, // Price/SMA ratios
-            0.02, 0.05 // Volatility, Momentum
-          ],
-          std: [
-            5000, 5000, 5000, 5000, 500000, // OHLCV
-            0.1, 0.1, // Price ratios
-            5000, 5000, 5000, // SMAs
-            0.1, 0.1, 0.1, // Price/SMA ratios
-            0.01, 0.1 // Volatility, Momentum
-          ]
-        },
-        metadata: {
-          description: 'Binary classification model for CALL/PUT predictions',
-          author: 'Trading Team',
-          created: '2024-01-15',
-          accuracy: 0.67,
-          trainingData: 'EUR/USD 5M candles, 6 months'
-        }
-      },
-      {
-        name: 'ensemble-predictor-v2',
-        version: '2.1.0',
-        modelPath: '/models/ensemble-predictor-v2.onnx',
-        inputShape: [1, 20],
-        outputShape: [1, 3], // UP, DOWN, SIDEWAYS
-        scalerParams: {
-          mean: Array(20).fill(0),
-          std: Array(20).fill(1)
-        },
-        metadata: {
-          description: 'Advanced ensemble model with pattern recognition',
-          author: 'ML Team',
-          created: '2024-02-01',
-          accuracy: 0.73,
-          trainingData: 'Multi-pair data with technical indicators'
-        }
+  /**
+   * Manifest paths from the model index; a missing or unreadable index means no models are installed
+   */
+  async discoverManifests(indexPath: string = MODEL_INDEX_PATH): Promise<string[]> {
+    try {
+      const response = await this.fetchFn(indexPath);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const index = JSON.parse(await response.text());
+      const manifests: unknown = index?.manifests;
+      if (!Array.isArray(manifests) || !manifests.every(entry => typeof entry === 'string')) {
+        throw new Error('"manifests" must be an array of paths');
       }
-    ];
+      return manifests.map(entry => resolveModelPath(indexPath, entry));
+    } catch (error) {
+      console.warn(`No model index at ${indexPath}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch and register manifests (by default those listed in the model index);
+   * missing or invalid ones are reported, not thrown
+   */
+  async loadManifests(manifestPaths?: string[]): Promise<{
+    loaded: string[];
+    failed: Array<{ manifestPath: string; error: string }>;
+  }> {
+    const loaded: string[] = [];
+    const failed: Array<{ manifestPath: string; error: string }> = [];
+
+    for (const manifestPath of manifestPaths ?? await this.discoverManifests()) {
+      try {
+        const config = await this.loadManifest(manifestPath);
+        loaded.push(config.name);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`Skipping model manifest ${manifestPath}:`, message);
+        failed.push({ manifestPath, error: message });
+      }
+    }
+
+    return { loaded, failed };
+  }
+
+  async loadManifest(manifestPath: string): Promise<ModelConfiguration> {
+    const response = await this.fetchFn(manifestPath);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch manifest ${manifestPath}: HTTP ${response.status}`);
+    }
 
-    defaultConfigs.forEach(config => {
-      this.modelConfigs.set(config.name, config);
-    });
+    const manifest = parseManifest(await response.text());
+    return this.registerManifest(manifest, manifestPath);
+  }
+
+  registerManifest(manifest: ModelManifest, manifestPath: string): ModelConfiguration {
+    const config: ModelConfiguration = {
+      name: manifest.name,
+      version: manifest.version,
+      modelPath: resolveModelPath(manifestPath, manifest.modelFile),
+      inputShape: manifest.inputShape,
+      outputShape: manifest.outputShape,
+      scalerParams: manifest.scaler,
+      features: manifest.features,
+      sha256: manifest.sha256.toLowerCase(),
+      target: manifest.target,
+      manifestPath,
+      metadata: manifest.metadata
+    };
+
+    this.verifiedChecksums.delete(config.name);
+    this.addModelConfiguration(config);
+    return config;
   }
 
   async deployModel(
@@ -121,6 +173,12 @@ export class ModelManager {
         throw new Error(`Model path not specified for ${modelName}`);
       }
 
+      // Refuse models whose manifest, checksum or features do not match
+      const health = await this.validateModelHealth(modelName);
+      if (!health.healthy) {
+        throw new Error(`Model validation failed: ${(health.errors ?? []).join('; ')}`);
+      }
+
       // Load model with inference service
       await onnxInferenceService.loadModel(modelConfig);
 
@@ -133,6 +191,19 @@ export class ModelManager {
         success: true
       });
 
+      if (config?.primaryModel) {
+        this.trafficRouter.startRollout({
+          primaryModel: config.primaryModel,
+          candidateModel: modelName,
+          mode: config.mode ?? 'canary',
+          rolloutPercentage: config.rolloutPercentage,
+          autoRollback: config.autoRollback,
+          healthCheckInterval: config.healthCheckInterval,
+          thresholds: config.thresholds
+        });
+        console.log(`Routing ${config.mode === 'shadow' ? 'shadow' : `${config.rolloutPercentage}%`} traffic to ${modelName}`);
+      }
+
       console.log(`Successfully deployed ${modelName} v${modelConfig.version}`);
       
       return { success: true };
@@ -166,6 +237,11 @@ export class ModelManager {
         throw new Error(`New model configuration not found: ${newModelName}`);
       }
 
+      const validationErrors = await this.validateManifest(newModelConfig);
+      if (validationErrors.length > 0) {
+        throw new Error(`Model validation failed: ${validationErrors.join('; ')}`);
+      }
+
       console.log(`Hot-swapping ${currentModelName} -> ${newModelName}`);
 
       // Perform hot swap with inference service
@@ -238,6 +314,7 @@ export class ModelManager {
 
   addModelConfiguration(config: ModelConfiguration): void {
     this.modelConfigs.set(config.name, config);
+    this.verifiedChecksums.delete(config.name);
     console.log(`Added model configuration: ${config.name} v${config.version}`);
   }
 
@@ -280,6 +357,16 @@ export class ModelManager {
         return { healthy: false, errors: ['Model configuration not found'] };
       }
 
+      const validationErrors = await this.validateManifest(config);
+      if (validationErrors.length > 0) {
+        return { healthy: false, accuracy: config.metadata?.accuracy, errors: validationErrors };
+      }
+
+      // Not loaded yet: the static checks above are all that can be verified
+      if (!onnxInferenceService.isModelLoaded(modelName)) {
+        return { healthy: true, accuracy: config.metadata?.accuracy, errors: [] };
+      }
+
       // Perform health check with test prediction
       const startTime = performance.now();
       
@@ -310,37 +397,82 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Static checks before a model may serve: manifest present, features in the
+   * extractor's order, consistent shapes and scaler, matching file checksum
+   */
+  private async validateManifest(config: ModelConfiguration): Promise<string[]> {
+    if (!config.features || !config.sha256) {
+      return [`Model ${config.name} has no manifest (feature order and checksum are required)`];
+    }
+
+    const errors = checkFeatureCompatibility(config.features, this.liveFeatures);
+
+    const inputSize = config.inputShape[config.inputShape.length - 1];
+    if (inputSize !== config.features.length) {
+      errors.push(`Input shape ${JSON.stringify(config.inputShape)} does not match ${config.features.length} features`);
+    }
+    if (config.scalerParams) {
+      Object.entries(config.scalerParams).forEach(([key, values]) => {
+        if (values && values.length !== config.features!.length) {
+          errors.push(`Scaler ${key} has ${values.length} values for ${config.features!.length} features`);
+        }
+      });
+    }
+    if (errors.length > 0) return errors;
+
+    if (this.verifiedChecksums.get(config.name) === config.sha256) return [];
+
+    try {
+      const response = await this.fetchFn(config.modelPath);
+      if (!response.ok) {
+        return [`Failed to fetch model file ${config.modelPath}: HTTP ${response.status}`];
+      }
+      const actual = await computeSha256(await response.arrayBuffer());
+      if (actual !== config.sha256.toLowerCase()) {
+        return [`Checksum mismatch for ${config.modelPath}: expected ${config.sha256}, got ${actual}`];
+      }
+      this.verifiedChecksums.set(config.name, config.sha256);
+      return [];
+    } catch (error) {
+      return [`Failed to verify model file ${config.modelPath}: ${error instanceof Error ? error.message : error}`];
+    }
+  }
+
   async performCanaryDeployment(
     modelName: string,
-    canaryPercentage: number = 10
+    canaryPercentage: number = 10,
+    primaryModel: string | undefined = this.getServingModel(modelName)
   ): Promise<{ success: boolean; metrics?: any; error?: string }> {
     try {
       console.log(`Starting canary deployment for ${modelName} (${canaryPercentage}%)`);
 
-      // In a real implementation, this would:
-      // 1. Deploy to a subset of traffic
-      // 2. Monitor metrics
-      // 3. Gradually increase traffic
-      // 4. Rollback if metrics degrade
+      if (!primaryModel) {
+        throw new Error(`No serving model to compare the canary ${modelName} against`);
+      }
 
-      const modelConfig = this.modelConfigs.get(modelName);
-      if (!modelConfig) {
-        throw new Error(`Model configuration not found: ${modelName}`);
+      const result = await this.deployModel(modelName, {
+        modelName,
+        targetEnvironment: 'production',
+        rolloutPercentage: canaryPercentage,
+        autoRollback: true,
+        healthCheckInterval: 60000,
+        primaryModel,
+        mode: 'canary'
+      });
+      if (!result.success) {
+        throw new Error(result.error);
       }
 
-      // Simulate canary deployment
-      await this.deployModel(modelName);
-      
-      // Collect metrics after deployment
       const health = await onnxInferenceService.healthCheck();
-      const metrics = onnxInferenceService.getMetrics();
+      const stats = this.trafficRouter.getCandidateStats();
 
       return {
         success: true,
         metrics: {
           health: health.status,
-          latency: metrics.averageLatency,
-          errorRate: metrics.errorRate,
+          latency: stats.averageLatency,
+          errorRate: stats.errorRate,
           canaryPercentage
         }
       };
@@ -353,6 +485,56 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Prediction through the traffic router: honours an active canary or shadow rollout
+   */
+  predict(symbol: string, features: number[], modelName = 'default'): Promise<PredictionResponse> {
+    return this.trafficRouter.predict(symbol, features, modelName);
+  }
+
+  batchPredict(
+    requests: Array<{ symbol: string; features: number[] }>,
+    modelName = 'default'
+  ): Promise<PredictionResponse[]> {
+    return this.trafficRouter.batchPredict(requests, modelName);
+  }
+
+  /**
+   * Realized direction of an earlier prediction; feeds the rollout's live accuracy
+   */
+  recordOutcome(requestId: string, outcome: 'UP' | 'DOWN'): boolean {
+    return this.trafficRouter.recordOutcome(requestId, outcome);
+  }
+
+  getTrafficRouter(): ModelTrafficRouter {
+    return this.trafficRouter;
+  }
+
+  /**
+   * Latest successfully deployed model other than the given one
+   */
+  private getServingModel(excludeModel?: string): string | undefined {
+    return this.getDeploymentHistory()
+      .find(d => d.success && d.action !== 'remove' && d.modelName !== excludeModel)
+      ?.modelName;
+  }
+
+  private async handleAutoRollback(candidateModel: string, primaryModel: string, reasons: string[]): Promise<void> {
+    console.warn(`Auto-rollback of ${candidateModel}: ${reasons.join('; ')}`);
+
+    const result = await this.rollbackModel(candidateModel);
+    if (!result.success) {
+      // First deployment of the candidate: nothing to reload, traffic is already back on the primary model
+      this.deploymentHistory.push({
+        timestamp: Date.now(),
+        modelName: primaryModel,
+        version: this.modelConfigs.get(primaryModel)?.version || 'unknown',
+        action: 'rollback',
+        success: true
+      });
+    }
+  }
+
   exportModelRegistry(): string {
     const registry = {
       models: Array.from(this.modelConfigs.entries()).map(([name, config]) => ({
@@ -0,0 +1,158 @@
+export const MODEL_MANIFEST_FORMAT = 'forex-neural-trader/onnx-manifest';
+export const MODEL_MANIFEST_SCHEMA_VERSION = 1;
+
+export interface ScalerParams {
+  mean: number[];
+  std: number[];
+  min?: number[];
+  max?: number[];
+}
+
+/**
+ * JSON shipped next to each .onnx file (model.onnx -> model.json)
+ */
+export interface ModelManifest {
+  format: typeof MODEL_MANIFEST_FORMAT;
+  schemaVersion: number;
+  name: string;
+  version: string;
+  /** Model file path, relative to the manifest unless absolute */
+  modelFile: string;
+  /** Hex SHA-256 of the model file */
+  sha256: string;
+  /** Feature names in the exact order the model expects them */
+  features: string[];
+  scaler?: ScalerParams;
+  inputShape: number[];
+  outputShape: number[];
+  target: {
+    pair: string;
+    timeframe: string;
+  };
+  metadata?: {
+    description?: string;
+    author?: string;
+    created?: string;
+    accuracy?: number;
+    trainingData?: string;
+  };
+}
+
+export const resolveModelPath = (manifestPath: string, modelFile: string): string => {
+  if (/^([a-z]+:)?\//i.test(modelFile)) return modelFile;
+  const slash = manifestPath.lastIndexOf('/');
+  return slash >= 0 ? manifestPath.slice(0, slash + 1) + modelFile : modelFile;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+const isShape = (value: unknown): value is number[] =>
+  isNumberArray(value) && value.length > 0 && value.every(v => Number.isInteger(v) && v > 0);
+
+/**
+ * Structural validation of a parsed manifest; returns every problem found
+ */
+export function validateManifestSchema(raw: unknown): string[] {
+  if (!isObject(raw)) return ['Manifest must be a JSON object'];
+
+  const errors: string[] = [];
+  if (raw.format !== MODEL_MANIFEST_FORMAT) {
+    errors.push(`Unsupported manifest format: ${String(raw.format)}`);
+  }
+  if (raw.schemaVersion !== MODEL_MANIFEST_SCHEMA_VERSION) {
+    errors.push(`Unsupported manifest schema version: ${String(raw.schemaVersion)}`);
+  }
+  (['name', 'version', 'modelFile'] as const).forEach(key => {
+    if (typeof raw[key] !== 'string' || raw[key] === '') errors.push(`Missing ${key}`);
+  });
+  if (typeof raw.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(raw.sha256)) {
+    errors.push('sha256 must be a 64-character hex digest');
+  }
+
+  const features = raw.features;
+  const validFeatures = Array.isArray(features) && features.length > 0 && features.every(f => typeof f === 'string');
+  if (!validFeatures) {
+    errors.push('features must be a non-empty list of names');
+  } else if (new Set(features).size !== features.length) {
+    errors.push('features contain duplicate names');
+  }
+
+  if (!isShape(raw.inputShape)) errors.push('inputShape must be a list of positive integers');
+  if (!isShape(raw.outputShape)) errors.push('outputShape must be a list of positive integers');
+  if (validFeatures && isShape(raw.inputShape) && raw.inputShape[raw.inputShape.length - 1] !== features.length) {
+    errors.push(`inputShape ${JSON.stringify(raw.inputShape)} does not match ${features.length} features`);
+  }
+
+  if (!isObject(raw.target) || typeof raw.target.pair !== 'string' || typeof raw.target.timeframe !== 'string') {
+    errors.push('target must declare pair and timeframe');
+  }
+
+  if (raw.scaler !== undefined) {
+    if (!isObject(raw.scaler)) {
+      errors.push('scaler must be an object');
+    } else {
+      const { scaler } = raw;
+      (['mean', 'std', 'min', 'max'] as const).forEach(key => {
+        if (scaler[key] === undefined && (key === 'min' || key === 'max')) return;
+        if (!isNumberArray(scaler[key])) {
+          errors.push(`scaler.${key} must be a list of numbers`);
+        } else if (validFeatures && (scaler[key] as number[]).length !== features.length) {
+          errors.push(`scaler.${key} has ${(scaler[key] as number[]).length} values for ${features.length} features`);
+        }
+      });
+      if (isNumberArray(scaler.std) && scaler.std.some(s => s <= 0)) {
+        errors.push('scaler.std must be positive');
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function parseManifest(json: string): ModelManifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid manifest JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateManifestSchema(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid model manifest: ${errors.join('; ')}`);
+  }
+  return raw as ModelManifest;
+}
+
+/**
+ * Compare the manifest with the feature vector the live extractor produces
+ */
+export function checkFeatureCompatibility(modelFeatures: readonly string[], liveFeatures: readonly string[]): string[] {
+  const errors: string[] = [];
+  if (modelFeatures.length !== liveFeatures.length) {
+    errors.push(`Model expects ${modelFeatures.length} features, extractor produces ${liveFeatures.length}`);
+  }
+
+  const missing = modelFeatures.filter(f => !liveFeatures.includes(f));
+  if (missing.length > 0) {
+    errors.push(`Features unknown to the extractor: ${missing.join(', ')}`);
+  } else {
+    const firstMismatch = modelFeatures.findIndex((f, i) => liveFeatures[i] !== f);
+    if (firstMismatch >= 0) {
+      errors.push(`Feature order differs at position ${firstMismatch}: model ${modelFeatures[firstMismatch]}, extractor ${liveFeatures[firstMismatch]}`);
+    }
+  }
+
+  return errors;
+}
+
+export async function computeSha256(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,288 @@
+import type { PredictionResponse } from './OnnxInferenceService';
+
+export type RolloutMode = 'canary' | 'shadow';
+
+export interface RolloutThresholds {
+  /** Candidate live accuracy below this (on labeled predictions) triggers rollback */
+  minAccuracy: number;
+  /** Candidate average latency above this triggers rollback */
+  maxLatencyMs: number;
+  /** Share of failed candidate requests that triggers rollback */
+  maxErrorRate: number;
+  /** No decision is made before this many candidate samples */
+  minSamples: number;
+}
+
+export const DEFAULT_ROLLOUT_THRESHOLDS: RolloutThresholds = {
+  minAccuracy: 0.5,
+  maxLatencyMs: 50,
+  maxErrorRate: 0.1,
+  minSamples: 30
+};
+
+export interface RolloutConfig {
+  primaryModel: string;
+  candidateModel: string;
+  /** canary: candidate serves a share of traffic; shadow: candidate runs on every request, output hidden */
+  mode: RolloutMode;
+  /** Share of requests (0-100) the candidate serves in canary mode */
+  rolloutPercentage: number;
+  autoRollback: boolean;
+  /** Period of automatic candidate evaluation in ms; 0 disables the timer */
+  healthCheckInterval: number;
+  thresholds?: Partial<RolloutThresholds>;
+}
+
+export interface ModelPredictionRecord {
+  model: string;
+  direction: 'UP' | 'DOWN';
+  probability: number;
+  confidence: number;
+  latency: number;
+}
+
+export interface PairedPredictionLog {
+  requestId: string;
+  symbol: string;
+  timestamp: number;
+  mode: RolloutMode;
+  servedBy: 'primary' | 'candidate';
+  primary: ModelPredictionRecord | null;
+  candidate: ModelPredictionRecord | null;
+  candidateError?: string;
+  /** Realized direction, once reported through recordOutcome */
+  outcome?: 'UP' | 'DOWN';
+}
+
+export interface CandidateStats {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  averageLatency: number;
+  labeled: number;
+  /** Live accuracy on labeled predictions; null until some are labeled */
+  accuracy: number | null;
+  /** Share of paired requests where candidate and primary agreed */
+  agreement: number | null;
+}
+
+export interface RolloutEvaluation {
+  healthy: boolean;
+  reasons: string[];
+  stats: CandidateStats;
+}
+
+type PredictFn = (symbol: string, features: number[], modelName: string) => Promise<PredictionResponse>;
+
+const MAX_LOG_SIZE = 1000;
+
+const toRecord = (model: string, response: PredictionResponse): ModelPredictionRecord => ({
+  model,
+  direction: response.prediction.direction,
+  probability: response.prediction.probability,
+  confidence: response.confidence,
+  latency: response.latency
+});
+
+/**
+ * Routes predictions between the serving model and a candidate (canary or shadow),
+ * logs paired predictions and rolls the candidate back when it degrades
+ */
+export class ModelTrafficRouter {
+  private rollout: (RolloutConfig & { thresholds: RolloutThresholds }) | null = null;
+  private log: PairedPredictionLog[] = [];
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private rollingBack = false;
+
+  constructor(
+    private predictFn: PredictFn,
+    private onRollback: (rollout: RolloutConfig, reasons: string[]) => Promise<void>,
+    private random: () => number = Math.random
+  ) {}
+
+  startRollout(config: RolloutConfig): void {
+    if (config.rolloutPercentage < 0 || config.rolloutPercentage > 100) {
+      throw new Error(`Invalid rollout percentage: ${config.rolloutPercentage}`);
+    }
+
+    this.stopRollout();
+    this.rollout = { ...config, thresholds: { ...DEFAULT_ROLLOUT_THRESHOLDS, ...config.thresholds } };
+    this.log = [];
+
+    if (config.healthCheckInterval > 0) {
+      this.healthTimer = setInterval(() => {
+        void this.evaluateCandidate();
+      }, config.healthCheckInterval);
+    }
+  }
+
+  stopRollout(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    this.rollout = null;
+  }
+
+  getRollout(): RolloutConfig | null {
+    return this.rollout ? { ...this.rollout } : null;
+  }
+
+  /**
+   * Predict for a request; without an active rollout everything goes to defaultModel
+   */
+  async predict(symbol: string, features: number[], defaultModel = 'default'): Promise<PredictionResponse> {
+    const rollout = this.rollout;
+    if (!rollout) {
+      return this.predictFn(symbol, features, defaultModel);
+    }
+
+    if (rollout.mode === 'shadow') {
+      return this.predictWithShadow(rollout, symbol, features);
+    }
+
+    if (this.random() * 100 >= rollout.rolloutPercentage) {
+      const response = await this.predictFn(symbol, features, rollout.primaryModel);
+      this.append({ response, symbol, mode: 'canary', servedBy: 'primary', primary: toRecord(rollout.primaryModel, response), candidate: null });
+      return response;
+    }
+
+    try {
+      const response = await this.predictFn(symbol, features, rollout.candidateModel);
+      this.append({ response, symbol, mode: 'canary', servedBy: 'candidate', primary: null, candidate: toRecord(rollout.candidateModel, response) });
+      return response;
+    } catch (error) {
+      // A failing canary must not fail the request: fall back to the primary model
+      const response = await this.predictFn(symbol, features, rollout.primaryModel);
+      this.append({
+        response, symbol, mode: 'canary', servedBy: 'primary',
+        primary: toRecord(rollout.primaryModel, response),
+        candidate: null,
+        candidateError: error instanceof Error ? error.message : String(error)
+      });
+      return response;
+    }
+  }
+
+  /**
+   * Route every request on its own; requests issued together still share
+   * one inference batch through the service's micro-batching queue
+   */
+  batchPredict(
+    requests: Array<{ symbol: string; features: number[] }>,
+    defaultModel = 'default'
+  ): Promise<PredictionResponse[]> {
+    return Promise.all(requests.map(req => this.predict(req.symbol, req.features, defaultModel)));
+  }
+
+  /**
+   * Report the realized direction for a logged request so live accuracy can be measured
+   */
+  recordOutcome(requestId: string, outcome: 'UP' | 'DOWN'): boolean {
+    const entry = this.log.find(e => e.requestId === requestId);
+    if (!entry) return false;
+    entry.outcome = outcome;
+    return true;
+  }
+
+  getPredictionLog(limit = MAX_LOG_SIZE): PairedPredictionLog[] {
+    return this.log.slice(-limit);
+  }
+
+  getCandidateStats(): CandidateStats {
+    const attempts = this.log.filter(e => e.candidate || e.candidateError);
+    const served = attempts.filter(e => e.candidate);
+    const labeled = served.filter(e => e.outcome);
+    const paired = served.filter(e => e.primary);
+
+    const correct = labeled.filter(e => e.candidate!.direction === e.outcome).length;
+    const agreeing = paired.filter(e => e.candidate!.direction === e.primary!.direction).length;
+
+    return {
+      requests: attempts.length,
+      errors: attempts.length - served.length,
+      errorRate: attempts.length > 0 ? (attempts.length - served.length) / attempts.length : 0,
+      averageLatency: served.length > 0
+        ? served.reduce((sum, e) => sum + e.candidate!.latency, 0) / served.length
+        : 0,
+      labeled: labeled.length,
+      accuracy: labeled.length > 0 ? correct / labeled.length : null,
+      agreement: paired.length > 0 ? agreeing / paired.length : null
+    };
+  }
+
+  /**
+   * Check the candidate against the thresholds; with autoRollback a failing
+   * candidate is removed from routing and rolled back
+   */
+  async evaluateCandidate(): Promise<RolloutEvaluation> {
+    const stats = this.getCandidateStats();
+    const rollout = this.rollout;
+    if (!rollout) {
+      return { healthy: true, reasons: [], stats };
+    }
+
+    const { thresholds } = rollout;
+    const reasons: string[] = [];
+    if (stats.requests >= thresholds.minSamples) {
+      if (stats.errorRate > thresholds.maxErrorRate) {
+        reasons.push(`Error rate ${(stats.errorRate * 100).toFixed(1)}% above ${(thresholds.maxErrorRate * 100).toFixed(1)}%`);
+      }
+      if (stats.averageLatency > thresholds.maxLatencyMs) {
+        reasons.push(`Latency ${stats.averageLatency.toFixed(1)}ms above ${thresholds.maxLatencyMs}ms`);
+      }
+    }
+    if (stats.accuracy !== null && stats.labeled >= thresholds.minSamples && stats.accuracy < thresholds.minAccuracy) {
+      reasons.push(`Accuracy ${(stats.accuracy * 100).toFixed(1)}% below ${(thresholds.minAccuracy * 100).toFixed(1)}%`);
+    }
+
+    const healthy = reasons.length === 0;
+    if (!healthy && rollout.autoRollback && !this.rollingBack) {
+      this.rollingBack = true;
+      // Traffic returns to the primary model before the rollback itself runs
+      this.stopRollout();
+      try {
+        await this.onRollback(rollout, reasons);
+      } finally {
+        this.rollingBack = false;
+      }
+    }
+
+    return { healthy, reasons, stats };
+  }
+
+  private async predictWithShadow(
+    rollout: RolloutConfig,
+    symbol: string,
+    features: number[]
+  ): Promise<PredictionResponse> {
+    const [primary, shadow] = await Promise.allSettled([
+      this.predictFn(symbol, features, rollout.primaryModel),
+      this.predictFn(symbol, features, rollout.candidateModel)
+    ]);
+
+    if (primary.status === 'rejected') throw primary.reason;
+
+    this.append({
+      response: primary.value,
+      symbol,
+      mode: 'shadow',
+      servedBy: 'primary',
+      primary: toRecord(rollout.primaryModel, primary.value),
+      candidate: shadow.status === 'fulfilled' ? toRecord(rollout.candidateModel, shadow.value) : null,
+      candidateError: shadow.status === 'rejected'
+        ? (shadow.reason instanceof Error ? shadow.reason.message : String(shadow.reason))
+        : undefined
+    });
+
+    return primary.value;
+  }
+
+  private append(entry: Omit<PairedPredictionLog, 'requestId' | 'timestamp'> & { response: PredictionResponse }): void {
+    const { response, ...rest } = entry;
+    this.log.push({ requestId: response.requestId, timestamp: Date.now(), ...rest });
+    if (this.log.length > MAX_LOG_SIZE) {
+      this.log.splice(0, this.log.length - MAX_LOG_SIZE);
+    }
+  }
+}
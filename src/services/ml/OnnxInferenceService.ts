@@ -21,9 +21,12 @@ interface PredictionRequest {
   features: number[];
   requestId: string;
   timestamp: number;
+  modelName: string;
+  resolve: (response: PredictionResponse) => void;
+  reject: (error: unknown) => void;
 }
 
-interface PredictionResponse {
+export interface PredictionResponse {
   symbol: string;
   prediction: PredictionResult;
   confidence: number;
@@ -40,10 +43,40 @@ interface InferenceMetrics {
   successfulPredictions: number;
   modelLoadTime: number;
   memoryUsage: number;
+  /** Average rows per session run over the throughput window */
   batchSize: number;
+  /** Completed predictions per second over the throughput window */
   throughput: number;
+  queueLength: number;
 }
 
+/**
+ * Micro-batching: queued requests for the same model are stacked into one
+ * [N, F] tensor, flushed when maxBatchSize is reached or after maxWaitMs
+ */
+export interface BatchingConfig {
+  maxBatchSize: number;
+  maxWaitMs: number;
+}
+
+export const DEFAULT_BATCHING_CONFIG: BatchingConfig = {
+  maxBatchSize: 32,
+  maxWaitMs: 5
+};
+
+const THROUGHPUT_WINDOW_MS = 10000;
+
+/**
+ * Feature order produced by extractFeaturesFromCandles; model manifests are checked against it
+ */
+export const ONNX_FEATURE_NAMES = [
+  'open', 'high', 'low', 'close', 'volume',
+  'close_open_ratio', 'high_low_ratio',
+  'sma_5', 'sma_10', 'sma_20',
+  'close_sma_5_ratio', 'close_sma_10_ratio', 'close_sma_20_ratio',
+  'volatility', 'momentum_5'
+] as const;
+
 export class OnnxInferenceService {
   private models: Map<string, ort.InferenceSession> = new Map();
   private modelConfigs: Map<string, ModelConfig> = new Map();
@@ -55,13 +88,18 @@ export class OnnxInferenceService {
     modelLoadTime: 0,
     memoryUsage: 0,
     batchSize: 1,
-    throughput: 0
+    throughput: 0,
+    queueLength: 0
   };
   private requestQueue: PredictionRequest[] = [];
   private isProcessing = false;
   private warmupComplete = false;
+  private batching: BatchingConfig;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private completedBatches: Array<{ start: number; end: number; size: number }> = [];
 
-  constructor() {
+  constructor(batching: Partial<BatchingConfig> = {}) {
+    this.batching = { ...DEFAULT_BATCHING_CONFIG, ...batching };
     this.initializeOnnxRuntime();
   }
 
@@ -69,7 +107,7 @@ export class OnnxInferenceService {
     try {
       // Configure ONNX Runtime for optimal performance
       ort.env.wasm.wasmPaths = 'https://cdn.jsdelivr.net/npm/onnxruntime-web@latest/dist/';
-      ort.env.wasm.numThreads = navigator.hardwareConcurrency || 4;
+      ort.env.wasm.numThreads = (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4;
       ort.env.webgl.contextId = 'webgl2';
       
       console.log('ONNX Runtime initialized successfully');
@@ -178,7 +216,11 @@ export class OnnxInferenceService {
     return new Float32Array(processed);
   }
 
-  private async runInference(modelName: string, inputData: Float32Array): Promise<ort.InferenceSession.OnnxValueMapType> {
+  private async runInference(
+    modelName: string,
+    inputData: Float32Array,
+    batchSize = 1
+  ): Promise<ort.InferenceSession.OnnxValueMapType> {
     const session = this.models.get(modelName);
     if (!session) {
       throw new Error(`Model ${modelName} not found`);
@@ -189,8 +231,9 @@ export class OnnxInferenceService {
       throw new Error(`Model config for ${modelName} not found`);
     }
 
-    // Create input tensor
-    const inputTensor = new ort.Tensor('float32', inputData, config.inputShape);
+    // Create input tensor; the leading dimension is the batch
+    const dims = batchSize === 1 ? config.inputShape : [batchSize, ...config.inputShape.slice(1)];
+    const inputTensor = new ort.Tensor('float32', inputData, dims);
     const feeds: Record<string, ort.Tensor> = { input: inputTensor };
 
     // Run inference
@@ -207,13 +250,10 @@ export class OnnxInferenceService {
   }
 
   private convertToPredictionResult(
-    output: ort.InferenceSession.OnnxValueMapType,
+    predictions: Float32Array,
     symbol: string,
     modelVersion: string
   ): PredictionResult {
-    const outputTensor = output.output as ort.Tensor;
-    const predictions = outputTensor.data as Float32Array;
-
     // Assuming binary classification output [call_prob, put_prob]
     const callProb = predictions[0];
     const putProb = predictions[1];
@@ -252,91 +292,158 @@ export class OnnxInferenceService {
     features: number[],
     modelName = 'default'
   ): Promise<PredictionResponse> {
-    const startTime = performance.now();
-    const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const response = this.enqueue(symbol, features, modelName);
+    this.scheduleFlush();
+    return response;
+  }
 
+  /**
+   * Queue all requests at once and flush immediately: one session run per
+   * maxBatchSize rows instead of one per request
+   */
+  async batchPredict(
+    requests: Array<{ symbol: string; features: number[] }>,
+    modelName = 'default'
+  ): Promise<PredictionResponse[]> {
     try {
+      const responses = requests.map(req => this.enqueue(req.symbol, req.features, modelName));
+      void this.processQueue();
+      return await Promise.all(responses);
+    } catch (error) {
+      console.error('Batch prediction failed:', error);
+      throw error;
+    }
+  }
+
+  private enqueue(symbol: string, features: number[], modelName: string): Promise<PredictionResponse> {
+    return new Promise((resolve, reject) => {
+      this.requestQueue.push({
+        symbol,
+        features,
+        modelName,
+        requestId: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: performance.now(),
+        resolve,
+        reject
+      });
       this.metrics.totalRequests++;
+      this.metrics.queueLength = this.requestQueue.length;
+    });
+  }
+
+  private scheduleFlush(): void {
+    if (this.requestQueue.length >= this.batching.maxBatchSize) {
+      void this.processQueue();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.processQueue();
+      }, this.batching.maxWaitMs);
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    try {
+      while (this.requestQueue.length > 0) {
+        // Take up to maxBatchSize requests for the model at the head of the queue
+        const modelName = this.requestQueue[0].modelName;
+        const batch: PredictionRequest[] = [];
+        this.requestQueue = this.requestQueue.filter(request => {
+          if (request.modelName !== modelName || batch.length >= this.batching.maxBatchSize) return true;
+          batch.push(request);
+          return false;
+        });
+        this.metrics.queueLength = this.requestQueue.length;
+
+        await this.runBatch(modelName, batch);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
 
+  private async runBatch(modelName: string, requests: PredictionRequest[]): Promise<void> {
+    const batchStart = performance.now();
+    let batch = requests;
+
+    try {
       if (!this.warmupComplete) {
         throw new Error('Model not ready - warmup in progress');
       }
 
       const session = this.models.get(modelName);
       const config = this.modelConfigs.get(modelName);
-      
       if (!session || !config) {
         throw new Error(`Model ${modelName} not available`);
       }
 
-      // Preprocess features
-      const processedFeatures = this.preprocessFeatures(features, modelName);
-
-      // Run inference
-      const results = await this.runInference(modelName, processedFeatures);
-
-      // Convert to prediction result
-      const prediction = this.convertToPredictionResult(results, symbol, config.version);
-
-      // Calculate uncertainty
-      const outputTensor = results.output as ort.Tensor;
-      const uncertainty = this.calculateUncertainty(outputTensor.data as Float32Array);
-
-      const latency = performance.now() - startTime;
-      
-      // Update metrics
-      this.metrics.successfulPredictions++;
-      this.metrics.averageLatency = 
-        (this.metrics.averageLatency * (this.metrics.successfulPredictions - 1) + latency) / 
-        this.metrics.successfulPredictions;
-
-      return {
-        symbol,
-        prediction,
-        confidence: prediction.confidence,
-        uncertainty,
-        latency,
-        requestId,
-        modelVersion: config.version
-      };
-
+      // A malformed request must not fail the rest of the batch
+      const featureCount = config.inputShape[config.inputShape.length - 1];
+      batch = requests.filter(request => {
+        if (request.features.length === featureCount) return true;
+        request.reject(new Error(`Expected ${featureCount} features, got ${request.features.length}`));
+        return false;
+      });
+      if (batch.length === 0) return;
+
+      // Stack preprocessed rows into one [N, F] tensor
+      const inputData = new Float32Array(batch.length * featureCount);
+      batch.forEach((request, row) => {
+        inputData.set(this.preprocessFeatures(request.features, modelName), row * featureCount);
+      });
+
+      const results = await this.runInference(modelName, inputData, batch.length);
+      const outputData = (results.output as ort.Tensor).data as Float32Array;
+      const outputSize = outputData.length / batch.length;
+      const batchEnd = performance.now();
+
+      batch.forEach((request, row) => {
+        const predictions = outputData.subarray(row * outputSize, (row + 1) * outputSize);
+        const prediction = this.convertToPredictionResult(predictions, request.symbol, config.version);
+        const latency = batchEnd - request.timestamp;
+
+        this.metrics.successfulPredictions++;
+        this.metrics.averageLatency =
+          (this.metrics.averageLatency * (this.metrics.successfulPredictions - 1) + latency) /
+          this.metrics.successfulPredictions;
+
+        request.resolve({
+          symbol: request.symbol,
+          prediction,
+          confidence: prediction.confidence,
+          uncertainty: this.calculateUncertainty(predictions),
+          latency,
+          requestId: request.requestId,
+          modelVersion: config.version
+        });
+      });
+
+      this.recordBatch(batchStart, batchEnd, batch.length);
     } catch (error) {
       this.metrics.errorRate = (this.metrics.totalRequests - this.metrics.successfulPredictions) / this.metrics.totalRequests;
       console.error('Prediction failed:', error);
-      throw error;
+      batch.forEach(request => request.reject(error));
     }
   }
 
-  async batchPredict(
-    requests: Array<{ symbol: string; features: number[] }>,
-    modelName = 'default'
-  ): Promise<PredictionResponse[]> {
-    const batchStartTime = performance.now();
-    
-    try {
-      // Process requests in parallel with controlled concurrency
-      const BATCH_SIZE = 8;
-      const results: PredictionResponse[] = [];
-      
-      for (let i = 0; i < requests.length; i += BATCH_SIZE) {
-        const batch = requests.slice(i, i + BATCH_SIZE);
-        const batchPromises = batch.map(req => 
-          this.predict(req.symbol, req.features, modelName)
-        );
-        
-        const batchResults = await Promise.all(batchPromises);
-        results.push(...batchResults);
-      }
-
-      const totalLatency = performance.now() - batchStartTime;
-      this.metrics.batchSize = requests.length;
-      this.metrics.throughput = requests.length / (totalLatency / 1000);
-
-      return results;
-    } catch (error) {
-      console.error('Batch prediction failed:', error);
-      throw error;
-    }
+  /**
+   * Throughput over the recent window: completed rows per second of wall time
+   */
+  private recordBatch(start: number, end: number, size: number): void {
+    this.completedBatches.push({ start, end, size });
+    this.completedBatches = this.completedBatches.filter(b => b.end >= end - THROUGHPUT_WINDOW_MS);
+
+    const rows = this.completedBatches.reduce((sum, b) => sum + b.size, 0);
+    const elapsedMs = end - this.completedBatches[0].start;
+    this.metrics.batchSize = rows / this.completedBatches.length;
+    this.metrics.throughput = elapsedMs > 0 ? rows / (elapsedMs / 1000) : 0;
   }
 
   async extractFeaturesFromCandles(candles: CandleData[]): Promise<number[]> {
@@ -382,6 +489,10 @@ export class OnnxInferenceService {
     return { ...this.metrics };
   }
 
+  isModelLoaded(modelName: string): boolean {
+    return this.models.has(modelName);
+  }
+
   getModelInfo(): Array<{ name: string; version: string; loaded: boolean }> {
     return Array.from(this.modelConfigs.entries()).map(([name, config]) => ({
       name,
@@ -1,5 +1,30 @@
 import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
+import {
+  GradientBoostingConfig,
+  RandomForestConfig,
+  RandomForestModel,
+  TrainingSample,
+  XGBoostModel,
+  createEmptyGradientBoosting,
+  createEmptyRandomForest,
+  predictGradientBoosting,
+  predictRandomForest,
+  trainGradientBoosting,
+  trainRandomForest
+} from './TreeEnsemble';
+import { EpochStats, SequenceModel, SequenceModelConfig, SerializedSequenceModel } from './sequence/SequenceModel';
+import { SequenceTrainingJobResult, SequenceTrainingRequest, applyStandardization } from './sequence/SequenceTrainingJob';
+import { trainSequenceModelInWorker } from './sequence/SequenceTrainingClient';
+import { FeatureVector } from './AdvancedMLTrainingService';
+import {
+  FEATURES_PER_TIMEFRAME,
+  MultiTimeframeContext,
+  buildMultiTimeframeContext,
+  getDefaultHigherTimeframes,
+  getMultiTimeframeFeatures,
+  getTrendAlignmentScore
+} from '../prediction/MultiTimeframeContext';
 
 interface AdvancedNeuralNetwork {
   layers: {
@@ -21,69 +46,95 @@ interface AdvancedNeuralNetwork {
 interface EnsembleModel {
   randomForest: RandomForestModel;
   xgboost: XGBoostModel; 
-  lstm: LSTMModel;
+  treeMultiTimeframe: MultiTimeframeSettings | null; // Старшие таймфреймы, с которыми обучены деревья
+  lstm: LSTMModel | null; // Рекуррентная модель появляется после trainSequenceModel
   neuralNetwork: AdvancedNeuralNetwork;
   weights: number[]; // Веса для ансамбля
 }
 
-interface RandomForestModel {
-  trees: DecisionTree[];
-  featureImportance: number[];
-  nTrees: number;
+interface LSTMModel {
+  model: SequenceModel;
+  normalization?: { mean: number[]; std: number[] };
+  multiTimeframe: MultiTimeframeSettings | null;
 }
 
-interface XGBoostModel {
-  boosters: GradientBooster[];
-  learningRate: number;
-  maxDepth: number;
-  nEstimators: number;
+export interface ModelPerformance {
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1Score: number;
+  auc: number;
 }
 
-interface LSTMModel {
-  weights: {
-    inputWeights: number[][];
-    hiddenWeights: number[][];
-    cellWeights: number[][];
-    outputWeights: number[][];
-  };
-  sequenceLength: number;
-  hiddenSize: number;
+export interface TreeTrainingOptions {
+  horizon: number; // Метка — направление close через N свечей
+  validationSplit: number; // Доля последних образцов для валидации
+  timeframe?: string | null; // Таймфрейм свечей: включает признаки старших таймфреймов (null — выключает)
+  randomForest?: Partial<RandomForestConfig>;
+  gradientBoosting?: Partial<GradientBoostingConfig>;
+}
+
+export interface TreeTrainingReport {
+  trainSamples: number;
+  validationSamples: number;
+  randomForestAccuracy: number;
+  gradientBoostingAccuracy: number;
+  featureImportance: Array<{ feature: number; importance: number }>;
 }
 
-interface DecisionTree {
-  root: TreeNode;
-  maxDepth: number;
-  minSamplesSplit: number;
+/**
+ * Сериализованные обученные деревья для сохранения/загрузки
+ */
+export interface SerializedTreeModels {
+  version: 1;
+  featureCount: number;
+  multiTimeframe?: MultiTimeframeSettings | null; // С какими старшими таймфреймами обучены деревья
+  randomForest: RandomForestModel;
+  xgboost: XGBoostModel;
 }
 
-interface TreeNode {
-  feature?: number;
-  threshold?: number;
-  left?: TreeNode;
-  right?: TreeNode;
-  prediction?: number;
-  samples: number;
-  gini: number;
+export interface MultiTimeframeSettings {
+  baseTimeframe: string;
+  timeframes: string[];
 }
 
-interface GradientBooster {
-  trees: DecisionTree[];
-  residuals: number[];
-  gamma: number;
+/**
+ * Рекуррентная модель с признаками, на которых она обучена
+ */
+export interface SerializedEnsembleSequenceModel extends SerializedSequenceModel {
+  multiTimeframe?: MultiTimeframeSettings | null;
 }
 
+export interface SequenceModelOptions {
+  horizon: number;
+  cellType: SequenceModelConfig['cellType'];
+  hiddenSize: number;
+  sequenceLength: number;
+  split: SequenceTrainingRequest['split'];
+  training?: SequenceTrainingRequest['training'];
+  timeframe?: string | null; // Как в TreeTrainingOptions
+}
+
+const DEFAULT_SEQUENCE_OPTIONS: SequenceModelOptions = {
+  horizon: 5,
+  cellType: 'lstm',
+  hiddenSize: 16,
+  sequenceLength: 20,
+  split: { trainingRatio: 0.7, validationRatio: 0.15 }
+};
+
+const DEFAULT_TREE_TRAINING: TreeTrainingOptions = {
+  horizon: 5,
+  validationSplit: 0.2
+};
+
 export class ProfessionalMLService {
   private static instance: ProfessionalMLService;
   private ensembleModel: EnsembleModel;
-  private trainingData: Array<{features: number[], target: number}> = [];
-  private validationData: Array<{features: number[], target: number}> = [];
-  private modelPerformance: {
-    accuracy: number;
-    precision: number;
-    recall: number;
-    f1Score: number;
-    auc: number;
-  } = { accuracy: 0, precision: 0, recall: 0, f1Score: 0, auc: 0 };
+  private trainingData: TrainingSample[] = [];
+  private validationData: TrainingSample[] = [];
+  private modelPerformance: ModelPerformance = { accuracy: 0, precision: 0, recall: 0, f1Score: 0, auc: 0 };
+  private multiTimeframe: MultiTimeframeSettings | null = null;
 
   private constructor() {
     this.initializeEnsembleModel();
@@ -100,16 +151,57 @@ export class ProfessionalMLService {
     this.ensembleModel = {
       randomForest: this.initializeRandomForest(),
       xgboost: this.initializeXGBoost(),
-      lstm: this.initializeLSTM(),
+      treeMultiTimeframe: null,
+      lstm: null,
       neuralNetwork: this.initializeAdvancedNN(),
       weights: [0.3, 0.25, 0.25, 0.2] // RF, XGB, LSTM, NN
     };
   }
 
+  /**
+   * Старшие таймфреймы по умолчанию (null — без них): для обучения без options.timeframe
+   * и для extractAdvancedFeatures без явных настроек. По умолчанию выключены.
+   * Обученные модели хранят свои настройки сами, поэтому смена этой настройки их не ломает
+   */
+  configureMultiTimeframe(baseTimeframe: string | null, timeframes?: string[]): void {
+    this.multiTimeframe = this.resolveMultiTimeframe(baseTimeframe, timeframes);
+  }
+
+  getMultiTimeframeContext(
+    candles: CandleData[],
+    currentIndex: number,
+    settings: MultiTimeframeSettings | null = this.multiTimeframe
+  ): MultiTimeframeContext | null {
+    if (!settings) return null;
+    return buildMultiTimeframeContext(candles, currentIndex, settings.baseTimeframe, {
+      timeframes: settings.timeframes
+    });
+  }
+
+  private resolveMultiTimeframe(baseTimeframe: string | null, timeframes?: string[]): MultiTimeframeSettings | null {
+    return baseTimeframe
+      ? { baseTimeframe, timeframes: timeframes ?? getDefaultHigherTimeframes(baseTimeframe) }
+      : null;
+  }
+
+  /**
+   * Блок признаков старших таймфреймов; его длина не зависит от наличия данных
+   */
+  private getMultiTimeframeBlock(candles: CandleData[], currentIndex: number, settings: MultiTimeframeSettings): number[] {
+    const context = this.getMultiTimeframeContext(candles, currentIndex, settings);
+    return context
+      ? getMultiTimeframeFeatures(context)
+      : new Array(settings.timeframes.length * FEATURES_PER_TIMEFRAME + 1).fill(0);
+  }
+
   /**
    * Профессиональное извлечение признаков (50+ индикаторов)
    */
-  extractAdvancedFeatures(candles: CandleData[], currentIndex: number): number[] {
+  extractAdvancedFeatures(
+    candles: CandleData[],
+    currentIndex: number,
+    multiTimeframe: MultiTimeframeSettings | null = this.multiTimeframe
+  ): number[] {
     const features: number[] = [];
     const lookback = Math.min(100, currentIndex);
     const recentCandles = candles.slice(Math.max(0, currentIndex - lookback), currentIndex + 1);
@@ -227,6 +319,12 @@ export class ProfessionalMLService {
       this.calculateHistoricalVolatility(recentCandles, 20)
     );
 
+    // === СТАРШИЕ ТАЙМФРЕЙМЫ ===
+    // Только закрытые к currentIndex старшие свечи
+    if (multiTimeframe) {
+      features.push(...this.getMultiTimeframeBlock(candles, currentIndex, multiTimeframe));
+    }
+
     return features;
   }
 
@@ -239,17 +337,24 @@ export class ProfessionalMLService {
     config: PredictionConfig
   ): Promise<PredictionResult | null> {
     try {
-      const features = this.extractAdvancedFeatures(candles, currentIndex);
+      // Базовые признаки без старших таймфреймов; каждая модель получает признаки своего обучения
+      const features = this.extractAdvancedFeatures(candles, currentIndex, null);
       if (features.length === 0) return null;
 
+      const treeSettings = this.ensembleModel.treeMultiTimeframe;
+      const treeFeatures = treeSettings
+        ? [...features, ...this.getMultiTimeframeBlock(candles, currentIndex, treeSettings)]
+        : features;
+
       // Нормализация признаков
+      const normalizedTreeFeatures = this.normalizeFeatures(treeFeatures);
       const normalizedFeatures = this.normalizeFeatures(features);
 
       // Получаем предсказания от всех моделей
       const predictions = await Promise.all([
-        this.predictRandomForest(normalizedFeatures),
-        this.predictXGBoost(normalizedFeatures),
-        this.predictLSTM(normalizedFeatures, candles, currentIndex),
+        this.predictRandomForest(normalizedTreeFeatures),
+        this.predictXGBoost(normalizedTreeFeatures),
+        this.predictLSTM(candles, currentIndex),
         this.predictNeuralNetwork(normalizedFeatures)
       ]);
 
@@ -264,6 +369,11 @@ export class ProfessionalMLService {
 
       // Расчет уверенности на основе согласованности моделей
       const confidence = this.calculateModelAgreement(predictions);
+      const mtfContext = this.getMultiTimeframeContext(
+        candles,
+        currentIndex,
+        treeSettings ?? this.ensembleModel.lstm?.multiTimeframe ?? this.multiTimeframe
+      );
 
       return {
         direction,
@@ -280,7 +390,13 @@ export class ProfessionalMLService {
             model: ['RandomForest', 'XGBoost', 'LSTM', 'NeuralNetwork'][idx],
             prediction: pred,
             weight: this.ensembleModel.weights[idx]
-          }))
+          })),
+          ...(mtfContext && {
+            trendAlignment: Number(getTrendAlignmentScore(direction, mtfContext).toFixed(2)),
+            higherTimeframes: mtfContext.states
+              .filter(state => state.available)
+              .map(({ timeframe, trend, strength }) => ({ timeframe, trend, strength }))
+          })
         }
       };
 
@@ -290,162 +406,239 @@ export class ProfessionalMLService {
     }
   }
 
-  // === МОДЕЛИ МАШИННОГО ОБУЧЕНИЯ ===
+  /**
+   * Обучающая выборка: нормализованные признаки extractAdvancedFeatures
+   * и направление close через horizon свечей (1 — рост)
+   */
+  buildTrainingSamples(
+    candles: CandleData[],
+    horizon: number = DEFAULT_TREE_TRAINING.horizon,
+    multiTimeframe: MultiTimeframeSettings | null = this.multiTimeframe
+  ): TrainingSample[] {
+    const samples: TrainingSample[] = [];
+
+    for (let i = 0; i + horizon < candles.length; i++) {
+      const features = this.extractAdvancedFeatures(candles, i, multiTimeframe);
+      if (features.length === 0 || features.some(f => !Number.isFinite(f))) continue;
+
+      const futureClose = candles[i + horizon].close;
+      if (futureClose === candles[i].close) continue; // Без направления
+
+      samples.push({
+        features: this.normalizeFeatures(features),
+        target: futureClose > candles[i].close ? 1 : 0
+      });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Обучение случайного леса и градиентного бустинга на истории свечей.
+   * Валидация — на последних validationSplit образцах (без перемешивания во времени)
+   */
+  async trainTreeModels(
+    candles: CandleData[],
+    options: Partial<TreeTrainingOptions> = {}
+  ): Promise<TreeTrainingReport> {
+    const opts = { ...DEFAULT_TREE_TRAINING, ...options };
+    const multiTimeframe = opts.timeframe !== undefined ? this.resolveMultiTimeframe(opts.timeframe) : this.multiTimeframe;
+    const samples = this.buildTrainingSamples(candles, opts.horizon, multiTimeframe);
+    const splitIndex = Math.floor(samples.length * (1 - opts.validationSplit));
+    const train = samples.slice(0, splitIndex);
+    const validation = samples.slice(splitIndex);
+
+    if (train.length < 10) {
+      throw new Error(`Not enough training samples: ${train.length}`);
+    }
+
+    const randomForest = trainRandomForest(train, opts.randomForest);
+    const xgboost = trainGradientBoosting(train, opts.gradientBoosting);
+
+    this.ensembleModel.randomForest = randomForest;
+    this.ensembleModel.xgboost = xgboost;
+    this.ensembleModel.treeMultiTimeframe = multiTimeframe;
+    this.trainingData = train;
+    this.validationData = validation;
+
+    const rfPredictions = validation.map(s => predictRandomForest(randomForest, s.features));
+    const gbPredictions = validation.map(s => predictGradientBoosting(xgboost, s.features));
+    this.modelPerformance = this.calculateClassificationMetrics(
+      validation.map(s => s.target),
+      gbPredictions
+    );
 
-  private initializeRandomForest(): RandomForestModel {
     return {
-      trees: Array.from({ length: 100 }, () => this.createDecisionTree()),
-      featureImportance: Array(50).fill(0).map(() => Math.random()),
-      nTrees: 100
+      trainSamples: train.length,
+      validationSamples: validation.length,
+      randomForestAccuracy: this.calculateAccuracy(validation, rfPredictions),
+      gradientBoostingAccuracy: this.modelPerformance.accuracy,
+      featureImportance: this.getFeatureImportance()
     };
   }
 
-  private createDecisionTree(): DecisionTree {
-    return {
-      root: this.createTreeNode(0, 1000, 0.5),
-      maxDepth: 10,
-      minSamplesSplit: 5
+  /**
+   * Важность признаков по снижению примеси, усредненная между лесом и бустингом
+   */
+  getFeatureImportance(): Array<{ feature: number; importance: number }> {
+    const rf = this.ensembleModel.randomForest.featureImportance;
+    const gb = this.ensembleModel.xgboost.featureImportance;
+    const length = Math.max(rf.length, gb.length);
+
+    return Array.from({ length }, (_, feature) => ({
+      feature,
+      importance: ((rf[feature] || 0) + (gb[feature] || 0)) / 2
+    })).sort((a, b) => b.importance - a.importance);
+  }
+
+  getModelPerformance(): ModelPerformance {
+    return { ...this.modelPerformance };
+  }
+
+  exportTreeModels(): string {
+    const payload: SerializedTreeModels = {
+      version: 1,
+      featureCount: this.ensembleModel.randomForest.featureImportance.length,
+      multiTimeframe: this.ensembleModel.treeMultiTimeframe,
+      randomForest: this.ensembleModel.randomForest,
+      xgboost: this.ensembleModel.xgboost
     };
+    return JSON.stringify(payload);
   }
 
-  private createTreeNode(depth: number, samples: number, gini: number): TreeNode {
-    if (depth >= 10 || samples < 5) {
-      return {
-        prediction: Math.random() > 0.5 ? 1 : 0,
-        samples,
-        gini
-      };
+  importTreeModels(json: string): void {
+    const payload = JSON.parse(json) as SerializedTreeModels;
+    if (payload.version !== 1 || !Array.isArray(payload.randomForest?.trees) || !Array.isArray(payload.xgboost?.boosters)) {
+      throw new Error('Unsupported tree model format');
     }
+    this.ensembleModel.randomForest = payload.randomForest;
+    this.ensembleModel.xgboost = payload.xgboost;
+    // Признаки при прогнозе должны совпадать с признаками обучения
+    this.ensembleModel.treeMultiTimeframe = payload.multiTimeframe ?? null;
+  }
+
+  private calculateAccuracy(samples: TrainingSample[], predictions: number[]): number {
+    if (samples.length === 0) return 0;
+    const correct = samples.filter((s, i) => (predictions[i] > 0.5 ? 1 : 0) === s.target).length;
+    return correct / samples.length;
+  }
+
+  private calculateClassificationMetrics(targets: number[], probabilities: number[]): ModelPerformance {
+    let tp = 0, fp = 0, tn = 0, fn = 0;
+    targets.forEach((target, i) => {
+      const predicted = probabilities[i] > 0.5 ? 1 : 0;
+      if (predicted === 1 && target === 1) tp++;
+      else if (predicted === 1) fp++;
+      else if (target === 0) tn++;
+      else fn++;
+    });
+
+    const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+    const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+
+    // AUC через ранги (Манна-Уитни)
+    const positives = probabilities.filter((_, i) => targets[i] === 1);
+    const negatives = probabilities.filter((_, i) => targets[i] === 0);
+    let pairs = 0;
+    positives.forEach(p => negatives.forEach(n => { pairs += p > n ? 1 : p === n ? 0.5 : 0; }));
 
     return {
-      feature: Math.floor(Math.random() * 50),
-      threshold: Math.random(),
-      left: this.createTreeNode(depth + 1, Math.floor(samples * 0.6), gini * 0.8),
-      right: this.createTreeNode(depth + 1, Math.floor(samples * 0.4), gini * 0.9),
-      samples,
-      gini
+      accuracy: targets.length > 0 ? (tp + tn) / targets.length : 0,
+      precision,
+      recall,
+      f1Score: precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0,
+      auc: positives.length > 0 && negatives.length > 0 ? pairs / (positives.length * negatives.length) : 0.5
     };
   }
 
-  private async predictRandomForest(features: number[]): Promise<number> {
-    const predictions = this.ensembleModel.randomForest.trees.map(tree => 
-      this.predictTree(tree.root, features));
-    return predictions.reduce((sum, pred) => sum + pred, 0) / predictions.length;
+  // === МОДЕЛИ МАШИННОГО ОБУЧЕНИЯ ===
+
+  // До обучения деревья пусты и дают нейтральные 0.5
+  private initializeRandomForest(): RandomForestModel {
+    return createEmptyRandomForest();
   }
 
-  private predictTree(node: TreeNode, features: number[]): number {
-    if (node.prediction !== undefined) {
-      return node.prediction;
-    }
-    
-    const featureValue = features[node.feature!] || 0;
-    return featureValue <= node.threshold! 
-      ? this.predictTree(node.left!, features)
-      : this.predictTree(node.right!, features);
+  private async predictRandomForest(features: number[]): Promise<number> {
+    return predictRandomForest(this.ensembleModel.randomForest, features);
   }
 
   private initializeXGBoost(): XGBoostModel {
-    return {
-      boosters: Array.from({ length: 100 }, () => ({
-        trees: Array.from({ length: 3 }, () => this.createDecisionTree()),
-        residuals: Array(1000).fill(0).map(() => Math.random() * 0.1),
-        gamma: 0.1
-      })),
-      learningRate: 0.1,
-      maxDepth: 6,
-      nEstimators: 100
-    };
+    return createEmptyGradientBoosting();
   }
 
   private async predictXGBoost(features: number[]): Promise<number> {
-    let prediction = 0;
-    for (const booster of this.ensembleModel.xgboost.boosters) {
-      const treePrediction = booster.trees
-        .map(tree => this.predictTree(tree.root, features))
-        .reduce((sum, pred) => sum + pred, 0) / booster.trees.length;
-      prediction += treePrediction * this.ensembleModel.xgboost.learningRate;
+    return predictGradientBoosting(this.ensembleModel.xgboost, features);
+  }
+
+  /**
+   * Обучение LSTM/GRU на последовательностях признаков extractAdvancedFeatures.
+   * Выполняется в Web Worker, метка — направление close через horizon свечей
+   */
+  async trainSequenceModel(
+    candles: CandleData[],
+    options: Partial<SequenceModelOptions> = {},
+    onEpoch?: (stats: EpochStats) => void
+  ): Promise<SequenceTrainingJobResult> {
+    const opts = { ...DEFAULT_SEQUENCE_OPTIONS, ...options };
+    const multiTimeframe = opts.timeframe !== undefined ? this.resolveMultiTimeframe(opts.timeframe) : this.multiTimeframe;
+    const features: FeatureVector[] = [];
+
+    for (let i = 0; i + opts.horizon < candles.length; i++) {
+      const vector = this.extractAdvancedFeatures(candles, i, multiTimeframe);
+      if (vector.length === 0 || vector.some(v => !Number.isFinite(v))) continue;
+
+      features.push({
+        timestamp: new Date(candles[i].candle_datetime).getTime(),
+        features: vector,
+        label: candles[i + opts.horizon].close > candles[i].close ? 1 : 0
+      });
     }
-    return this.sigmoid(prediction);
+
+    const result = await trainSequenceModelInWorker({
+      features,
+      split: opts.split,
+      model: { cellType: opts.cellType, hiddenSize: opts.hiddenSize, sequenceLength: opts.sequenceLength },
+      training: opts.training
+    }, onEpoch);
+
+    this.setSequenceModel({ ...result.model, multiTimeframe });
+    return result;
   }
 
-  private initializeLSTM(): LSTMModel {
-    const hiddenSize = 128;
-    const inputSize = 50;
-    
-    return {
-      weights: {
-        inputWeights: this.initializeMatrix(inputSize, hiddenSize * 4),
-        hiddenWeights: this.initializeMatrix(hiddenSize, hiddenSize * 4),
-        cellWeights: this.initializeMatrix(hiddenSize, hiddenSize * 3),
-        outputWeights: this.initializeMatrix(hiddenSize, 1)
-      },
-      sequenceLength: 20,
-      hiddenSize
+  setSequenceModel(serialized: SerializedEnsembleSequenceModel): void {
+    this.ensembleModel.lstm = {
+      model: SequenceModel.fromJSON(serialized),
+      normalization: serialized.normalization,
+      multiTimeframe: serialized.multiTimeframe ?? null
     };
   }
 
-  private async predictLSTM(features: number[], candles: CandleData[], currentIndex: number): Promise<number> {
-    // Создаем последовательность для LSTM
-    const sequenceLength = this.ensembleModel.lstm.sequenceLength;
-    const sequence: number[][] = [];
-    
-    for (let i = Math.max(0, currentIndex - sequenceLength + 1); i <= currentIndex; i++) {
-      const seqFeatures = this.extractAdvancedFeatures(candles, i);
-      if (seqFeatures.length > 0) {
-        sequence.push(this.normalizeFeatures(seqFeatures));
-      }
-    }
+  exportSequenceModel(): string | null {
+    const lstm = this.ensembleModel.lstm;
+    if (!lstm) return null;
+    const payload: SerializedEnsembleSequenceModel = {
+      ...lstm.model.toJSON(),
+      normalization: lstm.normalization,
+      multiTimeframe: lstm.multiTimeframe
+    };
+    return JSON.stringify(payload);
+  }
 
-    if (sequence.length === 0) return 0.5;
+  private async predictLSTM(candles: CandleData[], currentIndex: number): Promise<number> {
+    const lstm = this.ensembleModel.lstm;
+    if (!lstm) return 0.5;
 
-    // Упрощенная LSTM логика (в реальности использовать TensorFlow.js)
-    let hiddenState = Array(this.ensembleModel.lstm.hiddenSize).fill(0);
-    let cellState = Array(this.ensembleModel.lstm.hiddenSize).fill(0);
+    const { sequenceLength } = lstm.model.config;
+    const sequence: number[][] = [];
 
-    for (const input of sequence) {
-      const result = this.lstmCell(input, hiddenState, cellState);
-      hiddenState = result.hiddenState;
-      cellState = result.cellState;
+    for (let i = Math.max(0, currentIndex - sequenceLength + 1); i <= currentIndex; i++) {
+      const seqFeatures = this.extractAdvancedFeatures(candles, i, lstm.multiTimeframe);
+      if (seqFeatures.length === 0) continue;
+      sequence.push(lstm.normalization ? applyStandardization(seqFeatures, lstm.normalization) : seqFeatures);
     }
 
-    // Финальное предсказание
-    return this.sigmoid(this.dotProduct(hiddenState, this.ensembleModel.lstm.weights.outputWeights[0]));
-  }
-
-  private lstmCell(input: number[], hiddenState: number[], cellState: number[]): 
-    {hiddenState: number[], cellState: number[]} {
-    
-    const hiddenSize = hiddenState.length;
-    
-    // Forget gate
-    const forgetGate = input.map((x, i) => 
-      this.sigmoid(x * 0.5 + (hiddenState[i % hiddenSize] || 0) * 0.3));
-    
-    // Input gate
-    const inputGate = input.map((x, i) => 
-      this.sigmoid(x * 0.4 + (hiddenState[i % hiddenSize] || 0) * 0.4));
-    
-    // Candidate values
-    const candidates = input.map((x, i) => 
-      Math.tanh(x * 0.3 + (hiddenState[i % hiddenSize] || 0) * 0.2));
-    
-    // Update cell state
-    const newCellState = cellState.map((c, i) => 
-      c * (forgetGate[i % forgetGate.length] || 0) + 
-      (inputGate[i % inputGate.length] || 0) * (candidates[i % candidates.length] || 0));
-    
-    // Output gate
-    const outputGate = input.map((x, i) => 
-      this.sigmoid(x * 0.35 + (hiddenState[i % hiddenSize] || 0) * 0.35));
-    
-    // New hidden state
-    const newHiddenState = newCellState.map((c, i) => 
-      (outputGate[i % outputGate.length] || 0) * Math.tanh(c));
-
-    return {
-      hiddenState: newHiddenState,
-      cellState: newCellState
-    };
+    if (sequence.length < sequenceLength) return 0.5;
+    return lstm.model.predict(sequence);
   }
 
   private initializeAdvancedNN(): AdvancedNeuralNetwork {
@@ -2,6 +2,13 @@ import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
 import { TechnicalIndicatorService } from '../indicators/TechnicalIndicators';
 import { PatternAnalysisService } from '../patterns/PatternAnalysis';
+import {
+  MODEL_SCHEMA_VERSION,
+  NormalizationStats,
+  PersistedModel,
+  computeNormalizationStats,
+  modelPersistenceService
+} from './persistence/ModelPersistenceService';
 
 interface NetworkWeights {
   input_hidden: number[][];
@@ -17,6 +24,10 @@ interface TrainingExample {
   actualOutcome?: number;
 }
 
+const MODEL_ID = 'real-ml';
+const DEFAULT_PAIR = 'DEFAULT';
+const DEFAULT_TIMEFRAME = 'DEFAULT';
+
 interface FeatureSet {
   technical: number[];
   pattern: number[];
@@ -37,10 +48,15 @@ export class RealMLService {
   private modelAccuracy = 0.55;
   private lastTrainingTime = 0;
   private readonly minTrainingInterval = 60000; // 1 минута
+  private pair = DEFAULT_PAIR;
+  private timeframe = DEFAULT_TIMEFRAME;
+  private normalizationStats: NormalizationStats | null = null;
+  private savedVersion = 0;
+  private restorePromise: Promise<boolean>;
 
   private constructor() {
     this.initializeNetwork();
-    this.loadTrainingHistory();
+    this.restorePromise = this.loadTrainingHistory();
   }
 
   static getInstance(): RealMLService {
@@ -229,6 +245,7 @@ export class RealMLService {
     this.lastTrainingTime = Date.now();
     this.calculateAccuracy();
     console.log(`🧠 Сеть обучена. Точность: ${(this.modelAccuracy * 100).toFixed(1)}%`);
+    await this.saveModel();
   }
 
   private async trainBatch(batch: TrainingExample[]): Promise<void> {
@@ -529,9 +546,108 @@ export class RealMLService {
     this.weights.output_bias += gradients.output_bias * lr;
   }
 
-  private loadTrainingHistory(): void {
-    // В реальной реализации здесь была бы загрузка из постоянного хранилища
+  // === ПЕРСИСТЕНТНОСТЬ ===
+
+  /**
+   * Восстановление последней сохраненной версии для текущей пары/таймфрейма
+   */
+  private async loadTrainingHistory(): Promise<boolean> {
+    try {
+      const record = await modelPersistenceService.load<NetworkWeights>(MODEL_ID, this.pair, this.timeframe);
+      return record ? this.applyRecord(record) : false;
+    } catch (error) {
+      console.warn('Failed to restore ML model:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Завершение восстановления модели после getInstance(); true — веса загружены
+   */
+  whenRestored(): Promise<boolean> {
+    return this.restorePromise;
+  }
+
+  /**
+   * Переключение на модель другой пары/таймфрейма: сохраненная версия или новая сеть
+   */
+  async useModel(pair: string, timeframe: string): Promise<boolean> {
+    await this.restorePromise;
+    this.pair = pair.toUpperCase();
+    this.timeframe = timeframe;
+    this.initializeNetwork();
     this.trainingData = [];
+    this.normalizationStats = null;
+    this.savedVersion = 0;
+    this.restorePromise = this.loadTrainingHistory();
+    return this.restorePromise;
+  }
+
+  async saveModel(): Promise<PersistedModel<NetworkWeights> | null> {
+    try {
+      const record = await modelPersistenceService.save<NetworkWeights>({
+        ...this.createSnapshot(),
+        normalization: computeNormalizationStats(this.trainingData)
+      });
+      this.savedVersion = record.version;
+      this.normalizationStats = record.normalization;
+      return record;
+    } catch (error) {
+      console.warn('Failed to save ML model:', error);
+      return null;
+    }
+  }
+
+  exportModel(): string {
+    return modelPersistenceService.exportModel<NetworkWeights>({
+      ...this.createSnapshot(),
+      version: this.savedVersion,
+      schemaVersion: MODEL_SCHEMA_VERSION,
+      savedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Загрузка файла модели: переключает пару/таймфрейм на указанные в файле и сохраняет как новую версию
+   */
+  async importModel(json: string): Promise<void> {
+    const record = modelPersistenceService.parseModelFile<NetworkWeights>(json, MODEL_ID);
+    await this.restorePromise;
+    if (!this.applyRecord(record)) {
+      throw new Error('Model file does not match the network architecture');
+    }
+    await this.saveModel();
+  }
+
+  private createSnapshot() {
+    return {
+      modelId: MODEL_ID,
+      pair: this.pair,
+      timeframe: this.timeframe,
+      architecture: { inputSize: this.inputSize, hiddenSize: this.hiddenSize },
+      weights: this.weights,
+      normalization: this.normalizationStats,
+      trainingExamples: this.trainingData,
+      metrics: { accuracy: this.modelAccuracy, lastTrainingTime: this.lastTrainingTime }
+    };
+  }
+
+  private applyRecord(record: PersistedModel<NetworkWeights>): boolean {
+    const { inputSize, hiddenSize } = record.architecture;
+    if (inputSize !== this.inputSize || hiddenSize !== this.hiddenSize) {
+      console.warn(`Stored ML model ${record.version} has a different architecture, ignoring`);
+      return false;
+    }
+
+    this.pair = record.pair;
+    this.timeframe = record.timeframe;
+    this.weights = record.weights;
+    this.trainingData = record.trainingExamples.map(example => ({ ...example }));
+    this.normalizationStats = record.normalization;
+    this.savedVersion = record.version;
+    this.modelAccuracy = record.metrics?.accuracy ?? this.modelAccuracy;
+    this.lastTrainingTime = record.metrics?.lastTrainingTime ?? 0;
+    return true;
   }
 
   getModelStats() {
@@ -540,7 +656,11 @@ export class RealMLService {
       trainingExamples: this.trainingData.length,
       lastTraining: this.lastTrainingTime,
       inputSize: this.inputSize,
-      hiddenSize: this.hiddenSize
+      hiddenSize: this.hiddenSize,
+      pair: this.pair,
+      timeframe: this.timeframe,
+      version: this.savedVersion,
+      normalization: this.normalizationStats
     };
   }
 }
@@ -0,0 +1,353 @@
+import { createSeededRandom } from '@/lib/utils';
+
+export interface TreeNode {
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+  prediction?: number;
+  samples: number;
+  gini: number; // Примесь узла (для бинарной цели — индекс Джини, для остатков — дисперсия)
+}
+
+export interface DecisionTree {
+  root: TreeNode;
+  maxDepth: number;
+  minSamplesSplit: number;
+}
+
+export interface RandomForestModel {
+  trees: DecisionTree[];
+  featureImportance: number[];
+  nTrees: number;
+}
+
+export interface GradientBooster {
+  trees: DecisionTree[];
+  gamma: number; // Минимальное снижение примеси для разбиения
+}
+
+export interface XGBoostModel {
+  boosters: GradientBooster[];
+  baseScore: number; // Начальный log-odds
+  learningRate: number;
+  maxDepth: number;
+  nEstimators: number;
+  featureImportance: number[];
+}
+
+export interface TrainingSample {
+  features: number[];
+  target: number; // 1 — рост, 0 — падение
+}
+
+export interface TreeConfig {
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  maxFeatures?: number; // Признаков на разбиение; по умолчанию все
+  minImpurityDecrease: number;
+}
+
+export interface RandomForestConfig extends TreeConfig {
+  nTrees: number;
+  subsample: number; // Доля бутстрэп-выборки
+  seed: number;
+}
+
+export interface GradientBoostingConfig extends TreeConfig {
+  nEstimators: number;
+  learningRate: number;
+  subsample: number; // Стохастический бустинг: доля строк на раунд
+  seed: number;
+}
+
+export const DEFAULT_RANDOM_FOREST_CONFIG: RandomForestConfig = {
+  nTrees: 50,
+  maxDepth: 6,
+  minSamplesSplit: 10,
+  minSamplesLeaf: 5,
+  minImpurityDecrease: 0,
+  subsample: 1,
+  seed: 42
+};
+
+export const DEFAULT_GRADIENT_BOOSTING_CONFIG: GradientBoostingConfig = {
+  nEstimators: 100,
+  learningRate: 0.1,
+  maxDepth: 3,
+  minSamplesSplit: 10,
+  minSamplesLeaf: 5,
+  minImpurityDecrease: 0,
+  subsample: 0.8,
+  seed: 42
+};
+
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+const clampProbability = (p: number): number => Math.min(1 - 1e-6, Math.max(1e-6, p));
+
+type LeafValue = (indices: number[]) => number;
+
+/**
+ * CART с разбиениями по снижению квадратичной ошибки.
+ * Для бинарной цели это эквивалентно критерию Джини
+ */
+class CartBuilder {
+  constructor(
+    private X: number[][],
+    private y: number[],
+    private config: TreeConfig,
+    private random: () => number,
+    private importance: number[],
+    private leafValue: LeafValue
+  ) {}
+
+  build(indices: number[]): DecisionTree {
+    return {
+      root: this.buildNode(indices, 0),
+      maxDepth: this.config.maxDepth,
+      minSamplesSplit: this.config.minSamplesSplit
+    };
+  }
+
+  private buildNode(indices: number[], depth: number): TreeNode {
+    const impurity = this.variance(indices);
+    const leaf = (): TreeNode => ({
+      prediction: this.leafValue(indices),
+      samples: indices.length,
+      gini: 2 * impurity
+    });
+
+    if (depth >= this.config.maxDepth || indices.length < this.config.minSamplesSplit || impurity === 0) {
+      return leaf();
+    }
+
+    const split = this.findBestSplit(indices, impurity);
+    if (!split) return leaf();
+
+    this.importance[split.feature] += split.gain;
+
+    return {
+      feature: split.feature,
+      threshold: split.threshold,
+      left: this.buildNode(split.left, depth + 1),
+      right: this.buildNode(split.right, depth + 1),
+      samples: indices.length,
+      gini: 2 * impurity
+    };
+  }
+
+  private findBestSplit(indices: number[], impurity: number) {
+    const n = indices.length;
+    const { minSamplesLeaf, minImpurityDecrease } = this.config;
+    let best: { feature: number; threshold: number; gain: number; left: number[]; right: number[] } | null = null;
+
+    for (const feature of this.candidateFeatures()) {
+      const sorted = [...indices].sort((a, b) => this.X[a][feature] - this.X[b][feature]);
+      const total = sorted.reduce((sum, i) => sum + this.y[i], 0);
+      const totalSq = sorted.reduce((sum, i) => sum + this.y[i] * this.y[i], 0);
+      let leftSum = 0;
+      let leftSq = 0;
+
+      for (let k = 0; k < n - 1; k++) {
+        const value = this.y[sorted[k]];
+        leftSum += value;
+        leftSq += value * value;
+
+        const leftCount = k + 1;
+        const rightCount = n - leftCount;
+        const current = this.X[sorted[k]][feature];
+        const next = this.X[sorted[k + 1]][feature];
+        if (leftCount < minSamplesLeaf || rightCount < minSamplesLeaf || current === next) continue;
+
+        const leftVar = leftSq / leftCount - Math.pow(leftSum / leftCount, 2);
+        const rightSum = total - leftSum;
+        const rightVar = (totalSq - leftSq) / rightCount - Math.pow(rightSum / rightCount, 2);
+        // Взвешенное снижение примеси по числу объектов в узле
+        const gain = n * impurity - leftCount * leftVar - rightCount * rightVar;
+
+        if (gain > minImpurityDecrease * n && (!best || gain > best.gain)) {
+          best = { feature, threshold: (current + next) / 2, gain, left: [], right: [] };
+        }
+      }
+    }
+
+    if (!best) return null;
+    const { feature, threshold } = best;
+    best.left = indices.filter(i => this.X[i][feature] <= threshold);
+    best.right = indices.filter(i => this.X[i][feature] > threshold);
+    return best;
+  }
+
+  private candidateFeatures(): number[] {
+    const nFeatures = this.X[0].length;
+    const all = Array.from({ length: nFeatures }, (_, i) => i);
+    const maxFeatures = this.config.maxFeatures;
+    if (!maxFeatures || maxFeatures >= nFeatures) return all;
+
+    // Частичная перетасовка Фишера-Йетса
+    for (let i = 0; i < maxFeatures; i++) {
+      const j = i + Math.floor(this.random() * (nFeatures - i));
+      [all[i], all[j]] = [all[j], all[i]];
+    }
+    return all.slice(0, maxFeatures);
+  }
+
+  private variance(indices: number[]): number {
+    if (indices.length === 0) return 0;
+    const mean = indices.reduce((sum, i) => sum + this.y[i], 0) / indices.length;
+    return indices.reduce((sum, i) => sum + Math.pow(this.y[i] - mean, 2), 0) / indices.length;
+  }
+}
+
+/**
+ * Обход дерева до листа
+ */
+export function predictTree(node: TreeNode, features: number[]): number {
+  let current = node;
+  while (current.prediction === undefined) {
+    const value = features[current.feature!] || 0;
+    current = value <= current.threshold! ? current.left! : current.right!;
+  }
+  return current.prediction;
+}
+
+/**
+ * Вероятность роста по случайному лесу; без деревьев — 0.5
+ */
+export function predictRandomForest(model: RandomForestModel, features: number[]): number {
+  if (model.trees.length === 0) return 0.5;
+  return model.trees.reduce((sum, tree) => sum + predictTree(tree.root, features), 0) / model.trees.length;
+}
+
+/**
+ * Вероятность роста по градиентному бустингу; без раундов — sigmoid(baseScore)
+ */
+export function predictGradientBoosting(model: XGBoostModel, features: number[]): number {
+  const logit = model.boosters.reduce(
+    (sum, booster) => sum + model.learningRate * booster.trees.reduce((s, tree) => s + predictTree(tree.root, features), 0),
+    model.baseScore
+  );
+  return sigmoid(logit);
+}
+
+export function createEmptyRandomForest(nFeatures = 0): RandomForestModel {
+  return { trees: [], featureImportance: Array(nFeatures).fill(0), nTrees: 0 };
+}
+
+export function createEmptyGradientBoosting(nFeatures = 0): XGBoostModel {
+  return {
+    boosters: [],
+    baseScore: 0,
+    learningRate: DEFAULT_GRADIENT_BOOSTING_CONFIG.learningRate,
+    maxDepth: DEFAULT_GRADIENT_BOOSTING_CONFIG.maxDepth,
+    nEstimators: 0,
+    featureImportance: Array(nFeatures).fill(0)
+  };
+}
+
+/**
+ * Случайный лес классификации: бутстрэп строк и случайное подмножество признаков (sqrt) в каждом узле
+ */
+export function trainRandomForest(
+  samples: TrainingSample[],
+  config: Partial<RandomForestConfig> = {}
+): RandomForestModel {
+  validateSamples(samples);
+  const X = samples.map(s => s.features);
+  const y = samples.map(s => s.target);
+  const nFeatures = X[0].length;
+  const cfg: RandomForestConfig = {
+    ...DEFAULT_RANDOM_FOREST_CONFIG,
+    maxFeatures: Math.max(1, Math.round(Math.sqrt(nFeatures))),
+    ...config
+  };
+  const random = createSeededRandom(cfg.seed);
+  const importance = Array(nFeatures).fill(0);
+  const mean: LeafValue = indices => indices.reduce((sum, i) => sum + y[i], 0) / indices.length;
+  const builder = new CartBuilder(X, y, cfg, random, importance, mean);
+  const sampleSize = Math.max(1, Math.round(samples.length * cfg.subsample));
+
+  const trees = Array.from({ length: cfg.nTrees }, () => {
+    const bootstrap = Array.from({ length: sampleSize }, () => Math.floor(random() * samples.length));
+    return builder.build(bootstrap);
+  });
+
+  return { trees, featureImportance: normalizeImportance(importance), nTrees: cfg.nTrees };
+}
+
+/**
+ * Градиентный бустинг по log-loss: каждое дерево аппроксимирует остатки y - p,
+ * значения листьев — шаг Ньютона sum(r) / sum(p(1 - p))
+ */
+export function trainGradientBoosting(
+  samples: TrainingSample[],
+  config: Partial<GradientBoostingConfig> = {}
+): XGBoostModel {
+  validateSamples(samples);
+  const cfg: GradientBoostingConfig = { ...DEFAULT_GRADIENT_BOOSTING_CONFIG, ...config };
+  const X = samples.map(s => s.features);
+  const y = samples.map(s => s.target);
+  const nFeatures = X[0].length;
+  const random = createSeededRandom(cfg.seed);
+  const importance = Array(nFeatures).fill(0);
+
+  const positiveRate = clampProbability(y.reduce((sum, v) => sum + v, 0) / y.length);
+  const baseScore = Math.log(positiveRate / (1 - positiveRate));
+  const logits = Array(samples.length).fill(baseScore);
+  const boosters: GradientBooster[] = [];
+  const allIndices = Array.from({ length: samples.length }, (_, i) => i);
+  const rowsPerRound = Math.max(1, Math.round(samples.length * cfg.subsample));
+
+  for (let round = 0; round < cfg.nEstimators; round++) {
+    const probabilities = logits.map(sigmoid);
+    const residuals = y.map((target, i) => target - probabilities[i]);
+
+    const newton: LeafValue = indices => {
+      const numerator = indices.reduce((sum, i) => sum + residuals[i], 0);
+      const denominator = indices.reduce((sum, i) => sum + probabilities[i] * (1 - probabilities[i]), 0);
+      return denominator < 1e-12 ? 0 : numerator / denominator;
+    };
+    const builder = new CartBuilder(X, residuals, cfg, random, importance, newton);
+    const rows = cfg.subsample < 1 ? sampleWithoutReplacement(allIndices, rowsPerRound, random) : allIndices;
+    const tree = builder.build(rows);
+
+    for (let i = 0; i < samples.length; i++) {
+      logits[i] += cfg.learningRate * predictTree(tree.root, X[i]);
+    }
+    boosters.push({ trees: [tree], gamma: cfg.minImpurityDecrease });
+  }
+
+  return {
+    boosters,
+    baseScore,
+    learningRate: cfg.learningRate,
+    maxDepth: cfg.maxDepth,
+    nEstimators: cfg.nEstimators,
+    featureImportance: normalizeImportance(importance)
+  };
+}
+
+function sampleWithoutReplacement(indices: number[], count: number, random: () => number): number[] {
+  const pool = [...indices];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+function normalizeImportance(importance: number[]): number[] {
+  const total = importance.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? importance.map(v => v / total) : importance;
+}
+
+function validateSamples(samples: TrainingSample[]): void {
+  if (samples.length === 0) {
+    throw new Error('No training samples');
+  }
+  const nFeatures = samples[0].features.length;
+  if (nFeatures === 0 || samples.some(s => s.features.length !== nFeatures)) {
+    throw new Error('All samples must have the same non-zero number of features');
+  }
+}
@@ -0,0 +1,198 @@
+import { CandleData } from '@/types/session';
+import { TechnicalIndicatorService } from '@/services/indicators/TechnicalIndicators';
+
+export type BarrierTouch = 'profit_take' | 'stop_loss' | 'vertical' | 'expiry';
+
+/** Position direction: 1 long, -1 short */
+export type TradeSide = 1 | -1;
+
+export interface TripleBarrierConfig {
+  /** Profit-take distance in ATRs; 0 disables the barrier */
+  profitTakeMultiplier: number;
+  /** Stop-loss distance in ATRs; 0 disables the barrier */
+  stopLossMultiplier: number;
+  /** Vertical barrier: maximum holding period in candles */
+  maxHoldingPeriod: number;
+  atrPeriod: number;
+  /** Vertical-barrier returns smaller than this (in absolute terms) are labeled 0 */
+  minReturn?: number;
+}
+
+export interface BarrierLabel {
+  /** Candle index of the event (entry at its close) */
+  index: number;
+  /** Candle index where the first barrier was touched */
+  endIndex: number;
+  touch: BarrierTouch;
+  side: TradeSide;
+  /** 1 profitable, -1 losing, 0 flat, from the side's point of view */
+  label: -1 | 0 | 1;
+  /** Side-adjusted return from entry to exit */
+  return: number;
+  upperBarrier: number;
+  lowerBarrier: number;
+}
+
+export interface MetaLabel {
+  index: number;
+  endIndex: number;
+  side: TradeSide;
+  /** 1 - the primary signal should be taken, 0 - skipped */
+  label: 0 | 1;
+  return: number;
+}
+
+export const DEFAULT_TRIPLE_BARRIER_CONFIG: TripleBarrierConfig = {
+  profitTakeMultiplier: 2,
+  stopLossMultiplier: 1,
+  maxHoldingPeriod: 10,
+  atrPeriod: 14
+};
+
+/**
+ * Triple-barrier labels (López de Prado): profit-take and stop-loss are scaled
+ * by the ATR at entry, the vertical barrier closes the event after maxHoldingPeriod.
+ * Events without a full holding window ahead are not labeled.
+ */
+export function getTripleBarrierLabels(
+  candles: CandleData[],
+  config: Partial<TripleBarrierConfig> = {},
+  sides?: Array<TradeSide | 0>
+): BarrierLabel[] {
+  const settings = { ...DEFAULT_TRIPLE_BARRIER_CONFIG, ...config };
+  const labels: BarrierLabel[] = [];
+
+  for (let i = settings.atrPeriod; i + settings.maxHoldingPeriod < candles.length; i++) {
+    const side = sides ? sides[i] : 1;
+    if (!side) continue;
+
+    const entry = candles[i].close;
+    const atr = TechnicalIndicatorService.calculateATR(candles.slice(i - settings.atrPeriod, i + 1));
+    if (atr <= 0) continue;
+
+    const profitDistance = settings.profitTakeMultiplier > 0 ? settings.profitTakeMultiplier * atr : Infinity;
+    const lossDistance = settings.stopLossMultiplier > 0 ? settings.stopLossMultiplier * atr : Infinity;
+    const upperBarrier = entry + (side === 1 ? profitDistance : lossDistance);
+    const lowerBarrier = entry - (side === 1 ? lossDistance : profitDistance);
+
+    labels.push(scanBarriers(candles, i, side, upperBarrier, lowerBarrier, settings));
+  }
+
+  return labels;
+}
+
+function scanBarriers(
+  candles: CandleData[],
+  index: number,
+  side: TradeSide,
+  upperBarrier: number,
+  lowerBarrier: number,
+  config: TripleBarrierConfig
+): BarrierLabel {
+  const entry = candles[index].close;
+  const event = { index, side, upperBarrier, lowerBarrier };
+
+  for (let j = index + 1; j <= index + config.maxHoldingPeriod; j++) {
+    const hitUpper = candles[j].high >= upperBarrier;
+    const hitLower = candles[j].low <= lowerBarrier;
+    if (!hitUpper && !hitLower) continue;
+
+    // Both barriers inside one candle: the order is unknown, assume the stop-loss came first
+    const stopHit = side === 1 ? hitLower : hitUpper;
+    const exit = stopHit
+      ? (side === 1 ? lowerBarrier : upperBarrier)
+      : (side === 1 ? upperBarrier : lowerBarrier);
+
+    return {
+      ...event,
+      endIndex: j,
+      touch: stopHit ? 'stop_loss' : 'profit_take',
+      label: stopHit ? -1 : 1,
+      return: side * (exit - entry) / entry
+    };
+  }
+
+  const endIndex = index + config.maxHoldingPeriod;
+  const ret = side * (candles[endIndex].close - entry) / entry;
+  return {
+    ...event,
+    endIndex,
+    touch: 'vertical',
+    label: Math.abs(ret) <= (config.minReturn ?? 0) ? 0 : (ret > 0 ? 1 : -1),
+    return: ret
+  };
+}
+
+/**
+ * Binary-option variant: only the close at expiry matters, not the path
+ */
+export function getExpiryLabels(
+  candles: CandleData[],
+  expiryCandles: number,
+  sides?: Array<TradeSide | 0>
+): BarrierLabel[] {
+  if (expiryCandles < 1) {
+    throw new Error(`Invalid expiry: ${expiryCandles} candles`);
+  }
+
+  const labels: BarrierLabel[] = [];
+  for (let i = 0; i + expiryCandles < candles.length; i++) {
+    const side = sides ? sides[i] : 1;
+    if (!side) continue;
+
+    const entry = candles[i].close;
+    const endIndex = i + expiryCandles;
+    const ret = side * (candles[endIndex].close - entry) / entry;
+
+    labels.push({
+      index: i,
+      endIndex,
+      touch: 'expiry',
+      side,
+      label: ret > 0 ? 1 : ret < 0 ? -1 : 0,
+      return: ret,
+      upperBarrier: entry,
+      lowerBarrier: entry
+    });
+  }
+
+  return labels;
+}
+
+/**
+ * Average uniqueness of each label: mean of 1/concurrency over the candles
+ * (index, endIndex] its return spans. Overlapping labels share their weight.
+ */
+export function getSampleUniquenessWeights(labels: Array<Pick<BarrierLabel, 'index' | 'endIndex'>>): number[] {
+  if (labels.length === 0) return [];
+
+  const lastIndex = labels.reduce((max, l) => Math.max(max, l.endIndex), 0);
+  const concurrency = new Array(lastIndex + 1).fill(0);
+  labels.forEach(label => {
+    for (let t = label.index + 1; t <= label.endIndex; t++) concurrency[t]++;
+  });
+
+  return labels.map(label => {
+    let uniqueness = 0;
+    for (let t = label.index + 1; t <= label.endIndex; t++) uniqueness += 1 / concurrency[t];
+    return uniqueness / (label.endIndex - label.index);
+  });
+}
+
+/**
+ * Meta-labels for a primary model: side comes from the primary signal,
+ * the label says whether following it would have hit profit (or closed positive)
+ */
+export function getMetaLabels(
+  candles: CandleData[],
+  primarySides: Array<TradeSide | 0>,
+  config: Partial<TripleBarrierConfig> = {}
+): MetaLabel[] {
+  return getTripleBarrierLabels(candles, config, primarySides).map(event => ({
+    index: event.index,
+    endIndex: event.endIndex,
+    side: event.side,
+    label: event.label === 1 ? 1 : 0,
+    return: event.return
+  }));
+}
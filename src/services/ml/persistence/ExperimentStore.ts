@@ -0,0 +1,339 @@
+import { TrainingExperiment } from '../AdvancedMLTrainingService';
+
+/**
+ * Долговременное хранение экспериментов: локальные хранилища (память, IndexedDB)
+ * и офлайн-first обёртка с очередью отложенных операций для удалённого хранилища
+ */
+
+export interface ExperimentArtifact {
+  experimentId: string;
+  name: string;
+  kind: 'weights' | 'model_file' | 'other';
+  /** Сериализуемое содержимое, например веса модели */
+  content: unknown;
+  createdAt: string;
+}
+
+export interface ExperimentStore {
+  putExperiment(experiment: TrainingExperiment): Promise<void>;
+  listExperiments(): Promise<TrainingExperiment[]>;
+  deleteExperiments(ids: string[]): Promise<void>;
+  putArtifact(artifact: ExperimentArtifact): Promise<void>;
+  getArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null>;
+}
+
+export type PendingOperation =
+  | { type: 'put_experiment'; experiment: TrainingExperiment }
+  | { type: 'delete_experiments'; ids: string[] }
+  | { type: 'put_artifact'; artifact: ExperimentArtifact };
+
+export interface QueuedOperation {
+  seq: number;
+  operation: PendingOperation;
+}
+
+/**
+ * Локальное хранилище дополнительно держит очередь операций, не дошедших до сервера
+ */
+export interface LocalExperimentStore extends ExperimentStore {
+  enqueue(operation: PendingOperation): Promise<void>;
+  pendingOperations(): Promise<QueuedOperation[]>;
+  removeOperation(seq: number): Promise<void>;
+}
+
+/**
+ * Даты после JSON (импорт, localStorage) приходят строками
+ */
+export function reviveExperiment(experiment: TrainingExperiment): TrainingExperiment {
+  return {
+    ...experiment,
+    startTime: new Date(experiment.startTime),
+    endTime: experiment.endTime ? new Date(experiment.endTime) : undefined
+  };
+}
+
+function cloneExperiment(experiment: TrainingExperiment): TrainingExperiment {
+  return reviveExperiment(JSON.parse(JSON.stringify(experiment)));
+}
+
+/**
+ * Хранилище в памяти — запасной вариант без IndexedDB и для тестов
+ */
+export class MemoryExperimentStore implements LocalExperimentStore {
+  private experiments = new Map<string, TrainingExperiment>();
+  private artifacts = new Map<string, ExperimentArtifact>();
+  private queue: QueuedOperation[] = [];
+  private nextSeq = 1;
+
+  async putExperiment(experiment: TrainingExperiment): Promise<void> {
+    this.experiments.set(experiment.id, cloneExperiment(experiment));
+  }
+
+  async listExperiments(): Promise<TrainingExperiment[]> {
+    return Array.from(this.experiments.values()).map(cloneExperiment);
+  }
+
+  async deleteExperiments(ids: string[]): Promise<void> {
+    ids.forEach(id => this.experiments.delete(id));
+    for (const [key, artifact] of this.artifacts.entries()) {
+      if (ids.includes(artifact.experimentId)) this.artifacts.delete(key);
+    }
+  }
+
+  async putArtifact(artifact: ExperimentArtifact): Promise<void> {
+    this.artifacts.set(`${artifact.experimentId}/${artifact.name}`, JSON.parse(JSON.stringify(artifact)));
+  }
+
+  async getArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null> {
+    return this.artifacts.get(`${experimentId}/${name}`) ?? null;
+  }
+
+  async enqueue(operation: PendingOperation): Promise<void> {
+    this.queue.push({ seq: this.nextSeq++, operation: JSON.parse(JSON.stringify(operation)) });
+  }
+
+  async pendingOperations(): Promise<QueuedOperation[]> {
+    return [...this.queue];
+  }
+
+  async removeOperation(seq: number): Promise<void> {
+    this.queue = this.queue.filter(item => item.seq !== seq);
+  }
+}
+
+const EXPERIMENTS = 'experiments';
+const ARTIFACTS = 'artifacts';
+const OUTBOX = 'outbox';
+
+/**
+ * Хранилище в IndexedDB браузера: эксперименты, артефакты и очередь синхронизации
+ */
+export class IndexedDBExperimentStore implements LocalExperimentStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private databaseName = 'forex-neural-trader-experiments') {}
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async putExperiment(experiment: TrainingExperiment): Promise<void> {
+    await this.request(EXPERIMENTS, 'readwrite', store => store.put(experiment));
+  }
+
+  async listExperiments(): Promise<TrainingExperiment[]> {
+    const rows = await this.request<TrainingExperiment[]>(EXPERIMENTS, 'readonly', store => store.getAll());
+    return rows.map(reviveExperiment);
+  }
+
+  async deleteExperiments(ids: string[]): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([EXPERIMENTS, ARTIFACTS], 'readwrite');
+      const artifacts = transaction.objectStore(ARTIFACTS);
+      ids.forEach(id => {
+        transaction.objectStore(EXPERIMENTS).delete(id);
+        artifacts.delete(IDBKeyRange.bound([id, ''], [id, '\uffff']));
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async putArtifact(artifact: ExperimentArtifact): Promise<void> {
+    await this.request(ARTIFACTS, 'readwrite', store => store.put(artifact));
+  }
+
+  async getArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null> {
+    const artifact = await this.request<ExperimentArtifact | undefined>(
+      ARTIFACTS, 'readonly', store => store.get([experimentId, name])
+    );
+    return artifact ?? null;
+  }
+
+  async enqueue(operation: PendingOperation): Promise<void> {
+    await this.request(OUTBOX, 'readwrite', store => store.add({ operation }));
+  }
+
+  async pendingOperations(): Promise<QueuedOperation[]> {
+    const rows = await this.request<QueuedOperation[]>(OUTBOX, 'readonly', store => store.getAll());
+    return rows.sort((a, b) => a.seq - b.seq);
+  }
+
+  async removeOperation(seq: number): Promise<void> {
+    await this.request(OUTBOX, 'readwrite', store => store.delete(seq));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          db.createObjectStore(EXPERIMENTS, { keyPath: 'id' });
+          db.createObjectStore(ARTIFACTS, { keyPath: ['experimentId', 'name'] });
+          db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true });
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T = unknown>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Офлайн-first: каждая запись сначала попадает в локальное хранилище,
+ * затем на сервер; при ошибке или без сети операция ставится в очередь
+ * и отправляется по событию online или при следующем sync()
+ */
+export class OfflineFirstExperimentStore implements ExperimentStore {
+  private syncPromise: Promise<number> | null = null;
+
+  constructor(
+    private remote: ExperimentStore,
+    private local: LocalExperimentStore
+  ) {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        void this.sync();
+      });
+    }
+  }
+
+  async putExperiment(experiment: TrainingExperiment): Promise<void> {
+    await this.local.putExperiment(experiment);
+    await this.pushOrQueue({ type: 'put_experiment', experiment });
+  }
+
+  async deleteExperiments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.local.deleteExperiments(ids);
+    await this.pushOrQueue({ type: 'delete_experiments', ids });
+  }
+
+  async putArtifact(artifact: ExperimentArtifact): Promise<void> {
+    await this.local.putArtifact(artifact);
+    await this.pushOrQueue({ type: 'put_artifact', artifact });
+  }
+
+  async getArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null> {
+    const cached = await this.local.getArtifact(experimentId, name);
+    if (cached || !isOnline()) return cached;
+
+    try {
+      const artifact = await this.remote.getArtifact(experimentId, name);
+      if (artifact) await this.local.putArtifact(artifact);
+      return artifact;
+    } catch (error) {
+      console.warn('Remote artifact unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Серверный список (включая эксперименты коллег) поверх ещё не отправленных
+   * локальных изменений; без сети — локальная копия
+   */
+  async listExperiments(): Promise<TrainingExperiment[]> {
+    const remaining = await this.sync();
+    if (!isOnline()) return this.local.listExperiments();
+
+    let remote: TrainingExperiment[];
+    try {
+      remote = await this.remote.listExperiments();
+    } catch (error) {
+      console.warn('Remote experiments unavailable, using offline copy:', error);
+      return this.local.listExperiments();
+    }
+
+    const pending = remaining > 0 ? await this.local.pendingOperations() : [];
+    const pendingPuts = new Set(pending.flatMap(({ operation }) =>
+      operation.type === 'put_experiment' ? [operation.experiment.id] : []
+    ));
+    const pendingDeletes = new Set(pending.flatMap(({ operation }) =>
+      operation.type === 'delete_experiments' ? operation.ids : []
+    ));
+
+    const local = await this.local.listExperiments();
+    const remoteIds = new Set(remote.map(exp => exp.id));
+
+    // Локальные записи, удалённые на сервере и не ожидающие отправки, больше не нужны
+    const stale = local.filter(exp => !remoteIds.has(exp.id) && !pendingPuts.has(exp.id)).map(exp => exp.id);
+    await this.local.deleteExperiments(stale);
+
+    const fresh = remote.filter(exp => !pendingPuts.has(exp.id) && !pendingDeletes.has(exp.id));
+    await Promise.all(fresh.map(exp => this.local.putExperiment(exp)));
+
+    return [...fresh, ...local.filter(exp => pendingPuts.has(exp.id))];
+  }
+
+  /**
+   * Отправляет очередь по порядку; останавливается на первой ошибке.
+   * Возвращает число операций, оставшихся в очереди
+   */
+  sync(): Promise<number> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.flush().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async flush(): Promise<number> {
+    const queue = await this.local.pendingOperations();
+    if (!isOnline()) return queue.length;
+
+    for (let i = 0; i < queue.length; i++) {
+      try {
+        await this.apply(queue[i].operation);
+      } catch (error) {
+        console.warn('Experiment sync postponed:', error);
+        return queue.length - i;
+      }
+      await this.local.removeOperation(queue[i].seq);
+    }
+    return 0;
+  }
+
+  private async pushOrQueue(operation: PendingOperation): Promise<void> {
+    // Пока очередь не пуста, новые операции встают за ней, чтобы сохранить порядок
+    if (isOnline() && (await this.local.pendingOperations()).length === 0) {
+      try {
+        await this.apply(operation);
+        return;
+      } catch (error) {
+        console.warn('Remote experiment store unavailable, queued for sync:', error);
+      }
+    }
+    await this.local.enqueue(operation);
+  }
+
+  private apply(operation: PendingOperation): Promise<void> {
+    switch (operation.type) {
+      case 'put_experiment':
+        return this.remote.putExperiment(reviveExperiment(operation.experiment));
+      case 'delete_experiments':
+        return this.remote.deleteExperiments(operation.ids);
+      case 'put_artifact':
+        return this.remote.putArtifact(operation.artifact);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ModelStore, PersistedModel, modelKey } from './ModelPersistenceService';
+
+/**
+ * Файловое хранилище для Node и тестов: <root>/<key>/v<version>.json
+ */
+export class FileModelStore implements ModelStore {
+  constructor(private rootDir: string) {}
+
+  async put(record: PersistedModel): Promise<void> {
+    const dir = this.keyDir(modelKey(record.modelId, record.pair, record.timeframe));
+    await fs.mkdir(dir, { recursive: true });
+
+    // Запись через временный файл, чтобы прерванное сохранение не портило версию
+    const target = path.join(dir, `v${record.version}.json`);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(record), 'utf8');
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  async getLatest(key: string): Promise<PersistedModel | null> {
+    const versions = await this.listVersions(key);
+    return versions.length > 0 ? this.getVersion(key, versions[versions.length - 1]) : null;
+  }
+
+  async getVersion(key: string, version: number): Promise<PersistedModel | null> {
+    try {
+      const content = await fs.readFile(path.join(this.keyDir(key), `v${version}.json`), 'utf8');
+      return JSON.parse(content) as PersistedModel;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async listVersions(key: string): Promise<number[]> {
+    try {
+      const files = await fs.readdir(this.keyDir(key));
+      return files
+        .map(file => /^v(\d+)\.json$/.exec(file))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => Number(match[1]))
+        .sort((a, b) => a - b);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async deleteVersion(key: string, version: number): Promise<void> {
+    await fs.rm(path.join(this.keyDir(key), `v${version}.json`), { force: true });
+  }
+
+  private keyDir(key: string): string {
+    return path.join(this.rootDir, key.replace(/[^A-Za-z0-9._-]/g, '_'));
+  }
+}
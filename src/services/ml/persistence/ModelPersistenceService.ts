@@ -0,0 +1,289 @@
+/**
+ * Хранение обученных моделей: веса, статистики нормализации и буфер
+ * обучающих примеров по паре/таймфрейму с версионированием
+ */
+
+export const MODEL_FILE_FORMAT = 'forex-neural-trader/model';
+export const MODEL_SCHEMA_VERSION = 1;
+
+export interface NormalizationStats {
+  count: number;
+  mean: number[];
+  std: number[];
+}
+
+export interface PersistedTrainingExample {
+  features: number[];
+  target: number;
+  timestamp: number;
+  actualOutcome?: number;
+}
+
+export interface PersistedModel<TWeights = unknown> {
+  modelId: string; // Например 'real-ml' или 'neural-prediction'
+  pair: string;
+  timeframe: string;
+  version: number;
+  schemaVersion: number;
+  savedAt: string;
+  architecture: { [key: string]: number | string };
+  weights: TWeights;
+  normalization: NormalizationStats | null;
+  trainingExamples: PersistedTrainingExample[];
+  metrics?: { [key: string]: number };
+}
+
+export type ModelSnapshot<TWeights> = Omit<PersistedModel<TWeights>, 'version' | 'schemaVersion' | 'savedAt'>;
+
+/**
+ * Экспортируемый файл модели
+ */
+export interface ModelFile<TWeights = unknown> {
+  format: typeof MODEL_FILE_FORMAT;
+  model: PersistedModel<TWeights>;
+}
+
+export interface ModelStore {
+  put(record: PersistedModel): Promise<void>;
+  getLatest(key: string): Promise<PersistedModel | null>;
+  getVersion(key: string, version: number): Promise<PersistedModel | null>;
+  listVersions(key: string): Promise<number[]>;
+  deleteVersion(key: string, version: number): Promise<void>;
+}
+
+export const modelKey = (modelId: string, pair: string, timeframe: string): string =>
+  `${modelId}:${pair.toUpperCase()}:${timeframe}`;
+
+const recordKey = (record: PersistedModel): string => modelKey(record.modelId, record.pair, record.timeframe);
+
+/**
+ * Хранилище в памяти — запасной вариант без IndexedDB и файловой системы
+ */
+export class MemoryModelStore implements ModelStore {
+  private records = new Map<string, Map<number, PersistedModel>>();
+
+  async put(record: PersistedModel): Promise<void> {
+    const key = recordKey(record);
+    if (!this.records.has(key)) {
+      this.records.set(key, new Map());
+    }
+    this.records.get(key)!.set(record.version, cloneModel(record));
+  }
+
+  async getLatest(key: string): Promise<PersistedModel | null> {
+    const versions = await this.listVersions(key);
+    return versions.length > 0 ? this.getVersion(key, versions[versions.length - 1]) : null;
+  }
+
+  async getVersion(key: string, version: number): Promise<PersistedModel | null> {
+    const record = this.records.get(key)?.get(version);
+    return record ? cloneModel(record) : null;
+  }
+
+  async listVersions(key: string): Promise<number[]> {
+    return [...(this.records.get(key)?.keys() ?? [])].sort((a, b) => a - b);
+  }
+
+  async deleteVersion(key: string, version: number): Promise<void> {
+    this.records.get(key)?.delete(version);
+  }
+}
+
+/**
+ * Хранилище в IndexedDB браузера: составной ключ [key, version]
+ */
+export class IndexedDBModelStore implements ModelStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName = 'forex-neural-trader-models',
+    private storeName = 'models'
+  ) {}
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async put(record: PersistedModel): Promise<void> {
+    await this.request('readwrite', store => store.put({ ...record, key: recordKey(record) }));
+  }
+
+  async getLatest(key: string): Promise<PersistedModel | null> {
+    const versions = await this.listVersions(key);
+    return versions.length > 0 ? this.getVersion(key, versions[versions.length - 1]) : null;
+  }
+
+  async getVersion(key: string, version: number): Promise<PersistedModel | null> {
+    const row = await this.request<(PersistedModel & { key: string }) | undefined>(
+      'readonly', store => store.get([key, version])
+    );
+    if (!row) return null;
+    const { key: _key, ...record } = row;
+    return record;
+  }
+
+  async listVersions(key: string): Promise<number[]> {
+    const keys = await this.request<IDBValidKey[]>(
+      'readonly',
+      store => store.getAllKeys(IDBKeyRange.bound([key, 0], [key, Number.MAX_SAFE_INTEGER]))
+    );
+    return keys.map(k => (k as [string, number])[1]).sort((a, b) => a - b);
+  }
+
+  async deleteVersion(key: string, version: number): Promise<void> {
+    await this.request('readwrite', store => store.delete([key, version]));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(this.storeName, { keyPath: ['key', 'version'] });
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T = unknown>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+function cloneModel<T>(record: PersistedModel<T>): PersistedModel<T> {
+  return JSON.parse(JSON.stringify(record));
+}
+
+/**
+ * Средние и стандартные отклонения признаков по буферу примеров
+ */
+export function computeNormalizationStats(examples: { features: number[] }[]): NormalizationStats | null {
+  if (examples.length === 0) return null;
+
+  const size = examples[0].features.length;
+  const mean = Array(size).fill(0);
+  const m2 = Array(size).fill(0);
+
+  // Welford — устойчив к накоплению ошибки на длинных буферах
+  examples.forEach((example, n) => {
+    for (let i = 0; i < size; i++) {
+      const value = example.features[i] ?? 0;
+      const delta = value - mean[i];
+      mean[i] += delta / (n + 1);
+      m2[i] += delta * (value - mean[i]);
+    }
+  });
+
+  return {
+    count: examples.length,
+    mean,
+    std: m2.map(v => Math.sqrt(v / examples.length))
+  };
+}
+
+export class ModelPersistenceService {
+  private static instance: ModelPersistenceService;
+  private store: ModelStore;
+  private maxVersions = 5;
+
+  private constructor() {
+    this.store = IndexedDBModelStore.isAvailable() ? new IndexedDBModelStore() : new MemoryModelStore();
+  }
+
+  static getInstance(): ModelPersistenceService {
+    if (!ModelPersistenceService.instance) {
+      ModelPersistenceService.instance = new ModelPersistenceService();
+    }
+    return ModelPersistenceService.instance;
+  }
+
+  /**
+   * Подмена хранилища (FileModelStore в Node и тестах)
+   */
+  setStore(store: ModelStore): void {
+    this.store = store;
+  }
+
+  setMaxVersions(maxVersions: number): void {
+    this.maxVersions = Math.max(1, maxVersions);
+  }
+
+  /**
+   * Сохраняет новую версию модели и удаляет версии сверх maxVersions
+   */
+  async save<TWeights>(snapshot: ModelSnapshot<TWeights>): Promise<PersistedModel<TWeights>> {
+    const key = modelKey(snapshot.modelId, snapshot.pair, snapshot.timeframe);
+    const versions = await this.store.listVersions(key);
+    const record: PersistedModel<TWeights> = {
+      ...snapshot,
+      pair: snapshot.pair.toUpperCase(),
+      version: (versions[versions.length - 1] ?? 0) + 1,
+      schemaVersion: MODEL_SCHEMA_VERSION,
+      savedAt: new Date().toISOString()
+    };
+
+    await this.store.put(record);
+
+    const stale = [...versions, record.version].slice(0, -this.maxVersions);
+    await Promise.all(stale.map(version => this.store.deleteVersion(key, version)));
+
+    return record;
+  }
+
+  async load<TWeights>(
+    modelId: string,
+    pair: string,
+    timeframe: string,
+    version?: number
+  ): Promise<PersistedModel<TWeights> | null> {
+    const key = modelKey(modelId, pair, timeframe);
+    const record = version === undefined
+      ? await this.store.getLatest(key)
+      : await this.store.getVersion(key, version);
+
+    if (!record || record.schemaVersion !== MODEL_SCHEMA_VERSION) return null;
+    return record as PersistedModel<TWeights>;
+  }
+
+  async listVersions(modelId: string, pair: string, timeframe: string): Promise<number[]> {
+    return this.store.listVersions(modelKey(modelId, pair, timeframe));
+  }
+
+  exportModel<TWeights>(record: PersistedModel<TWeights>): string {
+    const file: ModelFile<TWeights> = { format: MODEL_FILE_FORMAT, model: record };
+    return JSON.stringify(file);
+  }
+
+  /**
+   * Разбор файла модели; ожидаемый modelId защищает от загрузки весов чужой архитектуры
+   */
+  parseModelFile<TWeights>(json: string, expectedModelId: string): PersistedModel<TWeights> {
+    const file = JSON.parse(json) as Partial<ModelFile<TWeights>>;
+    const model = file.model;
+
+    if (file.format !== MODEL_FILE_FORMAT || !model) {
+      throw new Error('Not a model file');
+    }
+    if (model.schemaVersion !== MODEL_SCHEMA_VERSION) {
+      throw new Error(`Unsupported model schema version: ${model.schemaVersion}`);
+    }
+    if (model.modelId !== expectedModelId) {
+      throw new Error(`Model file is for ${model.modelId}, expected ${expectedModelId}`);
+    }
+    return model;
+  }
+}
+
+export const modelPersistenceService = ModelPersistenceService.getInstance();
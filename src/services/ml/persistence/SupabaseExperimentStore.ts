@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { ModelMetrics, TrainingExperiment } from '../AdvancedMLTrainingService';
+import { ExperimentArtifact, ExperimentStore } from './ExperimentStore';
+
+/**
+ * Серверное хранилище экспериментов в Supabase. Клиент передаётся снаружи,
+ * чтобы модуль не тянул браузерную инициализацию клиента
+ */
+
+type ExperimentRow = Tables<'ml_experiments'>;
+type FoldRow = Tables<'ml_experiment_folds'>;
+
+const toJson = (value: unknown): Json => JSON.parse(JSON.stringify(value ?? null));
+
+export function toExperimentRow(experiment: TrainingExperiment, teamId?: string): TablesInsert<'ml_experiments'> {
+  // Фолды хранятся отдельной таблицей, в строке остаются только агрегаты
+  const crossValidation = experiment.crossValidation
+    ? { ...experiment.crossValidation, folds: [] }
+    : null;
+
+  return {
+    id: experiment.id,
+    team_id: teamId ?? null,
+    name: experiment.name,
+    model_type: experiment.model,
+    status: experiment.status,
+    config: toJson(experiment.parameters),
+    metrics: toJson(experiment.metrics),
+    features: experiment.features,
+    cross_validation: crossValidation ? toJson(crossValidation) : null,
+    study_id: experiment.studyId ?? null,
+    trial_number: experiment.trialNumber ?? null,
+    start_time: new Date(experiment.startTime).toISOString(),
+    end_time: experiment.endTime ? new Date(experiment.endTime).toISOString() : null
+  };
+}
+
+export function fromExperimentRow(row: ExperimentRow, folds: FoldRow[] = []): TrainingExperiment {
+  const experiment: TrainingExperiment = {
+    id: row.id,
+    name: row.name,
+    model: row.model_type,
+    parameters: row.config as Record<string, unknown>,
+    metrics: row.metrics as unknown as ModelMetrics,
+    status: row.status as TrainingExperiment['status'],
+    startTime: new Date(row.start_time),
+    endTime: row.end_time ? new Date(row.end_time) : undefined,
+    features: row.features
+  };
+
+  if (row.cross_validation) {
+    experiment.crossValidation = {
+      ...(row.cross_validation as unknown as NonNullable<TrainingExperiment['crossValidation']>),
+      folds: [...folds]
+        .sort((a, b) => a.fold - b.fold)
+        .map(fold => ({
+          fold: fold.fold,
+          testRanges: fold.test_ranges as Array<[number, number]>,
+          trainSize: fold.train_size,
+          testSize: fold.test_size,
+          purgedCount: fold.purged_count,
+          metrics: fold.metrics as unknown as ModelMetrics
+        }))
+    };
+  }
+  if (row.study_id) experiment.studyId = row.study_id;
+  if (row.trial_number !== null) experiment.trialNumber = row.trial_number;
+
+  return experiment;
+}
+
+export class SupabaseExperimentStore implements ExperimentStore {
+  constructor(
+    private client: SupabaseClient<Database>,
+    private teamId?: string
+  ) {}
+
+  /**
+   * Команда для последующих записей; уже сохранённые эксперименты не переносятся
+   */
+  setTeamId(teamId?: string): void {
+    this.teamId = teamId;
+  }
+
+  async putExperiment(experiment: TrainingExperiment): Promise<void> {
+    const { error } = await this.client
+      .from('ml_experiments')
+      .upsert(toExperimentRow(experiment, this.teamId));
+    if (error) throw error;
+
+    // Набор фолдов заменяется целиком: повторный прогон мог дать другое их число
+    const { error: deleteError } = await this.client
+      .from('ml_experiment_folds')
+      .delete()
+      .eq('experiment_id', experiment.id);
+    if (deleteError) throw deleteError;
+
+    const folds = experiment.crossValidation?.folds ?? [];
+    if (folds.length === 0) return;
+
+    const { error: foldsError } = await this.client
+      .from('ml_experiment_folds')
+      .insert(folds.map(fold => ({
+        experiment_id: experiment.id,
+        fold: fold.fold,
+        test_ranges: fold.testRanges,
+        train_size: fold.trainSize,
+        test_size: fold.testSize,
+        purged_count: fold.purgedCount,
+        metrics: toJson(fold.metrics)
+      })));
+    if (foldsError) throw foldsError;
+  }
+
+  /**
+   * RLS отдаёт собственные эксперименты и эксперименты команды
+   */
+  async listExperiments(): Promise<TrainingExperiment[]> {
+    const { data: rows, error } = await this.client
+      .from('ml_experiments')
+      .select('*')
+      .order('start_time', { ascending: false });
+    if (error) throw error;
+    if (!rows || rows.length === 0) return [];
+
+    const { data: folds, error: foldsError } = await this.client
+      .from('ml_experiment_folds')
+      .select('*')
+      .in('experiment_id', rows.filter(row => row.cross_validation).map(row => row.id));
+    if (foldsError) throw foldsError;
+
+    const foldsByExperiment = new Map<string, FoldRow[]>();
+    (folds ?? []).forEach(fold => {
+      const list = foldsByExperiment.get(fold.experiment_id) ?? [];
+      list.push(fold);
+      foldsByExperiment.set(fold.experiment_id, list);
+    });
+
+    return rows.map(row => fromExperimentRow(row, foldsByExperiment.get(row.id)));
+  }
+
+  async deleteExperiments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await this.client.from('ml_experiments').delete().in('id', ids);
+    if (error) throw error;
+  }
+
+  async putArtifact(artifact: ExperimentArtifact): Promise<void> {
+    const { error } = await this.client
+      .from('ml_experiment_artifacts')
+      .upsert({
+        experiment_id: artifact.experimentId,
+        name: artifact.name,
+        kind: artifact.kind,
+        content: toJson(artifact.content),
+        created_at: artifact.createdAt
+      }, { onConflict: 'experiment_id,name' });
+    if (error) throw error;
+  }
+
+  async getArtifact(experimentId: string, name: string): Promise<ExperimentArtifact | null> {
+    const { data, error } = await this.client
+      .from('ml_experiment_artifacts')
+      .select('*')
+      .eq('experiment_id', experimentId)
+      .eq('name', name)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      experimentId: data.experiment_id,
+      name: data.name,
+      kind: data.kind as ExperimentArtifact['kind'],
+      content: data.content,
+      createdAt: data.created_at
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+/**
+ * Участники ML-команд. Команда — это просто team_id в ml_team_members:
+ * её открывает первый участник, дальше любой участник добавляет и убирает других (RLS)
+ */
+
+export interface TeamMember {
+  teamId: string;
+  userId: string;
+  joinedAt: string;
+}
+
+export class SupabaseTeamStore {
+  constructor(private client: SupabaseClient<Database>) {}
+
+  /**
+   * Команды текущего пользователя
+   */
+  async listTeams(): Promise<string[]> {
+    const userId = await this.getUserId();
+    const { data, error } = await this.client
+      .from('ml_team_members')
+      .select('team_id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(row => row.team_id);
+  }
+
+  /**
+   * Новая команда с текущим пользователем в качестве первого участника
+   */
+  async createTeam(): Promise<string> {
+    const userId = await this.getUserId();
+    const teamId = crypto.randomUUID();
+    const { error } = await this.client.from('ml_team_members').insert({ team_id: teamId, user_id: userId });
+    if (error) throw error;
+    return teamId;
+  }
+
+  async listMembers(teamId: string): Promise<TeamMember[]> {
+    const { data, error } = await this.client
+      .from('ml_team_members')
+      .select('*')
+      .eq('team_id', teamId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(row => ({ teamId: row.team_id, userId: row.user_id, joinedAt: row.created_at }));
+  }
+
+  async addMember(teamId: string, userId: string): Promise<void> {
+    const { error } = await this.client.from('ml_team_members').insert({ team_id: teamId, user_id: userId });
+    if (error) throw error;
+  }
+
+  /**
+   * Удаление участника; свой userId — выход из команды
+   */
+  async removeMember(teamId: string, userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('ml_team_members')
+      .delete()
+      .eq('team_id', teamId)
+      .eq('user_id', userId);
+    if (error) throw error;
+  }
+
+  private async getUserId(): Promise<string> {
+    const { data: { user } } = await this.client.auth.getUser();
+    if (!user) {
+      throw new Error('Пользователь не авторизован');
+    }
+    return user.id;
+  }
+}
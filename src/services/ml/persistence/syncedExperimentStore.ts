@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  IndexedDBExperimentStore,
+  MemoryExperimentStore,
+  OfflineFirstExperimentStore
+} from './ExperimentStore';
+import { SupabaseExperimentStore } from './SupabaseExperimentStore';
+import { SupabaseTeamStore } from './SupabaseTeamStore';
+
+const TEAM_STORAGE_KEY = 'ml-experiment-team';
+
+let instance: OfflineFirstExperimentStore | null = null;
+let remoteStore: SupabaseExperimentStore | null = null;
+let teamStore: SupabaseTeamStore | null = null;
+
+/**
+ * Общее хранилище приложения: Supabase с локальной копией в IndexedDB
+ * (или в памяти, если IndexedDB недоступен). Без teamId берётся команда,
+ * выбранная через setExperimentTeam
+ */
+export function getSyncedExperimentStore(teamId: string | null = getExperimentTeam()): OfflineFirstExperimentStore {
+  if (!instance) {
+    const local = IndexedDBExperimentStore.isAvailable()
+      ? new IndexedDBExperimentStore()
+      : new MemoryExperimentStore();
+    remoteStore = new SupabaseExperimentStore(supabase, teamId ?? undefined);
+    instance = new OfflineFirstExperimentStore(remoteStore, local);
+  }
+  return instance;
+}
+
+export function getExperimentTeam(): string | null {
+  return typeof localStorage !== 'undefined' ? localStorage.getItem(TEAM_STORAGE_KEY) : null;
+}
+
+/**
+ * Команда, с которой делятся новые эксперименты (null — только свои)
+ */
+export function setExperimentTeam(teamId: string | null): void {
+  if (teamId) {
+    localStorage.setItem(TEAM_STORAGE_KEY, teamId);
+  } else {
+    localStorage.removeItem(TEAM_STORAGE_KEY);
+  }
+  remoteStore?.setTeamId(teamId ?? undefined);
+}
+
+export function getTeamStore(): SupabaseTeamStore {
+  if (!teamStore) {
+    teamStore = new SupabaseTeamStore(supabase);
+  }
+  return teamStore;
+}
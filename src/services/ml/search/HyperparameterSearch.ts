@@ -0,0 +1,567 @@
+import { CandleData } from '@/types/session';
+import { createSeededRandom } from '@/lib/utils';
+import {
+  AdvancedMLTrainingService,
+  FEATURE_GROUPS,
+  ModelConfig,
+  ModelMetrics,
+  TrainingExperiment,
+  advancedMLTrainingService
+} from '../AdvancedMLTrainingService';
+import { ExperimentTracker, experimentTracker } from '../ExperimentTracker';
+
+export type SearchStrategy = 'random' | 'tpe' | 'successive_halving';
+export type SearchableParameter = 'lookbackPeriod' | 'features' | 'learningRate' | 'epochs' | 'modelType';
+
+export interface IntParameter {
+  type: 'int';
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface FloatParameter {
+  type: 'float';
+  min: number;
+  max: number;
+  /** Sample on a log scale (learning rates) */
+  log?: boolean;
+}
+
+export interface CategoricalParameter<T extends string = string> {
+  type: 'categorical';
+  values: T[];
+}
+
+export interface SubsetParameter {
+  type: 'subset';
+  values: string[];
+  minSize?: number;
+}
+
+export type ParameterSpec = IntParameter | FloatParameter | CategoricalParameter | SubsetParameter;
+
+export interface SearchSpace {
+  lookbackPeriod?: IntParameter;
+  features?: SubsetParameter;
+  learningRate?: FloatParameter;
+  epochs?: IntParameter;
+  /** Only recorded on the experiment: training uses the same network for every model type */
+  modelType?: CategoricalParameter<ModelConfig['modelType']>;
+}
+
+export type TrialParams = Partial<Pick<ModelConfig, SearchableParameter>>;
+
+export interface TPEConfig {
+  /** Random trials before the density model is used */
+  startupTrials: number;
+  /** Share of trials treated as "good" */
+  gamma: number;
+  /** Candidates drawn from the good density per suggestion */
+  candidates: number;
+}
+
+export interface HalvingConfig {
+  /** Keep 1/eta of the configurations per rung, multiply epochs by eta */
+  eta: number;
+  minEpochs: number;
+  maxEpochs: number;
+}
+
+export interface StudyConfig {
+  name: string;
+  strategy: SearchStrategy;
+  space: SearchSpace;
+  baseConfig: ModelConfig;
+  /** Maximum number of trial evaluations */
+  budget: number;
+  objective?: keyof ModelMetrics;
+  seed?: number;
+  tpe?: Partial<TPEConfig>;
+  halving?: Partial<HalvingConfig>;
+}
+
+export interface Trial {
+  number: number;
+  /** Successive halving evaluates one configuration on several rungs */
+  configId: number;
+  experimentId: string;
+  params: TrialParams;
+  /** Objective value, NaN when the experiment failed */
+  value: number;
+  /** Epochs the trial was trained with */
+  resource: number;
+  status: TrainingExperiment['status'];
+}
+
+export interface Study {
+  id: string;
+  name: string;
+  strategy: SearchStrategy;
+  objective: keyof ModelMetrics;
+  direction: 'maximize' | 'minimize';
+  status: 'running' | 'completed' | 'failed';
+  trials: Trial[];
+  space: SearchSpace;
+  startTime: Date;
+  endTime?: Date;
+}
+
+export interface ParameterImportance {
+  parameter: SearchableParameter;
+  importance: number;
+}
+
+export interface ParallelCoordinatesDimension {
+  name: SearchableParameter | 'objective';
+  kind: 'numeric' | 'categorical';
+  /** Category order for categorical axes */
+  labels?: string[];
+}
+
+export interface ParallelCoordinatesData {
+  dimensions: ParallelCoordinatesDimension[];
+  rows: Array<{
+    trial: number;
+    value: number;
+    raw: Record<string, number | string>;
+    /** Every axis mapped to [0, 1] */
+    normalized: Record<string, number>;
+  }>;
+}
+
+export const DEFAULT_SEARCH_SPACE: SearchSpace = {
+  lookbackPeriod: { type: 'int', min: 20, max: 100, step: 10 },
+  features: { type: 'subset', values: [...FEATURE_GROUPS], minSize: 1 },
+  learningRate: { type: 'float', min: 1e-4, max: 1e-1, log: true },
+  epochs: { type: 'int', min: 20, max: 200, step: 10 }
+};
+
+const DEFAULT_TPE: TPEConfig = { startupTrials: 10, gamma: 0.25, candidates: 24 };
+const DEFAULT_HALVING: HalvingConfig = { eta: 3, minEpochs: 10, maxEpochs: 90 };
+const MINIMIZED_METRICS: Array<keyof ModelMetrics> = ['maxDrawdown', 'volatility'];
+
+type ParameterValue = number | string | string[];
+type TrialRunner = Pick<AdvancedMLTrainingService, 'trainAndEvaluate'>;
+
+export class HyperparameterSearchService {
+  private studies: Map<string, Study> = new Map();
+
+  constructor(
+    private trainer: TrialRunner = advancedMLTrainingService,
+    private tracker: ExperimentTracker = experimentTracker
+  ) {}
+
+  /**
+   * Run a study to completion; every trial is registered in ExperimentTracker under the study ID
+   */
+  async runStudy(config: StudyConfig, candles: CandleData[]): Promise<Study> {
+    if (config.budget < 1) {
+      throw new Error(`Invalid search budget: ${config.budget}`);
+    }
+
+    const objective = config.objective ?? 'sharpeRatio';
+    const study: Study = {
+      id: `study_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: config.name,
+      strategy: config.strategy,
+      objective,
+      direction: MINIMIZED_METRICS.includes(objective) ? 'minimize' : 'maximize',
+      status: 'running',
+      trials: [],
+      space: config.space,
+      startTime: new Date()
+    };
+    this.studies.set(study.id, study);
+
+    const random = createSeededRandom(config.seed ?? Date.now());
+
+    try {
+      if (config.strategy === 'successive_halving') {
+        await this.runSuccessiveHalving(study, config, candles, random);
+      } else {
+        const tpe = { ...DEFAULT_TPE, ...config.tpe };
+        for (let i = 0; i < config.budget; i++) {
+          const useModel = config.strategy === 'tpe' && this.validTrials(study.trials).length >= tpe.startupTrials;
+          const params = useModel
+            ? this.suggestTPE(study, tpe, random)
+            : this.sampleRandom(config.space, random);
+          await this.evaluate(study, config, candles, params, study.trials.length + 1);
+        }
+      }
+      study.status = 'completed';
+    } catch (error) {
+      study.status = 'failed';
+      console.error(`Study ${study.id} failed:`, error);
+    }
+
+    study.endTime = new Date();
+    return study;
+  }
+
+  getStudy(id: string): Study | undefined {
+    return this.studies.get(id);
+  }
+
+  getStudies(): Study[] {
+    return Array.from(this.studies.values());
+  }
+
+  /**
+   * Best trial among those trained with the largest resource
+   */
+  getBestTrial(studyId: string): Trial | undefined {
+    const study = this.studies.get(studyId);
+    if (!study) return undefined;
+
+    const valid = this.validTrials(study.trials);
+    const maxResource = Math.max(...valid.map(t => t.resource));
+    return valid
+      .filter(t => t.resource === maxResource)
+      .reduce<Trial | undefined>((best, t) => (!best || this.score(study, t) > this.score(study, best) ? t : best), undefined);
+  }
+
+  /**
+   * Share of objective variance explained by each parameter (correlation ratio),
+   * numeric parameters are binned by quantiles; normalized to sum to 1
+   */
+  getParameterImportance(studyId: string): ParameterImportance[] {
+    const study = this.studies.get(studyId);
+    if (!study) return [];
+
+    const trials = this.validTrials(this.finalTrials(study));
+    const values = trials.map(t => t.value);
+    const mean = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+    const totalSS = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0);
+
+    const raw = this.parameters(study.space).map(parameter => {
+      if (totalSS === 0) return { parameter, importance: 0 };
+
+      const groups = new Map<string, number[]>();
+      const keys = this.groupKeys(trials.map(t => t.params[parameter] as ParameterValue), study.space[parameter]!);
+      keys.forEach((key, i) => groups.set(key, [...(groups.get(key) ?? []), values[i]]));
+
+      const betweenSS = Array.from(groups.values()).reduce((sum, group) => {
+        const groupMean = group.reduce((a, b) => a + b, 0) / group.length;
+        return sum + group.length * Math.pow(groupMean - mean, 2);
+      }, 0);
+      return { parameter, importance: betweenSS / totalSS };
+    });
+
+    const total = raw.reduce((sum, r) => sum + r.importance, 0);
+    return raw
+      .map(r => ({ ...r, importance: total > 0 ? r.importance / total : 0 }))
+      .sort((a, b) => b.importance - a.importance);
+  }
+
+  /**
+   * One row per configuration (its last rung), axes normalized for plotting
+   */
+  getParallelCoordinates(studyId: string): ParallelCoordinatesData {
+    const study = this.studies.get(studyId);
+    if (!study) return { dimensions: [], rows: [] };
+
+    const trials = this.validTrials(this.finalTrials(study));
+    const parameters = this.parameters(study.space);
+
+    const dimensions: ParallelCoordinatesDimension[] = parameters.map(name => {
+      const spec = study.space[name]!;
+      if (spec.type === 'int' || spec.type === 'float') return { name, kind: 'numeric' };
+      const labels = spec.type === 'categorical'
+        ? [...spec.values]
+        : Array.from(new Set(trials.map(t => this.subsetKey(t.params[name] as string[])))).sort();
+      return { name, kind: 'categorical', labels };
+    });
+    dimensions.push({ name: 'objective', kind: 'numeric' });
+
+    const minValue = Math.min(...trials.map(t => t.value));
+    const maxValue = Math.max(...trials.map(t => t.value));
+
+    const rows = trials.map(trial => {
+      const raw: Record<string, number | string> = {};
+      const normalized: Record<string, number> = {};
+
+      dimensions.forEach(dimension => {
+        if (dimension.name === 'objective') {
+          raw.objective = trial.value;
+          normalized.objective = maxValue > minValue ? (trial.value - minValue) / (maxValue - minValue) : 0.5;
+          return;
+        }
+
+        const value = trial.params[dimension.name] as ParameterValue;
+        const spec = study.space[dimension.name]!;
+        if (spec.type === 'int' || spec.type === 'float') {
+          raw[dimension.name] = value as number;
+          normalized[dimension.name] = this.toUnit(value as number, spec);
+        } else {
+          const label = Array.isArray(value) ? this.subsetKey(value) : String(value);
+          const labels = dimension.labels!;
+          raw[dimension.name] = label;
+          normalized[dimension.name] = labels.length > 1 ? labels.indexOf(label) / (labels.length - 1) : 0.5;
+        }
+      });
+
+      return { trial: trial.number, value: trial.value, raw, normalized };
+    });
+
+    return { dimensions, rows };
+  }
+
+  private async runSuccessiveHalving(
+    study: Study,
+    config: StudyConfig,
+    candles: CandleData[],
+    random: () => number
+  ): Promise<void> {
+    const { eta, minEpochs, maxEpochs } = { ...DEFAULT_HALVING, ...config.halving };
+    // Every rung costs at least one trial, so a small budget gets a shorter ladder
+    const rungs = Math.min(
+      config.budget,
+      Math.floor(Math.log(maxEpochs / minEpochs) / Math.log(eta) + 1e-9) + 1
+    );
+
+    // Largest starting population whose rungs fit into the budget
+    let initial = 1;
+    while (this.halvingCost(initial + 1, eta, rungs) <= config.budget) initial++;
+
+    // Epochs are the resource here, so they are not sampled
+    const { epochs: _epochs, ...space } = config.space;
+    let population = Array.from({ length: initial }, (_, i) => ({
+      configId: i + 1,
+      params: this.sampleRandom(space, random)
+    }));
+
+    for (let rung = 0; rung < rungs; rung++) {
+      const epochs = rung === rungs - 1 ? maxEpochs : Math.round(minEpochs * Math.pow(eta, rung));
+      const results: Array<{ configId: number; params: TrialParams; trial: Trial }> = [];
+
+      for (const candidate of population) {
+        const trial = await this.evaluate(study, config, candles, candidate.params, candidate.configId, epochs);
+        results.push({ ...candidate, trial });
+      }
+
+      const survivors = Math.max(1, Math.floor(population.length / eta));
+      population = results
+        .sort((a, b) => this.score(study, b.trial) - this.score(study, a.trial))
+        .slice(0, survivors);
+    }
+  }
+
+  private halvingCost(initial: number, eta: number, rungs: number): number {
+    let cost = 0;
+    let population = initial;
+    for (let rung = 0; rung < rungs; rung++) {
+      cost += population;
+      population = Math.max(1, Math.floor(population / eta));
+    }
+    return cost;
+  }
+
+  private async evaluate(
+    study: Study,
+    config: StudyConfig,
+    candles: CandleData[],
+    params: TrialParams,
+    configId: number,
+    epochs?: number
+  ): Promise<Trial> {
+    const number = study.trials.length + 1;
+    const modelConfig: ModelConfig = { ...config.baseConfig, ...params, ...(epochs !== undefined && { epochs }) };
+
+    const experiment = await this.trainer.trainAndEvaluate(`${study.name} #${number}`, modelConfig, candles);
+    experiment.studyId = study.id;
+    experiment.trialNumber = number;
+    this.tracker.addExperiment(experiment);
+
+    const metric = experiment.metrics[study.objective];
+    const trial: Trial = {
+      number,
+      configId,
+      experimentId: experiment.id,
+      params,
+      value: experiment.status === 'completed' && Number.isFinite(metric) ? metric : NaN,
+      resource: modelConfig.epochs ?? 0,
+      status: experiment.status
+    };
+    study.trials.push(trial);
+    return trial;
+  }
+
+  /**
+   * Independent TPE: draw candidates from the density of good trials,
+   * keep the one with the highest l(x)/g(x)
+   */
+  private suggestTPE(study: Study, tpe: TPEConfig, random: () => number): TrialParams {
+    const ranked = this.validTrials(study.trials).sort((a, b) => this.score(study, b) - this.score(study, a));
+    const goodCount = Math.max(1, Math.ceil(tpe.gamma * ranked.length));
+    const good = ranked.slice(0, goodCount).map(t => t.params);
+    const bad = ranked.slice(goodCount).map(t => t.params);
+    if (bad.length === 0) return this.sampleRandom(study.space, random);
+
+    const parameters = this.parameters(study.space);
+    let best: TrialParams = {};
+    let bestRatio = -Infinity;
+
+    for (let c = 0; c < tpe.candidates; c++) {
+      const candidate: Record<string, ParameterValue> = {};
+      let ratio = 0;
+
+      parameters.forEach(name => {
+        const spec = study.space[name]!;
+        const goodValues = good.map(p => p[name] as ParameterValue);
+        const badValues = bad.map(p => p[name] as ParameterValue);
+        const value = this.sampleFromDensity(spec, goodValues, random);
+        candidate[name] = value;
+        ratio += Math.log(this.density(spec, goodValues, value)) - Math.log(this.density(spec, badValues, value));
+      });
+
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        best = candidate as TrialParams;
+      }
+    }
+
+    return best;
+  }
+
+  private sampleRandom(space: SearchSpace, random: () => number): TrialParams {
+    const params: Record<string, ParameterValue> = {};
+    this.parameters(space).forEach(name => {
+      params[name] = this.sampleFromDensity(space[name]!, [], random);
+    });
+    return params as TrialParams;
+  }
+
+  /**
+   * Parzen estimator with a uniform prior component; no observations gives the prior
+   */
+  private sampleFromDensity(spec: ParameterSpec, observations: ParameterValue[], random: () => number): ParameterValue {
+    switch (spec.type) {
+      case 'int':
+      case 'float': {
+        const points = observations.map(v => this.toUnit(v as number, spec));
+        const pick = Math.floor(random() * (points.length + 1));
+        const unit = pick === points.length
+          ? random()
+          : Math.min(1, Math.max(0, points[pick] + this.bandwidth(points) * this.gaussian(random)));
+        return this.fromUnit(unit, spec);
+      }
+      case 'categorical': {
+        const weights = spec.values.map(v => observations.filter(o => o === v).length + 1);
+        return spec.values[this.pickWeighted(weights, random)];
+      }
+      case 'subset': {
+        const subset = spec.values.filter(v => {
+          const included = observations.filter(o => (o as string[]).includes(v)).length;
+          return random() < (included + 1) / (observations.length + 2);
+        });
+        while (subset.length < (spec.minSize ?? 1)) {
+          const missing = spec.values.filter(v => !subset.includes(v));
+          subset.push(missing[Math.floor(random() * missing.length)]);
+        }
+        return spec.values.filter(v => subset.includes(v));
+      }
+    }
+  }
+
+  private density(spec: ParameterSpec, observations: ParameterValue[], value: ParameterValue): number {
+    switch (spec.type) {
+      case 'int':
+      case 'float': {
+        const points = observations.map(v => this.toUnit(v as number, spec));
+        const x = this.toUnit(value as number, spec);
+        const h = this.bandwidth(points);
+        const kernels = points.reduce(
+          (sum, p) => sum + Math.exp(-0.5 * Math.pow((x - p) / h, 2)) / (h * Math.sqrt(2 * Math.PI)),
+          0
+        );
+        return (kernels + 1) / (points.length + 1);
+      }
+      case 'categorical':
+        return (observations.filter(o => o === value).length + 1) / (observations.length + spec.values.length);
+      case 'subset':
+        return spec.values.reduce((product, v) => {
+          const included = observations.filter(o => (o as string[]).includes(v)).length;
+          const p = (included + 1) / (observations.length + 2);
+          return product * ((value as string[]).includes(v) ? p : 1 - p);
+        }, 1);
+    }
+  }
+
+  private groupKeys(values: ParameterValue[], spec: ParameterSpec): string[] {
+    if (spec.type === 'categorical') return values.map(String);
+    if (spec.type === 'subset') return values.map(v => this.subsetKey(v as string[]));
+
+    // Quantile bins by rank
+    const bins = Math.min(4, values.length);
+    const order = values.map((v, i) => ({ v: v as number, i })).sort((a, b) => a.v - b.v);
+    const keys = new Array<string>(values.length);
+    order.forEach(({ i }, rank) => { keys[i] = String(Math.floor(rank * bins / values.length)); });
+    return keys;
+  }
+
+  private toUnit(value: number, spec: IntParameter | FloatParameter): number {
+    if (spec.max === spec.min) return 0.5;
+    if (spec.type === 'float' && spec.log) {
+      return (Math.log(value) - Math.log(spec.min)) / (Math.log(spec.max) - Math.log(spec.min));
+    }
+    return (value - spec.min) / (spec.max - spec.min);
+  }
+
+  private fromUnit(unit: number, spec: IntParameter | FloatParameter): number {
+    if (spec.type === 'float') {
+      return spec.log
+        ? Math.exp(Math.log(spec.min) + unit * (Math.log(spec.max) - Math.log(spec.min)))
+        : spec.min + unit * (spec.max - spec.min);
+    }
+    const step = spec.step ?? 1;
+    const steps = Math.round(unit * (spec.max - spec.min) / step);
+    return Math.min(spec.max, spec.min + steps * step);
+  }
+
+  private bandwidth(points: number[]): number {
+    if (points.length < 2) return 0.25;
+    const mean = points.reduce((a, b) => a + b, 0) / points.length;
+    const std = Math.sqrt(points.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / points.length);
+    return Math.max(0.05, 1.06 * std * Math.pow(points.length, -0.2));
+  }
+
+  private gaussian(random: () => number): number {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  }
+
+  private pickWeighted(weights: number[], random: () => number): number {
+    let target = random() * weights.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i];
+      if (target < 0) return i;
+    }
+    return weights.length - 1;
+  }
+
+  private subsetKey(values: string[]): string {
+    return [...values].sort().join('+');
+  }
+
+  private parameters(space: SearchSpace): SearchableParameter[] {
+    return (Object.keys(space) as SearchableParameter[]).filter(name => space[name] !== undefined);
+  }
+
+  private finalTrials(study: Study): Trial[] {
+    const byConfig = new Map<number, Trial>();
+    study.trials.forEach(trial => byConfig.set(trial.configId, trial));
+    return Array.from(byConfig.values());
+  }
+
+  private validTrials(trials: Trial[]): Trial[] {
+    return trials.filter(t => Number.isFinite(t.value));
+  }
+
+  private score(study: Study, trial: Trial): number {
+    if (!Number.isFinite(trial.value)) return -Infinity;
+    return study.direction === 'maximize' ? trial.value : -trial.value;
+  }
+}
+
+export const hyperparameterSearchService = new HyperparameterSearchService();
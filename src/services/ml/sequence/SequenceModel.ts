@@ -0,0 +1,520 @@
+import { createSeededRandom } from '@/lib/utils';
+
+export type RecurrentCellType = 'lstm' | 'gru';
+
+export interface SequenceModelConfig {
+  cellType: RecurrentCellType;
+  inputSize: number;
+  hiddenSize: number;
+  sequenceLength: number;
+  seed?: number;
+}
+
+export interface SequenceTrainingConfig {
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  beta1: number;
+  beta2: number;
+  epsilon: number;
+  clipNorm: number; // Максимальная L2-норма градиента по всем параметрам
+  patience: number; // Эпох без улучшения validation loss до остановки
+  minDelta: number;
+  seed: number;
+}
+
+export interface SequenceSample {
+  sequence: number[][]; // [sequenceLength][inputSize], последний шаг — текущая свеча
+  target: number; // 1 — рост, 0 — падение
+}
+
+export interface EpochStats {
+  epoch: number;
+  trainLoss: number;
+  validationLoss: number;
+  validationAccuracy: number;
+}
+
+export interface SequenceTrainingResult {
+  model: SerializedSequenceModel;
+  history: EpochStats[];
+  bestEpoch: number;
+  stoppedEarly: boolean;
+}
+
+export interface SerializedSequenceModel {
+  config: SequenceModelConfig;
+  parameters: { [name: string]: number[] };
+  normalization?: { mean: number[]; std: number[] };
+}
+
+export const DEFAULT_SEQUENCE_TRAINING: SequenceTrainingConfig = {
+  epochs: 30,
+  batchSize: 32,
+  learningRate: 0.005,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+  clipNorm: 5,
+  patience: 5,
+  minDelta: 1e-4,
+  seed: 42
+};
+
+type Parameters = { [name: string]: Float64Array };
+
+interface StepCache {
+  x: number[];
+  hPrev: Float64Array;
+  cPrev: Float64Array;
+  gates: Float64Array; // LSTM: i, f, g, o; GRU: z, r, n
+  c: Float64Array;
+  hiddenCandidate: Float64Array; // GRU: Un·h + bUn
+  h: Float64Array;
+}
+
+const sigmoid = (x: number): number => 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
+const LOG_EPSILON = 1e-12;
+
+/**
+ * Рекуррентная сеть (LSTM или GRU) с одним выходом-вероятностью роста.
+ * Обучение — backpropagation through time по всей последовательности
+ */
+export class SequenceModel {
+  readonly config: SequenceModelConfig;
+  private params: Parameters;
+
+  constructor(config: SequenceModelConfig, parameters?: { [name: string]: ArrayLike<number> }) {
+    if (config.inputSize <= 0 || config.hiddenSize <= 0 || config.sequenceLength <= 0) {
+      throw new Error('Sequence model sizes must be positive');
+    }
+    this.config = config;
+    this.params = parameters ? this.copyParameters(parameters) : this.initializeParameters();
+  }
+
+  static fromJSON(serialized: SerializedSequenceModel): SequenceModel {
+    return new SequenceModel(serialized.config, serialized.parameters);
+  }
+
+  toJSON(): SerializedSequenceModel {
+    const parameters: { [name: string]: number[] } = {};
+    Object.entries(this.params).forEach(([name, values]) => {
+      parameters[name] = Array.from(values);
+    });
+    return { config: this.config, parameters };
+  }
+
+  getParameters(): Parameters {
+    return this.params;
+  }
+
+  setParameters(parameters: Parameters): void {
+    this.params = this.copyParameters(parameters);
+  }
+
+  predict(sequence: number[][]): number {
+    const steps = this.forward(sequence);
+    return sigmoid(this.outputLogit(steps[steps.length - 1].h));
+  }
+
+  /**
+   * Средний log-loss по батчу и градиенты всех параметров
+   */
+  lossAndGradients(batch: SequenceSample[]): { loss: number; gradients: Parameters } {
+    const gradients = this.zeroLike();
+    let loss = 0;
+
+    for (const sample of batch) {
+      const steps = this.forward(sample.sequence);
+      const last = steps[steps.length - 1];
+      const p = sigmoid(this.outputLogit(last.h));
+      loss -= sample.target * Math.log(p + LOG_EPSILON) + (1 - sample.target) * Math.log(1 - p + LOG_EPSILON);
+
+      const dLogit = p - sample.target;
+      const { hiddenSize } = this.config;
+      const dh = new Float64Array(hiddenSize);
+      for (let j = 0; j < hiddenSize; j++) {
+        gradients.Wy[j] += dLogit * last.h[j];
+        dh[j] = dLogit * this.params.Wy[j];
+      }
+      gradients.by[0] += dLogit;
+
+      if (this.config.cellType === 'lstm') {
+        this.backwardLstm(steps, dh, gradients);
+      } else {
+        this.backwardGru(steps, dh, gradients);
+      }
+    }
+
+    const scale = 1 / Math.max(1, batch.length);
+    Object.values(gradients).forEach(g => g.forEach((v, i) => { g[i] = v * scale; }));
+    return { loss: loss * scale, gradients };
+  }
+
+  evaluate(samples: SequenceSample[]): { loss: number; accuracy: number } {
+    if (samples.length === 0) return { loss: 0, accuracy: 0 };
+    let loss = 0;
+    let correct = 0;
+
+    for (const sample of samples) {
+      const p = this.predict(sample.sequence);
+      loss -= sample.target * Math.log(p + LOG_EPSILON) + (1 - sample.target) * Math.log(1 - p + LOG_EPSILON);
+      if ((p > 0.5 ? 1 : 0) === sample.target) correct++;
+    }
+
+    return { loss: loss / samples.length, accuracy: correct / samples.length };
+  }
+
+  private forward(sequence: number[][]): StepCache[] {
+    if (sequence.length === 0) {
+      throw new Error('Empty sequence');
+    }
+    const { hiddenSize } = this.config;
+    const steps: StepCache[] = [];
+    let h = new Float64Array(hiddenSize);
+    let c = new Float64Array(hiddenSize);
+
+    for (const x of sequence) {
+      const step = this.config.cellType === 'lstm' ? this.lstmStep(x, h, c) : this.gruStep(x, h);
+      steps.push(step);
+      h = step.h;
+      c = step.c;
+    }
+    return steps;
+  }
+
+  private lstmStep(x: number[], hPrev: Float64Array, cPrev: Float64Array): StepCache {
+    const H = this.config.hiddenSize;
+    const gates = this.affine(x, hPrev, 4 * H);
+    const c = new Float64Array(H);
+    const h = new Float64Array(H);
+
+    for (let j = 0; j < H; j++) {
+      const i = sigmoid(gates[j]);
+      const f = sigmoid(gates[H + j]);
+      const g = Math.tanh(gates[2 * H + j]);
+      const o = sigmoid(gates[3 * H + j]);
+      gates[j] = i;
+      gates[H + j] = f;
+      gates[2 * H + j] = g;
+      gates[3 * H + j] = o;
+      c[j] = f * cPrev[j] + i * g;
+      h[j] = o * Math.tanh(c[j]);
+    }
+
+    return { x, hPrev, cPrev, gates, c, hiddenCandidate: new Float64Array(0), h };
+  }
+
+  private gruStep(x: number[], hPrev: Float64Array): StepCache {
+    const H = this.config.hiddenSize;
+    const I = this.config.inputSize;
+    const { W, U, b, bUn } = this.params;
+    const gates = new Float64Array(3 * H);
+    const hiddenCandidate = new Float64Array(H);
+    const h = new Float64Array(H);
+
+    for (let row = 0; row < 3 * H; row++) {
+      let sum = b[row];
+      for (let k = 0; k < I; k++) sum += W[row * I + k] * (x[k] || 0);
+      if (row < 2 * H) {
+        for (let k = 0; k < H; k++) sum += U[row * H + k] * hPrev[k];
+        gates[row] = sigmoid(sum);
+      } else {
+        let recurrent = bUn[row - 2 * H];
+        for (let k = 0; k < H; k++) recurrent += U[row * H + k] * hPrev[k];
+        hiddenCandidate[row - 2 * H] = recurrent;
+        gates[row] = sum; // Достраивается после вычисления r
+      }
+    }
+
+    for (let j = 0; j < H; j++) {
+      const z = gates[j];
+      const r = gates[H + j];
+      const n = Math.tanh(gates[2 * H + j] + r * hiddenCandidate[j]);
+      gates[2 * H + j] = n;
+      h[j] = (1 - z) * n + z * hPrev[j];
+    }
+
+    return { x, hPrev, cPrev: new Float64Array(0), gates, c: new Float64Array(0), hiddenCandidate, h };
+  }
+
+  private backwardLstm(steps: StepCache[], dhLast: Float64Array, grads: Parameters): void {
+    const H = this.config.hiddenSize;
+    let dh = dhLast;
+    let dcNext = new Float64Array(H);
+    const dz = new Float64Array(4 * H);
+
+    for (let t = steps.length - 1; t >= 0; t--) {
+      const { gates, c, cPrev } = steps[t];
+      const dc = new Float64Array(H);
+
+      for (let j = 0; j < H; j++) {
+        const i = gates[j], f = gates[H + j], g = gates[2 * H + j], o = gates[3 * H + j];
+        const tanhC = Math.tanh(c[j]);
+        dc[j] = dcNext[j] + dh[j] * o * (1 - tanhC * tanhC);
+
+        dz[j] = dc[j] * g * i * (1 - i);
+        dz[H + j] = dc[j] * cPrev[j] * f * (1 - f);
+        dz[2 * H + j] = dc[j] * i * (1 - g * g);
+        dz[3 * H + j] = dh[j] * tanhC * o * (1 - o);
+        dc[j] *= f;
+      }
+
+      dh = this.accumulateAffineGradients(steps[t], dz, 4 * H, grads);
+      dcNext = dc;
+    }
+  }
+
+  private backwardGru(steps: StepCache[], dhLast: Float64Array, grads: Parameters): void {
+    const H = this.config.hiddenSize;
+    const { U } = this.params;
+    let dh = dhLast;
+    const dz = new Float64Array(3 * H);
+
+    for (let t = steps.length - 1; t >= 0; t--) {
+      const { gates, hPrev, hiddenCandidate } = steps[t];
+      const dhPrevDirect = new Float64Array(H);
+      const dCandidate = new Float64Array(H);
+
+      for (let j = 0; j < H; j++) {
+        const z = gates[j], r = gates[H + j], n = gates[2 * H + j];
+        const dn = dh[j] * (1 - z);
+        const dan = dn * (1 - n * n);
+
+        dz[j] = dh[j] * (hPrev[j] - n) * z * (1 - z);
+        dz[H + j] = dan * hiddenCandidate[j] * r * (1 - r);
+        dz[2 * H + j] = dan;
+        dCandidate[j] = dan * r;
+        dhPrevDirect[j] = dh[j] * z;
+      }
+
+      // Рекуррентная часть кандидата: Un·h + bUn
+      for (let j = 0; j < H; j++) {
+        grads.bUn[j] += dCandidate[j];
+        const row = (2 * H + j) * H;
+        for (let k = 0; k < H; k++) {
+          grads.U[row + k] += dCandidate[j] * hPrev[k];
+          dhPrevDirect[k] += U[row + k] * dCandidate[j];
+        }
+      }
+
+      // Входные веса для z, r, n и рекуррентные только для z, r
+      const dhGates = this.accumulateAffineGradients(steps[t], dz, 3 * H, grads, 2 * H);
+      dh = dhPrevDirect.map((v, k) => v + dhGates[k]);
+    }
+  }
+
+  /**
+   * Градиенты W·x + U·h + b; recurrentRows ограничивает строки с рекуррентным вкладом
+   */
+  private accumulateAffineGradients(
+    step: StepCache,
+    dz: Float64Array,
+    rows: number,
+    grads: Parameters,
+    recurrentRows: number = rows
+  ): Float64Array {
+    const I = this.config.inputSize;
+    const H = this.config.hiddenSize;
+    const { U } = this.params;
+    const dhPrev = new Float64Array(H);
+
+    for (let row = 0; row < rows; row++) {
+      const d = dz[row];
+      if (d === 0) continue;
+      grads.b[row] += d;
+      for (let k = 0; k < I; k++) grads.W[row * I + k] += d * (step.x[k] || 0);
+      if (row < recurrentRows) {
+        for (let k = 0; k < H; k++) {
+          grads.U[row * H + k] += d * step.hPrev[k];
+          dhPrev[k] += U[row * H + k] * d;
+        }
+      }
+    }
+    return dhPrev;
+  }
+
+  private affine(x: number[], hPrev: Float64Array, rows: number): Float64Array {
+    const I = this.config.inputSize;
+    const H = this.config.hiddenSize;
+    const { W, U, b } = this.params;
+    const out = new Float64Array(rows);
+
+    for (let row = 0; row < rows; row++) {
+      let sum = b[row];
+      for (let k = 0; k < I; k++) sum += W[row * I + k] * (x[k] || 0);
+      for (let k = 0; k < H; k++) sum += U[row * H + k] * hPrev[k];
+      out[row] = sum;
+    }
+    return out;
+  }
+
+  private outputLogit(h: Float64Array): number {
+    let logit = this.params.by[0];
+    for (let j = 0; j < h.length; j++) logit += this.params.Wy[j] * h[j];
+    return logit;
+  }
+
+  private initializeParameters(): Parameters {
+    const { inputSize: I, hiddenSize: H, cellType } = this.config;
+    const random = createSeededRandom(this.config.seed ?? 42);
+    const gateCount = cellType === 'lstm' ? 4 : 3;
+    const xavier = (size: number, fanIn: number, fanOut: number) => {
+      const limit = Math.sqrt(6 / (fanIn + fanOut));
+      return Float64Array.from({ length: size }, () => (random() * 2 - 1) * limit);
+    };
+
+    const params: Parameters = {
+      W: xavier(gateCount * H * I, I, H),
+      U: xavier(gateCount * H * H, H, H),
+      b: new Float64Array(gateCount * H),
+      Wy: xavier(H, H, 1),
+      by: new Float64Array(1)
+    };
+
+    if (cellType === 'lstm') {
+      params.b.fill(1, H, 2 * H); // Смещение forget gate = 1 для стабильного начала обучения
+    } else {
+      params.bUn = new Float64Array(H);
+    }
+    return params;
+  }
+
+  private zeroLike(): Parameters {
+    const zeros: Parameters = {};
+    Object.entries(this.params).forEach(([name, values]) => {
+      zeros[name] = new Float64Array(values.length);
+    });
+    return zeros;
+  }
+
+  private copyParameters(parameters: { [name: string]: ArrayLike<number> }): Parameters {
+    const copy: Parameters = {};
+    Object.entries(parameters).forEach(([name, values]) => {
+      copy[name] = Float64Array.from(values);
+    });
+    return copy;
+  }
+}
+
+/**
+ * Оптимизатор Adam с поправкой смещения моментов
+ */
+export class AdamOptimizer {
+  private m: Parameters = {};
+  private v: Parameters = {};
+  private step = 0;
+
+  constructor(private config: Pick<SequenceTrainingConfig, 'learningRate' | 'beta1' | 'beta2' | 'epsilon'>) {}
+
+  apply(parameters: Parameters, gradients: Parameters): void {
+    const { learningRate, beta1, beta2, epsilon } = this.config;
+    this.step++;
+    const correction1 = 1 - Math.pow(beta1, this.step);
+    const correction2 = 1 - Math.pow(beta2, this.step);
+
+    Object.entries(parameters).forEach(([name, values]) => {
+      const grad = gradients[name];
+      const m = this.m[name] ??= new Float64Array(values.length);
+      const v = this.v[name] ??= new Float64Array(values.length);
+
+      for (let i = 0; i < values.length; i++) {
+        m[i] = beta1 * m[i] + (1 - beta1) * grad[i];
+        v[i] = beta2 * v[i] + (1 - beta2) * grad[i] * grad[i];
+        values[i] -= learningRate * (m[i] / correction1) / (Math.sqrt(v[i] / correction2) + epsilon);
+      }
+    });
+  }
+}
+
+/**
+ * Масштабирует градиенты, если их общая L2-норма превышает maxNorm; возвращает норму до обрезки
+ */
+export function clipGradients(gradients: Parameters, maxNorm: number): number {
+  let sumSquares = 0;
+  Object.values(gradients).forEach(g => g.forEach(v => { sumSquares += v * v; }));
+  const norm = Math.sqrt(sumSquares);
+
+  if (norm > maxNorm && norm > 0) {
+    const scale = maxNorm / norm;
+    Object.values(gradients).forEach(g => g.forEach((v, i) => { g[i] = v * scale; }));
+  }
+  return norm;
+}
+
+/**
+ * Мини-батчевое обучение с Adam, обрезкой градиента и ранней остановкой по validation loss.
+ * Возвращаются параметры лучшей эпохи
+ */
+export function trainSequenceModel(
+  train: SequenceSample[],
+  validation: SequenceSample[],
+  modelConfig: SequenceModelConfig,
+  trainingConfig: Partial<SequenceTrainingConfig> = {},
+  onEpoch?: (stats: EpochStats) => void
+): SequenceTrainingResult {
+  if (train.length === 0) {
+    throw new Error('No training sequences');
+  }
+
+  const cfg = { ...DEFAULT_SEQUENCE_TRAINING, ...trainingConfig };
+  const model = new SequenceModel({ seed: cfg.seed, ...modelConfig });
+  const optimizer = new AdamOptimizer(cfg);
+  const random = createSeededRandom(cfg.seed);
+  const monitor = validation.length > 0 ? validation : train;
+
+  const history: EpochStats[] = [];
+  let bestLoss = Infinity;
+  let bestEpoch = 0;
+  let bestParameters = model.toJSON().parameters;
+  let epochsWithoutImprovement = 0;
+  let stoppedEarly = false;
+
+  for (let epoch = 1; epoch <= cfg.epochs; epoch++) {
+    const order = shuffle(train.map((_, i) => i), random);
+    let trainLoss = 0;
+
+    for (let start = 0; start < order.length; start += cfg.batchSize) {
+      const batch = order.slice(start, start + cfg.batchSize).map(i => train[i]);
+      const { loss, gradients } = model.lossAndGradients(batch);
+      clipGradients(gradients, cfg.clipNorm);
+      optimizer.apply(model.getParameters(), gradients);
+      trainLoss += loss * batch.length;
+    }
+
+    const evaluation = model.evaluate(monitor);
+    const stats: EpochStats = {
+      epoch,
+      trainLoss: trainLoss / train.length,
+      validationLoss: evaluation.loss,
+      validationAccuracy: evaluation.accuracy
+    };
+    history.push(stats);
+    onEpoch?.(stats);
+
+    if (evaluation.loss < bestLoss - cfg.minDelta) {
+      bestLoss = evaluation.loss;
+      bestEpoch = epoch;
+      bestParameters = model.toJSON().parameters;
+      epochsWithoutImprovement = 0;
+    } else if (++epochsWithoutImprovement >= cfg.patience) {
+      stoppedEarly = epoch < cfg.epochs;
+      break;
+    }
+  }
+
+  return {
+    model: { config: model.config, parameters: bestParameters },
+    history,
+    bestEpoch,
+    stoppedEarly
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -0,0 +1,43 @@
+import { EpochStats } from './SequenceModel';
+import { SequenceTrainingJobResult, SequenceTrainingRequest, runSequenceTrainingJob } from './SequenceTrainingJob';
+
+export type SequenceWorkerMessage =
+  | { type: 'epoch'; stats: EpochStats }
+  | { type: 'done'; result: SequenceTrainingJobResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Запуск обучения в Web Worker; без поддержки воркеров (Node, тесты) — в текущем потоке
+ */
+export async function trainSequenceModelInWorker(
+  request: SequenceTrainingRequest,
+  onEpoch?: (stats: EpochStats) => void
+): Promise<SequenceTrainingJobResult> {
+  if (typeof Worker === 'undefined') {
+    return runSequenceTrainingJob(request, onEpoch);
+  }
+
+  const { createSequenceWorker } = await import('./createSequenceWorker');
+  const worker = createSequenceWorker();
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<SequenceWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'epoch') {
+        onEpoch?.(message.stats);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Sequence training worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
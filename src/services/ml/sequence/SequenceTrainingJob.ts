@@ -0,0 +1,107 @@
+import { FeatureVector, ModelConfig, advancedMLTrainingService } from '../AdvancedMLTrainingService';
+import {
+  EpochStats,
+  SequenceModel,
+  SequenceModelConfig,
+  SequenceSample,
+  SequenceTrainingConfig,
+  SequenceTrainingResult,
+  trainSequenceModel
+} from './SequenceModel';
+
+/**
+ * Задание на обучение: признаки по свечам в хронологическом порядке
+ * с меткой направления, доли разбиения берутся из ModelConfig
+ */
+export interface SequenceTrainingRequest {
+  features: FeatureVector[];
+  split: Pick<ModelConfig, 'trainingRatio' | 'validationRatio'>;
+  model: Omit<SequenceModelConfig, 'inputSize'>;
+  training?: Partial<SequenceTrainingConfig>;
+}
+
+export interface SequenceTrainingJobResult extends SequenceTrainingResult {
+  trainSequences: number;
+  validationSequences: number;
+  testAccuracy?: number;
+}
+
+/**
+ * Стандартизация по статистикам обучающей части, чтобы валидация не влияла на масштаб
+ */
+export function fitStandardization(rows: number[][]): { mean: number[]; std: number[] } {
+  const size = rows[0]?.length ?? 0;
+  const mean = Array(size).fill(0);
+  const std = Array(size).fill(0);
+
+  rows.forEach(row => row.forEach((v, i) => { mean[i] += v / rows.length; }));
+  rows.forEach(row => row.forEach((v, i) => { std[i] += Math.pow(v - mean[i], 2) / rows.length; }));
+
+  return { mean, std: std.map(v => Math.sqrt(v) || 1) };
+}
+
+export function applyStandardization(row: number[], stats: { mean: number[]; std: number[] }): number[] {
+  return row.map((v, i) => (v - stats.mean[i]) / stats.std[i]);
+}
+
+/**
+ * Окна длины sequenceLength, заканчивающиеся на индексах [start, end);
+ * контекст окна может заходить в предыдущую часть ряда
+ */
+export function buildSequenceSamples(
+  rows: number[][],
+  labels: number[],
+  sequenceLength: number,
+  start = 0,
+  end = rows.length
+): SequenceSample[] {
+  const samples: SequenceSample[] = [];
+  for (let i = Math.max(start, sequenceLength - 1); i < end; i++) {
+    samples.push({ sequence: rows.slice(i - sequenceLength + 1, i + 1), target: labels[i] });
+  }
+  return samples;
+}
+
+/**
+ * Общая часть для Web Worker и синхронного запуска без воркера
+ */
+export function runSequenceTrainingJob(
+  request: SequenceTrainingRequest,
+  onEpoch?: (stats: EpochStats) => void
+): SequenceTrainingJobResult {
+  const labeled = request.features.filter(f => f.label !== undefined);
+  if (labeled.length === 0) {
+    throw new Error('No labeled feature vectors');
+  }
+
+  const { train, validation } = advancedMLTrainingService.splitTimeSeriesData(labeled, request.split as ModelConfig);
+  const stats = fitStandardization(train.map(f => f.features));
+  const rows = labeled.map(f => applyStandardization(f.features, stats));
+  const labels = labeled.map(f => f.label!);
+  const { sequenceLength } = request.model;
+
+  const trainSamples = buildSequenceSamples(rows, labels, sequenceLength, 0, train.length);
+  const validationEnd = train.length + validation.length;
+  const validationSamples = buildSequenceSamples(rows, labels, sequenceLength, train.length, validationEnd);
+  const testSamples = buildSequenceSamples(rows, labels, sequenceLength, validationEnd, rows.length);
+
+  const result = trainSequenceModel(
+    trainSamples,
+    validationSamples,
+    { ...request.model, inputSize: rows[0].length },
+    request.training,
+    onEpoch
+  );
+
+  const testAccuracy = testSamples.length > 0
+    ? SequenceModel.fromJSON(result.model).evaluate(testSamples).accuracy
+    : undefined;
+
+  return {
+    ...result,
+    model: { ...result.model, normalization: stats },
+    trainSequences: trainSamples.length,
+    validationSequences: validationSamples.length,
+    testAccuracy
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Отдельный модуль, чтобы import.meta и сборка воркера не затрагивали окружения без Worker
+ */
+export function createSequenceWorker(): Worker {
+  return new Worker(new URL('./sequenceTraining.worker.ts', import.meta.url), { type: 'module' });
+}
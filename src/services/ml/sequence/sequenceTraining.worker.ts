@@ -0,0 +1,19 @@
+/// <reference lib="webworker" />
+import { SequenceTrainingRequest, runSequenceTrainingJob } from './SequenceTrainingJob';
+import type { SequenceWorkerMessage } from './SequenceTrainingClient';
+
+/**
+ * Обучение рекуррентной модели вне основного потока
+ */
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (event: MessageEvent<SequenceTrainingRequest>) => {
+  const post = (message: SequenceWorkerMessage) => ctx.postMessage(message);
+
+  try {
+    const result = runSequenceTrainingJob(event.data, stats => post({ type: 'epoch', stats }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,5 +1,12 @@
 import { CandleData } from '@/types/session';
 import { PredictionResult, PredictionConfig } from '@/types/trading';
+import {
+  MODEL_SCHEMA_VERSION,
+  NormalizationStats,
+  PersistedModel,
+  computeNormalizationStats,
+  modelPersistenceService
+} from './ml/persistence/ModelPersistenceService';
 
 interface NetworkWeights {
   inputToHidden: number[][];
@@ -14,6 +21,8 @@ interface TrainingExample {
   timestamp: number;
 }
 
+const MODEL_ID = 'neural-prediction';
+
 export class NeuralPredictionService {
   private static instance: NeuralPredictionService;
   private weights: NetworkWeights;
@@ -23,9 +32,15 @@ export class NeuralPredictionService {
   private readonly learningRate = 0.01;
   private readonly momentum = 0.8;
   private previousDeltaWeights: { hiddenToOutput: number[]; inputToHidden: number[][]; } | null = null;
+  private pair = 'DEFAULT';
+  private timeframe = 'DEFAULT';
+  private normalizationStats: NormalizationStats | null = null;
+  private savedVersion = 0;
+  private restorePromise: Promise<boolean>;
 
   private constructor() {
     this.initializeWeights();
+    this.restorePromise = this.restoreModel();
   }
 
   static getInstance(): NeuralPredictionService {
@@ -433,6 +448,99 @@ export class NeuralPredictionService {
         this.weights.hiddenBias[i] += this.learningRate * hiddenDelta;
       }
     }
+
+    await this.saveModel();
+  }
+
+  // Сохранение и восстановление весов по паре/таймфрейму
+
+  whenRestored(): Promise<boolean> {
+    return this.restorePromise;
+  }
+
+  async useModel(pair: string, timeframe: string): Promise<boolean> {
+    await this.restorePromise;
+    this.pair = pair.toUpperCase();
+    this.timeframe = timeframe;
+    this.initializeWeights();
+    this.trainingData = [];
+    this.previousDeltaWeights = null;
+    this.normalizationStats = null;
+    this.savedVersion = 0;
+    this.restorePromise = this.restoreModel();
+    return this.restorePromise;
+  }
+
+  async saveModel(): Promise<PersistedModel<NetworkWeights> | null> {
+    try {
+      const record = await modelPersistenceService.save<NetworkWeights>({
+        ...this.createSnapshot(),
+        normalization: computeNormalizationStats(this.trainingData.map(e => ({ features: e.input })))
+      });
+      this.savedVersion = record.version;
+      this.normalizationStats = record.normalization;
+      return record;
+    } catch (error) {
+      console.warn('Failed to save neural model:', error);
+      return null;
+    }
+  }
+
+  exportModel(): string {
+    return modelPersistenceService.exportModel<NetworkWeights>({
+      ...this.createSnapshot(),
+      version: this.savedVersion,
+      schemaVersion: MODEL_SCHEMA_VERSION,
+      savedAt: new Date().toISOString()
+    });
+  }
+
+  async importModel(json: string): Promise<void> {
+    const record = modelPersistenceService.parseModelFile<NetworkWeights>(json, MODEL_ID);
+    await this.restorePromise;
+    if (!this.applyRecord(record)) {
+      throw new Error('Model file does not match the network architecture');
+    }
+    await this.saveModel();
+  }
+
+  private async restoreModel(): Promise<boolean> {
+    try {
+      const record = await modelPersistenceService.load<NetworkWeights>(MODEL_ID, this.pair, this.timeframe);
+      return record ? this.applyRecord(record) : false;
+    } catch (error) {
+      console.warn('Failed to restore neural model:', error);
+      return false;
+    }
+  }
+
+  private createSnapshot() {
+    return {
+      modelId: MODEL_ID,
+      pair: this.pair,
+      timeframe: this.timeframe,
+      architecture: { inputSize: this.inputSize, hiddenSize: this.hiddenSize },
+      weights: this.weights,
+      normalization: this.normalizationStats,
+      trainingExamples: this.trainingData.map(e => ({ features: e.input, target: e.target, timestamp: e.timestamp }))
+    };
+  }
+
+  private applyRecord(record: PersistedModel<NetworkWeights>): boolean {
+    const { inputSize, hiddenSize } = record.architecture;
+    if (inputSize !== this.inputSize || hiddenSize !== this.hiddenSize) {
+      console.warn(`Stored neural model ${record.version} has a different architecture, ignoring`);
+      return false;
+    }
+
+    this.pair = record.pair;
+    this.timeframe = record.timeframe;
+    this.weights = record.weights;
+    this.trainingData = record.trainingExamples.map(e => ({ input: [...e.features], target: e.target, timestamp: e.timestamp }));
+    this.normalizationStats = record.normalization;
+    this.savedVersion = record.version;
+    this.previousDeltaWeights = null;
+    return true;
   }
 
   // Обновление с фактическими результатами
@@ -451,6 +559,10 @@ export class NeuralPredictionService {
       trainingExamples: this.trainingData.length,
       networkSize: `${this.inputSize}→${this.hiddenSize}→1`,
       learningRate: this.learningRate,
+      pair: this.pair,
+      timeframe: this.timeframe,
+      version: this.savedVersion,
+      normalization: this.normalizationStats,
       lastTrainingTime: this.trainingData.length > 0 ? new Date(this.trainingData[this.trainingData.length - 1].timestamp) : null
     };
   }
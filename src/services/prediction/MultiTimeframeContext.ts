@@ -0,0 +1,188 @@
+import { CandleData } from '@/types/session';
+import { parseTimeframe } from '@/utils/dateTimeUtils';
+import { CandleAlignment, resampleCandles } from '../data/CandleResampler';
+import { TechnicalIndicatorService } from '../indicators/TechnicalIndicators';
+
+const MINUTE_MS = 60 * 1000;
+const CANDIDATE_TIMEFRAMES = ['5m', '15m', '1h', '4h', '1d'];
+const DEFAULT_TIMEFRAME_COUNT = 3;
+
+/** Сколько закрытых свечей старшего таймфрейма берём для расчёта состояния */
+const HIGHER_TIMEFRAME_LOOKBACK = 30;
+const MIN_HIGHER_TIMEFRAME_CANDLES = 5;
+const EMA_PERIOD = 20;
+const SLOPE_LAG = 3;
+
+/** Признаков на один таймфрейм в блоке getMultiTimeframeFeatures */
+export const FEATURES_PER_TIMEFRAME = 4;
+
+export interface TimeframeState {
+  timeframe: string;
+  /** Хватило ли закрытых свечей для расчёта */
+  available: boolean;
+  /** Начало последней закрытой свечи старшего таймфрейма */
+  lastClosedCandle: string | null;
+  /** 1 — восходящий, -1 — нисходящий, 0 — без тренда */
+  trend: -1 | 0 | 1;
+  /** Отклонение close от EMA в средних диапазонах свечи, 0..1 */
+  strength: number;
+  rsi: number;
+  /** Относительное отклонение close от EMA */
+  closeVsEma: number;
+}
+
+export interface MultiTimeframeContext {
+  baseTimeframe: string;
+  states: TimeframeState[];
+  /** Согласованность трендов старших таймфреймов: 1 — все вверх, -1 — все вниз */
+  trendAlignment: number;
+  dominantTrend: 'UP' | 'DOWN' | 'SIDEWAYS';
+}
+
+export interface MultiTimeframeOptions {
+  /** Старшие таймфреймы; по умолчанию три ближайших кратных базовому */
+  timeframes?: string[];
+  alignment?: CandleAlignment;
+}
+
+/**
+ * Таймфрейм по медианному шагу между свечами
+ */
+export const inferTimeframe = (candles: CandleData[]): string | null => {
+  const gaps: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const gap = new Date(candles[i].candle_datetime).getTime() - new Date(candles[i - 1].candle_datetime).getTime();
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return null;
+
+  gaps.sort((a, b) => a - b);
+  const minutes = Math.round(gaps[Math.floor(gaps.length / 2)] / MINUTE_MS);
+  return minutes > 0 ? `${minutes}m` : null;
+};
+
+export const getDefaultHigherTimeframes = (baseTimeframe: string): string[] => {
+  const base = parseTimeframe(baseTimeframe);
+  return CANDIDATE_TIMEFRAMES
+    .filter(tf => parseTimeframe(tf) > base && parseTimeframe(tf) % base === 0)
+    .slice(0, DEFAULT_TIMEFRAME_COUNT);
+};
+
+const emptyState = (timeframe: string): TimeframeState => ({
+  timeframe,
+  available: false,
+  lastClosedCandle: null,
+  trend: 0,
+  strength: 0,
+  rsi: 50,
+  closeVsEma: 0
+});
+
+const emaSeries = (values: number[], period: number): number[] => {
+  const k = 2 / (Math.min(period, values.length) + 1);
+  const series: number[] = [];
+  values.forEach((value, i) => series.push(i === 0 ? value : value * k + series[i - 1] * (1 - k)));
+  return series;
+};
+
+const computeState = (timeframe: string, candles: CandleData[]): TimeframeState => {
+  if (candles.length < MIN_HIGHER_TIMEFRAME_CANDLES) return emptyState(timeframe);
+
+  const closes = candles.map(c => c.close);
+  const ema = emaSeries(closes, EMA_PERIOD);
+  const last = candles[candles.length - 1];
+  const emaNow = ema[ema.length - 1];
+  const emaBefore = ema[Math.max(0, ema.length - 1 - SLOPE_LAG)];
+  const slope = emaNow - emaBefore;
+
+  const ranges = candles.slice(-14).map(c => c.high - c.low);
+  const avgRange = ranges.reduce((sum, r) => sum + r, 0) / ranges.length;
+  const deviation = last.close - emaNow;
+
+  let trend: TimeframeState['trend'] = 0;
+  if (deviation > 0 && slope > 0) trend = 1;
+  else if (deviation < 0 && slope < 0) trend = -1;
+
+  return {
+    timeframe,
+    available: true,
+    lastClosedCandle: last.candle_datetime,
+    trend,
+    strength: avgRange > 0 ? Math.min(1, Math.abs(deviation) / avgRange) : 0,
+    rsi: TechnicalIndicatorService.calculateRSI(candles, 14),
+    closeVsEma: emaNow !== 0 ? deviation / emaNow : 0
+  };
+};
+
+/**
+ * Контекст старших таймфреймов на момент закрытия свечи currentIndex.
+ * Учитываются только полностью закрытые к этому моменту старшие свечи — без заглядывания вперёд
+ */
+export function buildMultiTimeframeContext(
+  candles: CandleData[],
+  currentIndex: number,
+  baseTimeframe: string,
+  options: MultiTimeframeOptions = {}
+): MultiTimeframeContext | null {
+  const current = candles[currentIndex];
+  if (!current) return null;
+
+  const alignment = options.alignment ?? 'broker';
+  const baseMinutes = parseTimeframe(baseTimeframe);
+  const timeframes = options.timeframes ?? getDefaultHigherTimeframes(baseTimeframe);
+  const currentClose = new Date(current.candle_datetime).getTime() + baseMinutes * MINUTE_MS;
+
+  const states = timeframes.map(timeframe => {
+    const minutes = parseTimeframe(timeframe);
+    if (minutes <= baseMinutes || minutes % baseMinutes !== 0) {
+      throw new Error(`Таймфрейм ${timeframe} должен быть старше и кратен ${baseTimeframe}`);
+    }
+
+    const window = (minutes / baseMinutes) * (HIGHER_TIMEFRAME_LOOKBACK + 2);
+    const windowStart = Math.max(0, currentIndex + 1 - window);
+    const higher = resampleCandles(candles.slice(windowStart, currentIndex + 1), timeframe, { alignment });
+
+    // Первая свеча окна может быть обрезана
+    if (windowStart > 0) higher.shift();
+
+    // Последняя старшая свеча ещё формируется, если текущая свеча не закрывает её
+    const last = higher[higher.length - 1];
+    if (last && new Date(last.candle_datetime).getTime() + minutes * MINUTE_MS > currentClose) {
+      higher.pop();
+    }
+
+    return computeState(timeframe, higher.slice(-HIGHER_TIMEFRAME_LOOKBACK));
+  });
+
+  const available = states.filter(s => s.available);
+  const trendAlignment = available.length > 0
+    ? available.reduce((sum, s) => sum + s.trend, 0) / available.length
+    : 0;
+
+  return {
+    baseTimeframe,
+    states,
+    trendAlignment,
+    dominantTrend: trendAlignment > 0.33 ? 'UP' : trendAlignment < -0.33 ? 'DOWN' : 'SIDEWAYS'
+  };
+}
+
+/**
+ * Блок признаков фиксированной длины: по FEATURES_PER_TIMEFRAME на таймфрейм и согласованность трендов
+ */
+export function getMultiTimeframeFeatures(context: MultiTimeframeContext): number[] {
+  const features = context.states.flatMap(state => [
+    state.trend,
+    state.strength,
+    (state.rsi - 50) / 50,
+    state.closeVsEma * 100
+  ]);
+  features.push(context.trendAlignment);
+  return features;
+}
+
+/**
+ * Согласованность старших трендов с направлением прогноза: 1 — все подтверждают, -1 — все против
+ */
+export const getTrendAlignmentScore = (direction: 'UP' | 'DOWN', context: MultiTimeframeContext): number =>
+  direction === 'UP' ? context.trendAlignment : -context.trendAlignment;
@@ -5,6 +5,12 @@ import { TechnicalIndicatorService, TechnicalIndicators } from './indicators/Tec
 import { PatternAnalysisService, PatternSignals, VolumeAnalysis } from './patterns/PatternAnalysis';
 import { AdvancedFactorsService, ModelWeights } from './prediction/AdvancedFactors';
 import { RecommendationEngine } from './prediction/RecommendationEngine';
+import {
+  MultiTimeframeContext,
+  buildMultiTimeframeContext,
+  getTrendAlignmentScore,
+  inferTimeframe
+} from './prediction/MultiTimeframeContext';
 
 // Кэш для исторических данных и метрик
 const historicalCache = new Map<string, CandleData[]>();
@@ -26,6 +32,47 @@ export const predictionService = {
     return PatternAnalysisService.analyzeVolume(candles, currentIndex);
   },
 
+  // Контекст старших таймфреймов на момент currentIndex (только закрытые старшие свечи)
+  getMultiTimeframeContext(
+    candles: CandleData[],
+    currentIndex: number,
+    config: PredictionConfig
+  ): MultiTimeframeContext | null {
+    try {
+      const baseTimeframe = config.timeframe ?? inferTimeframe(candles.slice(0, currentIndex + 1));
+      if (!baseTimeframe) return null;
+
+      const context = buildMultiTimeframeContext(candles, currentIndex, baseTimeframe);
+      return context && context.states.length > 0 ? context : null;
+    } catch (error) {
+      console.warn('Multi-timeframe context unavailable:', error);
+      return null;
+    }
+  },
+
+  // Добавляет в metadata согласованность прогноза со старшими таймфреймами
+  withTrendAlignment(prediction: PredictionResult, context: MultiTimeframeContext | null): PredictionResult {
+    if (!context) return prediction;
+
+    const metadata = prediction.metadata ?? {
+      modelAgreement: prediction.probability,
+      riskScore: 100 - prediction.confidence,
+      marketCondition: context.dominantTrend === 'SIDEWAYS' ? 'RANGING' : 'TRENDING',
+      modelBreakdown: []
+    };
+
+    return {
+      ...prediction,
+      metadata: {
+        ...metadata,
+        trendAlignment: Number(getTrendAlignmentScore(prediction.direction, context).toFixed(2)),
+        higherTimeframes: context.states
+          .filter(state => state.available)
+          .map(({ timeframe, trend, strength }) => ({ timeframe, trend, strength }))
+      }
+    };
+  },
+
   // Продвинутый генератор прогнозов с настоящей нейросетью
   async generateAdvancedPrediction(
     candles: CandleData[], 
@@ -33,12 +80,14 @@ export const predictionService = {
     config: PredictionConfig
   ): Promise<PredictionResult | null> {
     try {
+      const mtfContext = this.getMultiTimeframeContext(candles, currentIndex, config);
+
       // Используем полноценную нейросеть для прогноза
       const mlPrediction = await realMLService.generatePrediction(candles, currentIndex, config);
       
       if (mlPrediction) {
         console.log('🧠 ML прогноз сгенерирован:', mlPrediction.direction, mlPrediction.probability + '%');
-        return mlPrediction;
+        return this.withTrendAlignment(mlPrediction, mtfContext);
       }
       
       // CRITICAL FIX: Remove fallback that might return last direction
@@ -60,6 +109,11 @@ export const predictionService = {
       // Расчет факторов
       const factors = AdvancedFactorsService.calculateAdvancedFactors(current, technical, patterns, volume);
       
+      // Трендовый фактор учитывает направление старших таймфреймов
+      if (mtfContext) {
+        factors.trend = (factors.trend + (50 + mtfContext.trendAlignment * 50)) / 2;
+      }
+      
       // Применяем adaptive weights
       const weightedScore = AdvancedFactorsService.calculateWeightedScore(factors);
       
@@ -81,14 +135,14 @@ export const predictionService = {
         technical
       );
       
-      return {
+      return this.withTrendAlignment({
         direction,
         probability: Number(probability.toFixed(1)),
         confidence: Number(confidence.toFixed(1)),
         interval: config.predictionInterval,
         factors,
         recommendation
-      };
+      }, mtfContext);
       
     } catch (error) {
       console.error('Error in advanced prediction generation:', error);
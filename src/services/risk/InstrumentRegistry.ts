@@ -0,0 +1,221 @@
+export type InstrumentType = 'forex' | 'crypto';
+
+export interface InstrumentSpec {
+  symbol: string; // В формате 'EUR/USD'
+  type: InstrumentType;
+  baseCurrency: string;
+  quoteCurrency: string;
+  pipSize: number;
+  contractSize: number; // Единиц базового актива в одном лоте
+  minLot: number;
+  maxLot: number;
+  lotStep: number;
+  pricePrecision: number; // Знаков после запятой в котировке
+}
+
+/**
+ * Курсы для пересчета в валюту счета: { 'EUR/USD': 1.085, 'USD/JPY': 151.2, ... }
+ */
+export type ConversionRates = { [pair: string]: number };
+
+export interface LotSizingRequest {
+  symbol: string;
+  accountBalance: number;
+  riskPerTrade: number; // Доля счета под риском (0.01 = 1%)
+  stopDistance: number; // Расстояние до стопа в единицах цены
+  accountCurrency?: string; // По умолчанию USD
+  conversionRates?: ConversionRates;
+  entryPrice?: number; // Текущая цена самого инструмента, используется для пересчета
+}
+
+/**
+ * Настройки расчета объема в лотах для бэктестеров
+ */
+export interface LotSizingConfig {
+  accountCurrency?: string;
+  conversionRates?: ConversionRates;
+}
+
+export interface LotSizingResult {
+  symbol: string;
+  lots: number; // Округлено до шага лота; 0 — риск меньше минимального лота
+  units: number;
+  stopPips: number;
+  pipValuePerLot: number; // В валюте счета
+  quoteToAccountRate: number;
+  riskAmount: number; // Фактический риск после округления
+  riskPercent: number;
+}
+
+const DEFAULT_ACCOUNT_CURRENCY = 'USD';
+const CRYPTO_ASSETS = ['BTC', 'ETH', 'LTC', 'XRP', 'ADA', 'DOT', 'SOL', 'BNB', 'DOGE'];
+const USD_STABLECOINS = ['USDT', 'USDC']; // Пересчитываются в USD один к одному
+const QUOTE_SUFFIXES = ['USDT', 'USDC', 'USD', 'EUR', 'BTC'];
+const LOT_EPSILON = 1e-9;
+
+const asUsd = (currency: string): string =>
+  USD_STABLECOINS.includes(currency) ? DEFAULT_ACCOUNT_CURRENCY : currency;
+
+export class InstrumentRegistry {
+  private static instance: InstrumentRegistry;
+  private instruments = new Map<string, InstrumentSpec>();
+
+  private constructor() {}
+
+  static getInstance(): InstrumentRegistry {
+    if (!InstrumentRegistry.instance) {
+      InstrumentRegistry.instance = new InstrumentRegistry();
+    }
+    return InstrumentRegistry.instance;
+  }
+
+  /**
+   * Приводит 'EURUSD', 'eur_usd', 'BTCUSDT' к виду 'EUR/USD', 'BTC/USDT'
+   */
+  static normalizeSymbol(symbol: string): string {
+    const cleaned = symbol.toUpperCase().replace(/[\s_-]/g, '/');
+    if (cleaned.includes('/')) return cleaned;
+
+    if (/^[A-Z]{6}$/.test(cleaned)) {
+      return `${cleaned.slice(0, 3)}/${cleaned.slice(3)}`;
+    }
+    const suffix = QUOTE_SUFFIXES.find(q => cleaned.length > q.length && cleaned.endsWith(q));
+    return suffix ? `${cleaned.slice(0, -suffix.length)}/${suffix}` : cleaned;
+  }
+
+  register(spec: InstrumentSpec): void {
+    if (spec.pipSize <= 0 || spec.contractSize <= 0 || spec.lotStep <= 0 || spec.minLot <= 0) {
+      throw new Error(`Invalid instrument spec for ${spec.symbol}`);
+    }
+    const symbol = InstrumentRegistry.normalizeSymbol(spec.symbol);
+    this.instruments.set(symbol, { ...spec, symbol });
+  }
+
+  has(symbol: string): boolean {
+    return this.instruments.has(InstrumentRegistry.normalizeSymbol(symbol));
+  }
+
+  /**
+   * Спецификация инструмента; для незарегистрированных символов выводится по названию
+   */
+  get(symbol: string): InstrumentSpec {
+    const normalized = InstrumentRegistry.normalizeSymbol(symbol);
+    return this.instruments.get(normalized) ?? this.inferSpec(normalized);
+  }
+
+  /**
+   * Курс пересчета from → to: прямая пара, обратная или кросс через USD
+   */
+  getConversionRate(from: string, to: string, rates: ConversionRates = {}): number {
+    if (from === to) return 1;
+    if (USD_STABLECOINS.includes(from) || USD_STABLECOINS.includes(to)) {
+      return this.getConversionRate(asUsd(from), asUsd(to), rates);
+    }
+
+    const direct = rates[`${from}/${to}`];
+    if (direct > 0) return direct;
+
+    const inverse = rates[`${to}/${from}`];
+    if (inverse > 0) return 1 / inverse;
+
+    if (from !== DEFAULT_ACCOUNT_CURRENCY && to !== DEFAULT_ACCOUNT_CURRENCY) {
+      return this.getConversionRate(from, DEFAULT_ACCOUNT_CURRENCY, rates) *
+        this.getConversionRate(DEFAULT_ACCOUNT_CURRENCY, to, rates);
+    }
+
+    throw new Error(`No conversion rate from ${from} to ${to}`);
+  }
+
+  /**
+   * Курс котируемой валюты инструмента к валюте счета.
+   * Цена самого инструмента учитывается как курс base/quote (например, USD/JPY для счета в USD)
+   */
+  getQuoteToAccountRate(
+    symbol: string,
+    accountCurrency: string = DEFAULT_ACCOUNT_CURRENCY,
+    rates: ConversionRates = {},
+    price?: number
+  ): number {
+    const spec = this.get(symbol);
+    const allRates = price && price > 0 ? { ...rates, [spec.symbol]: price } : rates;
+    return this.getConversionRate(spec.quoteCurrency, accountCurrency, allRates);
+  }
+
+  /**
+   * Стоимость пипса для одного лота в валюте счета
+   */
+  getPipValuePerLot(
+    symbol: string,
+    accountCurrency: string = DEFAULT_ACCOUNT_CURRENCY,
+    rates: ConversionRates = {},
+    price?: number
+  ): number {
+    const spec = this.get(symbol);
+    return spec.pipSize * spec.contractSize * this.getQuoteToAccountRate(symbol, accountCurrency, rates, price);
+  }
+
+  /**
+   * Округляет объем вниз до шага лота в пределах [minLot, maxLot]; ниже минимума — 0
+   */
+  roundLots(symbol: string, lots: number): number {
+    const spec = this.get(symbol);
+    const stepped = Math.floor(lots / spec.lotStep + LOT_EPSILON) * spec.lotStep;
+    const decimals = Math.max(0, Math.ceil(-Math.log10(spec.lotStep)));
+    const rounded = Number(Math.min(stepped, spec.maxLot).toFixed(decimals));
+
+    return rounded + LOT_EPSILON < spec.minLot ? 0 : rounded;
+  }
+
+  /**
+   * Объем в лотах по риску на сделку и расстоянию до стопа
+   */
+  calculateLotSize(request: LotSizingRequest): LotSizingResult {
+    if (request.stopDistance <= 0) {
+      throw new Error('stopDistance must be positive');
+    }
+
+    const spec = this.get(request.symbol);
+    const accountCurrency = request.accountCurrency ?? DEFAULT_ACCOUNT_CURRENCY;
+    const quoteToAccountRate = this.getQuoteToAccountRate(
+      spec.symbol, accountCurrency, request.conversionRates, request.entryPrice
+    );
+    const pipValuePerLot = spec.pipSize * spec.contractSize * quoteToAccountRate;
+    const stopPips = request.stopDistance / spec.pipSize;
+
+    const riskBudget = request.accountBalance * request.riskPerTrade;
+    const lots = this.roundLots(spec.symbol, riskBudget / (stopPips * pipValuePerLot));
+    const riskAmount = lots * stopPips * pipValuePerLot;
+
+    return {
+      symbol: spec.symbol,
+      lots,
+      units: lots * spec.contractSize,
+      stopPips,
+      pipValuePerLot,
+      quoteToAccountRate,
+      riskAmount,
+      riskPercent: request.accountBalance > 0 ? riskAmount / request.accountBalance : 0
+    };
+  }
+
+  private inferSpec(symbol: string): InstrumentSpec {
+    const [base = symbol, quote = DEFAULT_ACCOUNT_CURRENCY] = symbol.split('/');
+
+    if (CRYPTO_ASSETS.includes(base)) {
+      return {
+        symbol, type: 'crypto', baseCurrency: base, quoteCurrency: quote,
+        pipSize: 0.01, contractSize: 1, minLot: 0.001, maxLot: 1000, lotStep: 0.001, pricePrecision: 2
+      };
+    }
+
+    const isJpy = quote === 'JPY';
+    return {
+      symbol, type: 'forex', baseCurrency: base, quoteCurrency: quote,
+      pipSize: isJpy ? 0.01 : 0.0001,
+      contractSize: 100000, minLot: 0.01, maxLot: 100, lotStep: 0.01,
+      pricePrecision: isJpy ? 3 : 5
+    };
+  }
+}
+
+export const instrumentRegistry = InstrumentRegistry.getInstance();
@@ -1,4 +1,5 @@
 import { CandleData } from '@/types/session';
+import { LotSizingRequest, LotSizingResult, instrumentRegistry } from './InstrumentRegistry';
 
 export interface RiskMetrics {
   maxDrawdown: number;
@@ -19,8 +20,14 @@ export interface PositionSizing {
   volatilityAdjusted: number;
   maximumPosition: number;
   recommendedSize: number;
+  lots?: LotSizingResult; // Объем у брокера при риске recommendedSize до стопа
 }
 
+/**
+ * Инструмент и стоп для перевода рекомендуемого риска в лоты
+ */
+export type InstrumentSizingInput = Omit<LotSizingRequest, 'accountBalance' | 'riskPerTrade'>;
+
 export interface RiskLimits {
   maxPositionSize: number;
   maxDailyLoss: number;
@@ -105,7 +112,8 @@ export class RiskManagementService {
     avgWin: number,
     avgLoss: number,
     volatility: number,
-    riskTolerance: number = 0.02
+    riskTolerance: number = 0.02,
+    instrument?: InstrumentSizingInput
   ): PositionSizing {
     // Критерий Келли
     const kellyPercentage = this.calculateKellyRatio(winRate, avgWin, avgLoss);
@@ -128,12 +136,17 @@ export class RiskManagementService {
       maximumPosition
     );
 
+    const recommended = Math.max(0.001, recommendedSize); // Минимум 0.1%
+
     return {
       kellyPercentage,
       fixedPercentage,
       volatilityAdjusted,
       maximumPosition,
-      recommendedSize: Math.max(0.001, recommendedSize) // Минимум 0.1%
+      recommendedSize: recommended,
+      lots: instrument
+        ? instrumentRegistry.calculateLotSize({ ...instrument, accountBalance, riskPerTrade: recommended })
+        : undefined
     };
   }
 
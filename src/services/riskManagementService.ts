@@ -14,6 +14,7 @@ interface PortfolioPosition {
   pnl?: number;
 }
 
+// Метрики относительно бенчмарка (beta, alpha, IR) считает только бэктест — см. BenchmarkAnalysis
 interface RiskMetrics {
   var95: number; // Value at Risk 95%
   var99: number; // Value at Risk 99%
@@ -22,10 +23,6 @@ interface RiskMetrics {
   sharpeRatio: number;
   sortinoRatio: number;
   calmarRatio: number;
-  beta: number;
-  alpha: number;
-  informationRatio: number;
-  trackingError: number;
 }
 
 interface PositionSizing {
@@ -154,11 +151,7 @@ export class RiskManagementService {
       maxDrawdown,
       sharpeRatio,
       sortinoRatio,
-      calmarRatio,
-      beta: this.calculateBeta(),
-      alpha: this.calculateAlpha(),
-      informationRatio: this.calculateInformationRatio(),
-      trackingError: this.calculateTrackingError()
+      calmarRatio
     };
   }
 
@@ -445,10 +438,6 @@ export class RiskManagementService {
   }
 
   // Заглушки для сложных расчетов
-  private calculateBeta(): number { return 1.0; }
-  private calculateAlpha(): number { return 0.05; }
-  private calculateInformationRatio(): number { return 0.5; }
-  private calculateTrackingError(): number { return 0.02; }
   private calculatePairCorrelation(symbol1: string, symbol2: string): number { return 0.3; }
   private calculateDiversificationScore(matrix: number[][]): number { return 0.8; }
   private calculateSectorExposure(): { [sector: string]: number } { return { 'Crypto': 0.6, 'Forex': 0.4 }; }
@@ -0,0 +1,108 @@
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+export interface MockTick {
+  symbol: string;
+  sequence: number;
+  price: number;
+  volume?: number;
+  timestamp?: number;
+}
+
+/**
+ * Local WebSocket feed for integration tests. Speaks a small JSON protocol:
+ * clients send {op: 'subscribe', symbols} and {op: 'ping'}, the server sends
+ * {type: 'tick', s, seq, p, v, t} and {type: 'pong'}. Tests drive disconnects,
+ * duplicates, gaps and out-of-order delivery explicitly.
+ */
+export class MockFeedServer {
+  /** Every message received from clients, in arrival order */
+  readonly received: Array<Record<string, unknown>> = [];
+  /** When false the server ignores pings, simulating a stalled feed */
+  respondToPings = true;
+  private server: WebSocketServer | null = null;
+  private clients = new Set<WebSocket>();
+
+  async start(): Promise<string> {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.server = server;
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+
+    server.on('connection', client => {
+      this.clients.add(client);
+      client.on('close', () => this.clients.delete(client));
+      client.on('message', data => {
+        const message = JSON.parse(data.toString());
+        this.received.push(message);
+        if (message.op === 'ping' && this.respondToPings) {
+          client.send(JSON.stringify({ type: 'pong' }));
+        }
+      });
+    });
+
+    return this.url;
+  }
+
+  get url(): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  /** Subscribe requests received so far (one per client connection or new symbol) */
+  get subscriptions(): string[][] {
+    return this.received.filter(m => m.op === 'subscribe').map(m => m.symbols as string[]);
+  }
+
+  async stop(): Promise<void> {
+    this.clients.forEach(client => client.terminate());
+    this.clients.clear();
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  send(message: unknown): void {
+    const payload = JSON.stringify(message);
+    this.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(payload);
+    });
+  }
+
+  sendTicks(ticks: MockTick[]): void {
+    ticks.forEach(tick => this.send({
+      type: 'tick',
+      s: tick.symbol,
+      seq: tick.sequence,
+      p: tick.price,
+      v: tick.volume ?? 1,
+      t: tick.timestamp ?? Date.now()
+    }));
+  }
+
+  /** Drops every connection without a close handshake, like a network failure */
+  dropConnections(): void {
+    this.clients.forEach(client => client.terminate());
+    this.clients.clear();
+  }
+
+  /** Polls a condition on either side of the connection */
+  waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve, reject) => {
+      const poll = () => {
+        if (check()) return resolve();
+        if (Date.now() > deadline) return reject(new Error('MockFeedServer: condition not met in time'));
+        setTimeout(poll, 5);
+      };
+      poll();
+    });
+  }
+
+  waitForConnections(count: number, timeoutMs?: number): Promise<void> {
+    return this.waitFor(() => this.clients.size >= count, timeoutMs);
+  }
+}
@@ -12,6 +12,8 @@ export interface ManualDataInputs {
 export interface PredictionConfig {
   predictionInterval: number;
   analysisMode: 'session';
+  /** Таймфрейм свечей сессии; нужен для контекста старших таймфреймов */
+  timeframe?: string;
 }
 
 export interface PredictionResult {
@@ -36,6 +38,9 @@ export interface PredictionResult {
     patternDetected?: string;
     volumeAnalysis?: string;
     riskLevel?: string;
+    /** Согласованность трендов старших таймфреймов с направлением прогноза, -1..1 */
+    trendAlignment?: number;
+    higherTimeframes?: Array<{ timeframe: string; trend: -1 | 0 | 1; strength: number }>;
   };
 }
 
@@ -1,20 +1,21 @@
+const TIMEFRAME_UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 1440
+};
+
+/**
+ * Таймфрейм в минутах: стандартные (1m, 5m, 15m, 30m, 1h, 4h, 1d) и произвольные вида 3m, 2h
+ */
 export const parseTimeframe = (timeframe: string): number => {
-  const timeframeMap: Record<string, number> = {
-    '1m': 1,
-    '5m': 5,
-    '15m': 15,
-    '30m': 30,
-    '1h': 60,
-    '4h': 240,
-    '1d': 1440
-  };
+  const match = /^(\d+)([mhd])$/.exec(timeframe ?? '');
+  const count = match ? Number(match[1]) : 0;
   
-  const minutes = timeframeMap[timeframe];
-  if (minutes === undefined) {
+  if (!match || count <= 0) {
     throw new Error(`Неподдерживаемый таймфрейм: ${timeframe}`);
   }
   
-  return minutes;
+  return count * TIMEFRAME_UNIT_MINUTES[match[2]];
 };
 
 export const formatCandleDateTime = (dateTime: string): string => {
@@ -134,3 +135,53 @@ export const validateTimeParameters = (startDate: string, startTime: string, tim
     errors
   };
 };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// UTC-метка n-го воскресенья месяца (month 0-11)
+const nthSundayUtc = (year: number, month: number, n: number): number => {
+  const firstDay = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstSunday = 1 + ((7 - firstDay) % 7);
+  return Date.UTC(year, month, firstSunday + (n - 1) * 7);
+};
+
+/**
+ * Смещение Нью-Йорка относительно UTC в часах: -4 летом (EDT), -5 зимой (EST)
+ */
+export const getNewYorkUtcOffset = (date: Date): number => {
+  const year = date.getUTCFullYear();
+  // Переход в 2:00 по местному времени: второе воскресенье марта и первое воскресенье ноября
+  const dstStart = nthSundayUtc(year, 2, 2) + 7 * HOUR_MS;
+  const dstEnd = nthSundayUtc(year, 10, 1) + 6 * HOUR_MS;
+  const time = date.getTime();
+  
+  return time >= dstStart && time < dstEnd ? -4 : -5;
+};
+
+/**
+ * Моменты FX-ролловера (17:00 Нью-Йорк) в интервале (from, to].
+ * Возвращает день недели по Нью-Йорку, чтобы вызывающий код мог учесть выходные и тройной своп
+ */
+export const getRolloversBetween = (from: Date, to: Date): { time: Date; newYorkWeekday: number }[] => {
+  const rollovers: { time: Date; newYorkWeekday: number }[] = [];
+  if (to.getTime() <= from.getTime()) {
+    return rollovers;
+  }
+  
+  const startLocal = new Date(from.getTime() + getNewYorkUtcOffset(from) * HOUR_MS);
+  let day = Date.UTC(startLocal.getUTCFullYear(), startLocal.getUTCMonth(), startLocal.getUTCDate());
+  
+  while (day <= to.getTime()) {
+    // 17:00 по Нью-Йорку = 21:00 или 22:00 UTC в зависимости от DST
+    const offset = getNewYorkUtcOffset(new Date(day + 21 * HOUR_MS));
+    const rollover = day + (17 - offset) * HOUR_MS;
+    
+    if (rollover > from.getTime() && rollover <= to.getTime()) {
+      rollovers.push({ time: new Date(rollover), newYorkWeekday: new Date(day).getUTCDay() });
+    }
+    day += DAY_MS;
+  }
+  
+  return rollovers;
+};
@@ -0,0 +1,186 @@
+-- Хранилище ML-экспериментов: конфигурации, метрики, фолды кросс-валидации и артефакты
+
+-- 1. Команды: участники видят эксперименты друг друга
+CREATE TABLE IF NOT EXISTS public.ml_team_members (
+  team_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+-- SECURITY DEFINER, чтобы политики не зацикливались на RLS самой ml_team_members
+CREATE OR REPLACE FUNCTION public.is_ml_team_member(_team_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM ml_team_members
+    WHERE ml_team_members.team_id = _team_id
+    AND ml_team_members.user_id = auth.uid()
+  );
+$function$;
+
+-- 2. Эксперименты
+CREATE TABLE IF NOT EXISTS public.ml_experiments (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id UUID,
+  name TEXT NOT NULL,
+  model_type TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  features TEXT[] NOT NULL DEFAULT '{}',
+  cross_validation JSONB,
+  study_id TEXT,
+  trial_number INTEGER,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_time TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ml_experiments ADD CONSTRAINT ml_experiments_name_length CHECK (char_length(name) <= 200);
+
+CREATE TRIGGER update_ml_experiments_updated_at
+BEFORE UPDATE ON public.ml_experiments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Результаты фолдов кросс-валидации
+CREATE TABLE IF NOT EXISTS public.ml_experiment_folds (
+  experiment_id TEXT NOT NULL REFERENCES public.ml_experiments(id) ON DELETE CASCADE,
+  fold INTEGER NOT NULL,
+  test_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  train_size INTEGER NOT NULL,
+  test_size INTEGER NOT NULL,
+  purged_count INTEGER NOT NULL DEFAULT 0,
+  metrics JSONB NOT NULL,
+  PRIMARY KEY (experiment_id, fold)
+);
+
+-- 4. Артефакты (веса, файлы моделей)
+CREATE TABLE IF NOT EXISTS public.ml_experiment_artifacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id TEXT NOT NULL REFERENCES public.ml_experiments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('weights', 'model_file', 'other')),
+  content JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (experiment_id, name)
+);
+
+-- 5. RLS: владелец управляет своими экспериментами, команда только читает
+ALTER TABLE public.ml_team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ml_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ml_experiment_folds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ml_experiment_artifacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view members of their teams" 
+ON ml_team_members 
+FOR SELECT 
+USING (auth.uid() = user_id OR public.is_ml_team_member(team_id));
+
+CREATE POLICY "Users can view their own and team experiments" 
+ON ml_experiments 
+FOR SELECT 
+USING (
+  auth.uid() = user_id
+  OR (team_id IS NOT NULL AND public.is_ml_team_member(team_id))
+);
+
+CREATE POLICY "Users can create their own experiments" 
+ON ml_experiments 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (team_id IS NULL OR public.is_ml_team_member(team_id))
+);
+
+CREATE POLICY "Users can update their own experiments" 
+ON ml_experiments 
+FOR UPDATE 
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (team_id IS NULL OR public.is_ml_team_member(team_id))
+);
+
+CREATE POLICY "Users can delete their own experiments" 
+ON ml_experiments 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view folds of visible experiments" 
+ON ml_experiment_folds 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_folds.experiment_id 
+    AND (
+      ml_experiments.user_id = auth.uid()
+      OR (ml_experiments.team_id IS NOT NULL AND public.is_ml_team_member(ml_experiments.team_id))
+    )
+  )
+);
+
+CREATE POLICY "Users can manage folds of their experiments" 
+ON ml_experiment_folds 
+FOR ALL 
+USING (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_folds.experiment_id 
+    AND ml_experiments.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_folds.experiment_id 
+    AND ml_experiments.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view artifacts of visible experiments" 
+ON ml_experiment_artifacts 
+FOR SELECT 
+USING (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_artifacts.experiment_id 
+    AND (
+      ml_experiments.user_id = auth.uid()
+      OR (ml_experiments.team_id IS NOT NULL AND public.is_ml_team_member(ml_experiments.team_id))
+    )
+  )
+);
+
+CREATE POLICY "Users can manage artifacts of their experiments" 
+ON ml_experiment_artifacts 
+FOR ALL 
+USING (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_artifacts.experiment_id 
+    AND ml_experiments.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM ml_experiments 
+    WHERE ml_experiments.id = ml_experiment_artifacts.experiment_id 
+    AND ml_experiments.user_id = auth.uid()
+  )
+);
+
+-- 6. Индексы
+CREATE INDEX IF NOT EXISTS idx_ml_team_members_user_id ON ml_team_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_ml_experiments_user_id ON ml_experiments(user_id);
+CREATE INDEX IF NOT EXISTS idx_ml_experiments_team_id ON ml_experiments(team_id);
+CREATE INDEX IF NOT EXISTS idx_ml_experiments_study_id ON ml_experiments(study_id);
+CREATE INDEX IF NOT EXISTS idx_ml_experiments_start_time ON ml_experiments(start_time);
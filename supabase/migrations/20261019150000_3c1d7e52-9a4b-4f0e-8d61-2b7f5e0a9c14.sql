@@ -0,0 +1,30 @@
+-- Управление участниками ML-команд из приложения
+
+-- SECURITY DEFINER: чужие команды скрыты RLS, а создателю нужно знать, что id свободен
+CREATE OR REPLACE FUNCTION public.ml_team_exists(_team_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM ml_team_members
+    WHERE ml_team_members.team_id = _team_id
+  );
+$function$;
+
+-- Участник добавляет других; новую команду создатель открывает, добавив себя первым
+CREATE POLICY "Members can add members to their teams" 
+ON ml_team_members 
+FOR INSERT 
+WITH CHECK (
+  public.is_ml_team_member(team_id)
+  OR (auth.uid() = user_id AND NOT public.ml_team_exists(team_id))
+);
+
+-- Участник может выйти из команды или убрать другого участника
+CREATE POLICY "Members can remove members of their teams" 
+ON ml_team_members 
+FOR DELETE 
+USING (auth.uid() = user_id OR public.is_ml_team_member(team_id));